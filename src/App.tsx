@@ -1,8 +1,21 @@
 import './App.css';
 import { WalletConnectUI } from './components/WalletConnectUI';
 import { WalletStatus } from './components/WalletStatus';
+import { FiatCurrencySelect } from './components/FiatCurrencySelect';
 import { CeloBalance } from './components/CeloBalance';
+import { StakingBalance } from './components/StakingBalance';
+import { TokenBalances } from './components/TokenBalances';
+import { AddToWallet } from './components/AddToWallet';
+import { SendForm } from './components/SendForm';
+import { NetworkGuard } from './components/NetworkGuard';
+import { SignMessage } from './components/SignMessage';
+import { StakingPanel } from './components/StakingPanel';
+import { ValidatorGroups } from './components/ValidatorGroups';
+import { GovernancePanel } from './components/GovernancePanel';
 import { TransactionHistory } from './components/TransactionHistory';
+import { AnalyticsPanel } from './components/AnalyticsPanel';
+import { EpochRewardsTimeline } from './components/EpochRewardsTimeline';
+import { AddressBook } from './components/AddressBook';
 
 function App(): JSX.Element {
   return (
@@ -13,11 +26,25 @@ function App(): JSX.Element {
       </header>
       <section className="app-topbar">
         <WalletStatus />
+        <FiatCurrencySelect />
       </section>
       <main className="app-main">
         <WalletConnectUI />
         <CeloBalance />
+        <StakingBalance />
+        <TokenBalances />
+        <AddToWallet />
+        <NetworkGuard>
+          <SendForm />
+          <SignMessage />
+          <StakingPanel />
+          <ValidatorGroups />
+          <GovernancePanel />
+        </NetworkGuard>
         <TransactionHistory className="mt-6" />
+        <AnalyticsPanel />
+        <EpochRewardsTimeline />
+        <AddressBook />
       </main>
     </div>
   );
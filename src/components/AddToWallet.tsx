@@ -0,0 +1,93 @@
+import { useAccount } from 'wagmi';
+import { CELO_CHAINS, getCeloChain } from '../config/celoChains';
+import { getTokenRegistry } from '../config/tokens';
+import { useAddToWallet, type AddToWalletState } from '../hooks/useAddToWallet';
+import type { TokenInfo } from '../types/token';
+
+interface AddToWalletProps {
+  className?: string;
+  /** Tokens offered besides the registry ones of the current chain */
+  tokens?: readonly TokenInfo[];
+}
+
+function StatusText({ state }: { state: AddToWalletState }): JSX.Element | null {
+  switch (state.status) {
+  case 'added':
+    return <span className="status-badge status-success">Added</span>;
+  case 'rejected':
+    return <span className="warning-text">Rejected in wallet</span>;
+  case 'failed':
+    return <span className="error-text">{state.error?.message ?? 'Failed'}</span>;
+  default:
+    return null;
+  }
+}
+
+/**
+ * Buttons adding the Celo networks and the current chain's tokens to the wallet
+ */
+export function AddToWallet({ className = '', tokens = [] }: AddToWalletProps): JSX.Element {
+  const { chainId } = useAccount();
+  const { isConnected, addChain, watchToken, isChainKnown, chainState, tokenState } = useAddToWallet();
+
+  if (!isConnected) {
+    return (
+      <div className={`balance-card ${className}`}>
+        <h3>Add to wallet</h3>
+        <p>Connect your wallet to add Celo networks and tokens to it.</p>
+      </div>
+    );
+  }
+
+  const chainTokens = chainId === undefined
+    ? []
+    : [...getTokenRegistry(chainId), ...tokens.filter((token) => token.chainId === chainId)];
+
+  return (
+    <div className={`balance-card ${className}`}>
+      <h3>Add to wallet</h3>
+      <ul className="token-list">
+        {CELO_CHAINS.map((chain) => {
+          const state = chainState(chain.id);
+          const known = isChainKnown(chain.id) === true;
+          return (
+            <li key={chain.id} className="token-row">
+              <span className="token-symbol">{chain.name}</span>
+              <button
+                type="button"
+                onClick={() => addChain(chain)}
+                disabled={known || state.status === 'pending'}
+              >
+                {state.status === 'pending' ? 'Adding...' : known ? 'In wallet' : `Add ${chain.name}`}
+              </button>
+              {!known && <StatusText state={state} />}
+            </li>
+          );
+        })}
+      </ul>
+      {chainTokens.length > 0 && (
+        <>
+          <h4>Tokens on {getCeloChain(chainId ?? 0)?.name ?? `chain ${chainId}`}</h4>
+          <ul className="token-list">
+            {chainTokens.map((token) => {
+              const state = tokenState(token);
+              return (
+                <li key={token.address} className="token-row">
+                  <span className="token-symbol">{token.symbol}</span>
+                  <button
+                    type="button"
+                    onClick={() => watchToken(token)}
+                    disabled={state.status === 'pending'}
+                  >
+                    {state.status === 'pending' ? 'Confirm in your wallet...' : `Add ${token.symbol}`}
+                  </button>
+                  <StatusText state={state} />
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
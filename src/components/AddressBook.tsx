@@ -0,0 +1,193 @@
+import { useState, type FormEvent } from 'react';
+import { useAddressBook } from '../hooks/useAddressBook';
+import type { AddressBookEntry, AddressBookInput } from '../types/addressBook';
+import { parseTags } from '../services/addressBook';
+import { normalizeWalletError } from '../services/walletErrors';
+import { shortenAddress } from '../utils/celoExplorer';
+
+interface AddressBookFormProps {
+  /** Fixed address, e.g. from a transaction row; asked for otherwise */
+  address?: string;
+  entry?: AddressBookEntry;
+  onSave(input: Omit<AddressBookInput, 'chainId'>): void;
+  onCancel?(): void;
+}
+
+// Label, note and tags of one address
+function AddressBookForm({ address: fixedAddress, entry, onSave, onCancel }: AddressBookFormProps): JSX.Element {
+  const [address, setAddress] = useState(fixedAddress ?? entry?.address ?? '');
+  const [label, setLabel] = useState(entry?.label ?? '');
+  const [note, setNote] = useState(entry?.note ?? '');
+  const [tags, setTags] = useState(entry?.tags.join(', ') ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>): void => {
+    event.preventDefault();
+    setError(null);
+    try {
+      onSave({ address: address.trim(), label, note, tags: parseTags(tags) });
+    } catch (err) {
+      setError(normalizeWalletError(err).message);
+    }
+  };
+
+  return (
+    <form className="send-form address-book-form" onSubmit={handleSubmit}>
+      {!fixedAddress && !entry && (
+        <label>
+          Address
+          <input
+            type="text"
+            placeholder="0x..."
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+          />
+        </label>
+      )}
+      <label>
+        Label
+        <input type="text" value={label} onChange={(e) => setLabel(e.target.value)} />
+      </label>
+      <label>
+        Note
+        <input type="text" value={note} onChange={(e) => setNote(e.target.value)} />
+      </label>
+      <label>
+        Tags
+        <input
+          type="text"
+          placeholder="exchange, family"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+        />
+      </label>
+      <div className="send-actions">
+        <button type="submit" disabled={!label.trim() || !address.trim()}>Save</button>
+        {onCancel && <button type="button" onClick={onCancel}>Cancel</button>}
+      </div>
+      {error && <p className="error-text">{error}</p>}
+    </form>
+  );
+}
+
+interface SaveAddressButtonProps {
+  address: string;
+  /** Chain whose address book is used; the connected chain by default */
+  chainId?: number;
+  className?: string;
+}
+
+/**
+ * Save an address seen in the app, e.g. a transaction counterparty, or edit its entry
+ */
+export function SaveAddressButton({ address, chainId, className = '' }: SaveAddressButtonProps): JSX.Element {
+  const { getEntry, saveEntry } = useAddressBook({ chainId });
+  const [editing, setEditing] = useState(false);
+  const entry = getEntry(address);
+
+  if (!editing) {
+    return (
+      <button
+        type="button"
+        className={className}
+        onClick={() => setEditing(true)}
+        aria-label={`${entry ? 'Edit label of' : 'Save'} ${address}`}
+      >
+        {entry ? 'Edit label' : 'Save address'}
+      </button>
+    );
+  }
+
+  return (
+    <AddressBookForm
+      address={address}
+      entry={entry}
+      onSave={(input) => {
+        saveEntry(input);
+        setEditing(false);
+      }}
+      onCancel={() => setEditing(false)}
+    />
+  );
+}
+
+interface AddressBookProps {
+  className?: string;
+  /** Chain whose address book is shown; the connected chain by default */
+  chainId?: number;
+}
+
+/**
+ * Saved addresses of a chain, searchable by label, note, tag or address
+ */
+export function AddressBook({ className = '', chainId }: AddressBookProps): JSX.Element {
+  const { entries, saveEntry, removeEntry, search } = useAddressBook({ chainId });
+  const [query, setQuery] = useState('');
+  const [editing, setEditing] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+  const shown = search(query);
+
+  return (
+    <div className={`balance-card ${className}`}>
+      <h3>Address Book</h3>
+
+      {entries.length > 0 && (
+        <input
+          type="search"
+          placeholder="Search by label, note, tag or address"
+          aria-label="Search address book"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+      )}
+      {entries.length === 0 && <p>No saved addresses on this network yet.</p>}
+      {entries.length > 0 && shown.length === 0 && <p>No saved address matches.</p>}
+
+      <ul className="token-list">
+        {shown.map((entry) => (
+          <li key={entry.address} className="token-row address-book-row">
+            {editing === entry.address ? (
+              <AddressBookForm
+                entry={entry}
+                onSave={(input) => {
+                  saveEntry(input);
+                  setEditing(null);
+                }}
+                onCancel={() => setEditing(null)}
+              />
+            ) : (
+              <>
+                <span className="token-symbol">{entry.label}</span>
+                <span className="token-amount" title={entry.address}>
+                  {shortenAddress(entry.address)}
+                  {entry.note && <span className="token-fiat"> · {entry.note}</span>}
+                </span>
+                {entry.tags.map((tag) => (
+                  <span key={tag} className="pill">{tag}</span>
+                ))}
+                <button type="button" onClick={() => setEditing(entry.address)} aria-label={`Edit ${entry.label}`}>
+                  Edit
+                </button>
+                <button type="button" onClick={() => removeEntry(entry.address)} aria-label={`Remove ${entry.label}`}>
+                  Remove
+                </button>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {adding ? (
+        <AddressBookForm
+          onSave={(input) => {
+            saveEntry(input);
+            setAdding(false);
+          }}
+          onCancel={() => setAdding(false)}
+        />
+      ) : (
+        <button type="button" onClick={() => setAdding(true)}>Add address</button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { useAddressBook } from '../hooks/useAddressBook';
+import { useAddressName } from '../hooks/useNameResolution';
+import { shortenAddress } from '../utils/celoExplorer';
+
+interface AddressLabelProps {
+  address: string;
+  /** Chain whose address book is used; the connected chain by default */
+  chainId?: number;
+  className?: string;
+}
+
+/**
+ * An address as its address book label, else its resolved name (e.g. `alice.celo`),
+ * else shortened. The full address and note show on hover.
+ */
+export function AddressLabel({ address, chainId, className = '' }: AddressLabelProps): JSX.Element {
+  const { getEntry } = useAddressBook({ chainId });
+  const entry = getEntry(address);
+  const name = useAddressName(address, { chainId });
+
+  if (!entry) {
+    return (
+      <span className={`address-label ${name ? 'address-label-named' : ''} ${className}`} title={address}>
+        {name ?? shortenAddress(address)}
+      </span>
+    );
+  }
+
+  const title = entry.note ? `${address}\n${entry.note}` : address;
+  return (
+    <span className={`address-label address-label-saved ${className}`} title={title}>
+      {entry.label}
+    </span>
+  );
+}
@@ -0,0 +1,240 @@
+import { useState } from 'react';
+import { useTransactionAnalytics } from '../hooks/useTransactionAnalytics';
+import type { AnalyticsPeriod, TransactionBucket } from '../types/analytics';
+import { formatTokenAmount } from '../utils/tokenAmounts';
+import { formatTransactionHash } from '../utils/celoExplorer';
+import { getFeeCurrencySymbol } from '../utils/transactionHelpers';
+
+interface AnalyticsPanelProps {
+  className?: string;
+  /** Counterparties listed at most */
+  maxCounterparties?: number;
+  /** First block of vote history to read staking rewards from; rewards are left out without it */
+  rewardsFromBlock?: bigint;
+}
+
+interface FlowChartProps {
+  buckets: readonly TransactionBucket[];
+  asset: string;
+  symbol: string;
+  decimals: number;
+}
+
+const CHART_HEIGHT = 120;
+const BAR_WIDTH = 10;
+
+// Bar length for a value, scaled with bigint math so large amounts stay exact
+function scale(value: bigint, max: bigint): number {
+  return max === BigInt(0) ? 0 : Number((value * BigInt(1000)) / max) / 1000 * (CHART_HEIGHT / 2 - 4);
+}
+
+/**
+ * Received amounts above the axis and sent amounts below it, one bar pair per period
+ */
+function FlowChart({ buckets, asset, symbol, decimals }: FlowChartProps): JSX.Element {
+  const flows = buckets.map((bucket) => bucket.byAsset.find((flow) => flow.asset === asset));
+  const max = flows.reduce((largest, flow) => {
+    const larger = flow && flow.received > flow.sent ? flow.received : flow?.sent ?? BigInt(0);
+    return larger > largest ? larger : largest;
+  }, BigInt(0));
+  const middle = CHART_HEIGHT / 2;
+
+  return (
+    <svg
+      className="analytics-chart"
+      viewBox={`0 0 ${Math.max(buckets.length, 1) * BAR_WIDTH} ${CHART_HEIGHT}`}
+      preserveAspectRatio="none"
+      role="img"
+      aria-label={`${symbol} received and sent per period`}
+    >
+      <line x1={0} x2={buckets.length * BAR_WIDTH} y1={middle} y2={middle} className="chart-axis" />
+      {buckets.map((bucket, index) => {
+        const flow = flows[index];
+        const received = scale(flow?.received ?? BigInt(0), max);
+        const sent = scale(flow?.sent ?? BigInt(0), max);
+        return (
+          <g key={bucket.start}>
+            <title>
+              {`${bucket.label}: +${formatTokenAmount(flow?.received ?? BigInt(0), decimals)} / -${formatTokenAmount(flow?.sent ?? BigInt(0), decimals)} ${symbol}`}
+            </title>
+            <rect className="chart-received" x={index * BAR_WIDTH + 1} y={middle - received} width={BAR_WIDTH - 2} height={received} />
+            <rect className="chart-sent" x={index * BAR_WIDTH + 1} y={middle} width={BAR_WIDTH - 2} height={sent} />
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+/**
+ * Totals per asset, fees, staking rewards, cost basis, a flow chart by day,
+ * week or month and the main counterparties of the connected account
+ */
+export function AnalyticsPanel({ className = '', maxCounterparties = 5, rewardsFromBlock }: AnalyticsPanelProps): JSX.Element {
+  const [period, setPeriod] = useState<AnalyticsPeriod>('daily');
+  const [selectedAsset, setSelectedAsset] = useState<string | undefined>(undefined);
+  const {
+    isConnected,
+    chainId,
+    summary,
+    counterparties,
+    buckets,
+    costBasis,
+    hasPrices,
+    currency,
+    formatFiat,
+    isLoading,
+    error,
+    rewardsError,
+    truncated
+  } = useTransactionAnalytics({ period, includeRewards: rewardsFromBlock !== undefined, rewardsFromBlock });
+
+  if (!isConnected) {
+    return (
+      <div className={`balance-card ${className}`}>
+        <h3>Analytics</h3>
+        <p>Connect your wallet to see analytics of your history.</p>
+      </div>
+    );
+  }
+
+  const chartFlow = summary.byAsset.find((flow) => flow.asset === selectedAsset) ?? summary.byAsset[0];
+
+  return (
+    <div className={`balance-card ${className}`}>
+      <h3>Analytics</h3>
+      {isLoading && <p>Loading history...</p>}
+      {error && <p className="error-text">{error.message}</p>}
+      {!isLoading && !error && summary.totalTransactions === 0 && <p>No transactions yet.</p>}
+      {truncated && <p className="warning-text">Only your most recent transactions are included; older ones are left out of these figures.</p>}
+
+      {summary.byAsset.length > 0 && (
+        <table className="statement-table">
+          <thead>
+            <tr>
+              <th>Asset</th>
+              <th>Received</th>
+              <th>Sent</th>
+              <th>Net</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.byAsset.map((flow) => (
+              <tr key={flow.asset}>
+                <td>{flow.symbol}</td>
+                <td>{formatTokenAmount(flow.received, flow.decimals)}</td>
+                <td>{formatTokenAmount(flow.sent, flow.decimals)}</td>
+                <td>{formatTokenAmount(flow.net, flow.decimals)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {summary.fees.map((fee) => (
+        <p key={fee.feeCurrency ?? 'native'}>
+          Fees paid in {getFeeCurrencySymbol(chainId, fee.feeCurrency)}: {formatTokenAmount(fee.total, 18, 8)} ({fee.count} transactions)
+        </p>
+      ))}
+
+      {summary.rewards && summary.rewards.epochs > 0 && (
+        <p>
+          Staking rewards: {formatTokenAmount(summary.rewards.total, 18)} CELO over {summary.rewards.epochs} epochs
+          <span className="token-fiat"> (not included in the transfers above)</span>
+        </p>
+      )}
+      {rewardsError && <p className="warning-text">Staking rewards unavailable: {rewardsError.message}</p>}
+
+      {hasPrices && costBasis.length > 0 && (
+        <>
+          <h4>Cost basis ({currency})</h4>
+          <table className="statement-table">
+            <thead>
+              <tr>
+                <th>Asset</th>
+                <th>Held</th>
+                <th>Average cost</th>
+                <th>Cost basis</th>
+                <th>Value</th>
+                <th>Unrealized P&amp;L</th>
+                <th>Realized P&amp;L</th>
+              </tr>
+            </thead>
+            <tbody>
+              {costBasis.map((position) => (
+                <tr key={position.asset}>
+                  <td>{position.symbol}</td>
+                  <td>{formatTokenAmount(position.holdings, position.decimals)}</td>
+                  <td>{formatFiat(position.averageCost)}</td>
+                  <td>{formatFiat(position.costBasis)}</td>
+                  <td>{position.currentValue === undefined ? '—' : formatFiat(position.currentValue)}</td>
+                  <td>{position.unrealizedPnl === undefined ? '—' : formatFiat(position.unrealizedPnl)}</td>
+                  <td>{formatFiat(position.realizedPnl)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {costBasis.some((position) => position.unpricedCount > 0) && (
+            <p className="warning-text">Some transfers have no historical price; received ones count at zero cost.</p>
+          )}
+        </>
+      )}
+
+      {chartFlow && (
+        <>
+          <div className="analytics-controls">
+            <label>
+              Period{' '}
+              <select value={period} onChange={(e) => setPeriod(e.target.value as AnalyticsPeriod)}>
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+                <option value="monthly">Monthly</option>
+              </select>
+            </label>
+            <label>
+              Asset{' '}
+              <select value={chartFlow.asset} onChange={(e) => setSelectedAsset(e.target.value)}>
+                {summary.byAsset.map((flow) => (
+                  <option key={flow.asset} value={flow.asset}>{flow.symbol}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <FlowChart buckets={buckets} asset={chartFlow.asset} symbol={chartFlow.symbol} decimals={chartFlow.decimals} />
+          {buckets.length > 0 && (
+            <div className="analytics-chart-range">
+              <span>{buckets[0].label}</span>
+              <span>{buckets[buckets.length - 1].label}</span>
+            </div>
+          )}
+        </>
+      )}
+
+      {counterparties.length > 0 && (
+        <>
+          <h4>Top counterparties</h4>
+          <table className="statement-table">
+            <thead>
+              <tr>
+                <th>Address</th>
+                <th>Asset</th>
+                <th>Net</th>
+                <th>Transfers</th>
+              </tr>
+            </thead>
+            <tbody>
+              {counterparties.slice(0, maxCounterparties).map((flow) => (
+                <tr key={`${flow.counterparty}:${flow.asset}`}>
+                  <td className="statement-address" title={flow.counterparty}>{formatTransactionHash(flow.counterparty)}</td>
+                  <td>{flow.symbol}</td>
+                  <td>{formatTokenAmount(flow.net, flow.decimals)}</td>
+                  <td>{flow.count}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,15 @@
 import { useAccount, useBalance } from 'wagmi';
 import { formatEther } from 'viem';
 import { useCeloNetwork } from '../hooks/useCeloNetwork';
+import { useFiatValuation } from '../hooks/useFiatValuation';
+import { nativePricedAsset } from '../services/prices';
+import { toWalletError } from '../services/walletErrors';
 
 export function CeloBalance(): JSX.Element {
   const { address, isConnected } = useAccount();
-  const { activeChain } = useCeloNetwork();
+  const { currentChain, currentChainId } = useCeloNetwork();
+  const nativeAsset = nativePricedAsset(currentChainId);
+  const { getValue, formatFiat } = useFiatValuation({ assets: isConnected ? [nativeAsset] : [] });
 
   // Fetch the native balance using wagmi's useBalance hook
   const { data: balanceData, isLoading, error } = useBalance({
@@ -39,7 +44,9 @@ export function CeloBalance(): JSX.Element {
     return (
       <div className="balance-card">
         <h3>CELO Balance</h3>
-        <p>Error loading balance: {error.message}</p>
+        <p className="error-text">
+          Error loading balance: {toWalletError(error, { message: error.message, code: 'UNKNOWN' }).message}
+        </p>
       </div>
     );
   }
@@ -69,11 +76,13 @@ export function CeloBalance(): JSX.Element {
   const formattedBalance = balanceData?.value
     ? formatBalance(balanceData.value)
     : '0.000000';
+  const fiatValue = balanceData?.value ? getValue(nativeAsset, balanceData.value, balanceData.decimals) : undefined;
 
   return (
     <div className="balance-card">
       <h3>CELO Balance</h3>
-      <p>Balance: {formattedBalance} CELO on {activeChain?.name || 'Unknown Network'}</p>
+      <p>Balance: {formattedBalance} CELO on {currentChain?.name || 'Unknown Network'}</p>
+      {fiatValue !== undefined && <p className="token-fiat">≈ {formatFiat(fiatValue)}</p>}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { useEpochRewards } from '../hooks/useEpochRewards';
+import { AddressLabel } from './AddressLabel';
+import { formatTokenAmount } from '../utils/tokenAmounts';
+import { formatTimestamp } from '../utils/celoExplorer';
+
+interface EpochRewardsTimelineProps {
+  className?: string;
+  /** Most recent epochs to show */
+  limit?: number;
+  /** First block of vote history to read; rewards are not read without it */
+  fromBlock?: bigint;
+}
+
+/**
+ * Voter rewards of the connected account per epoch, newest first
+ */
+export function EpochRewardsTimeline({ className = '', limit = 30, fromBlock }: EpochRewardsTimelineProps): JSX.Element {
+  const { isConnected, address, chainId, isEnabled, epochs, total, isLoading, error } = useEpochRewards({ fromBlock });
+
+  // Show message when no wallet is connected
+  if (!isConnected || !address) {
+    return (
+      <div className={`balance-card ${className}`}>
+        <h3>Staking Rewards</h3>
+        <p>Connect your wallet to see the rewards of your votes.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`balance-card ${className}`}>
+      <h3>Staking Rewards</h3>
+      {isLoading && <p>Loading epoch rewards...</p>}
+      {error && <p className="error-text">Error loading epoch rewards: {error.message}</p>}
+      {!isEnabled && <p>Staking rewards are not tracked: no start block is set.</p>}
+      {isEnabled && !isLoading && !error && epochs.length === 0 && (
+        <p>No rewards yet. Active votes earn rewards at the end of each epoch.</p>
+      )}
+
+      {epochs.length > 0 && (
+        <>
+          <p>
+            {formatTokenAmount(total, 18)} CELO over {epochs.length} epoch{epochs.length === 1 ? '' : 's'}
+          </p>
+          <ol className="rewards-timeline">
+            {epochs.slice(0, limit).map((income) => (
+              <li key={income.epoch}>
+                <div className="token-row">
+                  <span className="token-symbol">Epoch {income.epoch}</span>
+                  <span className="token-fiat">{formatTimestamp(income.timestamp)}</span>
+                  <span className="token-amount">+{formatTokenAmount(income.total, 18)} CELO</span>
+                </div>
+                {income.byGroup.length > 1 && (
+                  <ul>
+                    {income.byGroup.map(({ group, value }) => (
+                      <li key={group} className="token-fiat">
+                        <AddressLabel address={group} chainId={chainId} /> +{formatTokenAmount(value, 18)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { useFeeCurrencies } from '../hooks/useFeeCurrencies';
+import type { FeeCurrency } from '../types/token';
+
+interface FeeCurrencySelectProps {
+  /** Selected fee currency address; CELO when undefined */
+  value?: string;
+  onChange: (feeCurrency: FeeCurrency | undefined) => void;
+  chainId?: number;
+  disabled?: boolean;
+  className?: string;
+}
+
+const NATIVE = 'native';
+
+/**
+ * Pick the currency transaction fees are paid in, among the chain's whitelisted fee currencies
+ */
+export function FeeCurrencySelect({
+  value,
+  onChange,
+  chainId,
+  disabled = false,
+  className = ''
+}: FeeCurrencySelectProps): JSX.Element {
+  const { feeCurrencies, isLoading, error } = useFeeCurrencies({ chainId });
+
+  const handleChange = (address: string): void => {
+    onChange(feeCurrencies.find((currency) => currency.address === address));
+  };
+
+  return (
+    <label className={className}>
+      Pay fee in
+      <select
+        value={value ?? NATIVE}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={disabled || isLoading}
+      >
+        <option value={NATIVE}>CELO</option>
+        {feeCurrencies.map((currency) => (
+          <option key={currency.address} value={currency.address}>{currency.token.symbol}</option>
+        ))}
+      </select>
+      {error && <span className="warning-text">Fee currencies unavailable, fees are paid in CELO</span>}
+    </label>
+  );
+}
@@ -0,0 +1,23 @@
+import { useFiatCurrency } from '../hooks/useFiatValuation';
+
+interface FiatCurrencySelectProps {
+  className?: string;
+}
+
+/**
+ * Pick the fiat currency balances and transactions are valued in, for the whole app
+ */
+export function FiatCurrencySelect({ className = '' }: FiatCurrencySelectProps): JSX.Element {
+  const { currency, setCurrency, currencies } = useFiatCurrency();
+
+  return (
+    <label className={className}>
+      Show values in{' '}
+      <select value={currency} onChange={(e) => setCurrency(e.target.value)}>
+        {currencies.map((code) => (
+          <option key={code} value={code}>{code}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { useGovernance } from '../hooks/useGovernance';
+import type { Proposal, ProposalStage, ProposalTransaction, ProposalVoteValue } from '../types/governance';
+import { formatTokenAmount } from '../utils/tokenAmounts';
+import { formatTimestamp, getAddressUrl, getTransactionUrl, shortenAddress } from '../utils/celoExplorer';
+
+interface GovernancePanelProps {
+  className?: string;
+  /** First block to read executed proposals from; they are not listed without it */
+  executedFromBlock?: bigint;
+}
+
+const STAGE_FILTERS: Array<ProposalStage | 'all'> = ['all', 'Queued', 'Approval', 'Referendum', 'Execution', 'Executed'];
+const VOTE_VALUES: ProposalVoteValue[] = ['yes', 'no', 'abstain'];
+const VOTE_LABELS: Record<ProposalVoteValue, string> = { yes: 'Yes', no: 'No', abstain: 'Abstain' };
+
+function formatArgument(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatArgument).join(', ')}]`;
+  }
+  return typeof value === 'string' && value.length > 42 ? `${value.slice(0, 10)}...` : String(value);
+}
+
+function describeTransaction(transaction: ProposalTransaction): string {
+  const target = transaction.contract ?? shortenAddress(transaction.destination);
+  const call = transaction.functionName
+    ? `${target}.${transaction.functionName}(${(transaction.args ?? []).map(formatArgument).join(', ')})`
+    : `Call to ${target}`;
+  return transaction.value > BigInt(0) ? `${call} with ${formatTokenAmount(transaction.value, 18)} CELO` : call;
+}
+
+/**
+ * Governance proposals with their tallies; upvote queued proposals and vote
+ * on referendums with locked CELO
+ */
+export function GovernancePanel({ className = '', executedFromBlock }: GovernancePanelProps): JSX.Element {
+  const {
+    isConnected,
+    chainId,
+    proposals,
+    account,
+    isLoading,
+    proposalsError,
+    executedError,
+    accountError,
+    status,
+    hashes,
+    execute,
+    reset,
+    error
+  } = useGovernance({ executedFromBlock });
+
+  const [stage, setStage] = useState<ProposalStage | 'all'>('all');
+  const busy = status === 'preparing' || status === 'submitting' || status === 'pending';
+  const canAct = isConnected && !!account && account.weight > BigInt(0);
+  const shown = proposals.filter((proposal) => stage === 'all' || proposal.stage === stage);
+
+  const renderTallies = (proposal: Proposal): string => {
+    switch (proposal.stage) {
+    case 'Queued':
+      return `${formatTokenAmount(proposal.upvotes, 18, 0)} CELO upvoting`;
+    case 'Executed':
+      return proposal.executedBlock === undefined ? 'Executed' : `Executed in block ${proposal.executedBlock}`;
+    default:
+      return VOTE_VALUES
+        .map((value) => `${VOTE_LABELS[value]} ${formatTokenAmount(proposal.votes[value], 18, 0)}`)
+        .join(' · ');
+    }
+  };
+
+  const renderActions = (proposal: Proposal): JSX.Element | null => {
+    const id = proposal.id.toString();
+    if (proposal.stage === 'Queued') {
+      const upvoted = account?.upvoted === proposal.id;
+      return (
+        <button
+          type="button"
+          disabled={busy || !canAct || upvoted}
+          onClick={() => execute({ type: 'upvote', proposalId: proposal.id })}
+        >
+          {upvoted ? 'Upvoted' : 'Upvote'}
+        </button>
+      );
+    }
+    if (proposal.stage === 'Referendum') {
+      const voted = account?.votes[id];
+      return (
+        <>
+          {VOTE_VALUES.map((value) => (
+            <button
+              key={value}
+              type="button"
+              disabled={busy || !canAct || voted === value}
+              onClick={() => execute({ type: 'vote', proposalId: proposal.id, value })}
+            >
+              {VOTE_LABELS[value]}
+            </button>
+          ))}
+          {voted && <p className="token-fiat">You voted {VOTE_LABELS[voted]}</p>}
+        </>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className={`balance-card ${className}`}>
+      <h3>Governance</h3>
+
+      {!isConnected && <p>Connect your wallet to upvote proposals and vote in referendums.</p>}
+      {account && (
+        <p>
+          Your vote weight: {formatTokenAmount(account.weight, 18)} CELO
+          {account.weight === BigInt(0) && <span className="token-fiat"> Lock CELO to take part.</span>}
+        </p>
+      )}
+      {accountError && <p className="warning-text">Vote weight unavailable: {accountError.message}</p>}
+
+      <div className="analytics-controls">
+        <label>
+          Stage{' '}
+          <select value={stage} onChange={(e) => setStage(e.target.value as ProposalStage | 'all')}>
+            {STAGE_FILTERS.filter((option) => option !== 'Executed' || executedFromBlock !== undefined).map((option) => (
+              <option key={option} value={option}>{option === 'all' ? 'All' : option}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {isLoading && <p>Loading proposals...</p>}
+      {proposalsError && <p className="error-text">Error loading proposals: {proposalsError.message}</p>}
+      {executedError && <p className="warning-text">Executed proposals unavailable: {executedError.message}</p>}
+      {!isLoading && !proposalsError && shown.length === 0 && <p>No proposals.</p>}
+
+      {shown.length > 0 && (
+        <table className="statement-table">
+          <thead>
+            <tr>
+              <th>Proposal</th>
+              <th>Stage</th>
+              <th>Votes</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((proposal) => (
+              <tr key={proposal.id.toString()}>
+                <td>
+                  {proposal.descriptionUrl
+                    ? <a href={proposal.descriptionUrl} target="_blank" rel="noopener noreferrer">#{proposal.id.toString()}</a>
+                    : `#${proposal.id}`}
+                  {proposal.timestamp > 0 && <span className="token-fiat"> {formatTimestamp(proposal.timestamp)}</span>}
+                  <details className="proposal-transactions">
+                    <summary>
+                      {proposal.transactionCount} transaction{proposal.transactionCount === 1 ? '' : 's'}
+                    </summary>
+                    {proposal.transactions.length === 0 && proposal.transactionCount > 0 && <p>Not available.</p>}
+                    <ol>
+                      {proposal.transactions.map((transaction, position) => (
+                        <li key={position}>
+                          <a href={getAddressUrl(transaction.destination, chainId)} target="_blank" rel="noopener noreferrer">
+                            <code>{describeTransaction(transaction)}</code>
+                          </a>
+                        </li>
+                      ))}
+                    </ol>
+                  </details>
+                </td>
+                <td><span className="pill">{proposal.stage}</span></td>
+                <td>{renderTallies(proposal)}</td>
+                <td>{renderActions(proposal)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {error && <p className="error-text">{error.message}</p>}
+      {status === 'preparing' && <p>Checking...</p>}
+      {status === 'submitting' && <p>Confirm in your wallet...</p>}
+      {status === 'pending' && <p>Vote submitted. Waiting for confirmation...</p>}
+      {status === 'confirmed' && <p>Confirmed.</p>}
+      {status === 'failed' && <p className="error-text">Transaction failed on chain.</p>}
+      {hashes.map((hash) => (
+        <p key={hash}>
+          <a href={getTransactionUrl(hash, chainId)} target="_blank" rel="noopener noreferrer">
+            View on explorer
+          </a>
+        </p>
+      ))}
+      {(status === 'confirmed' || status === 'failed') && (
+        <button type="button" onClick={reset}>Dismiss</button>
+      )}
+    </div>
+  );
+}
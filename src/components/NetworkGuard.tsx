@@ -0,0 +1,56 @@
+import type { ReactNode } from 'react';
+import { useNetworkGuard } from '../hooks/useNetworkGuard';
+
+interface NetworkGuardProps {
+  children: ReactNode;
+  /** Chains the guarded actions may run on; defaults to every registry chain */
+  chainIds?: readonly number[];
+  className?: string;
+}
+
+/**
+ * Keeps its children disabled while the wallet is on another chain, with a
+ * prompt to switch (or to add the chain to the wallet first)
+ */
+export function NetworkGuard({ children, chainIds, className = '' }: NetworkGuardProps): JSX.Element {
+  const {
+    status,
+    isBlocked,
+    currentChain,
+    currentChainId,
+    targetChain,
+    needsAdd,
+    error,
+    switchNetwork,
+    addNetwork
+  } = useNetworkGuard({ chainIds });
+  const busy = status === 'switching' || status === 'adding';
+
+  return (
+    <div className={`network-guard ${className}`}>
+      {isBlocked && (
+        <div className="network-guard-prompt" role="alert">
+          <p className="warning-text">
+            Your wallet is on {currentChain?.name ?? `an unsupported network (chain ${currentChainId})`}.
+            Switch to {targetChain.name} to continue.
+          </p>
+          <div className="send-actions">
+            <button type="button" onClick={() => switchNetwork()} disabled={busy}>
+              {status === 'switching' ? 'Switching...' : `Switch to ${targetChain.name}`}
+            </button>
+            {needsAdd && (
+              <button type="button" onClick={() => addNetwork()} disabled={busy}>
+                {status === 'adding' ? 'Adding...' : `Add ${targetChain.name} to wallet`}
+              </button>
+            )}
+          </div>
+          {error && <p className="error-text">{error.message}</p>}
+        </div>
+      )}
+      {/* A disabled fieldset disables every control inside it */}
+      <fieldset className="network-guard-content" disabled={isBlocked} aria-disabled={isBlocked}>
+        {children}
+      </fieldset>
+    </div>
+  );
+}
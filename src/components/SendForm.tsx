@@ -0,0 +1,186 @@
+import { useState, type FormEvent } from 'react';
+import { useSendTransfer } from '../hooks/useSendTransfer';
+import { useNameResolution } from '../hooks/useNameResolution';
+import { FeeCurrencySelect } from './FeeCurrencySelect';
+import { getTokenRegistry, findToken } from '../config/tokens';
+import type { FeeCurrency, TokenInfo } from '../types/token';
+import { formatGasPrice } from '../utils/transactionHelpers';
+import { formatTokenAmount } from '../utils/tokenAmounts';
+import { getTransactionUrl } from '../utils/celoExplorer';
+
+interface SendFormProps {
+  className?: string;
+  /** Tokens offered besides native CELO, any chain; defaults to the Celo stable assets */
+  tokens?: readonly TokenInfo[];
+}
+
+const NATIVE = 'native';
+
+export function SendForm({ className = '', tokens }: SendFormProps): JSX.Element {
+  const {
+    isConnected,
+    address,
+    chainId,
+    status,
+    draft,
+    hash,
+    error,
+    review,
+    confirm,
+    cancel,
+    reset
+  } = useSendTransfer();
+
+  const [recipient, setRecipient] = useState('');
+  const [amount, setAmount] = useState('');
+  const [tokenAddress, setTokenAddress] = useState(NATIVE);
+  const [feeCurrency, setFeeCurrency] = useState<FeeCurrency | undefined>(undefined);
+  // Token and fee currency addresses only mean something on the chain they were picked on
+  const [selectionChainId, setSelectionChainId] = useState(chainId);
+  if (selectionChainId !== chainId) {
+    setSelectionChainId(chainId);
+    setTokenAddress(NATIVE);
+    setFeeCurrency(undefined);
+  }
+  // Recipients can be names such as alice.celo, or SocialConnect phone numbers and handles
+  const recipientName = useNameResolution(recipient, { chainId });
+
+  const chainTokens = tokens
+    ? tokens.filter((token) => token.chainId === chainId)
+    : getTokenRegistry(chainId);
+  const selectedToken = tokenAddress === NATIVE ? undefined : findToken(chainTokens, tokenAddress);
+
+  const handleReview = async (event: FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    await review({ recipient, amount, token: selectedToken, feeCurrency });
+  };
+
+  const handleNewTransfer = (): void => {
+    setRecipient('');
+    setAmount('');
+    reset();
+  };
+
+  const fieldError = (field: 'recipient' | 'amount'): string | null =>
+    error?.field === field ? error.message : null;
+
+  // Show message when no wallet is connected
+  if (!isConnected || !address) {
+    return (
+      <div className={`balance-card ${className}`}>
+        <h3>Send</h3>
+        <p>Connect your wallet to send CELO or tokens.</p>
+      </div>
+    );
+  }
+
+  if (draft && (status === 'review' || status === 'submitting')) {
+    const symbol = draft.token?.symbol ?? 'CELO';
+    const feeSymbol = draft.feeCurrency?.token.symbol ?? 'CELO';
+    const feeDecimals = draft.feeCurrency?.decimals ?? 18;
+    return (
+      <div className={`balance-card ${className}`}>
+        <h3>Review transfer</h3>
+        <dl className="send-review">
+          <dt>To</dt>
+          <dd>{draft.recipientName ? `${draft.recipientName} (${draft.to})` : draft.to}</dd>
+          <dt>Amount</dt>
+          <dd>{draft.amount} {symbol}</dd>
+          <dt>Estimated fee</dt>
+          <dd>
+            {formatTokenAmount(draft.fee, feeDecimals, 8)} {feeSymbol}
+            {!draft.feeCurrency && ` (${formatGasPrice(draft.gasPrice.toString())})`}
+          </dd>
+          {!draft.token && !draft.feeCurrency && (
+            <>
+              <dt>Total</dt>
+              <dd>{formatTokenAmount(draft.value + draft.fee, 18, 8)} CELO</dd>
+            </>
+          )}
+        </dl>
+        {error && <p className="error-text">{error.message}</p>}
+        <div className="send-actions">
+          <button type="button" onClick={cancel} disabled={status === 'submitting'}>
+            Back
+          </button>
+          <button type="button" onClick={confirm} disabled={status === 'submitting'}>
+            {status === 'submitting' ? 'Confirm in your wallet...' : 'Confirm & Send'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (draft && hash && (status === 'pending' || status === 'confirmed' || status === 'failed')) {
+    return (
+      <div className={`balance-card ${className}`}>
+        <h3>Send</h3>
+        {status === 'pending' && <p>Transfer submitted. Waiting for confirmation...</p>}
+        {status === 'confirmed' && <p>Transfer confirmed.</p>}
+        {status === 'failed' && <p className="error-text">Transfer failed on chain.</p>}
+        {error && <p className="error-text">{error.message}</p>}
+        <p>
+          <a href={getTransactionUrl(hash, draft.chainId)} target="_blank" rel="noopener noreferrer">
+            View on explorer
+          </a>
+        </p>
+        {status !== 'pending' && (
+          <button type="button" onClick={handleNewTransfer}>
+            New transfer
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`balance-card ${className}`}>
+      <h3>Send</h3>
+      <form className="send-form" onSubmit={handleReview}>
+        <label>
+          Asset
+          <select value={tokenAddress} onChange={(e) => setTokenAddress(e.target.value)}>
+            <option value={NATIVE}>CELO</option>
+            {chainTokens.map((token) => (
+              <option key={token.address} value={token.address}>{token.symbol}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Recipient
+          <input
+            type="text"
+            placeholder="0x..., name.celo, +phone or @handle"
+            value={recipient}
+            onChange={(e) => setRecipient(e.target.value)}
+          />
+        </label>
+        {recipientName.isResolving && <p>Looking up {recipient.trim()}...</p>}
+        {recipientName.resolved && <p className="token-fiat">{recipientName.resolved.address}</p>}
+        {recipientName.error && !fieldError('recipient') && <p className="warning-text">{recipientName.error.message}</p>}
+        {fieldError('recipient') && <p className="error-text">{fieldError('recipient')}</p>}
+        <label>
+          Amount
+          <input
+            type="text"
+            inputMode="decimal"
+            placeholder="0.0"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+        </label>
+        {fieldError('amount') && <p className="error-text">{fieldError('amount')}</p>}
+        <FeeCurrencySelect
+          value={feeCurrency?.address}
+          onChange={setFeeCurrency}
+          chainId={chainId}
+          disabled={status === 'estimating'}
+        />
+        {error && !error.field && <p className="error-text">{error.message}</p>}
+        <button type="submit" disabled={status === 'estimating'}>
+          {status === 'estimating' ? 'Estimating fee...' : 'Review'}
+        </button>
+      </form>
+    </div>
+  );
+}
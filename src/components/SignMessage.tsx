@@ -0,0 +1,167 @@
+import { useState, type FormEvent } from 'react';
+import { useAccount, useChainId } from 'wagmi';
+import { usePersonalSign, useTypedDataSign } from '../hooks/useSigning';
+import { useSignatureHistory } from '../hooks/useSignatureHistory';
+import type { SignatureKind, SignedPayload } from '../types/signature';
+import type { SignatureHistoryStore } from '../services/signatures';
+
+interface SignMessageProps {
+  className?: string;
+  /** Where signed payloads are kept; defaults to localStorage */
+  store?: SignatureHistoryStore;
+}
+
+const METHOD_LABELS = {
+  eoa: 'ECDSA',
+  erc1271: 'ERC-1271',
+  erc6492: 'ERC-6492'
+} as const;
+
+/**
+ * EIP-712 example prefilled in typed-data mode
+ */
+function exampleTypedData(chainId: number): string {
+  return JSON.stringify({
+    domain: { name: 'Celo Starter Kit', version: '1', chainId },
+    types: {
+      Mail: [
+        { name: 'to', type: 'address' },
+        { name: 'contents', type: 'string' }
+      ]
+    },
+    primaryType: 'Mail',
+    message: {
+      to: '0x0000000000000000000000000000000000000000',
+      contents: 'Hello from Celo'
+    }
+  }, null, 2);
+}
+
+function VerificationBadge({ entry }: { entry: SignedPayload }): JSX.Element {
+  if (!entry.verification) {
+    return <span className="status-badge status-pending">Unverified</span>;
+  }
+  const method = METHOD_LABELS[entry.verification.method];
+  return entry.verification.valid
+    ? <span className="status-badge status-success">Valid ({method})</span>
+    : <span className="status-badge status-failure">Invalid ({method})</span>;
+}
+
+export function SignMessage({ className = '', store }: SignMessageProps): JSX.Element {
+  const { isConnected } = useAccount();
+  const chainId = useChainId();
+  const personal = usePersonalSign();
+  const typed = useTypedDataSign();
+  const { entries, add, verify, clear } = useSignatureHistory({ store });
+
+  const [kind, setKind] = useState<SignatureKind>('message');
+  const [message, setMessage] = useState('');
+  const [typedData, setTypedData] = useState('');
+  const [result, setResult] = useState<SignedPayload | null>(null);
+  const [verifying, setVerifying] = useState<string | null>(null);
+
+  const signer = kind === 'message' ? personal : typed;
+  const input = kind === 'message' ? message : typedData || exampleTypedData(chainId);
+
+  const handleSign = async (event: FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    const entry = await signer.sign(input);
+    if (entry) {
+      setResult(entry);
+      add(entry);
+    }
+  };
+
+  const handleVerify = async (entry: SignedPayload): Promise<void> => {
+    setVerifying(entry.signature);
+    try {
+      const verification = await verify(entry);
+      if (result?.signature === entry.signature) {
+        setResult({ ...entry, verification });
+      }
+    } catch {
+      // The entry keeps its previous status
+    } finally {
+      setVerifying(null);
+    }
+  };
+
+  const handleKindChange = (next: SignatureKind): void => {
+    setKind(next);
+    setResult(null);
+    personal.reset();
+    typed.reset();
+  };
+
+  // Show message when no wallet is connected
+  if (!isConnected) {
+    return (
+      <div className={`balance-card ${className}`}>
+        <h3>Sign</h3>
+        <p>Connect your wallet to sign messages.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`balance-card ${className}`}>
+      <h3>Sign</h3>
+      <form className="send-form" onSubmit={handleSign}>
+        <label>
+          Type
+          <select value={kind} onChange={(e) => handleKindChange(e.target.value as SignatureKind)}>
+            <option value="message">Message</option>
+            <option value="typedData">Typed data (EIP-712)</option>
+          </select>
+        </label>
+        <label>
+          {kind === 'message' ? 'Message' : 'Typed data (JSON)'}
+          <textarea
+            className="sign-input"
+            rows={kind === 'message' ? 4 : 12}
+            value={kind === 'message' ? message : input}
+            onChange={(e) => (kind === 'message' ? setMessage : setTypedData)(e.target.value)}
+          />
+        </label>
+        {signer.error && <p className="error-text">{signer.error.message}</p>}
+        <button type="submit" disabled={signer.isSigning}>
+          {signer.isSigning ? 'Confirm in your wallet...' : 'Sign'}
+        </button>
+      </form>
+
+      {result && (
+        <div className="sign-result">
+          <VerificationBadge entry={result} />
+          <code className="sign-signature">{result.signature}</code>
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <div className="sign-history">
+          <h4>Signed</h4>
+          <ul className="token-list">
+            {entries.map((entry) => (
+              <li key={entry.signature} className="sign-history-item">
+                <div className="sign-history-header">
+                  <span>{entry.kind === 'message' ? 'Message' : 'Typed data'}</span>
+                  <span>{new Date(entry.signedAt).toLocaleString()}</span>
+                  <VerificationBadge entry={entry} />
+                </div>
+                <pre className="sign-payload">{entry.payload}</pre>
+                <code className="sign-signature">{entry.signature}</code>
+                <button
+                  type="button"
+                  onClick={() => handleVerify(entry)}
+                  disabled={verifying === entry.signature}
+                >
+                  {verifying === entry.signature ? 'Verifying...' : 'Verify'}
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button type="button" onClick={clear}>Clear history</button>
+        </div>
+      )}
+    </div>
+  );
+}
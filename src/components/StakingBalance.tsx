@@ -0,0 +1,52 @@
+import { useStaking } from '../hooks/useStaking';
+import { formatTokenAmount } from '../utils/tokenAmounts';
+
+/**
+ * Locked CELO of the connected account, split into nonvoting and voting
+ */
+export function StakingBalance(): JSX.Element | null {
+  const { isConnected, address, summary, isLoading, summaryError } = useStaking();
+
+  if (!isConnected || !address) {
+    return null;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="balance-card">
+        <h3>Locked CELO</h3>
+        <p>Loading locked CELO...</p>
+      </div>
+    );
+  }
+
+  if (summaryError || !summary) {
+    return (
+      <div className="balance-card">
+        <h3>Locked CELO</h3>
+        <p className="error-text">Error loading locked CELO: {summaryError?.message}</p>
+      </div>
+    );
+  }
+
+  const withdrawing = summary.pendingWithdrawals.reduce((total, pending) => total + pending.value, BigInt(0));
+
+  return (
+    <div className="balance-card">
+      <h3>Locked CELO</h3>
+      <p>Locked: {formatTokenAmount(summary.total, 18)} CELO</p>
+      <dl className="staking-split">
+        <dt>Nonvoting</dt>
+        <dd>{formatTokenAmount(summary.nonvoting, 18)} CELO</dd>
+        <dt>Voting</dt>
+        <dd>{formatTokenAmount(summary.voting, 18)} CELO</dd>
+        {withdrawing > BigInt(0) && (
+          <>
+            <dt>Unlocking</dt>
+            <dd>{formatTokenAmount(withdrawing, 18)} CELO</dd>
+          </>
+        )}
+      </dl>
+    </div>
+  );
+}
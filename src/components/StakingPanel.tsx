@@ -0,0 +1,240 @@
+import { useState, type FormEvent } from 'react';
+import { useStaking } from '../hooks/useStaking';
+import { AddressLabel } from './AddressLabel';
+import { isWithdrawable } from '../services/staking';
+import type { StakingAction } from '../types/staking';
+import { formatTokenAmount } from '../utils/tokenAmounts';
+import { formatTimestamp, getAddressUrl, getTransactionUrl } from '../utils/celoExplorer';
+
+interface StakingPanelProps {
+  className?: string;
+  /** First block to read vote activations from; rewards are not shown without it */
+  rewardsFromBlock?: bigint;
+}
+
+type ActionType = StakingAction['type'];
+
+const LOCK_ACTIONS: ActionType[] = ['lock', 'unlock'];
+const VOTE_ACTIONS: ActionType[] = ['vote', 'revoke'];
+
+/**
+ * Lock and unlock CELO, withdraw it once unlocked, and vote for validator groups
+ */
+export function StakingPanel({ className = '', rewardsFromBlock }: StakingPanelProps): JSX.Element {
+  const {
+    isConnected,
+    address,
+    chainId,
+    summary,
+    rewards,
+    isLoading,
+    summaryError,
+    rewardsError,
+    status,
+    action,
+    hashes,
+    execute,
+    reset,
+    error
+  } = useStaking({ rewardsFromBlock });
+
+  const [amount, setAmount] = useState('');
+  const [group, setGroup] = useState('');
+  const [voteAmount, setVoteAmount] = useState('');
+  const busy = status === 'preparing' || status === 'submitting' || status === 'pending';
+
+  // Errors show next to the form the action came from
+  const errorFor = (types: ActionType[]): string | null =>
+    error && action && types.includes(action.type) ? error.message : null;
+  const otherError = error && !(action && [...LOCK_ACTIONS, ...VOTE_ACTIONS].includes(action.type))
+    ? error.message
+    : null;
+
+  const handleLock = async (type: 'lock' | 'unlock'): Promise<void> => {
+    if (await execute({ type, amount })) {
+      setAmount('');
+    }
+  };
+
+  const handleVote = async (type: 'vote' | 'revoke'): Promise<void> => {
+    if (await execute({ type, group, amount: voteAmount })) {
+      setVoteAmount('');
+    }
+  };
+
+  const handleLockSubmit = async (event: FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    await handleLock('lock');
+  };
+
+  const handleVoteSubmit = async (event: FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    await handleVote('vote');
+  };
+
+  // Show message when no wallet is connected
+  if (!isConnected || !address) {
+    return (
+      <div className={`balance-card ${className}`}>
+        <h3>Staking</h3>
+        <p>Connect your wallet to lock CELO and vote for validator groups.</p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className={`balance-card ${className}`}>
+        <h3>Staking</h3>
+        <p>Loading locked CELO...</p>
+      </div>
+    );
+  }
+
+  if (summaryError || !summary) {
+    return (
+      <div className={`balance-card ${className}`}>
+        <h3>Staking</h3>
+        <p className="error-text">Error loading locked CELO: {summaryError?.message}</p>
+      </div>
+    );
+  }
+
+  const rewardsFor = (voteGroup: string): bigint | undefined =>
+    rewards?.find((entry) => entry.group.toLowerCase() === voteGroup.toLowerCase())?.rewards;
+
+  return (
+    <div className={`balance-card ${className}`}>
+      <h3>Staking</h3>
+
+      <form className="send-form" onSubmit={handleLockSubmit}>
+        <label>
+          Amount to lock or unlock
+          <input
+            type="text"
+            inputMode="decimal"
+            placeholder="0.0"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+        </label>
+        {errorFor(LOCK_ACTIONS) && <p className="error-text">{errorFor(LOCK_ACTIONS)}</p>}
+        <div className="send-actions">
+          <button type="submit" disabled={busy}>Lock</button>
+          <button type="button" disabled={busy} onClick={() => handleLock('unlock')}>Unlock</button>
+        </div>
+        {!summary.isAccount && <p className="token-fiat">Locking first registers your account with the Accounts contract.</p>}
+      </form>
+
+      <h4>Pending withdrawals</h4>
+      {summary.pendingWithdrawals.length === 0 && (
+        <p>Nothing unlocking. Unlocked CELO can be withdrawn after {Math.round(summary.unlockingPeriod / 86400)} days.</p>
+      )}
+      <ul className="token-list">
+        {summary.pendingWithdrawals.map((withdrawal) => (
+          <li key={`${withdrawal.index}:${withdrawal.availableAt}`} className="token-row">
+            <span className="token-symbol">{formatTokenAmount(withdrawal.value, 18)} CELO</span>
+            <span className="token-amount">
+              {isWithdrawable(withdrawal) ? 'Available' : `Available ${formatTimestamp(withdrawal.availableAt)}`}
+            </span>
+            <button
+              type="button"
+              disabled={busy || !isWithdrawable(withdrawal)}
+              onClick={() => execute({ type: 'withdraw', index: withdrawal.index })}
+            >
+              Withdraw
+            </button>
+            <button type="button" disabled={busy} onClick={() => execute({ type: 'relock', index: withdrawal.index })}>
+              Relock
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <h4>Votes</h4>
+      {summary.votes.length === 0 && <p>No votes yet. Vote with nonvoting locked CELO to earn rewards.</p>}
+      {summary.votes.length > 0 && (
+        <table className="statement-table">
+          <thead>
+            <tr>
+              <th>Group</th>
+              <th>Pending</th>
+              <th>Active</th>
+              <th>Rewards</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {summary.votes.map((vote) => {
+              const earned = rewardsFor(vote.group);
+              return (
+                <tr key={vote.group}>
+                  <td>
+                    <a href={getAddressUrl(vote.group, chainId)} target="_blank" rel="noopener noreferrer">
+                      <AddressLabel address={vote.group} chainId={chainId} />
+                    </a>
+                  </td>
+                  <td>{formatTokenAmount(vote.pending, 18)}</td>
+                  <td>{formatTokenAmount(vote.active, 18)}</td>
+                  <td>{earned === undefined ? '—' : formatTokenAmount(earned, 18)}</td>
+                  <td>
+                    <button
+                      type="button"
+                      disabled={busy || !vote.canActivate}
+                      onClick={() => execute({ type: 'activate', group: vote.group })}
+                    >
+                      Activate
+                    </button>
+                    <button type="button" disabled={busy} onClick={() => setGroup(vote.group)}>
+                      Select
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      {rewardsError && <p className="warning-text">Rewards unavailable: {rewardsError.message}</p>}
+
+      <form className="send-form" onSubmit={handleVoteSubmit}>
+        <label>
+          Validator group
+          <input type="text" placeholder="0x..." value={group} onChange={(e) => setGroup(e.target.value)} />
+        </label>
+        <label>
+          Votes
+          <input
+            type="text"
+            inputMode="decimal"
+            placeholder="0.0"
+            value={voteAmount}
+            onChange={(e) => setVoteAmount(e.target.value)}
+          />
+        </label>
+        {errorFor(VOTE_ACTIONS) && <p className="error-text">{errorFor(VOTE_ACTIONS)}</p>}
+        <div className="send-actions">
+          <button type="submit" disabled={busy}>Vote</button>
+          <button type="button" disabled={busy} onClick={() => handleVote('revoke')}>Revoke</button>
+        </div>
+      </form>
+
+      {otherError && <p className="error-text">{otherError}</p>}
+      {status === 'preparing' && <p>Checking...</p>}
+      {status === 'submitting' && <p>Confirm in your wallet...</p>}
+      {status === 'pending' && <p>Transaction submitted. Waiting for confirmation...</p>}
+      {status === 'confirmed' && <p>Confirmed.</p>}
+      {status === 'failed' && <p className="error-text">Transaction failed on chain.</p>}
+      {hashes.map((hash) => (
+        <p key={hash}>
+          <a href={getTransactionUrl(hash, chainId)} target="_blank" rel="noopener noreferrer">
+            View on explorer
+          </a>
+        </p>
+      ))}
+      {(status === 'confirmed' || status === 'failed') && (
+        <button type="button" onClick={reset}>Dismiss</button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState, type FormEvent } from 'react';
+import { useTokenBalances } from '../hooks/useTokenBalances';
+import { useFiatValuation } from '../hooks/useFiatValuation';
+import type { TokenInfo } from '../types/token';
+import { normalizeWalletError } from '../services/walletErrors';
+import { tokenToPricedAsset } from '../services/prices';
+
+interface TokenBalancesProps {
+  className?: string;
+  /** Token registry, any chain; defaults to the Celo stable assets */
+  tokens?: readonly TokenInfo[];
+  /** Unit price of a token in `currency`; replaces the price provider */
+  getPrice?: (token: TokenInfo) => number | undefined;
+  /** Currency of `getPrice`; defaults to the one selected by the user */
+  currency?: string;
+}
+
+export function TokenBalances({
+  className = '',
+  tokens,
+  getPrice,
+  currency
+}: TokenBalancesProps): JSX.Element {
+  const {
+    isConnected,
+    address,
+    balances,
+    failedTokens,
+    isLoading,
+    error,
+    addCustomToken,
+    removeCustomToken
+  } = useTokenBalances({ tokens, getPrice });
+
+  const [tokenAddress, setTokenAddress] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [addError, setAddError] = useState<string | null>(null);
+
+  // Without `getPrice`, balances are valued by the price provider in the selected currency
+  const valuation = useFiatValuation({
+    assets: getPrice ? [] : balances.map(({ token }) => tokenToPricedAsset(token))
+  });
+
+  const formatFiat = (value: number): string =>
+    new Intl.NumberFormat(undefined, { style: 'currency', currency: currency ?? valuation.currency }).format(value);
+
+  const handleAddToken = async (event: FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    setAdding(true);
+    setAddError(null);
+    try {
+      await addCustomToken(tokenAddress.trim());
+      setTokenAddress('');
+    } catch (err) {
+      setAddError(normalizeWalletError(err).message);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  // Show message when no wallet is connected
+  if (!isConnected || !address) {
+    return (
+      <div className={`balance-card ${className}`}>
+        <h3>Token Balances</h3>
+        <p>Connect your wallet to see your token balances.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`balance-card ${className}`}>
+      <h3>Token Balances</h3>
+
+      {isLoading && <p>Loading balances...</p>}
+      {error && <p className="error-text">Error loading balances: {normalizeWalletError(error).message}</p>}
+
+      {!isLoading && !error && (
+        <ul className="token-list">
+          {balances.map(({ token, value, formatted, fiatValue, isCustom }) => {
+            const shownFiat = fiatValue ?? valuation.getValue(tokenToPricedAsset(token), value, token.decimals);
+            return (
+              <li key={token.address} className="token-row">
+                <span className="token-symbol" title={token.name}>{token.symbol}</span>
+                <span className="token-amount">{formatted}</span>
+                {shownFiat !== undefined && (
+                  <span className="token-fiat">{formatFiat(shownFiat)}</span>
+                )}
+                {isCustom && (
+                  <button
+                    type="button"
+                    onClick={() => removeCustomToken(token.address)}
+                    aria-label={`Remove ${token.symbol}`}
+                  >
+                    Remove
+                  </button>
+                )}
+              </li>
+            );
+          })}
+          {failedTokens.map((token) => (
+            <li key={token.address} className="token-row">
+              <span className="token-symbol" title={token.name}>{token.symbol}</span>
+              <span className="token-amount">Unavailable</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form className="token-add-form" onSubmit={handleAddToken}>
+        <input
+          type="text"
+          placeholder="Token contract address (0x...)"
+          value={tokenAddress}
+          onChange={(e) => setTokenAddress(e.target.value)}
+          aria-label="Token contract address"
+        />
+        <button type="submit" disabled={adding || !tokenAddress.trim()}>
+          {adding ? 'Adding...' : 'Add token'}
+        </button>
+      </form>
+      {addError && <p className="error-text">{addError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState, type ChangeEvent } from 'react';
+import { useTransactionExport } from '../hooks/useTransactionExport';
+import type { TransactionExportColumn, TransactionFilters } from '../types/transaction';
+import {
+  DEFAULT_TRANSACTION_EXPORT_COLUMNS,
+  TRANSACTION_EXPORT_COLUMNS,
+  getTransactionExportColumnLabel
+} from '../services/transactionExport';
+import { TransactionStatement } from './TransactionStatement';
+
+interface TransactionExportProps {
+  /** Filters and date range the exported history must match, usually those of the history list */
+  filters?: TransactionFilters;
+  className?: string;
+}
+
+/**
+ * Export the history as CSV or JSON, show it as a printable statement, or
+ * review a JSON export offline
+ */
+export function TransactionExport({ filters, className = '' }: TransactionExportProps): JSX.Element {
+  const {
+    isConnected,
+    isCollecting,
+    error,
+    truncated,
+    statement,
+    exportCsv,
+    exportJson,
+    openStatement,
+    importFile,
+    closeStatement
+  } = useTransactionExport({ filters });
+  const [columns, setColumns] = useState<readonly TransactionExportColumn[]>(DEFAULT_TRANSACTION_EXPORT_COLUMNS);
+
+  const toggleColumn = (column: TransactionExportColumn): void => {
+    setColumns((current) => current.includes(column)
+      ? current.filter((selected) => selected !== column)
+      // Keep the columns in their canonical order
+      : TRANSACTION_EXPORT_COLUMNS.filter((known) => known === column || current.includes(known)));
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = event.target.files?.[0];
+    // Let the same file be picked again
+    event.target.value = '';
+    if (file) {
+      await importFile(file);
+    }
+  };
+
+  return (
+    <div className={`transaction-export ${className}`}>
+      <div className="flex flex-wrap gap-2 items-center">
+        <button
+          type="button"
+          onClick={() => exportCsv(columns)}
+          disabled={!isConnected || isCollecting || columns.length === 0}
+          className="px-3 py-1 text-sm border rounded-md disabled:opacity-50"
+        >
+          Export CSV
+        </button>
+        <button
+          type="button"
+          onClick={() => exportJson()}
+          disabled={!isConnected || isCollecting}
+          className="px-3 py-1 text-sm border rounded-md disabled:opacity-50"
+        >
+          Export JSON
+        </button>
+        <button
+          type="button"
+          onClick={() => openStatement()}
+          disabled={!isConnected || isCollecting}
+          className="px-3 py-1 text-sm border rounded-md disabled:opacity-50"
+        >
+          Statement
+        </button>
+        <label className="transaction-export-file px-3 py-1 text-sm border rounded-md">
+          Import JSON
+          <input type="file" accept="application/json,.json" onChange={handleImport} />
+        </label>
+        {isCollecting && <span className="text-sm text-gray-500">Collecting history...</span>}
+      </div>
+
+      <details className="mt-2 text-sm">
+        <summary>CSV columns</summary>
+        <div className="flex flex-wrap gap-3 mt-2">
+          {TRANSACTION_EXPORT_COLUMNS.map((column) => (
+            <label key={column} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={columns.includes(column)}
+                onChange={() => toggleColumn(column)}
+              />
+              {getTransactionExportColumnLabel(column)}
+            </label>
+          ))}
+        </div>
+      </details>
+
+      {error && <p className="text-sm text-red-500 mt-2">{error.message}</p>}
+      {truncated && !error && (
+        <p className="text-sm warning-text mt-2">
+          The history is longer than one export holds, so only the most recent transactions were included. Narrow the date range to export older ones.
+        </p>
+      )}
+
+      {statement && (
+        <TransactionStatement file={statement.file} imported={statement.imported} onClose={closeStatement} className="mt-4" />
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useAccount } from 'wagmi';
 import { useTransactionHistory } from '../hooks/useTransactionHistory';
-import { TransactionFilters } from '../types/transaction';
+import { useHistoricalPrices } from '../hooks/useHistoricalPrices';
+import { useAddressBook } from '../hooks/useAddressBook';
+import type { CeloTransaction, TransactionFilters } from '../types/transaction';
+import { getTransactionKey, refreshConfirmations } from '../utils/transactionHelpers';
 import {
   getTransactionUrl,
   getAddressUrl,
@@ -9,6 +12,9 @@ import {
   formatRelativeTime,
   formatValue
 } from '../utils/celoExplorer';
+import { TransactionExport } from './TransactionExport';
+import { AddressLabel } from './AddressLabel';
+import { SaveAddressButton } from './AddressBook';
 
 interface TransactionHistoryProps {
   maxHeight?: string;
@@ -17,29 +23,97 @@ interface TransactionHistoryProps {
 
 interface FilterState extends TransactionFilters {
   search: string;
+  /** Date range bounds as YYYY-MM-DD, in UTC; empty when open */
+  dateFrom: string;
+  dateTo: string;
+}
+
+// Whole UTC days between two YYYY-MM-DD dates, either of which may be open
+function toDateRange(dateFrom: string, dateTo: string): TransactionFilters['dateRange'] {
+  if (!dateFrom && !dateTo) {
+    return undefined;
+  }
+  return {
+    start: dateFrom ? Date.parse(`${dateFrom}T00:00:00Z`) / 1000 : 0,
+    end: dateTo ? Date.parse(`${dateTo}T23:59:59Z`) / 1000 : Number.MAX_SAFE_INTEGER
+  };
+}
+
+interface HistoricalValueProps {
+  value?: number;
+  timestamp: number;
+  format: (value: number) => string;
+}
+
+// Fiat value of a row at the time it happened, when its price is known
+function HistoricalValue({ value, timestamp, format }: HistoricalValueProps) {
+  if (value === undefined) {
+    return null;
+  }
+  return (
+    <span title={`Value on ${new Date(timestamp * 1000).toLocaleDateString()}`}>
+      (≈ {format(value)})
+    </span>
+  );
 }
 
 export function TransactionHistory({ className = '' }: TransactionHistoryProps) {
   const { address, isConnected } = useAccount();
-  const { fetchTransactions, error } = useTransactionHistory();
+  const {
+    fetchTransactions,
+    syncTransactions,
+    cacheVersion,
+    blockNumber,
+    historyTokens,
+    error
+  } = useTransactionHistory();
+  const { search: searchAddressBook } = useAddressBook();
 
-  const [transactions, setTransactions] = useState<any[]>([]);
+  const [transactions, setTransactions] = useState<CeloTransaction[]>([]);
   const [loading, setLoading] = useState(false);
   const [filters, setFilters] = useState<FilterState>({
     type: 'all',
     status: 'all',
-    search: ''
+    token: 'all',
+    search: '',
+    dateFrom: '',
+    dateTo: ''
   });
 
+  // Saved addresses whose label, note or tags match the search, looked up across the whole history
+  const contacts = useMemo(
+    () => (filters.search.trim() ? searchAddressBook(filters.search).map((entry) => entry.address) : []),
+    [filters.search, searchAddressBook]
+  );
+
+  // Filters applied to the history query and to exports
+  const queryFilters = useMemo<TransactionFilters>(() => ({
+    type: filters.type,
+    status: filters.status,
+    token: filters.token,
+    dateRange: toDateRange(filters.dateFrom, filters.dateTo),
+    ...(contacts.length ? { counterparties: contacts } : {})
+  }), [filters.type, filters.status, filters.token, filters.dateFrom, filters.dateTo, contacts]);
+
   const [currentPage, setCurrentPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  // Cursor that starts each page, indexed by page number - 1
+  const pageCursors = useRef<Array<string | undefined>>([undefined]);
   const itemsPerPage = 10;
 
-  // Fetch transactions on mount and when filters change
+  // Fetch transactions on mount, when filters or the page change, and after a background sync
   useEffect(() => {
     if (isConnected && address) {
       loadTransactions();
     }
-  }, [isConnected, address, filters]);
+  }, [isConnected, address, filters, queryFilters, currentPage, cacheVersion]);
+
+  // Keep confirmation counts live as new blocks arrive
+  useEffect(() => {
+    if (blockNumber !== undefined) {
+      setTransactions(prev => refreshConfirmations(prev, blockNumber));
+    }
+  }, [blockNumber]);
 
   const loadTransactions = async () => {
     if (!isConnected || !address) {
@@ -49,26 +123,33 @@ export function TransactionHistory({ className = '' }: TransactionHistoryProps)
     setLoading(true);
     try {
       const result = await fetchTransactions({
-        limit: itemsPerPage * currentPage,
-        filters: {
-          type: filters.type,
-          status: filters.status
-        }
+        limit: itemsPerPage,
+        cursor: pageCursors.current[currentPage - 1],
+        filters: queryFilters
       });
+      pageCursors.current[currentPage] = result.nextCursor;
+      setHasMore(result.hasMore);
       setTransactions(result.transactions);
-    } catch (error) {
-      console.error('Failed to load transactions:', error);
+    } catch {
+      // The hook keeps the error and it is shown in place of the list
     } finally {
       setLoading(false);
     }
   };
 
   const handleRefresh = async () => {
+    try {
+      await syncTransactions();
+    } catch {
+      // Reloading would hide the failed sync behind the stale cached page
+      return;
+    }
     await loadTransactions();
   };
 
   const handleFilterChange = (newFilters: Partial<FilterState>) => {
     setFilters(prev => ({ ...prev, ...newFilters }));
+    pageCursors.current = [undefined];
     setCurrentPage(1); // Reset to first page when filtering
   };
 
@@ -105,8 +186,13 @@ export function TransactionHistory({ className = '' }: TransactionHistoryProps)
     }
   };
 
+  // The other side of a transaction, offered for the address book
+  const getCounterparty = (tx: CeloTransaction) =>
+    tx.from.toLowerCase() === address?.toLowerCase() ? tx.to : tx.from;
+
+  // Searches matching saved contacts are answered by the query; others match hashes and addresses of the page
   const filteredTransactions = transactions.filter(tx => {
-    if (filters.search) {
+    if (filters.search && !contacts.length) {
       const searchLower = filters.search.toLowerCase();
       return (
         tx.hash.toLowerCase().includes(searchLower) ||
@@ -117,6 +203,9 @@ export function TransactionHistory({ className = '' }: TransactionHistoryProps)
     return true;
   });
 
+  // Value of each row at the time it happened, in the selected fiat currency
+  const historicalPrices = useHistoricalPrices(filteredTransactions);
+
   if (!isConnected) {
     return (
       <div className={`bg-white rounded-lg shadow-md p-6 ${className}`}>
@@ -124,6 +213,7 @@ export function TransactionHistory({ className = '' }: TransactionHistoryProps)
         <div className="text-center py-8">
           <p className="text-gray-500 mb-4">Connect your wallet to view transaction history</p>
         </div>
+        <TransactionExport />
       </div>
     );
   }
@@ -184,7 +274,45 @@ export function TransactionHistory({ className = '' }: TransactionHistoryProps)
             <option value="pending">Pending</option>
             <option value="failure">Failed</option>
           </select>
+
+          {/* Token Filter */}
+          <select
+            value={filters.token || 'all'}
+            onChange={(e) => handleFilterChange({ token: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="all">All Tokens</option>
+            <option value="native">CELO</option>
+            {historyTokens.map((token) => (
+              <option key={token.address} value={token.address}>{token.symbol}</option>
+            ))}
+          </select>
+
+          {/* Date Range */}
+          <label className="text-sm text-gray-500">
+            From{' '}
+            <input
+              type="date"
+              value={filters.dateFrom}
+              max={filters.dateTo || undefined}
+              onChange={(e) => handleFilterChange({ dateFrom: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </label>
+          <label className="text-sm text-gray-500">
+            To{' '}
+            <input
+              type="date"
+              value={filters.dateTo}
+              min={filters.dateFrom || undefined}
+              onChange={(e) => handleFilterChange({ dateTo: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </label>
         </div>
+
+        {/* Export and import */}
+        <TransactionExport filters={queryFilters} className="mt-4" />
       </div>
 
       {/* Transaction List */}
@@ -207,7 +335,7 @@ export function TransactionHistory({ className = '' }: TransactionHistoryProps)
         ) : (
           <div className="divide-y divide-gray-200">
             {filteredTransactions.map((tx) => (
-              <div key={tx.hash} className="p-4 hover:bg-gray-50">
+              <div key={getTransactionKey(tx)} className="p-4 hover:bg-gray-50">
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-3">
                     {getTransactionIcon(tx.type, tx.status)}
@@ -225,7 +353,8 @@ export function TransactionHistory({ className = '' }: TransactionHistoryProps)
                       <div className="text-sm text-gray-500 space-x-2">
                         <span>{formatRelativeTime(tx.timestamp)}</span>
                         <span>•</span>
-                        <span>{formatValue(tx.value)} CELO</span>
+                        <span>{formatValue(tx.value, tx.tokenDecimals ?? 18)} {tx.tokenSymbol ?? 'CELO'}</span>
+                        <HistoricalValue value={historicalPrices.getValue(tx)} timestamp={tx.timestamp} format={historicalPrices.formatFiat} />
                       </div>
                     </div>
                   </div>
@@ -247,7 +376,7 @@ export function TransactionHistory({ className = '' }: TransactionHistoryProps)
                         rel="noopener noreferrer"
                         className="hover:text-gray-700"
                       >
-                        {formatTransactionHash(tx.from)}
+                        <AddressLabel address={tx.from} chainId={tx.chainId} />
                       </a>
                       {' → '}
                       <a
@@ -256,9 +385,12 @@ export function TransactionHistory({ className = '' }: TransactionHistoryProps)
                         rel="noopener noreferrer"
                         className="hover:text-gray-700"
                       >
-                        {formatTransactionHash(tx.to)}
+                        <AddressLabel address={tx.to} chainId={tx.chainId} />
                       </a>
                     </div>
+                    {getCounterparty(tx) && (
+                      <SaveAddressButton address={getCounterparty(tx)} chainId={tx.chainId} className="text-xs" />
+                    )}
                   </div>
                 </div>
               </div>
@@ -268,7 +400,7 @@ export function TransactionHistory({ className = '' }: TransactionHistoryProps)
       </div>
 
       {/* Pagination */}
-      {filteredTransactions.length > itemsPerPage && (
+      {(hasMore || currentPage > 1) && (
         <div className="p-4 border-t border-gray-200">
           <div className="flex items-center justify-between">
             <button
@@ -283,7 +415,7 @@ export function TransactionHistory({ className = '' }: TransactionHistoryProps)
             </span>
             <button
               onClick={() => setCurrentPage(currentPage + 1)}
-              disabled={filteredTransactions.length < itemsPerPage}
+              disabled={!hasMore || loading}
               className="px-3 py-1 text-sm border rounded-md disabled:opacity-50"
             >
               Next
@@ -0,0 +1,122 @@
+import type { TransactionExportFile } from '../types/transaction';
+import { getCeloChain } from '../config/celoChains';
+import { formatTimestamp, formatValue, getTransactionUrl } from '../utils/celoExplorer';
+import {
+  getFeeCurrencySymbol,
+  getTransactionAsset,
+  getTransactionFee,
+  getTransactionKey,
+  summarizeByAsset,
+  summarizeFees
+} from '../utils/transactionHelpers';
+
+interface TransactionStatementProps {
+  file: TransactionExportFile;
+  /** Loaded from a JSON export rather than from the live history */
+  imported?: boolean;
+  onClose?: () => void;
+  className?: string;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().split('T')[0];
+}
+
+/**
+ * Transaction history laid out as an account statement, ready to print
+ */
+export function TransactionStatement({ file, imported = false, onClose, className = '' }: TransactionStatementProps): JSX.Element {
+  const { address, chainId, exportedAt, filters, transactions, truncated = false } = file;
+  const chainName = getCeloChain(chainId)?.name ?? `Chain ${chainId}`;
+  const range = filters?.dateRange;
+  const totals = summarizeByAsset(transactions, { account: address });
+  const fees = summarizeFees(transactions, { account: address });
+
+  return (
+    <section className={`transaction-statement ${className}`} aria-label="Transaction statement">
+      <header className="statement-header">
+        <h3>Account statement</h3>
+        <dl className="send-review">
+          <dt>Account</dt>
+          <dd>{address}</dd>
+          <dt>Network</dt>
+          <dd>{chainName}</dd>
+          <dt>Period</dt>
+          <dd>{range ? `${formatDate(range.start)} to ${formatDate(range.end)}` : 'All history'}</dd>
+          <dt>{imported ? 'Exported' : 'Generated'}</dt>
+          <dd>{formatTimestamp(exportedAt / 1000)}</dd>
+        </dl>
+        {imported && <p className="warning-text">Imported from a file for offline review; it may be out of date.</p>}
+        {truncated && <p className="warning-text">Only the most recent transactions of the period are listed; narrow the period to see older ones.</p>}
+      </header>
+
+      {transactions.length === 0 ? (
+        <p>No transactions in this period.</p>
+      ) : (
+        <table className="statement-table">
+          <thead>
+            <tr>
+              <th>Date</th>
+              <th>Type</th>
+              <th>Status</th>
+              <th>Amount</th>
+              <th>Fee</th>
+              <th>Counterparty</th>
+              <th>Transaction</th>
+            </tr>
+          </thead>
+          <tbody>
+            {transactions.map((tx) => (
+              <tr key={getTransactionKey(tx)}>
+                <td>{formatDate(tx.timestamp)}</td>
+                <td>{tx.type}</td>
+                <td>{tx.status}</td>
+                <td>{formatValue(tx.value, tx.tokenDecimals ?? 18, { exact: true })} {getTransactionAsset(tx)}</td>
+                <td>{formatValue(getTransactionFee(tx).toString(), 18, { exact: true })}</td>
+                <td className="statement-address">{tx.type === 'received' ? tx.from : tx.to}</td>
+                <td>
+                  <a href={getTransactionUrl(tx.hash, tx.chainId)} target="_blank" rel="noopener noreferrer">
+                    {tx.hash.slice(0, 10)}...
+                  </a>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {totals.length > 0 && (
+        <table className="statement-table statement-totals">
+          <thead>
+            <tr>
+              <th>Asset</th>
+              <th>Received</th>
+              <th>Sent</th>
+              <th>Net</th>
+            </tr>
+          </thead>
+          <tbody>
+            {totals.map((total) => (
+              <tr key={total.asset}>
+                <td>{total.symbol}</td>
+                <td>{formatValue(total.received.toString(), total.decimals, { exact: true })}</td>
+                <td>{formatValue(total.sent.toString(), total.decimals, { exact: true })}</td>
+                <td>{formatValue(total.net.toString(), total.decimals, { exact: true })}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {fees.map((fee) => (
+        <p key={fee.feeCurrency ?? 'native'}>
+          Fees paid in {getFeeCurrencySymbol(chainId, fee.feeCurrency)}: {formatValue(fee.total.toString(), 18, { exact: true })}
+        </p>
+      ))}
+
+      <div className="send-actions statement-actions">
+        <button type="button" onClick={() => window.print()}>Print</button>
+        {onClose && <button type="button" onClick={onClose}>Close</button>}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { useValidatorGroups } from '../hooks/useValidatorGroups';
+import { matchesValidatorGroupFilters, sortValidatorGroups } from '../services/validatorGroups';
+import type { ValidatorGroupSortKey } from '../types/validators';
+import { formatTokenAmount } from '../utils/tokenAmounts';
+import { getAddressUrl, shortenAddress } from '../utils/celoExplorer';
+
+interface ValidatorGroupsProps {
+  className?: string;
+  /** Chain whose groups are listed; the connected chain by default */
+  chainId?: number;
+}
+
+const COLUMNS: Array<{ key: ValidatorGroupSortKey; label: string }> = [
+  { key: 'name', label: 'Group' },
+  { key: 'members', label: 'Members' },
+  { key: 'commission', label: 'Commission' },
+  { key: 'score', label: 'Score' },
+  { key: 'votes', label: 'Votes' },
+  { key: 'capacity', label: 'Capacity' }
+];
+
+const formatPercent = (value: number): string => `${(value * 100).toFixed(2).replace(/\.?0+$/, '')}%`;
+
+/**
+ * Registered validator groups with their election stats, as of the current epoch
+ */
+export function ValidatorGroups({ className = '', chainId: requestedChainId }: ValidatorGroupsProps): JSX.Element {
+  const { chainId, groups, epoch, isLoading, error } = useValidatorGroups({ chainId: requestedChainId });
+  const [query, setQuery] = useState('');
+  const [hasCapacity, setHasCapacity] = useState(false);
+  const [eligibleOnly, setEligibleOnly] = useState(true);
+  const [maxCommission, setMaxCommission] = useState('');
+  const [sortBy, setSortBy] = useState<ValidatorGroupSortKey>('votes');
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
+
+  const shown = sortValidatorGroups(
+    groups.filter((group) => matchesValidatorGroupFilters(group, {
+      query,
+      hasCapacity,
+      eligibleOnly,
+      maxCommission: maxCommission ? Number(maxCommission) : undefined
+    })),
+    sortBy,
+    order
+  );
+
+  // A second click on the sorted column flips the order
+  const handleSort = (key: ValidatorGroupSortKey): void => {
+    if (key === sortBy) {
+      setOrder(order === 'desc' ? 'asc' : 'desc');
+    } else {
+      setSortBy(key);
+      setOrder(key === 'name' || key === 'commission' ? 'asc' : 'desc');
+    }
+  };
+
+  return (
+    <div className={`balance-card ${className}`}>
+      <h3>Validator Groups</h3>
+      {epoch !== undefined && <p className="token-fiat">Epoch {epoch}</p>}
+      {isLoading && <p>Loading validator groups...</p>}
+      {error && <p className="error-text">{error.message}</p>}
+
+      {groups.length > 0 && (
+        <div className="analytics-controls">
+          <input
+            type="search"
+            placeholder="Search by name or address"
+            aria-label="Search validator groups"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          <label>
+            Max commission{' '}
+            <select value={maxCommission} onChange={(e) => setMaxCommission(e.target.value)}>
+              <option value="">Any</option>
+              <option value="0.05">5%</option>
+              <option value="0.1">10%</option>
+              <option value="0.2">20%</option>
+            </select>
+          </label>
+          <label>
+            <input type="checkbox" checked={hasCapacity} onChange={(e) => setHasCapacity(e.target.checked)} />
+            {' '}Has capacity
+          </label>
+          <label>
+            <input type="checkbox" checked={eligibleOnly} onChange={(e) => setEligibleOnly(e.target.checked)} />
+            {' '}Eligible only
+          </label>
+        </div>
+      )}
+
+      {!isLoading && !error && groups.length > 0 && shown.length === 0 && <p>No validator group matches.</p>}
+      {shown.length > 0 && (
+        <table className="statement-table">
+          <thead>
+            <tr>
+              {COLUMNS.map((column) => (
+                <th
+                  key={column.key}
+                  aria-sort={column.key === sortBy ? (order === 'asc' ? 'ascending' : 'descending') : undefined}
+                >
+                  <button type="button" className="sort-button" onClick={() => handleSort(column.key)}>
+                    {column.label}
+                    {column.key === sortBy && (order === 'asc' ? ' ▲' : ' ▼')}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((group) => (
+              <tr key={group.address}>
+                <td>
+                  <a href={getAddressUrl(group.address, chainId)} target="_blank" rel="noopener noreferrer" title={group.address}>
+                    {group.name || shortenAddress(group.address)}
+                  </a>
+                  {!group.eligible && <span className="pill">Not eligible</span>}
+                </td>
+                <td>{group.members.length}</td>
+                <td>{formatPercent(group.commission)}</td>
+                <td>{formatPercent(group.score)}</td>
+                <td>{formatTokenAmount(group.votes, 18, 0)}</td>
+                <td>{formatTokenAmount(group.capacity, 18, 0)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
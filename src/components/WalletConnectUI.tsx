@@ -1,19 +1,30 @@
 import React from 'react';
 import { useAccount, useConnect, useDisconnect } from 'wagmi';
 import { useState } from 'react';
+import { useWalletSession } from '../hooks/useWalletSession';
+import { getWalletErrorMessage, toWalletError } from '../services/walletErrors';
+import { AddressLabel } from './AddressLabel';
 
-function shortenAddress(address: string): string {
-  return `${address.slice(0, 6)}...${address.slice(-4)}`;
-}
+const CONNECT_FAILED = { message: 'Failed to connect wallet. Please try again.', code: 'UNKNOWN' } as const;
+const DISCONNECT_FAILED = { message: 'The wallet did not respond.', code: 'UNKNOWN' } as const;
 
 export function WalletConnectUI(): JSX.Element {
   const { address, isConnected } = useAccount();
-  const { connectors, connect, isPending } = useConnect();
+  const { connectors, connect, isPending, error: connectError } = useConnect();
   const { disconnect } = useDisconnect();
+  const {
+    isReconnecting,
+    lastConnectorId,
+    lastConnectorName,
+    sessionExpired,
+    forget,
+    dismissExpired
+  } = useWalletSession();
   const [error, setError] = useState<string | null>(null);
 
   const handleConnect = async (id: string): Promise<void> => {
     setError(null);
+    dismissExpired();
     try {
       const connector = connectors.find((c) => c.id === id) ?? connectors[0];
       if (!connector) {
@@ -23,7 +34,7 @@ export function WalletConnectUI(): JSX.Element {
       await connect({ connector });
     } catch (e) {
       console.error('Wallet connection failed:', e);
-      setError('Failed to connect wallet. Please try again.');
+      setError(toWalletError(e, CONNECT_FAILED).message);
     }
   };
 
@@ -37,24 +48,57 @@ export function WalletConnectUI(): JSX.Element {
     }
   };
 
+  const handleForget = async (): Promise<void> => {
+    try {
+      await forget();
+      setError(null);
+    } catch (e) {
+      // The session is forgotten either way; only telling the wallet failed
+      setError(`Wallet forgotten, but disconnecting it failed: ${toWalletError(e, DISCONNECT_FAILED).message}`);
+    }
+  };
+
   if (isConnected && address) {
     return (
       <div className="wallet-card">
         <h2>Connected</h2>
-        <p>Address: {shortenAddress(address)}</p>
-        <button onClick={handleDisconnect}>Disconnect</button>
+        <p>Address: <AddressLabel address={address} /></p>
+        <div className="connector-list">
+          <button onClick={handleDisconnect}>Disconnect</button>
+          <button onClick={handleForget}>Forget this wallet</button>
+        </div>
+        {error && <p className="error-text">{error}</p>}
       </div>
     );
   }
 
+  if (isReconnecting) {
+    return (
+      <div className="wallet-card">
+        <h2>Reconnecting</h2>
+        <p>Restoring your {lastConnectorName ?? 'wallet'} session...</p>
+      </div>
+    );
+  }
+
+  // The connector used last on this device comes first
+  const sortedConnectors = [...connectors].sort(
+    (a, b) => Number(b.id === lastConnectorId) - Number(a.id === lastConnectorId)
+  );
+  const message = error
+    ?? (sessionExpired ? getWalletErrorMessage('WALLETCONNECT_SESSION_EXPIRED') : null)
+    ?? (connectError ? toWalletError(connectError, CONNECT_FAILED).message : null);
+
   return (
     <div className="wallet-card">
       <h2>Connect your wallet</h2>
       <p>Select a connector to get started on Celo.</p>
       <div className="connector-list">
-        {connectors.map((connector) => (
+        {sortedConnectors.map((connector) => (
           <button
             key={connector.id}
+            className={connector.id === lastConnectorId ? 'connector-recent' : undefined}
+            title={connector.id === lastConnectorId ? 'Last used on this device' : undefined}
             disabled={!connector.ready || isPending}
             onClick={() => handleConnect(connector.id)}
           >
@@ -62,7 +106,12 @@ export function WalletConnectUI(): JSX.Element {
           </button>
         ))}
       </div>
-      {error && <p className="error-text">{error}</p>}
+      {lastConnectorId && (
+        <button type="button" className="link-button" onClick={handleForget}>
+          Forget {lastConnectorName ?? 'this wallet'} on this device
+        </button>
+      )}
+      {message && <p className="error-text">{message}</p>}
     </div>
   );
 }
@@ -1,21 +1,50 @@
 import { useAccount } from 'wagmi';
 import { useCeloNetwork } from '../hooks/useCeloNetwork';
+import { useRpcHealth } from '../hooks/useRpcHealth';
+import { useSiwe, type UseSiweOptions } from '../hooks/useSiwe';
+import { AddressLabel } from './AddressLabel';
 
-function shortenAddress(address: string): string {
-  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+interface WalletStatusProps {
+  /** Sign-In With Ethereum setup; a sign-in button is shown when it has an adapter */
+  siwe?: UseSiweOptions;
 }
 
-export function WalletStatus(): JSX.Element {
-  const { address, isConnected } = useAccount();
+const SIGN_OUT_NOTICES = {
+  'account-changed': 'Signed out because the account changed.',
+  'chain-changed': 'Signed out because the network changed.'
+} as const;
+
+function endpointHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+export function WalletStatus({ siwe }: WalletStatusProps = {}): JSX.Element {
+  const { address, isConnected, status: accountStatus } = useAccount();
   const {
-    activeChain,
-    isSupported,
+    currentChain,
+    isSupportedChain,
     celoMainnet,
     alfajores,
     switchToCelo,
     switchToAlfajores,
-    isSwitching
+    isSwitching,
+    switchError
   } = useCeloNetwork();
+  const { activeEndpoint, status: rpcStatus } = useRpcHealth();
+  const {
+    status: siweStatus,
+    signOutReason,
+    error: siweError,
+    signIn,
+    signOut
+  } = useSiwe(siwe);
+  const signOutNotice = signOutReason === 'account-changed' || signOutReason === 'chain-changed'
+    ? SIGN_OUT_NOTICES[signOutReason]
+    : null;
 
   return (
     <div className="wallet-status">
@@ -23,16 +52,38 @@ export function WalletStatus(): JSX.Element {
         {isConnected && address ? (
           <>
             <span className="pill pill-connected">Connected</span>
-            <span className="pill">{shortenAddress(address)}</span>
-            {activeChain && (
-              <span className="pill pill-chain">{activeChain.name}</span>
+            <AddressLabel address={address} className="pill" />
+            {currentChain && (
+              <span className="pill pill-chain">{currentChain.name}</span>
+            )}
+            {activeEndpoint && (
+              <span className="pill pill-rpc" title={activeEndpoint.url}>
+                RPC: {endpointHost(activeEndpoint.url)}
+                {activeEndpoint.latency !== undefined && ` · ${activeEndpoint.latency} ms`}
+              </span>
             )}
+            {siweStatus === 'signed-in' && <span className="pill pill-connected">Signed in</span>}
+            {siweStatus === 'signing-in' && <span className="pill">Signing in...</span>}
+            {siweStatus === 'expired' && <span className="pill pill-expired">Session expired</span>}
           </>
+        ) : accountStatus === 'reconnecting' ? (
+          <span className="pill">Reconnecting...</span>
         ) : (
           <span className="pill">Not connected</span>
         )}
       </div>
       <div className="wallet-status-actions">
+        {isConnected && siwe?.adapter && (
+          siweStatus === 'signed-in' ? (
+            <button type="button" onClick={signOut}>
+              Sign out
+            </button>
+          ) : (
+            <button type="button" onClick={signIn} disabled={siweStatus === 'signing-in'}>
+              {siweStatus === 'expired' ? 'Sign in again' : 'Sign in'}
+            </button>
+          )
+        )}
         <button
           type="button"
           onClick={switchToAlfajores}
@@ -48,7 +99,17 @@ export function WalletStatus(): JSX.Element {
           Switch to {celoMainnet.name}
         </button>
       </div>
-      {!isSupported && (
+      {siweError && <p className="error-text">{siweError.message}</p>}
+      {signOutNotice && siweStatus === 'signed-out' && (
+        <p className="warning-text">{signOutNotice}</p>
+      )}
+      {rpcStatus === 'down' && (
+        <p className="warning-text">
+          No RPC endpoint is responding. Balances and history may be out of date.
+        </p>
+      )}
+      {switchError && <p className="error-text">{switchError.message}</p>}
+      {!isSupportedChain && (
         <p className="warning-text">
           You are connected to an unsupported network. Please switch to Celo or
           Alfajores.
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { AddToWallet } from '../AddToWallet';
+
+// Mock wagmi and the add-to-wallet hook
+vi.mock('wagmi', () => ({
+  useAccount: vi.fn()
+}));
+
+vi.mock('../../hooks/useAddToWallet', () => ({
+  useAddToWallet: vi.fn()
+}));
+
+import { useAccount } from 'wagmi';
+import { useAddToWallet } from '../../hooks/useAddToWallet';
+
+function mockAddToWallet(overrides: Record<string, unknown> = {}) {
+  const hook = {
+    isConnected: true,
+    addChain: vi.fn(),
+    watchToken: vi.fn(),
+    isChainKnown: vi.fn(() => undefined),
+    chainState: vi.fn(() => ({ status: 'idle' })),
+    tokenState: vi.fn(() => ({ status: 'idle' })),
+    ...overrides
+  };
+  vi.mocked(useAddToWallet).mockReturnValue(hook as any);
+  return hook;
+}
+
+describe('AddToWallet', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useAccount).mockReturnValue({ chainId: 42220 } as any);
+  });
+
+  it('asks to connect a wallet first', () => {
+    mockAddToWallet({ isConnected: false });
+
+    render(<AddToWallet />);
+
+    expect(screen.getByText(/Connect your wallet/)).toBeInTheDocument();
+  });
+
+  it('adds a network the wallet may not know', async () => {
+    const user = userEvent.setup();
+    const hook = mockAddToWallet();
+
+    render(<AddToWallet />);
+    await user.click(screen.getByRole('button', { name: 'Add Celo Sepolia' }));
+
+    expect(hook.addChain).toHaveBeenCalledWith(expect.objectContaining({ id: 11142220 }));
+  });
+
+  it('disables networks the wallet already has', () => {
+    mockAddToWallet({ isChainKnown: vi.fn((chainId: number) => chainId === 42220) });
+
+    render(<AddToWallet />);
+
+    expect(screen.getAllByRole('button', { name: 'In wallet' })).toHaveLength(1);
+    expect(screen.getAllByRole('button', { name: 'In wallet' })[0]).toBeDisabled();
+  });
+
+  it('watches the registry tokens of the current chain', async () => {
+    const user = userEvent.setup();
+    const hook = mockAddToWallet();
+
+    render(<AddToWallet />);
+    await user.click(screen.getByRole('button', { name: 'Add cUSD' }));
+
+    expect(hook.watchToken).toHaveBeenCalledWith(expect.objectContaining({ symbol: 'cUSD', chainId: 42220 }));
+  });
+
+  it('shows when the user rejected the request', () => {
+    mockAddToWallet({ tokenState: vi.fn(() => ({ status: 'rejected' })) });
+
+    render(<AddToWallet />);
+
+    expect(screen.getAllByText('Rejected in wallet').length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { AddressBook, SaveAddressButton } from '../AddressBook';
+import { AddressLabel } from '../AddressLabel';
+import { createAddressBookStore, type AddressBookStore } from '../../services/addressBook';
+
+// Mock the wagmi hooks
+vi.mock('wagmi', () => ({
+  useChainId: vi.fn(() => 42220)
+}));
+
+// Mock reverse name lookups
+vi.mock('../../hooks/useNameResolution', () => ({
+  useAddressName: vi.fn()
+}));
+
+import { useAddressName } from '../../hooks/useNameResolution';
+
+// Use a fresh in-memory book in every test
+let store: AddressBookStore;
+vi.mock('../../services/addressBook', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../services/addressBook')>();
+  return { ...actual, getSharedAddressBookStore: () => store };
+});
+
+const ADDRESS = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+describe('AddressBook', () => {
+  beforeEach(() => {
+    store = createAddressBookStore();
+    vi.mocked(useAddressName).mockReturnValue(undefined);
+  });
+
+  it('shows labels in place of saved addresses', () => {
+    store.save({ chainId: 42220, address: ADDRESS, label: 'Exchange', note: 'Deposits' });
+
+    render(
+      <>
+        <AddressLabel address={ADDRESS} />
+        <AddressLabel address="0x1234567890123456789012345678901234567890" />
+      </>
+    );
+
+    expect(screen.getByText('Exchange')).toHaveAttribute('title', `${ADDRESS}\nDeposits`);
+    expect(screen.getByText('0x1234...7890')).toBeInTheDocument();
+  });
+
+  it('falls back to the resolved name of an address', () => {
+    vi.mocked(useAddressName).mockReturnValue('alice.celo');
+
+    render(<AddressLabel address={ADDRESS} />);
+
+    expect(screen.getByText('alice.celo')).toHaveAttribute('title', ADDRESS);
+  });
+
+  it('prefers the address book label over the resolved name', () => {
+    vi.mocked(useAddressName).mockReturnValue('alice.celo');
+    store.save({ chainId: 42220, address: ADDRESS, label: 'Alice' });
+
+    render(<AddressLabel address={ADDRESS} />);
+
+    expect(screen.getByText('Alice')).toBeInTheDocument();
+    expect(screen.queryByText('alice.celo')).not.toBeInTheDocument();
+  });
+
+  it('saves an address from elsewhere in the app', async () => {
+    const user = userEvent.setup();
+    render(
+      <>
+        <AddressLabel address={ADDRESS} />
+        <SaveAddressButton address={ADDRESS} />
+      </>
+    );
+
+    await user.click(screen.getByText('Save address'));
+    await user.type(screen.getByLabelText('Label'), 'Exchange');
+    await user.type(screen.getByLabelText('Tags'), 'cex, daily');
+    await user.click(screen.getByText('Save'));
+
+    expect(screen.getByText('Exchange')).toBeInTheDocument();
+    expect(screen.getByText('Edit label')).toBeInTheDocument();
+    expect(store.get(42220, ADDRESS)?.tags).toEqual(['cex', 'daily']);
+  });
+
+  it('adds, searches and removes entries', async () => {
+    const user = userEvent.setup();
+    store.save({ chainId: 42220, address: '0x1234567890123456789012345678901234567890', label: 'Alice', tags: ['family'] });
+    render(<AddressBook />);
+
+    await user.click(screen.getByText('Add address'));
+    await user.type(screen.getByLabelText('Address'), ADDRESS);
+    await user.type(screen.getByLabelText('Label'), 'Exchange');
+    await user.click(screen.getByText('Save'));
+
+    await user.type(screen.getByLabelText('Search address book'), 'family');
+    expect(screen.getByText('Alice')).toBeInTheDocument();
+    expect(screen.queryByText('Exchange')).not.toBeInTheDocument();
+
+    await user.click(screen.getByLabelText('Remove Alice'));
+    expect(screen.getByText('No saved address matches.')).toBeInTheDocument();
+  });
+
+  it('reports invalid addresses', async () => {
+    const user = userEvent.setup();
+    render(<AddressBook />);
+
+    await user.click(screen.getByText('Add address'));
+    await user.type(screen.getByLabelText('Address'), '0x123');
+    await user.type(screen.getByLabelText('Label'), 'Broken');
+    await user.click(screen.getByText('Save'));
+
+    expect(screen.getByText('Invalid address: 0x123')).toBeInTheDocument();
+  });
+});
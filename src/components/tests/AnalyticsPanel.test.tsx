@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { AnalyticsPanel } from '../AnalyticsPanel';
+
+// Mock the analytics hook
+vi.mock('../../hooks/useTransactionAnalytics', () => ({
+  useTransactionAnalytics: vi.fn()
+}));
+
+import { useTransactionAnalytics } from '../../hooks/useTransactionAnalytics';
+
+const celoFlow = {
+  asset: 'native',
+  symbol: 'CELO',
+  decimals: 18,
+  sent: BigInt('2000000000000000000'),
+  received: BigInt('3500000000000000000'),
+  net: BigInt('1500000000000000000'),
+  count: 3
+};
+
+function mockAnalytics(overrides: Record<string, unknown> = {}) {
+  const analytics = {
+    isConnected: true,
+    chainId: 42220,
+    transactions: [],
+    summary: {
+      totalTransactions: 3,
+      byAsset: [celoFlow],
+      fees: [{ total: BigInt('105000000000000'), count: 2 }],
+      totalGasUsed: BigInt(42000),
+      averageGasUsed: BigInt(14000),
+      uniqueAddresses: 2,
+      lastTransaction: null
+    },
+    counterparties: [{ ...celoFlow, counterparty: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' }],
+    buckets: [
+      { start: 1704067200, end: 1704153600, label: '2024-01-01', count: 2, byAsset: [celoFlow], fees: [] },
+      { start: 1704153600, end: 1704240000, label: '2024-01-02', count: 0, byAsset: [], fees: [] }
+    ],
+    costBasis: [],
+    hasPrices: false,
+    currency: 'USD',
+    formatFiat: (value: number) => `$${value.toFixed(2)}`,
+    isLoading: false,
+    error: null,
+    truncated: false,
+    refetch: vi.fn(),
+    ...overrides
+  };
+  vi.mocked(useTransactionAnalytics).mockReturnValue(analytics as any);
+  return analytics;
+}
+
+describe('AnalyticsPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('asks to connect a wallet first', () => {
+    mockAnalytics({ isConnected: false });
+
+    render(<AnalyticsPanel />);
+
+    expect(screen.getByText(/Connect your wallet/)).toBeInTheDocument();
+  });
+
+  it('shows exact totals, fees and counterparties', () => {
+    mockAnalytics();
+
+    render(<AnalyticsPanel />);
+
+    expect(screen.getAllByText('3.5').length).toBeGreaterThan(0);
+    expect(screen.getAllByText('1.5').length).toBe(2);
+    expect(screen.getByText(/Fees paid in CELO: 0.000105/)).toBeInTheDocument();
+    expect(screen.getByTitle('0xabcdefabcdefabcdefabcdefabcdefabcdefabcd')).toBeInTheDocument();
+  });
+
+  it('shows staking rewards apart from transfers', () => {
+    const analytics = mockAnalytics();
+    mockAnalytics({
+      summary: { ...analytics.summary, rewards: { total: BigInt('2500000000000000000'), epochs: 12 } }
+    });
+
+    render(<AnalyticsPanel rewardsFromBlock={BigInt(1)} />);
+
+    expect(screen.getByText(/Staking rewards: 2.5 CELO over 12 epochs/)).toBeInTheDocument();
+    expect(useTransactionAnalytics).toHaveBeenCalledWith(expect.objectContaining({ includeRewards: true, rewardsFromBlock: BigInt(1) }));
+  });
+
+  it('leaves staking rewards out without a start block', () => {
+    mockAnalytics();
+
+    render(<AnalyticsPanel />);
+
+    expect(useTransactionAnalytics).toHaveBeenCalledWith(expect.objectContaining({ includeRewards: false }));
+  });
+
+  it('warns when staking rewards cannot be read', () => {
+    mockAnalytics({ rewardsError: { message: 'missing trie node' } });
+
+    render(<AnalyticsPanel />);
+
+    expect(screen.getByText('Staking rewards unavailable: missing trie node')).toBeInTheDocument();
+  });
+
+  it('warns when older transactions are left out', () => {
+    mockAnalytics({ truncated: true });
+
+    render(<AnalyticsPanel />);
+
+    expect(screen.getByText(/Only your most recent transactions are included/)).toBeInTheDocument();
+  });
+
+  it('shows cost basis and P&L once prices are known', () => {
+    mockAnalytics({
+      hasPrices: true,
+      costBasis: [{
+        asset: 'native',
+        symbol: 'CELO',
+        decimals: 18,
+        holdings: BigInt('1500000000000000000'),
+        costBasis: 0.75,
+        averageCost: 0.5,
+        realizedPnl: 0.4,
+        currentValue: 1.2,
+        unrealizedPnl: 0.45,
+        unpricedCount: 1
+      }]
+    });
+
+    render(<AnalyticsPanel />);
+
+    expect(screen.getByText('Cost basis (USD)')).toBeInTheDocument();
+    expect(screen.getByText('$0.75')).toBeInTheDocument();
+    expect(screen.getByText('$0.45')).toBeInTheDocument();
+    expect(screen.getByText(/no historical price/)).toBeInTheDocument();
+  });
+
+  it('hides cost basis without prices', () => {
+    mockAnalytics();
+
+    render(<AnalyticsPanel />);
+
+    expect(screen.queryByText(/Cost basis/)).not.toBeInTheDocument();
+  });
+
+  it('charts one period per bucket', () => {
+    mockAnalytics();
+
+    render(<AnalyticsPanel />);
+
+    expect(screen.getByRole('img', { name: 'CELO received and sent per period' })).toBeInTheDocument();
+    expect(screen.getByText('2024-01-01')).toBeInTheDocument();
+    expect(screen.getByText('2024-01-02')).toBeInTheDocument();
+  });
+
+  it('re-buckets when the period changes', async () => {
+    const user = userEvent.setup();
+    mockAnalytics();
+
+    render(<AnalyticsPanel />);
+    await user.selectOptions(screen.getByLabelText(/Period/), 'monthly');
+
+    expect(useTransactionAnalytics).toHaveBeenLastCalledWith(expect.objectContaining({ period: 'monthly' }));
+  });
+});
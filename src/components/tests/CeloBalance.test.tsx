@@ -1,6 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen } from '@testing-library/react';
-import userEvent from '@testing-library/user-event';
 import { CeloBalance } from '../CeloBalance';
 import { useAccount, useBalance } from 'wagmi';
 
@@ -15,7 +14,13 @@ vi.mock('../../hooks/useCeloNetwork', () => ({
   useCeloNetwork: vi.fn()
 }));
 
+// Mock the price lookups
+vi.mock('../../hooks/useFiatValuation', () => ({
+  useFiatValuation: vi.fn()
+}));
+
 import { useCeloNetwork } from '../../hooks/useCeloNetwork';
+import { useFiatValuation } from '../../hooks/useFiatValuation';
 
 describe('CeloBalance', () => {
   beforeEach(() => {
@@ -28,9 +33,9 @@ describe('CeloBalance', () => {
     } as any);
 
     vi.mocked(useCeloNetwork).mockReturnValue({
-      activeChainId: 42220,
-      activeChain: { id: 42220, name: 'Celo Mainnet' },
-      isSupported: true,
+      currentChainId: 42220,
+      currentChain: { id: 42220, name: 'Celo Mainnet' },
+      isSupportedChain: true,
       celoMainnet: { id: 42220, name: 'Celo Mainnet' },
       alfajores: { id: 44787, name: 'Celo Alfajores' },
       switchToCelo: vi.fn(),
@@ -45,6 +50,11 @@ describe('CeloBalance', () => {
       isLoading: false,
       error: null
     } as any);
+
+    vi.mocked(useFiatValuation).mockReturnValue({
+      getValue: vi.fn(() => undefined),
+      formatFiat: (value: number) => `$${value.toFixed(2)}`
+    } as any);
   });
 
   it('shows "Connect your wallet" message when no wallet is connected', () => {
@@ -113,6 +123,28 @@ describe('CeloBalance', () => {
     expect(screen.getByText('Balance: 12.345678 CELO on Celo Mainnet')).toBeInTheDocument();
   });
 
+  it('shows the fiat value of the balance when a price is known', () => {
+    vi.mocked(useAccount).mockReturnValue({
+      address: '0x1234567890123456789012345678901234567890',
+      isConnected: true
+    } as any);
+
+    vi.mocked(useBalance).mockReturnValue({
+      data: { value: BigInt('10000000000000000000'), decimals: 18, symbol: 'CELO', formatted: '10' },
+      isLoading: false,
+      error: null
+    } as any);
+
+    vi.mocked(useFiatValuation).mockReturnValue({
+      getValue: vi.fn(() => 5.5),
+      formatFiat: (value: number) => `$${value.toFixed(2)}`
+    } as any);
+
+    render(<CeloBalance />);
+
+    expect(screen.getByText('≈ $5.50')).toBeInTheDocument();
+  });
+
   it('shows trimmed balance without trailing zeros', () => {
     vi.mocked(useAccount).mockReturnValue({
       address: '0x1234567890123456789012345678901234567890',
@@ -185,16 +217,16 @@ describe('CeloBalance', () => {
     expect(screen.getByText('Balance: 0.000000 CELO on Celo Mainnet')).toBeInTheDocument();
   });
 
-  it('shows "Unknown Network" when active chain is null', () => {
+  it('shows "Unknown Network" when current chain is null', () => {
     vi.mocked(useAccount).mockReturnValue({
       address: '0x1234567890123456789012345678901234567890',
       isConnected: true
     } as any);
 
     vi.mocked(useCeloNetwork).mockReturnValue({
-      activeChainId: 1, // Unsupported chain
-      activeChain: null,
-      isSupported: false,
+      currentChainId: 1, // Unsupported chain
+      currentChain: null,
+      isSupportedChain: false,
       celoMainnet: { id: 42220, name: 'Celo Mainnet' },
       alfajores: { id: 44787, name: 'Celo Alfajores' },
       switchToCelo: vi.fn(),
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { EpochRewardsTimeline } from '../EpochRewardsTimeline';
+
+// Mock the epoch rewards hook
+vi.mock('../../hooks/useEpochRewards', () => ({
+  useEpochRewards: vi.fn()
+}));
+
+// Group addresses show as plain shortened addresses
+vi.mock('../AddressLabel', () => ({
+  AddressLabel: ({ address }: { address: string }) => <span>{address.slice(0, 6)}</span>
+}));
+
+import { useEpochRewards } from '../../hooks/useEpochRewards';
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890';
+const GROUP_A = '0x2000000000000000000000000000000000000001';
+const GROUP_B = '0x3000000000000000000000000000000000000002';
+const ONE = BigInt(10) ** BigInt(18);
+
+const epochs = [
+  {
+    epoch: 3,
+    blockNumber: BigInt(30),
+    timestamp: 1700000000,
+    total: BigInt(3) * ONE,
+    byGroup: [{ group: GROUP_A, value: ONE }, { group: GROUP_B, value: BigInt(2) * ONE }]
+  },
+  { epoch: 2, blockNumber: BigInt(20), timestamp: 1699900000, total: ONE, byGroup: [{ group: GROUP_A, value: ONE }] }
+];
+
+function mockHook(overrides: Record<string, unknown> = {}) {
+  const hook = {
+    address: ACCOUNT,
+    chainId: 42220,
+    isConnected: true,
+    isEnabled: true,
+    rewards: [],
+    epochs,
+    total: BigInt(4) * ONE,
+    isLoading: false,
+    error: null,
+    refetch: vi.fn(),
+    ...overrides
+  };
+  vi.mocked(useEpochRewards).mockReturnValue(hook as any);
+  return hook;
+}
+
+describe('EpochRewardsTimeline', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists rewards per epoch with the total', () => {
+    mockHook();
+    render(<EpochRewardsTimeline />);
+
+    expect(screen.getByText('4 CELO over 2 epochs')).toBeInTheDocument();
+    expect(screen.getByText('Epoch 3')).toBeInTheDocument();
+    expect(screen.getByText('+3 CELO')).toBeInTheDocument();
+    expect(screen.getByText('Epoch 2')).toBeInTheDocument();
+    // Groups are only broken out when an epoch has several
+    expect(screen.getByText('0x3000')).toBeInTheDocument();
+  });
+
+  it('shows the most recent epochs up to the limit', () => {
+    mockHook();
+    render(<EpochRewardsTimeline limit={1} />);
+
+    expect(screen.getByText('Epoch 3')).toBeInTheDocument();
+    expect(screen.queryByText('Epoch 2')).not.toBeInTheDocument();
+  });
+
+  it('explains when there are no rewards yet', () => {
+    mockHook({ epochs: [], total: BigInt(0) });
+    render(<EpochRewardsTimeline />);
+
+    expect(screen.getByText(/Active votes earn rewards at the end of each epoch/)).toBeInTheDocument();
+  });
+
+  it('reads rewards from the given start block only', () => {
+    mockHook({ isEnabled: false, epochs: [], total: BigInt(0) });
+    render(<EpochRewardsTimeline />);
+
+    expect(useEpochRewards).toHaveBeenCalledWith({ fromBlock: undefined });
+    expect(screen.getByText('Staking rewards are not tracked: no start block is set.')).toBeInTheDocument();
+    expect(screen.queryByText(/Active votes earn rewards/)).not.toBeInTheDocument();
+  });
+
+  it('asks to connect a wallet', () => {
+    mockHook({ isConnected: false, address: undefined });
+    render(<EpochRewardsTimeline />);
+
+    expect(screen.getByText('Connect your wallet to see the rewards of your votes.')).toBeInTheDocument();
+  });
+});
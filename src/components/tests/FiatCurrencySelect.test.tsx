@@ -0,0 +1,39 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { FiatCurrencySelect } from '../FiatCurrencySelect';
+
+// Mock the shared currency choice
+vi.mock('../../hooks/useFiatValuation', () => ({
+  useFiatCurrency: vi.fn()
+}));
+
+import { useFiatCurrency } from '../../hooks/useFiatValuation';
+
+describe('FiatCurrencySelect', () => {
+  const setCurrency = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useFiatCurrency).mockReturnValue({
+      currency: 'USD',
+      setCurrency,
+      currencies: ['USD', 'EUR', 'KES']
+    } as any);
+  });
+
+  it('shows the selected currency', () => {
+    render(<FiatCurrencySelect />);
+
+    expect(screen.getByLabelText(/Show values in/)).toHaveValue('USD');
+  });
+
+  it('changes the currency for the whole app', async () => {
+    const user = userEvent.setup();
+    render(<FiatCurrencySelect />);
+
+    await user.selectOptions(screen.getByLabelText(/Show values in/), 'KES');
+
+    expect(setCurrency).toHaveBeenCalledWith('KES');
+  });
+});
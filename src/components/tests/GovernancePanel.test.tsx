@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { GovernancePanel } from '../GovernancePanel';
+
+// Mock the governance hook
+vi.mock('../../hooks/useGovernance', () => ({
+  useGovernance: vi.fn()
+}));
+
+import { useGovernance } from '../../hooks/useGovernance';
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890';
+const LOCKED_GOLD = '0x1000000000000000000000000000000000000002';
+const ONE = BigInt(10) ** BigInt(18);
+const NO_VOTES = { yes: BigInt(0), no: BigInt(0), abstain: BigInt(0) };
+
+const proposals = [
+  {
+    id: BigInt(5),
+    stage: 'Queued',
+    proposer: ACCOUNT,
+    deposit: BigInt(100) * ONE,
+    timestamp: 1700000000,
+    descriptionUrl: 'https://example.org/5',
+    transactionCount: 0,
+    transactions: [],
+    upvotes: BigInt(100) * ONE,
+    votes: NO_VOTES
+  },
+  {
+    id: BigInt(3),
+    stage: 'Referendum',
+    proposer: ACCOUNT,
+    deposit: BigInt(100) * ONE,
+    timestamp: 1700000000,
+    descriptionUrl: 'https://example.org/3',
+    transactionCount: 1,
+    transactions: [
+      { destination: LOCKED_GOLD, value: BigInt(0), data: '0x', contract: 'LockedGold', functionName: 'unlock', args: [ONE] }
+    ],
+    upvotes: BigInt(0),
+    votes: { yes: BigInt(300) * ONE, no: BigInt(20) * ONE, abstain: ONE },
+    index: 0
+  },
+  {
+    id: BigInt(2),
+    stage: 'Executed',
+    proposer: ACCOUNT,
+    deposit: BigInt(100) * ONE,
+    timestamp: 1690000000,
+    descriptionUrl: '',
+    transactionCount: 2,
+    transactions: [],
+    upvotes: BigInt(0),
+    votes: NO_VOTES,
+    executedBlock: BigInt(20)
+  }
+];
+
+function mockHook(overrides: Record<string, unknown> = {}) {
+  const hook = {
+    address: ACCOUNT,
+    chainId: 42220,
+    isConnected: true,
+    proposals,
+    account: { account: ACCOUNT, weight: BigInt(50) * ONE, votes: { 3: 'no' } },
+    isLoading: false,
+    isLoadingAccount: false,
+    status: 'idle',
+    action: undefined,
+    hashes: [],
+    execute: vi.fn().mockResolvedValue(null),
+    reset: vi.fn(),
+    refetch: vi.fn(),
+    error: null,
+    proposalsError: null,
+    executedError: null,
+    accountError: null,
+    ...overrides
+  };
+  vi.mocked(useGovernance).mockReturnValue(hook as any);
+  return hook;
+}
+
+describe('GovernancePanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists proposals with their tallies, decoded calls and the vote weight', () => {
+    mockHook();
+    render(<GovernancePanel />);
+
+    expect(screen.getByText(/Your vote weight: 50 CELO/)).toBeInTheDocument();
+    expect(screen.getByText('100 CELO upvoting')).toBeInTheDocument();
+    expect(screen.getByText('Yes 300 · No 20 · Abstain 1')).toBeInTheDocument();
+    expect(screen.getByText('Executed in block 20')).toBeInTheDocument();
+    expect(screen.getByText('LockedGold.unlock(1000000000000000000)')).toBeInTheDocument();
+    expect(screen.getByText('You voted No')).toBeInTheDocument();
+  });
+
+  it('upvotes and votes through the hook', async () => {
+    const hook = mockHook();
+    render(<GovernancePanel />);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Upvote' }));
+    expect(hook.execute).toHaveBeenCalledWith({ type: 'upvote', proposalId: BigInt(5) });
+
+    await userEvent.click(screen.getByRole('button', { name: 'Yes' }));
+    expect(hook.execute).toHaveBeenCalledWith({ type: 'vote', proposalId: BigInt(3), value: 'yes' });
+    expect(screen.getByRole('button', { name: 'No' })).toBeDisabled();
+  });
+
+  it('filters by stage', async () => {
+    mockHook();
+    render(<GovernancePanel executedFromBlock={BigInt(1)} />);
+
+    await userEvent.selectOptions(screen.getByLabelText('Stage'), 'Executed');
+
+    expect(screen.queryByText('100 CELO upvoting')).not.toBeInTheDocument();
+    expect(screen.getByText('Executed in block 20')).toBeInTheDocument();
+  });
+
+  it('keeps live proposals when executed ones are unavailable', () => {
+    mockHook({
+      proposals: proposals.filter((entry) => entry.stage !== 'Executed'),
+      executedError: { message: 'Block range too large', code: 'UNKNOWN' }
+    });
+    render(<GovernancePanel executedFromBlock={BigInt(1)} />);
+
+    expect(screen.getByText('Executed proposals unavailable: Block range too large')).toBeInTheDocument();
+    expect(screen.getByText('100 CELO upvoting')).toBeInTheDocument();
+    expect(useGovernance).toHaveBeenCalledWith({ executedFromBlock: BigInt(1) });
+  });
+
+  it('disables voting without locked CELO', () => {
+    mockHook({ account: { account: ACCOUNT, weight: BigInt(0), votes: {} } });
+    render(<GovernancePanel />);
+
+    expect(screen.getByText(/Lock CELO to take part/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Upvote' })).toBeDisabled();
+  });
+
+  it('tracks a vote from pending to confirmed', () => {
+    mockHook({ status: 'pending', hashes: ['0xabc'] });
+    const { rerender } = render(<GovernancePanel />);
+    expect(screen.getByText('Vote submitted. Waiting for confirmation...')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'View on explorer' })).toBeInTheDocument();
+
+    mockHook({ status: 'confirmed', hashes: ['0xabc'] });
+    rerender(<GovernancePanel />);
+    expect(screen.getByText('Confirmed.')).toBeInTheDocument();
+  });
+});
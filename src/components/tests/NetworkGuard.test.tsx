@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { NetworkGuard } from '../NetworkGuard';
+
+// Mock the guard hook
+vi.mock('../../hooks/useNetworkGuard', () => ({
+  useNetworkGuard: vi.fn()
+}));
+
+import { useNetworkGuard } from '../../hooks/useNetworkGuard';
+
+const celo = { id: 42220, name: 'Celo' };
+
+function mockGuard(overrides: Record<string, unknown> = {}) {
+  const guard = {
+    status: 'ready',
+    isBlocked: false,
+    currentChainId: 42220,
+    currentChain: celo,
+    targetChain: celo,
+    allowedChains: [celo],
+    needsAdd: false,
+    error: null,
+    switchNetwork: vi.fn(),
+    addNetwork: vi.fn(),
+    ...overrides
+  };
+  vi.mocked(useNetworkGuard).mockReturnValue(guard as any);
+  return guard;
+}
+
+describe('NetworkGuard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('leaves its children enabled on a supported chain', () => {
+    mockGuard();
+
+    render(<NetworkGuard><button>Send</button></NetworkGuard>);
+
+    expect(screen.getByRole('button', { name: 'Send' })).toBeEnabled();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('disables its children and prompts to switch on another chain', async () => {
+    const user = userEvent.setup();
+    const guard = mockGuard({ status: 'wrong-chain', isBlocked: true, currentChainId: 1, currentChain: undefined });
+
+    render(<NetworkGuard><button>Send</button></NetworkGuard>);
+
+    expect(screen.getByRole('button', { name: 'Send' })).toBeDisabled();
+    expect(screen.getByText(/unsupported network \(chain 1\)/)).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Switch to Celo' }));
+    expect(guard.switchNetwork).toHaveBeenCalledTimes(1);
+  });
+
+  it('offers to add the chain when the wallet lacks it', async () => {
+    const user = userEvent.setup();
+    const guard = mockGuard({
+      status: 'wrong-chain',
+      isBlocked: true,
+      currentChainId: 1,
+      currentChain: undefined,
+      needsAdd: true,
+      error: { code: 'UNSUPPORTED_CHAIN', message: 'This network is not supported.' }
+    });
+
+    render(<NetworkGuard><button>Send</button></NetworkGuard>);
+
+    expect(screen.getByText('This network is not supported.')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Add Celo to wallet' }));
+    expect(guard.addNetwork).toHaveBeenCalledTimes(1);
+  });
+
+  it('disables the prompt while switching', () => {
+    mockGuard({ status: 'switching', isBlocked: true, currentChainId: 1, currentChain: undefined });
+
+    render(<NetworkGuard><button>Send</button></NetworkGuard>);
+
+    expect(screen.getByRole('button', { name: 'Switching...' })).toBeDisabled();
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SendForm } from '../SendForm';
+
+// Mock the send hook
+vi.mock('../../hooks/useSendTransfer', () => ({
+  useSendTransfer: vi.fn()
+}));
+
+// Mock name resolution
+vi.mock('../../hooks/useNameResolution', () => ({
+  useNameResolution: vi.fn()
+}));
+
+// Mock the fee currency list, read on chain through wagmi
+vi.mock('../../hooks/useFeeCurrencies', () => ({
+  useFeeCurrencies: vi.fn()
+}));
+
+import { useSendTransfer } from '../../hooks/useSendTransfer';
+import { useNameResolution } from '../../hooks/useNameResolution';
+import { useFeeCurrencies } from '../../hooks/useFeeCurrencies';
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890';
+const RECIPIENT = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+const CUSD = {
+  address: '0x765DE816845861e75A25fCA122bb6898B8B1282a',
+  token: { chainId: 42220, address: '0x765DE816845861e75A25fCA122bb6898B8B1282a', symbol: 'cUSD', name: 'Celo Dollar', decimals: 18 },
+  decimals: 18
+};
+
+const draft = {
+  chainId: 42220,
+  from: ACCOUNT,
+  to: RECIPIENT,
+  amount: '1.5',
+  value: BigInt('1500000000000000000'),
+  gas: BigInt(21000),
+  gasPrice: BigInt(10000000000),
+  fee: BigInt(210000000000000)
+};
+
+function mockHook(overrides: Record<string, unknown> = {}) {
+  const hook = {
+    address: ACCOUNT,
+    chainId: 42220,
+    isConnected: true,
+    status: 'idle',
+    draft: undefined,
+    hash: undefined,
+    receipt: undefined,
+    error: null,
+    review: vi.fn(),
+    confirm: vi.fn(),
+    cancel: vi.fn(),
+    reset: vi.fn(),
+    ...overrides
+  };
+  vi.mocked(useSendTransfer).mockReturnValue(hook as any);
+  return hook;
+}
+
+describe('SendForm', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useNameResolution).mockReturnValue({
+      isName: false,
+      resolved: undefined,
+      isResolving: false,
+      error: null
+    });
+    vi.mocked(useFeeCurrencies).mockReturnValue({
+      chainId: 42220,
+      feeCurrencies: [CUSD],
+      isLoading: false,
+      error: null,
+      refetch: vi.fn()
+    } as any);
+  });
+
+  it('asks to connect a wallet first', () => {
+    mockHook({ isConnected: false, address: undefined });
+
+    render(<SendForm />);
+
+    expect(screen.getByText('Connect your wallet to send CELO or tokens.')).toBeInTheDocument();
+  });
+
+  it('submits the entered transfer for review', async () => {
+    const user = userEvent.setup();
+    const hook = mockHook();
+    render(<SendForm />);
+
+    await user.selectOptions(screen.getByLabelText('Asset'), 'cUSD');
+    await user.type(screen.getByLabelText('Recipient'), RECIPIENT);
+    await user.type(screen.getByLabelText('Amount'), '2');
+    await user.click(screen.getByText('Review'));
+
+    expect(hook.review).toHaveBeenCalledWith({
+      recipient: RECIPIENT,
+      amount: '2',
+      token: expect.objectContaining({ symbol: 'cUSD', chainId: 42220 })
+    });
+  });
+
+  it('pays the fee in the selected fee currency', async () => {
+    const user = userEvent.setup();
+    const hook = mockHook();
+    render(<SendForm />);
+
+    await user.type(screen.getByLabelText('Recipient'), RECIPIENT);
+    await user.type(screen.getByLabelText('Amount'), '1');
+    await user.selectOptions(screen.getByLabelText('Pay fee in'), 'cUSD');
+    await user.click(screen.getByText('Review'));
+
+    expect(hook.review).toHaveBeenCalledWith(expect.objectContaining({ token: undefined, feeCurrency: CUSD }));
+  });
+
+  it('starts over with CELO after a chain switch', async () => {
+    const user = userEvent.setup();
+    const hook = mockHook();
+    const { rerender } = render(<SendForm />);
+    await user.selectOptions(screen.getByLabelText('Asset'), 'cUSD');
+    await user.selectOptions(screen.getByLabelText('Pay fee in'), 'cUSD');
+
+    mockHook({ ...hook, chainId: 44787 });
+    rerender(<SendForm />);
+
+    expect(screen.getByLabelText('Asset')).toHaveValue('native');
+    expect(screen.getByLabelText('Pay fee in')).toHaveValue('native');
+    await user.type(screen.getByLabelText('Recipient'), RECIPIENT);
+    await user.type(screen.getByLabelText('Amount'), '2');
+    await user.click(screen.getByText('Review'));
+    expect(hook.review).toHaveBeenCalledWith(expect.objectContaining({ token: undefined, feeCurrency: undefined }));
+  });
+
+  it('shows the address a recipient name resolves to', async () => {
+    const user = userEvent.setup();
+    const hook = mockHook();
+    vi.mocked(useNameResolution).mockReturnValue({
+      isName: true,
+      resolved: { name: 'alice.celo', address: RECIPIENT, resolver: 'ens' },
+      isResolving: false,
+      error: null
+    });
+    render(<SendForm />);
+
+    await user.type(screen.getByLabelText('Recipient'), 'alice.celo');
+    await user.type(screen.getByLabelText('Amount'), '1');
+    await user.click(screen.getByText('Review'));
+
+    expect(screen.getByText(RECIPIENT)).toBeInTheDocument();
+    expect(hook.review).toHaveBeenCalledWith(expect.objectContaining({ recipient: 'alice.celo' }));
+  });
+
+  it('names the recipient on the review step', () => {
+    mockHook({ status: 'review', draft: { ...draft, recipientName: 'alice.celo' } });
+
+    render(<SendForm />);
+
+    expect(screen.getByText(`alice.celo (${RECIPIENT})`)).toBeInTheDocument();
+  });
+
+  it('shows field errors next to their inputs', () => {
+    mockHook({ error: { message: 'Invalid recipient address format', field: 'recipient' } });
+
+    render(<SendForm />);
+
+    expect(screen.getByText('Invalid recipient address format')).toBeInTheDocument();
+  });
+
+  it('shows the fee estimate and total on the review step', async () => {
+    const user = userEvent.setup();
+    const hook = mockHook({ status: 'review', draft });
+    render(<SendForm />);
+
+    expect(screen.getByText('1.5 CELO')).toBeInTheDocument();
+    expect(screen.getByText('0.00021 CELO (10.00 Gwei)')).toBeInTheDocument();
+    expect(screen.getByText('1.50021 CELO')).toBeInTheDocument();
+
+    await user.click(screen.getByText('Confirm & Send'));
+    expect(hook.confirm).toHaveBeenCalled();
+  });
+
+  it('tracks the submitted transfer until it is confirmed', () => {
+    const hash = `0x${'1'.repeat(64)}`;
+    mockHook({ status: 'pending', draft, hash });
+    const { rerender } = render(<SendForm />);
+
+    expect(screen.getByText('Transfer submitted. Waiting for confirmation...')).toBeInTheDocument();
+    expect(screen.getByText('View on explorer')).toHaveAttribute('href', `https://explorer.celo.org/tx/${hash}`);
+
+    mockHook({ status: 'confirmed', draft, hash });
+    rerender(<SendForm />);
+    expect(screen.getByText('Transfer confirmed.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SignMessage } from '../SignMessage';
+
+// Mock wagmi and the signing hooks
+vi.mock('wagmi', () => ({
+  useAccount: vi.fn(),
+  useChainId: vi.fn(() => 42220)
+}));
+
+vi.mock('../../hooks/useSigning', () => ({
+  usePersonalSign: vi.fn(),
+  useTypedDataSign: vi.fn()
+}));
+
+vi.mock('../../hooks/useSignatureHistory', () => ({
+  useSignatureHistory: vi.fn()
+}));
+
+import { useAccount } from 'wagmi';
+import { usePersonalSign, useTypedDataSign } from '../../hooks/useSigning';
+import { useSignatureHistory } from '../../hooks/useSignatureHistory';
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890';
+
+const signed = {
+  kind: 'message',
+  address: ACCOUNT,
+  chainId: 42220,
+  payload: 'hello',
+  signature: '0xabcdef',
+  signedAt: 1700000000000,
+  verification: { valid: true, method: 'eoa', verifiedAt: 1700000000000 }
+};
+
+function mockSigner() {
+  return { sign: vi.fn(), isSigning: false, error: null, reset: vi.fn() };
+}
+
+function mockHooks(entries: unknown[] = []) {
+  const personal = mockSigner();
+  const typed = mockSigner();
+  const history = { address: ACCOUNT, entries, add: vi.fn(), verify: vi.fn(), clear: vi.fn() };
+  vi.mocked(useAccount).mockReturnValue({ isConnected: true, address: ACCOUNT } as any);
+  vi.mocked(usePersonalSign).mockReturnValue(personal as any);
+  vi.mocked(useTypedDataSign).mockReturnValue(typed as any);
+  vi.mocked(useSignatureHistory).mockReturnValue(history as any);
+  return { personal, typed, history };
+}
+
+describe('SignMessage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('asks to connect a wallet first', () => {
+    mockHooks();
+    vi.mocked(useAccount).mockReturnValue({ isConnected: false } as any);
+
+    render(<SignMessage />);
+
+    expect(screen.getByText('Connect your wallet to sign messages.')).toBeInTheDocument();
+  });
+
+  it('signs the message and adds it to the history', async () => {
+    const { personal, history } = mockHooks();
+    personal.sign.mockResolvedValue(signed);
+    const user = userEvent.setup();
+
+    render(<SignMessage />);
+    await user.type(screen.getByRole('textbox'), 'hello');
+    await user.click(screen.getByRole('button', { name: 'Sign' }));
+
+    expect(personal.sign).toHaveBeenCalledWith('hello');
+    expect(history.add).toHaveBeenCalledWith(signed);
+    expect(await screen.findByText('Valid (ECDSA)')).toBeInTheDocument();
+  });
+
+  it('prefills typed data for the current chain', async () => {
+    const { typed } = mockHooks();
+    const user = userEvent.setup();
+
+    render(<SignMessage />);
+    await user.selectOptions(screen.getByRole('combobox'), 'typedData');
+    await user.click(screen.getByRole('button', { name: 'Sign' }));
+
+    const [json] = typed.sign.mock.calls[0];
+    expect(JSON.parse(json).domain.chainId).toBe(42220);
+  });
+
+  it('verifies and clears the history', async () => {
+    const { history } = mockHooks([signed]);
+    const user = userEvent.setup();
+
+    render(<SignMessage />);
+    await user.click(screen.getByRole('button', { name: 'Verify' }));
+    await user.click(screen.getByRole('button', { name: 'Clear history' }));
+
+    expect(history.verify).toHaveBeenCalledWith(signed);
+    expect(history.clear).toHaveBeenCalled();
+  });
+});
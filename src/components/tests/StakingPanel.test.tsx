@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { StakingPanel } from '../StakingPanel';
+import { StakingBalance } from '../StakingBalance';
+
+// Mock the staking hook
+vi.mock('../../hooks/useStaking', () => ({
+  useStaking: vi.fn()
+}));
+
+// Group addresses show as plain shortened addresses
+vi.mock('../AddressLabel', () => ({
+  AddressLabel: ({ address }: { address: string }) => <span>{address.slice(0, 6)}</span>
+}));
+
+import { useStaking } from '../../hooks/useStaking';
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890';
+const GROUP = '0x2000000000000000000000000000000000000001';
+const ONE = BigInt(10) ** BigInt(18);
+
+const summary = {
+  account: ACCOUNT,
+  isAccount: true,
+  total: BigInt(10) * ONE,
+  nonvoting: BigInt(4) * ONE,
+  voting: BigInt(6) * ONE,
+  pendingWithdrawals: [
+    { index: 0, value: ONE, availableAt: 1690000000 },
+    { index: 1, value: BigInt(2) * ONE, availableAt: 4102444800 }
+  ],
+  votes: [{ group: GROUP, pending: ONE, active: BigInt(5) * ONE, canActivate: true }],
+  unlockingPeriod: 259200
+};
+
+function mockHook(overrides: Record<string, unknown> = {}) {
+  const hook = {
+    address: ACCOUNT,
+    chainId: 42220,
+    isConnected: true,
+    summary,
+    rewards: [{ group: GROUP, activated: BigInt(4) * ONE, active: BigInt(5) * ONE, rewards: ONE }],
+    isLoading: false,
+    isLoadingRewards: false,
+    status: 'idle',
+    action: undefined,
+    hashes: [],
+    execute: vi.fn().mockResolvedValue(null),
+    reset: vi.fn(),
+    refetch: vi.fn(),
+    error: null,
+    summaryError: null,
+    rewardsError: null,
+    ...overrides
+  };
+  vi.mocked(useStaking).mockReturnValue(hook as any);
+  return hook;
+}
+
+describe('StakingBalance', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows the locked, nonvoting and voting split', () => {
+    mockHook();
+    render(<StakingBalance />);
+
+    expect(screen.getByText('Locked: 10 CELO')).toBeInTheDocument();
+    expect(screen.getByText('4 CELO')).toBeInTheDocument();
+    expect(screen.getByText('6 CELO')).toBeInTheDocument();
+    expect(screen.getByText('3 CELO')).toBeInTheDocument();
+  });
+
+  it('renders nothing without a wallet', () => {
+    mockHook({ isConnected: false, address: undefined, summary: undefined });
+    const { container } = render(<StakingBalance />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
+
+describe('StakingPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('locks and unlocks the entered amount', async () => {
+    const user = userEvent.setup();
+    const hook = mockHook();
+    render(<StakingPanel />);
+
+    await user.type(screen.getByLabelText('Amount to lock or unlock'), '1.5');
+    await user.click(screen.getByText('Lock'));
+    await user.click(screen.getByText('Unlock'));
+
+    expect(hook.execute).toHaveBeenCalledWith({ type: 'lock', amount: '1.5' });
+    expect(hook.execute).toHaveBeenCalledWith({ type: 'unlock', amount: '1.5' });
+  });
+
+  it('withdraws only unlocked CELO that is available', async () => {
+    const user = userEvent.setup();
+    const hook = mockHook();
+    render(<StakingPanel />);
+
+    const [available, waiting] = screen.getAllByText('Withdraw');
+    expect(waiting).toBeDisabled();
+    await user.click(available);
+
+    expect(hook.execute).toHaveBeenCalledWith({ type: 'withdraw', index: 0 });
+  });
+
+  it('shows votes with rewards and activates pending ones', async () => {
+    const user = userEvent.setup();
+    const hook = mockHook();
+    render(<StakingPanel />);
+
+    expect(screen.getByText('0x2000')).toBeInTheDocument();
+    expect(screen.getByText('5')).toBeInTheDocument();
+    await user.click(screen.getByText('Activate'));
+
+    expect(hook.execute).toHaveBeenCalledWith({ type: 'activate', group: GROUP });
+  });
+
+  it('votes and revokes for the selected group', async () => {
+    const user = userEvent.setup();
+    const hook = mockHook();
+    render(<StakingPanel />);
+
+    await user.click(screen.getByText('Select'));
+    await user.type(screen.getByLabelText('Votes'), '2');
+    await user.click(screen.getByText('Vote'));
+    await user.click(screen.getByText('Revoke'));
+
+    expect(hook.execute).toHaveBeenCalledWith({ type: 'vote', group: GROUP, amount: '2' });
+    expect(hook.execute).toHaveBeenCalledWith({ type: 'revoke', group: GROUP, amount: '2' });
+  });
+
+  it('shows errors next to the form they came from', () => {
+    mockHook({
+      action: { type: 'vote', group: GROUP, amount: '9' },
+      error: { message: 'Only 4 CELO is locked and not voting; lock more to vote', code: 'INVALID_AMOUNT', field: 'amount' }
+    });
+    render(<StakingPanel />);
+
+    expect(screen.getByText('Only 4 CELO is locked and not voting; lock more to vote')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TokenBalances } from '../TokenBalances';
+import { useAccount, useChainId, usePublicClient, useReadContracts } from 'wagmi';
+
+// Mock the wagmi hooks
+vi.mock('wagmi', () => ({
+  useAccount: vi.fn(),
+  useChainId: vi.fn(),
+  usePublicClient: vi.fn(),
+  useReadContracts: vi.fn()
+}));
+
+// Mock the price lookups
+vi.mock('../../hooks/useFiatValuation', () => ({
+  useFiatValuation: vi.fn()
+}));
+
+import { useFiatValuation } from '../../hooks/useFiatValuation';
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890';
+const CUSTOM_TOKEN = '0x1111111111111111111111111111111111111111';
+
+describe('TokenBalances', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+
+    vi.mocked(useAccount).mockReturnValue({
+      address: ACCOUNT,
+      isConnected: true
+    } as any);
+    vi.mocked(useChainId).mockReturnValue(44787);
+    vi.mocked(usePublicClient).mockReturnValue({
+      readContract: vi.fn(async ({ functionName }: { functionName: string }) => {
+        switch (functionName) {
+        case 'symbol':
+          return 'TST';
+        case 'name':
+          return 'Test Token';
+        default:
+          return 6;
+        }
+      })
+    } as any);
+    vi.mocked(useReadContracts).mockReturnValue({
+      data: [
+        { status: 'success', result: BigInt('12500000000000000000') },
+        { status: 'success', result: BigInt(0) },
+        { status: 'failure', error: new Error('reverted') }
+      ],
+      isLoading: false,
+      error: null,
+      refetch: vi.fn()
+    } as any);
+    vi.mocked(useFiatValuation).mockReturnValue({
+      currency: 'EUR',
+      getValue: vi.fn(() => undefined)
+    } as any);
+  });
+
+  it('shows a connect message when no wallet is connected', () => {
+    vi.mocked(useAccount).mockReturnValue({ address: undefined, isConnected: false } as any);
+
+    render(<TokenBalances />);
+
+    expect(screen.getByText('Connect your wallet to see your token balances.')).toBeInTheDocument();
+  });
+
+  it('lists registry token balances formatted with their decimals', () => {
+    render(<TokenBalances />);
+
+    expect(screen.getByText('cUSD')).toBeInTheDocument();
+    expect(screen.getByText('12.5')).toBeInTheDocument();
+    expect(screen.getByText('cEUR')).toBeInTheDocument();
+    expect(screen.getByText('Unavailable')).toBeInTheDocument();
+  });
+
+  it('shows fiat values when a price is available', () => {
+    render(<TokenBalances getPrice={(token) => (token.symbol === 'cUSD' ? 1 : undefined)} currency="USD" />);
+
+    expect(screen.getByText(/12\.50/)).toBeInTheDocument();
+  });
+
+  it('values balances with the price provider in the selected currency', () => {
+    vi.mocked(useFiatValuation).mockReturnValue({
+      currency: 'EUR',
+      getValue: vi.fn((asset: { symbol: string }) => (asset.symbol === 'cUSD' ? 11.5 : undefined))
+    } as any);
+
+    render(<TokenBalances />);
+
+    expect(screen.getByText(/11\.50/)).toBeInTheDocument();
+    expect(screen.getByText(/€/)).toBeInTheDocument();
+  });
+
+  it('looks up and persists custom tokens for the current chain', async () => {
+    const user = userEvent.setup();
+    render(<TokenBalances />);
+
+    await user.type(screen.getByLabelText('Token contract address'), CUSTOM_TOKEN);
+    await user.click(screen.getByText('Add token'));
+
+    await waitFor(() => {
+      expect(JSON.parse(localStorage.getItem('celo-wallet:custom-tokens:44787') ?? '[]')).toEqual([
+        expect.objectContaining({ symbol: 'TST', decimals: 6, chainId: 44787 })
+      ]);
+    });
+  });
+
+  it('reports tokens that are already listed', async () => {
+    const user = userEvent.setup();
+    render(<TokenBalances />);
+
+    await user.type(screen.getByLabelText('Token contract address'), '0x874069Fa1Eb16D44d622F2e0Ca25eeA172369bC1');
+    await user.click(screen.getByText('Add token'));
+
+    expect(await screen.findByText('This token is already listed')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TransactionExport } from '../TransactionExport';
+import type { CeloTransaction } from '../../types/transaction';
+
+// Mock the export hook
+vi.mock('../../hooks/useTransactionExport', () => ({
+  useTransactionExport: vi.fn()
+}));
+
+import { useTransactionExport } from '../../hooks/useTransactionExport';
+
+const transaction: CeloTransaction = {
+  hash: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+  blockNumber: '100',
+  timestamp: 1700000000,
+  from: '0x1234567890123456789012345678901234567890',
+  to: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+  value: '1500000000000000000',
+  gasUsed: '21000',
+  gasPrice: '5000000000',
+  status: 'success',
+  type: 'sent',
+  confirmations: 1,
+  chainId: 42220
+};
+
+function mockExport(overrides: Record<string, unknown> = {}) {
+  const hook = {
+    isConnected: true,
+    isCollecting: false,
+    error: null,
+    truncated: false,
+    statement: null,
+    exportCsv: vi.fn(),
+    exportJson: vi.fn(),
+    openStatement: vi.fn(),
+    importFile: vi.fn(),
+    closeStatement: vi.fn(),
+    ...overrides
+  };
+  vi.mocked(useTransactionExport).mockReturnValue(hook as any);
+  return hook;
+}
+
+describe('TransactionExport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('exports CSV with the selected columns', async () => {
+    const user = userEvent.setup();
+    const hook = mockExport();
+
+    render(<TransactionExport />);
+    await user.click(screen.getByLabelText('Explorer link'));
+    await user.click(screen.getByRole('button', { name: 'Export CSV' }));
+
+    expect(hook.exportCsv).toHaveBeenCalledWith(expect.not.arrayContaining(['explorerUrl']));
+  });
+
+  it('passes the history filters to the hook', () => {
+    mockExport();
+    const filters = { type: 'sent' as const, dateRange: { start: 1, end: 2 } };
+
+    render(<TransactionExport filters={filters} />);
+
+    expect(useTransactionExport).toHaveBeenCalledWith({ filters });
+  });
+
+  it('disables exports without a wallet but still imports', () => {
+    mockExport({ isConnected: false });
+
+    render(<TransactionExport />);
+
+    expect(screen.getByRole('button', { name: 'Export JSON' })).toBeDisabled();
+    expect(screen.getByLabelText('Import JSON')).toBeEnabled();
+  });
+
+  it('loads an imported file', async () => {
+    const user = userEvent.setup();
+    const hook = mockExport();
+    const file = new File(['{}'], 'export.json', { type: 'application/json' });
+
+    render(<TransactionExport />);
+    await user.upload(screen.getByLabelText('Import JSON'), file);
+
+    expect(hook.importFile).toHaveBeenCalledWith(file);
+  });
+
+  it('shows an imported statement with its totals', () => {
+    mockExport({
+      statement: {
+        file: { version: 1, address: transaction.from, chainId: 42220, exportedAt: 1700000000000, transactions: [transaction] },
+        imported: true
+      }
+    });
+
+    render(<TransactionExport />);
+
+    expect(screen.getByRole('region', { name: 'Transaction statement' })).toBeInTheDocument();
+    expect(screen.getByText(/Imported from a file/)).toBeInTheDocument();
+    expect(screen.getAllByText('1.5 CELO').length).toBeGreaterThan(0);
+    expect(screen.getByRole('button', { name: 'Print' })).toBeInTheDocument();
+  });
+
+  it('says when an export left out older transactions', () => {
+    mockExport({
+      truncated: true,
+      statement: {
+        file: { version: 1, address: transaction.from, chainId: 42220, exportedAt: 1700000000000, transactions: [transaction], truncated: true },
+        imported: false
+      }
+    });
+
+    render(<TransactionExport />);
+
+    expect(screen.getByText(/only the most recent transactions were included/)).toBeInTheDocument();
+    expect(screen.getByText(/Only the most recent transactions of the period are listed/)).toBeInTheDocument();
+  });
+});
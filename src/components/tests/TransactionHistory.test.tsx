@@ -27,6 +27,30 @@ vi.mock('../../hooks/useTransactionHistory', () => ({
   })
 }));
 
+// Mock the historical price lookups
+vi.mock('../../hooks/useHistoricalPrices', () => ({
+  useHistoricalPrices: () => ({
+    getValue: () => undefined,
+    formatFiat: (value: number) => `$${value.toFixed(2)}`
+  })
+}));
+
+// Mock the address book with one saved counterparty
+vi.mock('../../hooks/useAddressBook', () => {
+  const exchange = { address: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcdef', label: 'Exchange', tags: [] };
+  const book = {
+    getEntry: (address: string) => (address.toLowerCase() === exchange.address ? exchange : undefined),
+    search: (query: string) => ('exchange'.includes(query.toLowerCase()) ? [exchange] : []),
+    saveEntry: vi.fn()
+  };
+  return { useAddressBook: () => book };
+});
+
+// Mock reverse name lookups
+vi.mock('../../hooks/useNameResolution', () => ({
+  useAddressName: () => undefined
+}));
+
 vi.mock('wagmi', () => ({
   useAccount: mockUseAccount
 }));
@@ -197,6 +221,28 @@ describe('TransactionHistory', () => {
     });
   });
 
+  it('shows address book labels and searches them', async () => {
+    render(
+      <TestWrapper>
+        <TransactionHistory />
+      </TestWrapper>
+    );
+
+    await waitFor(() => {
+      expect(screen.getAllByText('Exchange').length).toBe(2);
+    });
+
+    fireEvent.change(screen.getByPlaceholderText('Search transactions...'), { target: { value: 'exchange' } });
+
+    // Contacts are searched across the whole history, not just the loaded page
+    await waitFor(() => {
+      expect(mockFetchTransactions).toHaveBeenLastCalledWith(expect.objectContaining({
+        cursor: undefined,
+        filters: expect.objectContaining({ counterparties: ['0xabcdefabcdefabcdefabcdefabcdefabcdefabcdef'] })
+      }));
+    });
+  });
+
   it('refreshes transactions when refresh button is clicked', async () => {
     render(
       <TestWrapper>
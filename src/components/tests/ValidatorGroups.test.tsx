@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ValidatorGroups } from '../ValidatorGroups';
+
+// Mock the validator groups hook
+vi.mock('../../hooks/useValidatorGroups', () => ({
+  useValidatorGroups: vi.fn()
+}));
+
+import { useValidatorGroups } from '../../hooks/useValidatorGroups';
+
+const ONE = BigInt(10) ** BigInt(18);
+
+const groups = [
+  {
+    address: '0x2000000000000000000000000000000000000001',
+    name: 'Alpha',
+    members: ['0x3000000000000000000000000000000000000001'],
+    commission: 0.1,
+    score: 0.95,
+    votes: BigInt(500) * ONE,
+    capacity: BigInt(300) * ONE,
+    eligible: true
+  },
+  {
+    address: '0x2000000000000000000000000000000000000002',
+    name: 'Beta',
+    members: [],
+    commission: 0.05,
+    score: 0.5,
+    votes: BigInt(800) * ONE,
+    capacity: BigInt(0),
+    eligible: true
+  },
+  {
+    address: '0x2000000000000000000000000000000000000003',
+    name: '',
+    members: [],
+    commission: 0.2,
+    score: 0,
+    votes: BigInt(0),
+    capacity: BigInt(0),
+    eligible: false
+  }
+];
+
+function mockHook(overrides: Record<string, unknown> = {}) {
+  const hook = {
+    chainId: 42220,
+    groups,
+    epoch: 1234,
+    isLoading: false,
+    error: null,
+    refetch: vi.fn(),
+    ...overrides
+  };
+  vi.mocked(useValidatorGroups).mockReturnValue(hook as any);
+  return hook;
+}
+
+const groupNames = (): string[] => screen.getAllByRole('link').map((link: HTMLElement) => link.textContent ?? '');
+
+describe('ValidatorGroups', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists eligible groups by votes with the epoch', () => {
+    mockHook();
+    render(<ValidatorGroups />);
+
+    expect(screen.getByText('Epoch 1234')).toBeInTheDocument();
+    expect(groupNames()).toEqual(['Beta', 'Alpha']);
+    // The commission filter offers 10% too
+    const table = screen.getByRole('table');
+    expect(within(table).getByText('10%')).toBeInTheDocument();
+    expect(within(table).getByText('95%')).toBeInTheDocument();
+  });
+
+  it('sorts by a column and flips the order on a second click', async () => {
+    mockHook();
+    render(<ValidatorGroups />);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Commission' }));
+    expect(groupNames()).toEqual(['Beta', 'Alpha']);
+
+    await userEvent.click(screen.getByRole('button', { name: /Commission/ }));
+    expect(groupNames()).toEqual(['Alpha', 'Beta']);
+  });
+
+  it('filters by search, capacity and eligibility', async () => {
+    mockHook();
+    render(<ValidatorGroups />);
+
+    await userEvent.click(screen.getByLabelText('Eligible only'));
+    expect(groupNames()).toHaveLength(3);
+    expect(screen.getByText('Not eligible')).toBeInTheDocument();
+
+    await userEvent.click(screen.getByLabelText('Has capacity'));
+    expect(groupNames()).toEqual(['Alpha']);
+
+    await userEvent.type(screen.getByLabelText('Search validator groups'), 'beta');
+    expect(screen.getByText('No validator group matches.')).toBeInTheDocument();
+  });
+
+  it('shows loading and errors', () => {
+    mockHook({ groups: [], epoch: undefined, isLoading: true });
+    const { rerender } = render(<ValidatorGroups />);
+    expect(screen.getByText('Loading validator groups...')).toBeInTheDocument();
+
+    mockHook({ groups: [], epoch: undefined, error: { message: 'Network error' } });
+    rerender(<ValidatorGroups />);
+    expect(screen.getByText('Network error')).toBeInTheDocument();
+  });
+});
@@ -11,6 +11,37 @@ vi.mock('wagmi', () => ({
   useDisconnect: vi.fn()
 }));
 
+// Mock the remembered wallet session
+vi.mock('../../hooks/useWalletSession', () => ({
+  useWalletSession: vi.fn()
+}));
+
+// Mock the address book
+vi.mock('../../hooks/useAddressBook', () => ({
+  useAddressBook: () => ({ getEntry: () => undefined })
+}));
+
+// Mock reverse name lookups
+vi.mock('../../hooks/useNameResolution', () => ({
+  useAddressName: () => undefined
+}));
+
+import { useWalletSession } from '../../hooks/useWalletSession';
+
+function mockSession(overrides: Record<string, unknown> = {}) {
+  const session = {
+    isReconnecting: false,
+    lastConnectorId: null,
+    lastConnectorName: undefined,
+    sessionExpired: false,
+    forget: vi.fn(),
+    dismissExpired: vi.fn(),
+    ...overrides
+  };
+  vi.mocked(useWalletSession).mockReturnValue(session as any);
+  return session;
+}
+
 describe('WalletConnectUI', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -34,6 +65,8 @@ describe('WalletConnectUI', () => {
     vi.mocked(useDisconnect).mockReturnValue({
       disconnect: vi.fn()
     } as any);
+
+    mockSession();
   });
 
   it('renders "Connect your wallet" and at least one connector button', () => {
@@ -57,7 +90,7 @@ describe('WalletConnectUI', () => {
     render(<WalletConnectUI />);
 
     expect(screen.getByText('Connected')).toBeInTheDocument();
-    expect(screen.getByText('Address: 0x1234...7890')).toBeInTheDocument();
+    expect(screen.getByText('0x1234...7890')).toBeInTheDocument();
     expect(screen.getByRole('button', { name: /disconnect/i })).toBeInTheDocument();
 
     // Should not show connector buttons when connected
@@ -104,4 +137,63 @@ describe('WalletConnectUI', () => {
     expect(injectedButton).toBeDisabled();
     expect(walletConnectButton).toBeEnabled();
   });
-});
\ No newline at end of file
+
+  it('shows the reconnecting state instead of the connector list', () => {
+    mockSession({ isReconnecting: true, lastConnectorId: 'walletConnect', lastConnectorName: 'WalletConnect' });
+
+    render(<WalletConnectUI />);
+
+    expect(screen.getByText('Restoring your WalletConnect session...')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Injected' })).not.toBeInTheDocument();
+  });
+
+  it('lists the last used connector first and can forget it', async () => {
+    const user = userEvent.setup();
+    const session = mockSession({ lastConnectorId: 'walletconnect', lastConnectorName: 'WalletConnect' });
+
+    render(<WalletConnectUI />);
+
+    const [first] = screen.getAllByRole('button');
+    expect(first).toHaveTextContent('WalletConnect');
+    expect(first).toHaveAttribute('title', 'Last used on this device');
+
+    await user.click(screen.getByRole('button', { name: 'Forget WalletConnect on this device' }));
+    expect(session.forget).toHaveBeenCalledTimes(1);
+  });
+
+  it('explains an expired WalletConnect session', () => {
+    mockSession({ sessionExpired: true });
+
+    render(<WalletConnectUI />);
+
+    expect(screen.getByText(/Your WalletConnect session has expired/)).toBeInTheDocument();
+  });
+
+  it('forgets a connected wallet', async () => {
+    const user = userEvent.setup();
+    const session = mockSession();
+    vi.mocked(useAccount).mockReturnValue({
+      address: '0x1234567890123456789012345678901234567890',
+      isConnected: true
+    } as any);
+
+    render(<WalletConnectUI />);
+    await user.click(screen.getByRole('button', { name: 'Forget this wallet' }));
+
+    expect(session.forget).toHaveBeenCalledTimes(1);
+  });
+
+  it('says the wallet was forgotten when disconnecting it fails', async () => {
+    const user = userEvent.setup();
+    mockSession({ forget: vi.fn().mockRejectedValue(new Error('socket closed')) });
+    vi.mocked(useAccount).mockReturnValue({
+      address: '0x1234567890123456789012345678901234567890',
+      isConnected: true
+    } as any);
+
+    render(<WalletConnectUI />);
+    await user.click(screen.getByRole('button', { name: 'Forget this wallet' }));
+
+    expect(await screen.findByText('Wallet forgotten, but disconnecting it failed: The wallet did not respond.')).toBeInTheDocument();
+  });
+});
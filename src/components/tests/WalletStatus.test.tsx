@@ -14,7 +14,44 @@ vi.mock('../../hooks/useCeloNetwork', () => ({
   useCeloNetwork: vi.fn()
 }));
 
+// Mock the useRpcHealth hook
+vi.mock('../../hooks/useRpcHealth', () => ({
+  useRpcHealth: vi.fn()
+}));
+
+// Mock the useSiwe hook
+vi.mock('../../hooks/useSiwe', () => ({
+  useSiwe: vi.fn()
+}));
+
+// Mock the address book
+vi.mock('../../hooks/useAddressBook', () => ({
+  useAddressBook: () => ({ getEntry: () => undefined })
+}));
+
+// Mock reverse name lookups
+vi.mock('../../hooks/useNameResolution', () => ({
+  useAddressName: () => undefined
+}));
+
 import { useCeloNetwork } from '../../hooks/useCeloNetwork';
+import { useRpcHealth } from '../../hooks/useRpcHealth';
+import { useSiwe } from '../../hooks/useSiwe';
+
+function mockSiwe(overrides: Record<string, unknown> = {}) {
+  const siwe = {
+    status: 'signed-out',
+    session: null,
+    signOutReason: undefined,
+    isSignedIn: false,
+    error: null,
+    signIn: vi.fn(),
+    signOut: vi.fn(),
+    ...overrides
+  };
+  vi.mocked(useSiwe).mockReturnValue(siwe as any);
+  return siwe;
+}
 
 describe('WalletStatus', () => {
   beforeEach(() => {
@@ -27,9 +64,9 @@ describe('WalletStatus', () => {
     } as any);
 
     vi.mocked(useCeloNetwork).mockReturnValue({
-      activeChainId: 42220,
-      activeChain: { id: 42220, name: 'Celo Mainnet' },
-      isSupported: true,
+      currentChainId: 42220,
+      currentChain: { id: 42220, name: 'Celo Mainnet' },
+      isSupportedChain: true,
       celoMainnet: { id: 42220, name: 'Celo Mainnet' },
       alfajores: { id: 44787, name: 'Celo Alfajores' },
       switchToCelo: vi.fn(),
@@ -38,6 +75,16 @@ describe('WalletStatus', () => {
       status: 'idle',
       error: null
     } as any);
+
+    vi.mocked(useRpcHealth).mockReturnValue({
+      chainId: 42220,
+      endpoints: [],
+      activeEndpoint: undefined,
+      status: 'unknown',
+      probe: vi.fn()
+    } as any);
+
+    mockSiwe();
   });
 
   it('renders "Not connected" when no account', () => {
@@ -68,7 +115,7 @@ describe('WalletStatus', () => {
     expect(screen.getByText('0x1234...7890')).toBeInTheDocument();
   });
 
-  it('shows chain name pill when active chain is available', () => {
+  it('shows chain name pill when current chain is available', () => {
     vi.mocked(useAccount).mockReturnValue({
       address: '0x1234567890123456789012345678901234567890',
       isConnected: true
@@ -79,11 +126,11 @@ describe('WalletStatus', () => {
     expect(screen.getByText('Celo Mainnet')).toBeInTheDocument();
   });
 
-  it('does not show chain pill when active chain is null', () => {
+  it('does not show chain pill when current chain is null', () => {
     vi.mocked(useCeloNetwork).mockReturnValue({
-      activeChainId: 1, // Unsupported chain
-      activeChain: null,
-      isSupported: false,
+      currentChainId: 1, // Unsupported chain
+      currentChain: null,
+      isSupportedChain: false,
       celoMainnet: { id: 42220, name: 'Celo Mainnet' },
       alfajores: { id: 44787, name: 'Celo Alfajores' },
       switchToCelo: vi.fn(),
@@ -103,16 +150,16 @@ describe('WalletStatus', () => {
     expect(screen.getByText('Connected')).toBeInTheDocument();
     expect(screen.getByText('0x1234...7890')).toBeInTheDocument();
 
-    // Should not show chain pill when activeChain is null
+    // Should not show chain pill when currentChain is null
     const chainPills = screen.queryAllByText(/Celo/);
     expect(chainPills.length).toBe(0);
   });
 
   it('shows unsupported network warning when not on supported network', () => {
     vi.mocked(useCeloNetwork).mockReturnValue({
-      activeChainId: 1, // Unsupported chain (Ethereum mainnet)
-      activeChain: null,
-      isSupported: false,
+      currentChainId: 1, // Unsupported chain (Ethereum mainnet)
+      currentChain: null,
+      isSupportedChain: false,
       celoMainnet: { id: 42220, name: 'Celo Mainnet' },
       alfajores: { id: 44787, name: 'Celo Alfajores' },
       switchToCelo: vi.fn(),
@@ -139,9 +186,9 @@ describe('WalletStatus', () => {
     const mockSwitchToCelo = vi.fn();
 
     vi.mocked(useCeloNetwork).mockReturnValue({
-      activeChainId: 44787, // Currently on Alfajores
-      activeChain: { id: 44787, name: 'Celo Alfajores' },
-      isSupported: true,
+      currentChainId: 44787, // Currently on Alfajores
+      currentChain: { id: 44787, name: 'Celo Alfajores' },
+      isSupportedChain: true,
       celoMainnet: { id: 42220, name: 'Celo Mainnet' },
       alfajores: { id: 44787, name: 'Celo Alfajores' },
       switchToCelo: mockSwitchToCelo,
@@ -168,9 +215,9 @@ describe('WalletStatus', () => {
 
   it('disables switch buttons when switching', () => {
     vi.mocked(useCeloNetwork).mockReturnValue({
-      activeChainId: 44787,
-      activeChain: { id: 44787, name: 'Celo Alfajores' },
-      isSupported: true,
+      currentChainId: 44787,
+      currentChain: { id: 44787, name: 'Celo Alfajores' },
+      isSupportedChain: true,
       celoMainnet: { id: 42220, name: 'Celo Mainnet' },
       alfajores: { id: 44787, name: 'Celo Alfajores' },
       switchToCelo: vi.fn(),
@@ -188,8 +235,108 @@ describe('WalletStatus', () => {
     render(<WalletStatus />);
 
     const switchButtons = screen.getAllByRole('button');
-    switchButtons.forEach(button => {
+    switchButtons.forEach((button: HTMLElement) => {
       expect(button).toBeDisabled();
     });
   });
-});
\ No newline at end of file
+
+  it('shows the RPC endpoint in use with its latency', () => {
+    vi.mocked(useAccount).mockReturnValue({
+      address: '0x1234567890123456789012345678901234567890',
+      isConnected: true
+    } as any);
+    vi.mocked(useRpcHealth).mockReturnValue({
+      chainId: 42220,
+      endpoints: [{ url: 'https://forno.celo.org', status: 'healthy', latency: 42, failures: 0 }],
+      activeEndpoint: { url: 'https://forno.celo.org', status: 'healthy', latency: 42, failures: 0 },
+      status: 'healthy',
+      probe: vi.fn()
+    } as any);
+
+    render(<WalletStatus />);
+
+    expect(screen.getByTitle('https://forno.celo.org')).toHaveTextContent('RPC: forno.celo.org · 42 ms');
+  });
+
+  it('warns when no RPC endpoint responds', () => {
+    vi.mocked(useRpcHealth).mockReturnValue({
+      chainId: 42220,
+      endpoints: [{ url: 'https://forno.celo.org', status: 'down', failures: 3 }],
+      activeEndpoint: { url: 'https://forno.celo.org', status: 'down', failures: 3 },
+      status: 'down',
+      probe: vi.fn()
+    } as any);
+
+    render(<WalletStatus />);
+
+    expect(screen.getByText(/No RPC endpoint is responding/)).toBeInTheDocument();
+  });
+
+  it('signs in through the configured adapter', async () => {
+    const user = userEvent.setup();
+    const siwe = mockSiwe();
+    vi.mocked(useAccount).mockReturnValue({
+      address: '0x1234567890123456789012345678901234567890',
+      isConnected: true
+    } as any);
+
+    render(<WalletStatus siwe={{ adapter: { getNonce: vi.fn(), verify: vi.fn() } }} />);
+    await user.click(screen.getByRole('button', { name: 'Sign in' }));
+
+    expect(siwe.signIn).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows the session state', () => {
+    mockSiwe({ status: 'expired' });
+    vi.mocked(useAccount).mockReturnValue({
+      address: '0x1234567890123456789012345678901234567890',
+      isConnected: true
+    } as any);
+
+    render(<WalletStatus siwe={{ adapter: { getNonce: vi.fn(), verify: vi.fn() } }} />);
+
+    expect(screen.getByText('Session expired')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Sign in again' })).toBeInTheDocument();
+  });
+
+  it('explains an automatic sign-out', () => {
+    mockSiwe({ signOutReason: 'account-changed' });
+
+    render(<WalletStatus />);
+
+    expect(screen.getByText('Signed out because the account changed.')).toBeInTheDocument();
+  });
+
+  it('shows when the wallet is being reconnected', () => {
+    vi.mocked(useAccount).mockReturnValue({
+      address: undefined,
+      isConnected: false,
+      status: 'reconnecting'
+    } as any);
+
+    render(<WalletStatus />);
+
+    expect(screen.getByText('Reconnecting...')).toBeInTheDocument();
+    expect(screen.queryByText('Not connected')).not.toBeInTheDocument();
+  });
+
+  it('explains why switching networks failed', () => {
+    vi.mocked(useCeloNetwork).mockReturnValue({
+      currentChainId: 42220,
+      currentChain: { id: 42220, name: 'Celo Mainnet' },
+      isSupportedChain: true,
+      celoMainnet: { id: 42220, name: 'Celo Mainnet' },
+      alfajores: { id: 44787, name: 'Celo Alfajores' },
+      switchToCelo: vi.fn(),
+      switchToAlfajores: vi.fn(),
+      isSwitching: false,
+      status: 'error',
+      error: new Error('User rejected'),
+      switchError: { code: 'USER_REJECTED', message: 'The request was rejected in your wallet.' }
+    } as any);
+
+    render(<WalletStatus />);
+
+    expect(screen.getByText('The request was rejected in your wallet.')).toBeInTheDocument();
+  });
+});
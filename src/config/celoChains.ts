@@ -1,46 +1,83 @@
-import { defineChain } from 'viem';
+import { defineChain, type Address, type Chain } from 'viem';
+import { chainConfig } from 'viem/celo';
 
-const createCeloChain = ({
+export interface CeloChainParameters {
+  id: number;
+  name: string;
+  currencyName: string;
+  currencySymbol?: string;
+  /** RPC endpoint, or endpoints in fallback order */
+  rpc: string | string[];
+  explorerName?: string;
+  explorerUrl?: string;
+  /** Etherscan-compatible API used to list account history */
+  explorerApiUrl?: string;
+  /** Omitted on chains without a Multicall3 deployment; reads are then sent one by one */
+  multicallBlockCreated?: number;
+  /** Universal resolver of an ENS-compatible name registry such as Celo Names; names resolve only where set */
+  ensUniversalResolver?: Address;
+  testnet?: boolean;
+}
+
+/**
+ * Define a Celo network, or any chain running the Celo stack such as a local devchain
+ */
+export const createCeloChain = ({
   id,
   name,
   currencyName,
+  currencySymbol = 'CELO',
   rpc,
   explorerName,
   explorerUrl,
-}: {
-  id: number
-  name: string
-  currencyName: string
-  rpc: string
-  explorerName: string
-  explorerUrl: string
-}) =>
+  explorerApiUrl,
+  multicallBlockCreated,
+  ensUniversalResolver,
+  testnet = false
+}: CeloChainParameters) =>
   defineChain({
+    // Celo formatters and serializers: `feeCurrency` support and CIP-64 transactions
+    ...chainConfig,
     id,
     name,
     nativeCurrency: {
       name: currencyName,
-      symbol: 'CELO',
-      decimals: 18,
+      symbol: currencySymbol,
+      decimals: 18
     },
     rpcUrls: {
       default: {
-        http: [rpc],
-      },
+        http: typeof rpc === 'string' ? [rpc] : rpc
+      }
     },
-    blockExplorers: {
-      default: { name: explorerName, url: explorerUrl },
+    blockExplorers: explorerName && explorerUrl
+      ? { default: { name: explorerName, url: explorerUrl, apiUrl: explorerApiUrl } }
+      : undefined,
+    contracts: {
+      ...chainConfig.contracts,
+      // Canonical Multicall3 deployment, used to batch contract reads
+      ...(multicallBlockCreated === undefined ? {} : {
+        multicall3: {
+          address: '0xcA11bde05977b3631167028862bE2a173976CA11',
+          blockCreated: multicallBlockCreated
+        }
+      }),
+      ...(ensUniversalResolver ? { ensUniversalResolver: { address: ensUniversalResolver } } : {})
     },
-  })
+    testnet
+  });
 
 export const celo = createCeloChain({
   id: 42220,
   name: 'Celo',
   currencyName: 'Celo',
-  rpc: 'https://forno.celo.org',
+  rpc: ['https://forno.celo.org', 'https://rpc.ankr.com/celo', 'https://1rpc.io/celo'],
   explorerName: 'Celo Explorer',
-  explorerUrl: 'https://celoscan.io',
-})
+  explorerUrl: 'https://explorer.celo.org',
+  explorerApiUrl: 'https://explorer.celo.org/api',
+  multicallBlockCreated: 13112599,
+  ensUniversalResolver: import.meta.env.VITE_CELO_NAMES_RESOLVER as Address | undefined
+});
 
 export const celoAlfajores = createCeloChain({
   id: 44787,
@@ -49,4 +86,66 @@ export const celoAlfajores = createCeloChain({
   rpc: 'https://alfajores-forno.celo-testnet.org',
   explorerName: 'CeloScan Alfajores',
   explorerUrl: 'https://alfajores.celoscan.io',
-})
+  explorerApiUrl: 'https://api-alfajores.celoscan.io/api',
+  multicallBlockCreated: 14569001,
+  testnet: true
+});
+
+export const celoSepolia = createCeloChain({
+  id: 11142220,
+  name: 'Celo Sepolia',
+  currencyName: 'Celo Sepolia Celo',
+  currencySymbol: 'S-CELO',
+  rpc: 'https://forno.celo-sepolia.celo-testnet.org',
+  explorerName: 'Celo Sepolia Explorer',
+  explorerUrl: 'https://celo-sepolia.blockscout.com',
+  explorerApiUrl: 'https://celo-sepolia.blockscout.com/api',
+  multicallBlockCreated: 1,
+  testnet: true
+});
+
+export const celoBaklava = createCeloChain({
+  id: 62320,
+  name: 'Baklava',
+  currencyName: 'Baklava Celo',
+  rpc: 'https://baklava-forno.celo-testnet.org',
+  explorerName: 'Baklava Explorer',
+  explorerUrl: 'https://explorer.celo.org/baklava',
+  explorerApiUrl: 'https://explorer.celo.org/baklava/api',
+  testnet: true
+});
+
+// Local devchain (e.g. anvil with Celo contracts), only listed when its RPC URL is configured
+const localRpcUrl = import.meta.env.VITE_CELO_LOCAL_RPC_URL as string | undefined;
+
+export const celoLocal = localRpcUrl
+  ? createCeloChain({
+    id: Number(import.meta.env.VITE_CELO_LOCAL_CHAIN_ID ?? 31337),
+    name: 'Celo Local',
+    currencyName: 'Celo',
+    rpc: localRpcUrl,
+    testnet: true
+  })
+  : undefined;
+
+/**
+ * Every network the app can connect to; the first one is the default.
+ * Adding a network to this list is all it takes for the wallet, clients
+ * and explorer links to support it.
+ */
+export const CELO_CHAINS: readonly [Chain, ...Chain[]] = [
+  celoAlfajores,
+  celo,
+  celoSepolia,
+  celoBaklava,
+  ...(celoLocal ? [celoLocal] : [])
+];
+
+export const DEFAULT_CHAIN: Chain = CELO_CHAINS[0];
+
+/**
+ * Registered chain with the given id
+ */
+export function getCeloChain(chainId: number): Chain | undefined {
+  return CELO_CHAINS.find((chain) => chain.id === chainId);
+}
@@ -0,0 +1,30 @@
+import type { Address } from 'viem';
+import { celo, celoAlfajores } from './celoChains';
+
+// Core contract registry, at the same address on every Celo network
+export const CELO_REGISTRY_ADDRESS: Address = '0x000000000000000000000000000000000000ce10';
+
+// FeeCurrencyDirectory, the fee currency list since Celo became an L2; chains
+// without one fall back to the legacy FeeCurrencyWhitelist from the registry
+export const FEE_CURRENCY_DIRECTORY_ADDRESSES: Record<number, Address> = {
+  [celo.id]: '0x15F344b9E6c3Cb6F0376A36A64928b13F62C6276',
+  [celoAlfajores.id]: '0x9212Fb72ae65367A7c887eC4Ad9bE310BAC611BF'
+};
+
+// Tokens with fewer than 18 decimals pay fees through an adapter contract;
+// the adapter address goes in `feeCurrency`, balances live on the token
+export const FEE_CURRENCY_ADAPTERS: Record<number, Record<string, Address>> = {
+  [celo.id]: {
+    // USDC
+    '0x2f25deb3848c207fc8e0c34035b3ba7fc157602b': '0xcebA9300f2b948710d2653dD7B07f33A8B32118C',
+    // USDT
+    '0x0e2a3e05bc9a16f5292a6170456a710cb89c6f72': '0x48065fbBE25f71C9282ddf5e1cD6D6A887483D5e'
+  }
+};
+
+/**
+ * Token charged when `feeCurrency` is set to `address`
+ */
+export function getFeeCurrencyToken(chainId: number, address: string): Address | undefined {
+  return FEE_CURRENCY_ADAPTERS[chainId]?.[address.toLowerCase()];
+}
@@ -0,0 +1,24 @@
+import { celo } from './celoChains';
+
+// Currencies offered for fiat values, by ISO 4217 code
+export const FIAT_CURRENCIES = ['USD', 'EUR', 'GBP', 'BRL', 'COP', 'KES', 'NGN', 'PHP'] as const;
+
+export const DEFAULT_FIAT_CURRENCY = 'USD';
+
+// CoinGecko ids of known assets, by chain, then lowercase token address or
+// `native`; mainnet assets only, since symbols can be claimed by any contract
+export const COINGECKO_ASSET_IDS: Record<number, Record<string, string>> = {
+  [celo.id]: {
+    native: 'celo',
+    // cUSD
+    '0x765de816845861e75a25fca122bb6898b8b1282a': 'celo-dollar',
+    // cEUR
+    '0xd8763cba276a3738e6de85b4b3bf5fded6d6ca73': 'celo-euro',
+    // cREAL
+    '0xe8537a3d056da446677b9e9d6c5db704eaab4787': 'celo-real-creal',
+    // USDC
+    '0xceba9300f2b948710d2653dd7b07f33a8b32118c': 'usd-coin',
+    // USDT
+    '0x48065fbbe25f71c9282ddf5e1cd6d6a887483d5e': 'tether'
+  }
+};
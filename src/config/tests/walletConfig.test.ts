@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { http, mock } from 'wagmi';
+import { walletConnect } from 'wagmi/connectors';
+import { createCeloWalletConfig } from '../walletConfig';
+import { CELO_CHAINS, celo, celoAlfajores } from '../celoChains';
+
+// Record the WalletConnect parameters while keeping the real connector
+vi.mock('wagmi/connectors', async (importOriginal) => {
+  const connectors = await importOriginal<typeof import('wagmi/connectors')>();
+  return { ...connectors, walletConnect: vi.fn(connectors.walletConnect) };
+});
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890';
+
+describe('createCeloWalletConfig', () => {
+  it('offers the registry chains through injected wallets and WalletConnect by default', () => {
+    const config = createCeloWalletConfig({ walletConnectProjectId: 'test-project' });
+
+    expect(config.chains.map((chain) => chain.id)).toEqual(CELO_CHAINS.map((chain) => chain.id));
+    expect(config.connectors.map((connector) => connector.type)).toEqual(['injected', 'walletConnect']);
+  });
+
+  it('describes the app to WalletConnect with the page origin unless given a URL', () => {
+    createCeloWalletConfig({ walletConnectProjectId: 'test-project' });
+    createCeloWalletConfig({ walletConnectProjectId: 'test-project', metadata: { url: 'https://mydapp.xyz' } });
+
+    // No page outside the browser, so no origin to default to
+    const urls = vi.mocked(walletConnect).mock.calls.slice(-2).map(([parameters]) => parameters.metadata?.url);
+    expect(urls).toEqual(['', 'https://mydapp.xyz']);
+  });
+
+  it('warns when WalletConnect has no project id', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    createCeloWalletConfig({ walletConnectProjectId: '' });
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('VITE_WALLETCONNECT_PROJECT_ID'));
+    warn.mockRestore();
+  });
+
+  it('limits the chains and overrides transports per chain', () => {
+    const config = createCeloWalletConfig({
+      walletConnectProjectId: 'test-project',
+      chains: [celo],
+      transports: { [celo.id]: http('http://127.0.0.1:8545') }
+    });
+
+    expect(config.chains).toEqual([celo]);
+    expect(config.getClient({ chainId: celo.id }).transport.url).toBe('http://127.0.0.1:8545');
+  });
+
+  it('fails over between the registry RPC endpoints, or the ones given per chain', () => {
+    const config = createCeloWalletConfig({
+      walletConnectProjectId: 'test-project',
+      rpcUrls: { [celoAlfajores.id]: ['http://127.0.0.1:8545', 'http://127.0.0.1:8546'] }
+    });
+
+    expect(config.getClient({ chainId: celo.id }).transport.urls).toEqual(celo.rpcUrls.default.http);
+    expect(config.getClient({ chainId: celoAlfajores.id }).transport.urls)
+      .toEqual(['http://127.0.0.1:8545', 'http://127.0.0.1:8546']);
+  });
+
+  it('adds extra connectors, or uses only them when replacing the defaults', () => {
+    const extra = mock({ accounts: [ACCOUNT] });
+
+    const added = createCeloWalletConfig({ walletConnectProjectId: 'test-project', connectors: [extra] });
+    const replaced = createCeloWalletConfig({ connectors: [extra], replaceDefaultConnectors: true });
+
+    expect(added.connectors.map((connector) => connector.type)).toEqual(['injected', 'walletConnect', 'mock']);
+    expect(replaced.connectors.map((connector) => connector.type)).toEqual(['mock']);
+  });
+});
@@ -0,0 +1,70 @@
+import { celo, celoAlfajores } from './celoChains';
+import type { TokenInfo } from '../types/token';
+
+// Mento stable assets
+export const CELO_STABLE_TOKENS: TokenInfo[] = [
+  {
+    chainId: celo.id,
+    address: '0x765DE816845861e75A25fCA122bb6898B8B1282a',
+    symbol: 'cUSD',
+    name: 'Celo Dollar',
+    decimals: 18
+  },
+  {
+    chainId: celo.id,
+    address: '0xD8763CBa276a3738E6DE85b4b3bF5FDed6D6cA73',
+    symbol: 'cEUR',
+    name: 'Celo Euro',
+    decimals: 18
+  },
+  {
+    chainId: celo.id,
+    address: '0xe8537a3d056DA446677B9E9d6c5dB704EaAb4787',
+    symbol: 'cREAL',
+    name: 'Celo Brazilian Real',
+    decimals: 18
+  },
+  {
+    chainId: celoAlfajores.id,
+    address: '0x874069Fa1Eb16D44d622F2e0Ca25eeA172369bC1',
+    symbol: 'cUSD',
+    name: 'Celo Dollar',
+    decimals: 18
+  },
+  {
+    chainId: celoAlfajores.id,
+    address: '0x10c892A6EC43a53E45D0B916B4b7D383B1b78C0F',
+    symbol: 'cEUR',
+    name: 'Celo Euro',
+    decimals: 18
+  },
+  {
+    chainId: celoAlfajores.id,
+    address: '0xE4D517785D091D3c54818832dB6094bcc2744545',
+    symbol: 'cREAL',
+    name: 'Celo Brazilian Real',
+    decimals: 18
+  }
+];
+
+/**
+ * Known ERC-20 tokens of a chain, shown in balances without any setup
+ */
+export function getTokenRegistry(chainId: number): TokenInfo[] {
+  return CELO_STABLE_TOKENS.filter((token) => token.chainId === chainId);
+}
+
+/**
+ * Tokens tracked in transaction history for a chain when none are configured
+ */
+export function getDefaultHistoryTokens(chainId: number): TokenInfo[] {
+  return getTokenRegistry(chainId);
+}
+
+/**
+ * Find a token by contract address among a token list
+ */
+export function findToken(tokens: readonly TokenInfo[], address: string): TokenInfo | undefined {
+  const lower = address.toLowerCase();
+  return tokens.find((token) => token.address.toLowerCase() === lower);
+}
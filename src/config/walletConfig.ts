@@ -0,0 +1,100 @@
+import type { Chain } from 'viem';
+import {
+  createConfig,
+  type Config,
+  type CreateConnectorFn,
+  type Storage,
+  type Transport
+} from 'wagmi';
+import { injected, walletConnect } from 'wagmi/connectors';
+import { CELO_CHAINS } from './celoChains';
+import { createCeloTransport, type CeloTransportOptions } from '../services/rpcTransport';
+
+export interface CeloWalletMetadata {
+  name: string;
+  description: string;
+  url: string;
+  icons: string[];
+}
+
+export interface CeloWalletConfigOptions {
+  /** App details shown by wallets during connection; `url` defaults to the page origin, so set it when rendering on the server */
+  metadata?: Partial<CeloWalletMetadata>;
+  /** Chains to offer, the first being the default; defaults to the chain registry */
+  chains?: readonly [Chain, ...Chain[]];
+  /** Transport per chain id, replacing the failover transport for that chain */
+  transports?: Record<number, Transport>;
+  /** RPC endpoints per chain id in fallback order, instead of the registry ones */
+  rpcUrls?: Record<number, string[]>;
+  /** Retry, timeout and health tracking of the failover transports */
+  transportOptions?: Omit<CeloTransportOptions, 'urls'>;
+  /** WalletConnect Cloud project id; defaults to VITE_WALLETCONNECT_PROJECT_ID */
+  walletConnectProjectId?: string;
+  /** Connectors added after the injected and WalletConnect ones (Coinbase, Safe, Ledger, mock...) */
+  connectors?: CreateConnectorFn[];
+  /** Skip the built-in injected and WalletConnect connectors */
+  replaceDefaultConnectors?: boolean;
+  /** Render on the server: state is restored from `storage` (e.g. cookieStorage) after hydration */
+  ssr?: boolean;
+  /** Where the connection state persists; defaults to localStorage in the browser */
+  storage?: Storage | null;
+}
+
+export const DEFAULT_WALLET_METADATA: Omit<CeloWalletMetadata, 'url'> = {
+  name: 'Web3 Wallet Connect + Celo React Starter Kit',
+  description: 'React + Vite + Wagmi + WalletConnect starter for Celo',
+  icons: ['https://walletconnect.com/walletconnect-logo.png']
+};
+
+// Wallets verify the metadata URL against the site that connects
+function pageOrigin(): string {
+  return typeof window !== 'undefined' ? window.location.origin : '';
+}
+
+/**
+ * Build the wagmi config for a Celo dapp. Every option is optional; without
+ * any it offers the registry chains through injected wallets and WalletConnect.
+ */
+export function createCeloWalletConfig({
+  metadata,
+  chains = CELO_CHAINS,
+  transports = {},
+  rpcUrls = {},
+  transportOptions,
+  walletConnectProjectId = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID as string | undefined,
+  connectors = [],
+  replaceDefaultConnectors = false,
+  ssr = false,
+  storage
+}: CeloWalletConfigOptions = {}): Config {
+  const chainTransports = chains.reduce<Record<number, Transport>>((map, chain) => {
+    map[chain.id] = transports[chain.id] ??
+      createCeloTransport(chain, { ...transportOptions, urls: rpcUrls[chain.id] });
+    return map;
+  }, {});
+
+  if (!replaceDefaultConnectors && !walletConnectProjectId) {
+    console.warn('VITE_WALLETCONNECT_PROJECT_ID is not set. WalletConnect may not function as expected.');
+  }
+
+  const defaultConnectors = replaceDefaultConnectors
+    ? []
+    : [
+      injected({ shimDisconnect: true }),
+      walletConnect({
+        projectId: walletConnectProjectId ?? '',
+        showQrModal: true,
+        metadata: { ...DEFAULT_WALLET_METADATA, url: pageOrigin(), ...metadata }
+      })
+    ];
+
+  return createConfig({
+    multiInjectedProviderDiscovery: true,
+    chains,
+    transports: chainTransports,
+    connectors: [...defaultConnectors, ...connectors],
+    ssr,
+    // `undefined` keeps wagmi's default, which falls back to no storage outside the browser
+    ...(storage === undefined ? {} : { storage })
+  });
+}
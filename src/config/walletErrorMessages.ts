@@ -0,0 +1,64 @@
+import type { WalletErrorCode, WalletErrorLocale } from '../types/walletError';
+
+/**
+ * User-facing text per error code. Each message says what happened and what
+ * to do about it.
+ */
+export const WALLET_ERROR_MESSAGES: Record<WalletErrorLocale, Record<WalletErrorCode, string>> = {
+  en: {
+    USER_REJECTED: 'The request was rejected in your wallet.',
+    REQUEST_PENDING: 'Your wallet already has a pending request. Open your wallet to approve or reject it.',
+    NOT_CONNECTED: 'Connect a wallet to continue.',
+    CONNECTOR_NOT_FOUND: 'This wallet is not available. Install or unlock it, or choose another wallet.',
+    WALLETCONNECT_SESSION_EXPIRED:
+      'Your WalletConnect session has expired. Connect again and approve the new session in your wallet.',
+    CHAIN_MISMATCH: 'Your wallet is on a different network. Switch networks and try again.',
+    UNSUPPORTED_CHAIN: 'This network is not supported. Switch to a Celo network and try again.',
+    SWITCH_CHAIN_NOT_SUPPORTED: 'Your wallet cannot switch networks from here. Switch networks in your wallet.',
+    UNSUPPORTED_METHOD: 'Your wallet does not support this request. Try another wallet.',
+    RPC_UNAVAILABLE: 'The Celo network could not be reached. Check your connection and try again.',
+    RATE_LIMITED: 'The network is receiving too many requests. Wait a moment and try again.',
+    TIMEOUT: 'The request timed out. Try again.',
+    INSUFFICIENT_FUNDS: 'Your balance is too low to cover the amount and the network fee.',
+    EXECUTION_REVERTED: 'The transaction would fail on chain. Check the details and try again.',
+    UNKNOWN: 'Something went wrong. Please try again.'
+  },
+  es: {
+    USER_REJECTED: 'La solicitud fue rechazada en tu billetera.',
+    REQUEST_PENDING: 'Tu billetera ya tiene una solicitud pendiente. Ábrela para aprobarla o rechazarla.',
+    NOT_CONNECTED: 'Conecta una billetera para continuar.',
+    CONNECTOR_NOT_FOUND: 'Esta billetera no está disponible. Instálala o desbloquéala, o elige otra.',
+    WALLETCONNECT_SESSION_EXPIRED:
+      'Tu sesión de WalletConnect expiró. Vuelve a conectarte y aprueba la nueva sesión en tu billetera.',
+    CHAIN_MISMATCH: 'Tu billetera está en otra red. Cambia de red e inténtalo de nuevo.',
+    UNSUPPORTED_CHAIN: 'Esta red no es compatible. Cambia a una red de Celo e inténtalo de nuevo.',
+    SWITCH_CHAIN_NOT_SUPPORTED: 'Tu billetera no permite cambiar de red desde aquí. Cambia de red en tu billetera.',
+    UNSUPPORTED_METHOD: 'Tu billetera no admite esta solicitud. Prueba con otra billetera.',
+    RPC_UNAVAILABLE: 'No se pudo conectar con la red de Celo. Revisa tu conexión e inténtalo de nuevo.',
+    RATE_LIMITED: 'La red está recibiendo demasiadas solicitudes. Espera un momento e inténtalo de nuevo.',
+    TIMEOUT: 'La solicitud tardó demasiado. Inténtalo de nuevo.',
+    INSUFFICIENT_FUNDS: 'Tu saldo no alcanza para cubrir el monto y la comisión de red.',
+    EXECUTION_REVERTED: 'La transacción fallaría en la cadena. Revisa los datos e inténtalo de nuevo.',
+    UNKNOWN: 'Algo salió mal. Inténtalo de nuevo.'
+  },
+  pt: {
+    USER_REJECTED: 'A solicitação foi recusada na sua carteira.',
+    REQUEST_PENDING: 'Sua carteira já tem uma solicitação pendente. Abra a carteira para aprovar ou recusar.',
+    NOT_CONNECTED: 'Conecte uma carteira para continuar.',
+    CONNECTOR_NOT_FOUND: 'Esta carteira não está disponível. Instale ou desbloqueie a carteira, ou escolha outra.',
+    WALLETCONNECT_SESSION_EXPIRED:
+      'Sua sessão do WalletConnect expirou. Conecte novamente e aprove a nova sessão na sua carteira.',
+    CHAIN_MISMATCH: 'Sua carteira está em outra rede. Troque de rede e tente novamente.',
+    UNSUPPORTED_CHAIN: 'Esta rede não é suportada. Troque para uma rede Celo e tente novamente.',
+    SWITCH_CHAIN_NOT_SUPPORTED: 'Sua carteira não permite trocar de rede por aqui. Troque de rede na carteira.',
+    UNSUPPORTED_METHOD: 'Sua carteira não suporta esta solicitação. Tente outra carteira.',
+    RPC_UNAVAILABLE: 'Não foi possível acessar a rede Celo. Verifique sua conexão e tente novamente.',
+    RATE_LIMITED: 'A rede está recebendo solicitações demais. Aguarde um momento e tente novamente.',
+    TIMEOUT: 'A solicitação demorou demais. Tente novamente.',
+    INSUFFICIENT_FUNDS: 'Seu saldo não cobre o valor e a taxa de rede.',
+    EXECUTION_REVERTED: 'A transação falharia na rede. Confira os dados e tente novamente.',
+    UNKNOWN: 'Algo deu errado. Tente novamente.'
+  }
+};
+
+export const DEFAULT_WALLET_ERROR_LOCALE: WalletErrorLocale = 'en';
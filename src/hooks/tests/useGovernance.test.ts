@@ -0,0 +1,169 @@
+import { createElement, type ReactNode } from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { useGovernance } from '../useGovernance';
+import type { GovernanceAccount, GovernanceError, Proposal } from '../../types/governance';
+import type { TransactionHistoryCache } from '../../services/transactionCache';
+
+// Mock wagmi hooks
+vi.mock('wagmi', () => ({
+  useAccount: vi.fn(),
+  useChainId: vi.fn(),
+  usePublicClient: vi.fn(),
+  useSendTransaction: vi.fn()
+}));
+
+// Contract reads are covered by the service tests; pending entries are built as in the app
+vi.mock('../../services/governance', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../services/governance')>(),
+  getGovernanceContracts: vi.fn(),
+  fetchProposals: vi.fn(),
+  fetchExecutedProposals: vi.fn(),
+  readGovernanceAccount: vi.fn(),
+  prepareGovernanceAction: vi.fn()
+}));
+
+import { useAccount, useChainId, usePublicClient, useSendTransaction } from 'wagmi';
+import { fetchExecutedProposals, fetchProposals, prepareGovernanceAction, readGovernanceAccount } from '../../services/governance';
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890';
+const GOVERNANCE = '0x1000000000000000000000000000000000000001';
+const HASH_1 = `0x${'1'.repeat(64)}`;
+const HASH_2 = `0x${'2'.repeat(64)}`;
+
+const proposal: Proposal = {
+  id: BigInt(7),
+  stage: 'Queued',
+  proposer: GOVERNANCE,
+  deposit: BigInt(100),
+  timestamp: 1700000000,
+  descriptionUrl: 'https://example.com/cgp-7',
+  transactionCount: 0,
+  transactions: [],
+  upvotes: BigInt(0),
+  votes: { yes: BigInt(0), no: BigInt(0), abstain: BigInt(0) }
+};
+
+const account: GovernanceAccount = { account: ACCOUNT, weight: BigInt(10), upvoted: BigInt(3), votes: {} };
+
+// Moving an upvote revokes the old one first
+const calls = [
+  { to: GOVERNANCE, data: '0x01' },
+  { to: GOVERNANCE, data: '0x02' }
+];
+
+function setup(receiptStatuses: Array<'success' | 'reverted'> = ['success', 'success'], executedFromBlock?: bigint) {
+  const events: string[] = [];
+  const sendTransactionAsync = vi.fn(async ({ data }: { data: string }) => {
+    events.push(`send ${data}`);
+    return data === '0x01' ? HASH_1 : HASH_2;
+  });
+  const statuses = [...receiptStatuses];
+  const client = {
+    waitForTransactionReceipt: vi.fn(async ({ hash }: { hash: string }) => {
+      events.push(`mined ${hash.slice(0, 3)}`);
+      return { status: statuses.shift() };
+    })
+  };
+  const cache = {
+    sync: vi.fn().mockResolvedValue(undefined),
+    addPending: vi.fn(async (_address: string, tx: { hash: string }) => {
+      events.push(`pending ${tx.hash.slice(0, 3)}`);
+    })
+  } as unknown as TransactionHistoryCache;
+
+  vi.mocked(useSendTransaction).mockReturnValue({ sendTransactionAsync } as any);
+  vi.mocked(usePublicClient).mockReturnValue(client as any);
+
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  const wrapper = ({ children }: { children: ReactNode }) => createElement(QueryClientProvider, { client: queryClient }, children);
+  const hook = renderHook(() => useGovernance({ cache, executedFromBlock }), { wrapper });
+  return { ...hook, events, sendTransactionAsync, cache };
+}
+
+describe('useGovernance', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useAccount).mockReturnValue({ address: ACCOUNT, isConnected: true } as any);
+    vi.mocked(useChainId).mockReturnValue(42220);
+    vi.mocked(fetchProposals).mockResolvedValue([proposal]);
+    vi.mocked(readGovernanceAccount).mockResolvedValue(account);
+    vi.mocked(prepareGovernanceAction).mockReturnValue(calls as any);
+  });
+
+  it('lists executed proposals only from a given start block, apart from live ones', async () => {
+    vi.mocked(fetchExecutedProposals).mockRejectedValue(new Error('Block range too large'));
+
+    const { result } = setup();
+    await waitFor(() => expect(result.current.proposals).toEqual([proposal]));
+    expect(fetchExecutedProposals).not.toHaveBeenCalled();
+
+    const withStartBlock = setup(undefined, BigInt(5)).result;
+    await waitFor(() => expect(withStartBlock.current.executedError).toMatchObject({ code: 'UNKNOWN' }));
+    expect(fetchExecutedProposals).toHaveBeenCalledWith(expect.anything(), 42220, expect.objectContaining({ fromBlock: BigInt(5) }));
+    expect(withStartBlock.current.proposals).toEqual([proposal]);
+    expect(withStartBlock.current.proposalsError).toBeNull();
+  });
+
+  it('sends each transaction once the previous one is mined, pending in the history meanwhile', async () => {
+    const { result, events, cache } = setup();
+    await waitFor(() => expect(result.current.account).toEqual(account));
+
+    let hashes: unknown;
+    await act(async () => {
+      hashes = await result.current.execute({ type: 'upvote', proposalId: BigInt(7) });
+    });
+
+    expect(hashes).toEqual([HASH_1, HASH_2]);
+    expect(events).toEqual(['send 0x01', 'pending 0x1', 'mined 0x1', 'send 0x02', 'pending 0x2', 'mined 0x2']);
+    expect(cache.addPending).toHaveBeenCalledWith(ACCOUNT, expect.objectContaining({ hash: HASH_1, to: GOVERNANCE }));
+    expect(result.current.status).toBe('confirmed');
+    expect(cache.sync).toHaveBeenCalledWith(ACCOUNT, 42220);
+  });
+
+  it('stops at a reverted transaction', async () => {
+    const { result, sendTransactionAsync } = setup(['reverted']);
+    await waitFor(() => expect(result.current.account).toEqual(account));
+
+    let hashes: unknown;
+    await act(async () => {
+      hashes = await result.current.execute({ type: 'upvote', proposalId: BigInt(7) });
+    });
+
+    expect(hashes).toBeNull();
+    expect(sendTransactionAsync).toHaveBeenCalledTimes(1);
+    expect(result.current.status).toBe('failed');
+    expect(result.current.hashes).toEqual([HASH_1]);
+  });
+
+  it('reports a vote that could not be prepared', async () => {
+    const { result, sendTransactionAsync } = setup();
+    vi.mocked(prepareGovernanceAction).mockImplementation(() => {
+      const error: GovernanceError = { message: 'Only queued proposals can be upvoted', code: 'INVALID_PROPOSAL' };
+      throw error;
+    });
+    await waitFor(() => expect(result.current.account).toEqual(account));
+
+    await act(async () => {
+      await result.current.execute({ type: 'upvote', proposalId: BigInt(7) });
+    });
+
+    expect(sendTransactionAsync).not.toHaveBeenCalled();
+    expect(result.current.status).toBe('idle');
+    expect(result.current.error).toMatchObject({ code: 'INVALID_PROPOSAL' });
+  });
+
+  it('reports a pending entry the history could not take', async () => {
+    const { result, cache } = setup();
+    vi.mocked(cache.addPending).mockRejectedValue(new Error('Quota exceeded'));
+    await waitFor(() => expect(result.current.account).toEqual(account));
+
+    await act(async () => {
+      await result.current.execute({ type: 'upvote', proposalId: BigInt(7) });
+    });
+
+    expect(result.current.status).toBe('confirmed');
+    expect(result.current.historyError).toMatchObject({ code: 'UNKNOWN' });
+  });
+});
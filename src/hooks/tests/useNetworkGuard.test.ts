@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useNetworkGuard } from '../useNetworkGuard';
+import { createKnownChainsStore, type KnownChainsStore } from '../../services/walletNetwork';
+
+// Mock wagmi hooks
+vi.mock('wagmi', () => ({
+  useAccount: vi.fn(),
+  useSwitchChain: vi.fn(),
+  useWalletClient: vi.fn()
+}));
+
+import { useAccount, useSwitchChain, useWalletClient } from 'wagmi';
+
+const CELO = 42220;
+const ETHEREUM = 1;
+const connector = { id: 'injected' };
+
+// What wallets answer when they do not know the chain
+const unrecognizedChain = Object.assign(new Error('Unrecognized chain ID "0xa4ec"'), { code: 4902 });
+
+function connectTo(chainId: number | undefined) {
+  vi.mocked(useAccount).mockReturnValue({ isConnected: chainId !== undefined, chainId, connector } as any);
+}
+
+describe('useNetworkGuard', () => {
+  let knownChains: KnownChainsStore;
+  let switchChainAsync: ReturnType<typeof vi.fn>;
+  let request: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    knownChains = createKnownChainsStore();
+    switchChainAsync = vi.fn().mockResolvedValue(undefined);
+    request = vi.fn().mockResolvedValue(null);
+    vi.mocked(useSwitchChain).mockReturnValue({ switchChainAsync, isPending: false } as any);
+    vi.mocked(useWalletClient).mockReturnValue({ data: { request } } as any);
+  });
+
+  it('reports the status of the connected chain', () => {
+    connectTo(undefined);
+    const { result, rerender } = renderHook(() => useNetworkGuard({ chainIds: [CELO], knownChains }));
+    expect(result.current.status).toBe('disconnected');
+    expect(result.current.isBlocked).toBe(false);
+
+    connectTo(CELO);
+    rerender();
+    expect(result.current.status).toBe('ready');
+    expect(result.current.isBlocked).toBe(false);
+
+    connectTo(ETHEREUM);
+    rerender();
+    expect(result.current.status).toBe('wrong-chain');
+    expect(result.current.isBlocked).toBe(true);
+    expect(result.current.targetChain.id).toBe(CELO);
+
+    vi.mocked(useSwitchChain).mockReturnValue({ switchChainAsync, isPending: true } as any);
+    rerender();
+    expect(result.current.status).toBe('switching');
+  });
+
+  it('offers to add the chain once a switch shows the wallet lacks it', async () => {
+    connectTo(ETHEREUM);
+    switchChainAsync.mockRejectedValueOnce(unrecognizedChain);
+    const { result } = renderHook(() => useNetworkGuard({ chainIds: [CELO], knownChains }));
+    expect(result.current.needsAdd).toBe(false);
+
+    let switched: boolean | undefined;
+    await act(async () => {
+      switched = await result.current.switchNetwork();
+    });
+
+    expect(switched).toBe(false);
+    expect(switchChainAsync).toHaveBeenCalledWith({ chainId: CELO });
+    expect(result.current.needsAdd).toBe(true);
+    expect(result.current.error).toMatchObject({ code: 'UNSUPPORTED_CHAIN' });
+    expect(knownChains.isKnown('injected', CELO)).toBe(false);
+  });
+
+  it('remembers wallets that lack the chain', () => {
+    connectTo(ETHEREUM);
+    knownChains.setKnown('injected', CELO, false);
+
+    const { result } = renderHook(() => useNetworkGuard({ chainIds: [CELO], knownChains }));
+
+    expect(result.current.needsAdd).toBe(true);
+  });
+
+  it('adds the chain, then switches to it', async () => {
+    connectTo(ETHEREUM);
+    knownChains.setKnown('injected', CELO, false);
+    switchChainAsync.mockImplementation(async ({ chainId }: { chainId: number }) => connectTo(chainId));
+    const { result, rerender } = renderHook(() => useNetworkGuard({ chainIds: [CELO], knownChains }));
+
+    let added: boolean | undefined;
+    await act(async () => {
+      added = await result.current.addNetwork();
+    });
+    // wagmi re-renders once the wallet reports the new chain
+    rerender();
+
+    expect(added).toBe(true);
+    expect(request).toHaveBeenCalledWith(expect.objectContaining({ method: 'wallet_addEthereumChain' }));
+    expect(switchChainAsync).toHaveBeenCalledWith({ chainId: CELO });
+    expect(result.current.status).toBe('ready');
+    expect(result.current.needsAdd).toBe(false);
+    expect(knownChains.isKnown('injected', CELO)).toBe(true);
+  });
+
+  it('does not switch when adding the chain fails', async () => {
+    connectTo(ETHEREUM);
+    request.mockRejectedValueOnce(Object.assign(new Error('User rejected the request.'), { code: 4001 }));
+    const { result } = renderHook(() => useNetworkGuard({ chainIds: [CELO], knownChains }));
+
+    let added: boolean | undefined;
+    await act(async () => {
+      added = await result.current.addNetwork();
+    });
+
+    expect(added).toBe(false);
+    expect(switchChainAsync).not.toHaveBeenCalled();
+    expect(result.current.status).toBe('wrong-chain');
+    expect(result.current.error).toMatchObject({ code: 'USER_REJECTED' });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useSendTransfer } from '../useSendTransfer';
+import type { TransferDraft } from '../../types/transfer';
+import type { TransactionHistoryCache } from '../../services/transactionCache';
+import { createNameService } from '../../services/nameResolution';
+
+// Mock wagmi hooks
+vi.mock('wagmi', () => ({
+  useAccount: vi.fn(),
+  useChainId: vi.fn(),
+  usePublicClient: vi.fn(),
+  useSendTransaction: vi.fn(),
+  useWaitForTransactionReceipt: vi.fn(),
+  useWriteContract: vi.fn()
+}));
+
+// Validation and fee estimates are covered by the service tests
+vi.mock('../../services/transfers', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../services/transfers')>(),
+  prepareTransfer: vi.fn()
+}));
+
+import { useAccount, useChainId, usePublicClient, useSendTransaction, useWaitForTransactionReceipt, useWriteContract } from 'wagmi';
+import { prepareTransfer } from '../../services/transfers';
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890';
+const RECIPIENT = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+const HASH = `0x${'1'.repeat(64)}`;
+
+function draftFor({ recipient, amount }: { recipient: string; amount: string }): TransferDraft {
+  return {
+    chainId: 42220,
+    from: ACCOUNT,
+    to: recipient as TransferDraft['to'],
+    amount,
+    value: BigInt(10) ** BigInt(18),
+    gas: BigInt(21000),
+    gasPrice: BigInt(5000000000),
+    fee: BigInt(105000000000000)
+  };
+}
+
+// Knows alice.celo only; bob.celo has no address
+const names = createNameService({
+  resolvers: [{
+    id: 'test',
+    supports: (query) => query.kind === 'name',
+    resolve: async (query) => (query.value === 'alice.celo' ? RECIPIENT : undefined)
+  }]
+});
+
+function setup() {
+  const sendTransactionAsync = vi.fn().mockResolvedValue(HASH);
+  const cache = {
+    sync: vi.fn().mockResolvedValue(undefined),
+    addPending: vi.fn().mockResolvedValue(undefined)
+  } as unknown as TransactionHistoryCache;
+
+  vi.mocked(useSendTransaction).mockReturnValue({ sendTransactionAsync } as any);
+  const hook = renderHook(() => useSendTransfer({ cache, names }));
+  return { ...hook, sendTransactionAsync, cache };
+}
+
+describe('useSendTransfer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useAccount).mockReturnValue({ address: ACCOUNT, isConnected: true } as any);
+    vi.mocked(useChainId).mockReturnValue(42220);
+    vi.mocked(usePublicClient).mockReturnValue({} as any);
+    vi.mocked(useWriteContract).mockReturnValue({ writeContractAsync: vi.fn() } as any);
+    vi.mocked(useWaitForTransactionReceipt).mockReturnValue({ data: undefined, error: null } as any);
+    vi.mocked(prepareTransfer).mockImplementation(async (_client, input) => draftFor(input));
+  });
+
+  it('adds the sent transfer to the history as pending', async () => {
+    const { result, sendTransactionAsync, cache } = setup();
+
+    await act(async () => {
+      await result.current.review({ recipient: RECIPIENT, amount: '1' });
+    });
+    expect(result.current.status).toBe('review');
+
+    await act(async () => {
+      await result.current.confirm();
+    });
+
+    expect(sendTransactionAsync).toHaveBeenCalledWith(expect.objectContaining({ to: RECIPIENT, chainId: 42220 }));
+    expect(result.current.status).toBe('pending');
+    expect(cache.addPending).toHaveBeenCalledWith(ACCOUNT, expect.objectContaining({ hash: HASH, status: 'pending' }));
+  });
+
+  it('reports a history that could not be synced once the transfer is mined', async () => {
+    const { result, rerender, cache } = setup();
+    vi.mocked(cache.sync).mockRejectedValue(new Error('Explorer unavailable'));
+
+    await act(async () => {
+      await result.current.review({ recipient: RECIPIENT, amount: '1' });
+    });
+    await act(async () => {
+      await result.current.confirm();
+    });
+
+    vi.mocked(useWaitForTransactionReceipt).mockReturnValue({ data: { status: 'success' }, error: null } as any);
+    await act(async () => {
+      rerender();
+    });
+
+    expect(cache.sync).toHaveBeenCalledWith(ACCOUNT, 42220);
+    expect(result.current.status).toBe('confirmed');
+    expect(result.current.error).toBeNull();
+    expect(result.current.historyError).toMatchObject({ code: 'UNKNOWN' });
+  });
+
+  it('sends to the address a name resolves to, keeping the name for review', async () => {
+    const { result } = setup();
+
+    let draft: TransferDraft | null = null;
+    await act(async () => {
+      draft = await result.current.review({ recipient: ' alice.celo ', amount: '1' });
+    });
+
+    expect(prepareTransfer).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ recipient: RECIPIENT, chainId: 42220 }));
+    expect(draft).toMatchObject({ to: RECIPIENT, recipientName: 'alice.celo' });
+    expect(result.current.draft?.recipientName).toBe('alice.celo');
+  });
+
+  it('passes addresses through without resolving them', async () => {
+    const { result } = setup();
+
+    await act(async () => {
+      await result.current.review({ recipient: RECIPIENT, amount: '1' });
+    });
+
+    expect(result.current.draft?.to).toBe(RECIPIENT);
+    expect(result.current.draft?.recipientName).toBeUndefined();
+  });
+
+  it('flags the recipient when a name does not resolve', async () => {
+    const { result } = setup();
+
+    await act(async () => {
+      await result.current.review({ recipient: 'bob.celo', amount: '1' });
+    });
+
+    expect(prepareTransfer).not.toHaveBeenCalled();
+    expect(result.current.status).toBe('idle');
+    expect(result.current.error).toMatchObject({
+      code: 'INVALID_RECIPIENT',
+      field: 'recipient',
+      message: 'No address found for bob.celo'
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useSiwe } from '../useSiwe';
+import { createSiweSessionStore } from '../../services/siwe';
+import type { SiweSession } from '../../types/siwe';
+
+// Mock wagmi hooks
+vi.mock('wagmi', () => ({
+  useAccount: vi.fn(),
+  useSignMessage: vi.fn()
+}));
+
+// Mock the network hook
+vi.mock('../useCeloNetwork', () => ({
+  useCeloNetwork: vi.fn()
+}));
+
+import { useAccount, useSignMessage } from 'wagmi';
+import { useCeloNetwork } from '../useCeloNetwork';
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890';
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 1700000000000;
+
+function signedIn(expiresAt?: number): SiweSession {
+  return {
+    address: ACCOUNT,
+    chainId: 42220,
+    message: 'app.example wants you to sign in',
+    signature: '0x01',
+    nonce: 'abcdef123456',
+    issuedAt: NOW,
+    expiresAt
+  };
+}
+
+describe('useSiwe', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+    vi.mocked(useAccount).mockReturnValue({ address: ACCOUNT, status: 'connected' } as any);
+    vi.mocked(useSignMessage).mockReturnValue({ signMessageAsync: vi.fn() } as any);
+    vi.mocked(useCeloNetwork).mockReturnValue({ currentChainId: 42220, isSupportedChain: true } as any);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('expires the session when its lifetime ends', () => {
+    const store = createSiweSessionStore({ status: 'signed-in', session: signedIn(NOW + DAY) });
+    const { result } = renderHook(() => useSiwe({ store }));
+
+    act(() => {
+      vi.advanceTimersByTime(DAY - 1);
+    });
+    expect(result.current.status).toBe('signed-in');
+
+    act(() => {
+      vi.advanceTimersByTime(1);
+    });
+    expect(result.current.status).toBe('expired');
+  });
+
+  it('keeps sessions longer than the longest timer delay until they expire', () => {
+    const store = createSiweSessionStore({ status: 'signed-in', session: signedIn(NOW + 30 * DAY) });
+    const { result } = renderHook(() => useSiwe({ store }));
+
+    act(() => {
+      vi.advanceTimersByTime(25 * DAY);
+    });
+    expect(result.current.status).toBe('signed-in');
+
+    act(() => {
+      vi.advanceTimersByTime(5 * DAY);
+    });
+    expect(result.current.status).toBe('expired');
+  });
+
+  it('reports a failed server sign-out', async () => {
+    const store = createSiweSessionStore({ status: 'signed-in', session: signedIn() });
+    const adapter = {
+      getNonce: vi.fn(),
+      verify: vi.fn(),
+      signOut: vi.fn().mockRejectedValue(new Error('Server unavailable'))
+    };
+    const { result } = renderHook(() => useSiwe({ adapter, store }));
+
+    await act(async () => {
+      result.current.signOut();
+    });
+
+    expect(result.current.status).toBe('signed-out');
+    expect(result.current.error).toMatchObject({ code: 'SIWE_SIGN_OUT_FAILED', message: 'Failed to end the session' });
+  });
+});
@@ -0,0 +1,158 @@
+import { createElement, type ReactNode } from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { useStaking } from '../useStaking';
+import type { GroupRewards, StakingSummary } from '../../types/staking';
+import type { TransactionHistoryCache } from '../../services/transactionCache';
+
+// Mock wagmi hooks
+vi.mock('wagmi', () => ({
+  useAccount: vi.fn(),
+  useChainId: vi.fn(),
+  usePublicClient: vi.fn(),
+  useSendTransaction: vi.fn()
+}));
+
+// Contract reads are covered by the service tests
+vi.mock('../../services/staking', () => ({
+  getStakingContracts: vi.fn(),
+  readStakingSummary: vi.fn(),
+  readGroupRewards: vi.fn(),
+  prepareStakingAction: vi.fn()
+}));
+
+import { useAccount, useChainId, usePublicClient, useSendTransaction } from 'wagmi';
+import { prepareStakingAction, readGroupRewards, readStakingSummary } from '../../services/staking';
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890';
+const LOCKED_GOLD = '0x1000000000000000000000000000000000000001';
+const ACCOUNTS = '0x1000000000000000000000000000000000000002';
+const HASH_1 = `0x${'1'.repeat(64)}`;
+const HASH_2 = `0x${'2'.repeat(64)}`;
+
+const summary: StakingSummary = {
+  account: ACCOUNT,
+  isAccount: false,
+  total: BigInt(0),
+  nonvoting: BigInt(0),
+  voting: BigInt(0),
+  pendingWithdrawals: [],
+  votes: [],
+  unlockingPeriod: 259200
+};
+
+// Registering the account comes before locking
+const calls = [
+  { to: ACCOUNTS, data: '0x01' },
+  { to: LOCKED_GOLD, data: '0x02', value: BigInt(1) }
+];
+
+function setup(receiptStatuses: Array<'success' | 'reverted'> = ['success', 'success'], rewardsFromBlock?: bigint) {
+  const events: string[] = [];
+  const sendTransactionAsync = vi.fn(async ({ data }: { data: string }) => {
+    events.push(`send ${data}`);
+    return data === '0x01' ? HASH_1 : HASH_2;
+  });
+  const statuses = [...receiptStatuses];
+  const client = {
+    waitForTransactionReceipt: vi.fn(async ({ hash }: { hash: string }) => {
+      events.push(`mined ${hash.slice(0, 3)}`);
+      return { status: statuses.shift() };
+    })
+  };
+  const cache = { sync: vi.fn().mockResolvedValue(undefined) } as unknown as TransactionHistoryCache;
+
+  vi.mocked(useSendTransaction).mockReturnValue({ sendTransactionAsync } as any);
+  vi.mocked(usePublicClient).mockReturnValue(client as any);
+
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  const wrapper = ({ children }: { children: ReactNode }) => createElement(QueryClientProvider, { client: queryClient }, children);
+  const hook = renderHook(() => useStaking({ cache, rewardsFromBlock }), { wrapper });
+  return { ...hook, events, sendTransactionAsync, cache };
+}
+
+describe('useStaking', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useAccount).mockReturnValue({ address: ACCOUNT, isConnected: true } as any);
+    vi.mocked(useChainId).mockReturnValue(42220);
+    vi.mocked(readStakingSummary).mockResolvedValue(summary);
+    vi.mocked(prepareStakingAction).mockResolvedValue(calls as any);
+  });
+
+  it('reads rewards only from a given start block', async () => {
+    const voted: StakingSummary = { ...summary, votes: [{ group: LOCKED_GOLD, pending: BigInt(0), active: BigInt(2), canActivate: false }] };
+    const rewards: GroupRewards[] = [{ group: LOCKED_GOLD, activated: BigInt(1), active: BigInt(2), rewards: BigInt(1) }];
+    vi.mocked(readStakingSummary).mockResolvedValue(voted);
+    vi.mocked(readGroupRewards).mockResolvedValue(rewards);
+
+    const { result } = setup();
+    await waitFor(() => expect(result.current.summary).toEqual(voted));
+    expect(readGroupRewards).not.toHaveBeenCalled();
+    expect(result.current.rewards).toBeUndefined();
+
+    const withStartBlock = setup(undefined, BigInt(5)).result;
+    await waitFor(() => expect(withStartBlock.current.rewards).toEqual(rewards));
+    expect(readGroupRewards).toHaveBeenCalledWith(expect.anything(), undefined, voted, { fromBlock: BigInt(5) });
+  });
+
+  it('sends each transaction once the previous one is mined', async () => {
+    const { result, events, cache } = setup();
+    await waitFor(() => expect(result.current.summary).toEqual(summary));
+
+    let hashes: unknown;
+    await act(async () => {
+      hashes = await result.current.execute({ type: 'lock', amount: '1' });
+    });
+
+    expect(hashes).toEqual([HASH_1, HASH_2]);
+    expect(events).toEqual(['send 0x01', 'mined 0x1', 'send 0x02', 'mined 0x2']);
+    expect(result.current.status).toBe('confirmed');
+    expect(result.current.hashes).toEqual([HASH_1, HASH_2]);
+    expect(cache.sync).toHaveBeenCalledWith(ACCOUNT, 42220);
+  });
+
+  it('stops at a reverted transaction', async () => {
+    const { result, sendTransactionAsync, cache } = setup(['reverted']);
+    await waitFor(() => expect(result.current.summary).toEqual(summary));
+
+    await act(async () => {
+      await result.current.execute({ type: 'lock', amount: '1' });
+    });
+
+    expect(sendTransactionAsync).toHaveBeenCalledTimes(1);
+    expect(result.current.status).toBe('failed');
+    expect(result.current.hashes).toEqual([HASH_1]);
+    // The registration went through, so the history still picks it up
+    expect(cache.sync).toHaveBeenCalled();
+  });
+
+  it('goes back to idle when the first transaction is not sent', async () => {
+    const { result, sendTransactionAsync, cache } = setup();
+    sendTransactionAsync.mockRejectedValueOnce(new Error('Wallet closed'));
+    await waitFor(() => expect(result.current.summary).toEqual(summary));
+
+    await act(async () => {
+      await result.current.execute({ type: 'lock', amount: '1' });
+    });
+
+    expect(result.current.status).toBe('idle');
+    expect(result.current.error).toMatchObject({ code: 'SEND_FAILED', message: 'Failed to send the transaction' });
+    expect(cache.sync).not.toHaveBeenCalled();
+  });
+
+  it('reports a failed history sync without failing the action', async () => {
+    const { result, cache } = setup();
+    vi.mocked(cache.sync).mockRejectedValue(new Error('Explorer unavailable'));
+    await waitFor(() => expect(result.current.summary).toEqual(summary));
+
+    await act(async () => {
+      await result.current.execute({ type: 'lock', amount: '1' });
+    });
+
+    expect(result.current.status).toBe('confirmed');
+    expect(result.current.error).toBeNull();
+    expect(result.current.historyError).toMatchObject({ code: 'UNKNOWN' });
+  });
+});
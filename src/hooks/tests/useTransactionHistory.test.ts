@@ -1,118 +1,129 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
+import type { Address } from 'viem';
 import { useTransactionHistory } from '../useTransactionHistory';
+import { createRpcHistorySource } from '../../services/rpcHistorySource';
+import { createMemoryTransactionStore, type TransactionStore } from '../../services/transactionStore';
+import type { TransactionHistorySource } from '../../types/transaction';
+import { MockJsonRpc, fixtureHash, type MockTransaction } from '../../test/mockJsonRpc';
+
+const ACCOUNT: Address = '0x1234567890123456789012345678901234567890';
+const OTHER: Address = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+const CELO_TOKEN: Address = '0x471EcE3750Da237f93B8E339c536989b8978a438';
 
 // Mock wagmi hooks
 vi.mock('wagmi', () => ({
-  useAccount: () => ({
-    address: '0x1234567890123456789012345678901234567890',
-    isConnected: true
-  }),
-  useChainId: () => 42220
-}));
-
-// Mock viem
-vi.mock('viem', () => ({
-  createPublicClient: vi.fn(() => ({
-    getBlockNumber: vi.fn().mockResolvedValue(BigInt(12345678)),
-    getBlock: vi.fn().mockResolvedValue({
-      transactions: [
-        {
-          hash: '0x1234567890abcdef',
-          from: '0x1234567890123456789012345678901234567890',
-          to: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcdef',
-          value: BigInt('1000000000000000000'),
-          blockNumber: BigInt(12345678),
-          gasPrice: BigInt('20000000000')
-        }
-      ]
-    }),
-    getTransactionReceipt: vi.fn().mockResolvedValue({
-      status: 'success',
-      gasUsed: BigInt('21000')
-    })
-  }))
+  useAccount: vi.fn(),
+  useChainId: () => 42220,
+  useBlockNumber: () => ({ data: BigInt(1000) })
 }));
 
-// Mock the celo chains config
-vi.mock('../../config/celoChains', () => ({
-  celo: {
-    id: 42220,
-    name: 'Celo',
-    rpcUrls: {
-      default: {
-        http: ['https://rpc.celo.org']
-      }
-    }
-  },
-  celoAlfajores: {
-    id: 44787,
-    name: 'Celo Alfajores',
-    rpcUrls: {
-      default: {
-        http: ['https://alfajores-forno.celo-testnet.org']
-      }
-    }
-  }
-}));
+// Every viem client, including the ones the history creates itself, talks to the mock node
+let rpc: MockJsonRpc;
+vi.mock('viem', async (importOriginal) => {
+  const viem = await importOriginal<typeof import('viem')>();
+  return {
+    ...viem,
+    createPublicClient: vi.fn((parameters: Parameters<typeof viem.createPublicClient>[0]) => viem.createPublicClient({
+      ...parameters,
+      transport: viem.custom({ request: (args) => rpc.request(args) }, { retryCount: 0 })
+    }))
+  };
+});
+
+import { useAccount } from 'wagmi';
+
+function transfer(n: number, blockNumber: number, direction: 'sent' | 'received'): MockTransaction {
+  const from = direction === 'sent' ? ACCOUNT : OTHER;
+  const to = direction === 'sent' ? OTHER : ACCOUNT;
+  return {
+    hash: fixtureHash(n),
+    blockNumber: BigInt(blockNumber),
+    from,
+    to,
+    value: BigInt(n) * BigInt(10) ** BigInt(18),
+    transfers: [{ token: CELO_TOKEN, from, to, value: BigInt(n) * BigInt(10) ** BigInt(18) }]
+  };
+}
 
 describe('useTransactionHistory', () => {
+  let sources: TransactionHistorySource[];
+  let store: TransactionStore;
+
+  const renderHistory = () => renderHook(() => useTransactionHistory({ sources, store }));
+
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(useAccount).mockReturnValue({ address: ACCOUNT, isConnected: true } as any);
+    rpc = new MockJsonRpc({
+      head: BigInt(1000),
+      transactions: [transfer(1, 400, 'received'), transfer(2, 900, 'sent')]
+    });
+    sources = [createRpcHistorySource()];
+    store = createMemoryTransactionStore();
   });
 
   it('should initialize with correct default values', () => {
-    const { result } = renderHook(() => useTransactionHistory());
+    const { result } = renderHistory();
 
-    expect(result.current.address).toBe('0x1234567890123456789012345678901234567890');
+    expect(result.current.address).toBe(ACCOUNT);
     expect(result.current.chainId).toBe(42220);
     expect(result.current.isConnected).toBe(true);
     expect(result.current.error).toBeNull();
   });
 
   it('should throw error when no address is available', async () => {
-    vi.mocked(useAccount).mockReturnValue({
-      address: undefined,
-      isConnected: true
-    });
+    vi.mocked(useAccount).mockReturnValue({ address: undefined, isConnected: true } as any);
 
-    const { result } = renderHook(() => useTransactionHistory());
+    const { result } = renderHistory();
 
     await act(async () => {
-      try {
-        await result.current.fetchTransactions({ limit: 10 });
-        expect(false).toBe(true); // Should have thrown
-      } catch (error) {
-        expect(error).toEqual({
-          message: 'No wallet address available',
-          code: 'NO_ADDRESS'
-        });
-      }
+      await expect(result.current.fetchTransactions({ limit: 10 })).rejects.toEqual({
+        message: 'No wallet address available',
+        code: 'NO_ADDRESS'
+      });
     });
   });
 
   it('should fetch transactions successfully', async () => {
-    const { result } = renderHook(() => useTransactionHistory());
+    const { result } = renderHistory();
 
     await act(async () => {
       const data = await result.current.fetchTransactions({ limit: 10 });
       expect(data).toEqual({
         transactions: expect.any(Array),
-        total: expect.any(Number),
+        total: 2,
         hasMore: false,
         nextCursor: undefined
       });
+      expect(data.transactions.map((tx) => tx.hash)).toEqual([fixtureHash(2), fixtureHash(1)]);
+    });
+  });
+
+  it('should page through the history with cursors', async () => {
+    const { result } = renderHistory();
+
+    await act(async () => {
+      const first = await result.current.fetchTransactions({ limit: 1 });
+      expect(first.transactions.map((tx) => tx.hash)).toEqual([fixtureHash(2)]);
+      expect(first.hasMore).toBe(true);
+      expect(first.nextCursor).toBe(`cache:900:${fixtureHash(2)}`);
+
+      const second = await result.current.fetchTransactions({ limit: 1, cursor: first.nextCursor });
+      expect(second.transactions.map((tx) => tx.hash)).toEqual([fixtureHash(1)]);
+      expect(second.hasMore).toBe(false);
+      expect(second.nextCursor).toBeUndefined();
     });
   });
 
   it('should refresh transactions', async () => {
-    const { result } = renderHook(() => useTransactionHistory());
+    const { result } = renderHistory();
 
     await act(async () => {
       const data = await result.current.refreshTransactions(undefined, 10);
       expect(data).toEqual({
         transactions: expect.any(Array),
-        total: expect.any(Number),
+        total: 2,
         hasMore: false,
         nextCursor: undefined
       });
@@ -120,7 +131,7 @@ describe('useTransactionHistory', () => {
   });
 
   it('should apply filters when fetching transactions', async () => {
-    const { result } = renderHook(() => useTransactionHistory());
+    const { result } = renderHistory();
 
     await act(async () => {
       const data = await result.current.fetchTransactions({
@@ -131,8 +142,8 @@ describe('useTransactionHistory', () => {
         }
       });
       expect(data).toEqual({
-        transactions: expect.any(Array),
-        total: expect.any(Number),
+        transactions: [expect.objectContaining({ hash: fixtureHash(2), type: 'sent' })],
+        total: 1,
         hasMore: false,
         nextCursor: undefined
       });
@@ -140,7 +151,7 @@ describe('useTransactionHistory', () => {
   });
 
   it('should return transaction summary', () => {
-    const { result } = renderHook(() => useTransactionHistory());
+    const { result } = renderHistory();
 
     expect(result.current.transactionSummary).toEqual({
       totalSent: 0,
@@ -151,27 +162,39 @@ describe('useTransactionHistory', () => {
   });
 
   it('should handle network errors gracefully', async () => {
-    // Mock a network error
     const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-    const mockClient = {
-      getBlockNumber: vi.fn().mockRejectedValue(new Error('Network error')),
-      getBlock: vi.fn(),
-      getTransactionReceipt: vi.fn()
-    };
-
-    vi.mocked(createPublicClient).mockReturnValue(mockClient);
+    rpc.failMethod('eth_getLogs', new Error('Network error'));
 
-    const { result } = renderHook(() => useTransactionHistory());
+    const { result } = renderHistory();
 
     await act(async () => {
-      try {
-        await result.current.fetchTransactions({ limit: 10 });
-        expect(false).toBe(true); // Should have thrown
-      } catch (error) {
-        expect(error.message).toContain('Failed to fetch transactions');
-      }
+      await expect(result.current.fetchTransactions({ limit: 10 })).rejects.toMatchObject({
+        code: 'FETCH_ERROR',
+        message: expect.stringContaining('Failed to fetch transactions')
+      });
     });
 
+    expect(result.current.error).toMatchObject({ code: 'FETCH_ERROR' });
     consoleSpy.mockRestore();
   });
-});
\ No newline at end of file
+
+  it('should keep a failed sync as the error until a sync succeeds', async () => {
+    rpc.failMethod('eth_getLogs', new Error('Network error'));
+
+    const { result } = renderHistory();
+
+    await act(async () => {
+      await expect(result.current.syncTransactions()).rejects.toMatchObject({ code: 'FETCH_ERROR' });
+    });
+    expect(result.current.error).toMatchObject({
+      code: 'FETCH_ERROR',
+      message: expect.stringContaining('Failed to fetch transactions')
+    });
+
+    rpc.clearFailures();
+    await act(async () => {
+      await result.current.syncTransactions();
+    });
+    expect(result.current.error).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Chain, WalletClient } from 'viem';
+import { useAccount, useWalletClient } from 'wagmi';
+import type { TokenInfo } from '../types/token';
+import type { WalletError } from '../types/walletError';
+import {
+  addChainToWallet,
+  getSharedKnownChainsStore,
+  watchAssetInWallet,
+  type KnownChainsStore
+} from '../services/walletNetwork';
+import { getWalletErrorMessage, normalizeWalletError } from '../services/walletErrors';
+
+export type AddToWalletStatus = 'idle' | 'pending' | 'added' | 'rejected' | 'failed';
+
+export interface AddToWalletState {
+  status: AddToWalletStatus;
+  error?: WalletError<string>;
+}
+
+export interface UseAddToWalletOptions {
+  /** Chains each wallet is known to have; defaults to the shared, persisted one */
+  store?: KnownChainsStore;
+}
+
+const IDLE: AddToWalletState = { status: 'idle' };
+
+const chainKey = (walletId: string | undefined, chainId: number): string => `${walletId}:chain:${chainId}`;
+
+const tokenKey = (walletId: string | undefined, token: TokenInfo): string =>
+  `${walletId}:token:${token.chainId}:${token.address.toLowerCase()}`;
+
+/**
+ * Add registry chains (`wallet_addEthereumChain`) and tokens (`wallet_watchAsset`)
+ * to the connected wallet, tracking the outcome of each request
+ */
+export function useAddToWallet({ store = getSharedKnownChainsStore() }: UseAddToWalletOptions = {}) {
+  const { connector, chainId, isConnected } = useAccount();
+  const { data: walletClient } = useWalletClient();
+  const walletId = connector?.id;
+  // Outcome per wallet and chain or token
+  const [states, setStates] = useState<Record<string, AddToWalletState>>({});
+
+  // Being on a chain proves the wallet knows it
+  useEffect(() => {
+    if (walletId && chainId !== undefined) {
+      store.setKnown(walletId, chainId, true);
+    }
+  }, [chainId, store, walletId]);
+
+  const run = useCallback(async (key: string, request: (client: WalletClient) => Promise<boolean>): Promise<boolean> => {
+    const update = (state: AddToWalletState): void => setStates((current) => ({ ...current, [key]: state }));
+    if (!walletClient) {
+      update({ status: 'failed', error: { message: getWalletErrorMessage('NOT_CONNECTED'), code: 'NOT_CONNECTED' } });
+      return false;
+    }
+
+    update({ status: 'pending' });
+    try {
+      const added = await request(walletClient);
+      update({ status: added ? 'added' : 'rejected' });
+      return added;
+    } catch (err) {
+      const error = normalizeWalletError(err);
+      update({ status: error.code === 'USER_REJECTED' ? 'rejected' : 'failed', error });
+      return false;
+    }
+  }, [walletClient]);
+
+  const addChain = useCallback((chain: Chain) => run(chainKey(walletId, chain.id), async (client) => {
+    await addChainToWallet(client, chain);
+    if (walletId) {
+      store.setKnown(walletId, chain.id, true);
+    }
+    return true;
+  }), [run, store, walletId]);
+
+  const watchToken = useCallback(
+    (token: TokenInfo) => run(tokenKey(walletId, token), (client) => watchAssetInWallet(client, token)),
+    [run, walletId]
+  );
+
+  /**
+   * Whether the wallet has the chain; `undefined` when that is not known yet
+   */
+  const isChainKnown = (id: number): boolean | undefined => {
+    if (id === chainId) {
+      return true;
+    }
+    return walletId ? store.isKnown(walletId, id) : undefined;
+  };
+
+  return {
+    isConnected,
+    addChain,
+    watchToken,
+    isChainKnown,
+    chainState: (id: number): AddToWalletState => states[chainKey(walletId, id)] ?? IDLE,
+    tokenState: (token: TokenInfo): AddToWalletState => states[tokenKey(walletId, token)] ?? IDLE
+  };
+}
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useChainId } from 'wagmi';
+import type { AddressBookInput } from '../types/addressBook';
+import {
+  getSharedAddressBookStore,
+  matchesAddressBookEntry,
+  type AddressBookStore
+} from '../services/addressBook';
+
+export interface UseAddressBookOptions {
+  /** Chain whose book is used; the connected chain by default */
+  chainId?: number;
+  /** Where entries are kept; defaults to the shared, persisted one */
+  store?: AddressBookStore;
+}
+
+/**
+ * Saved addresses of a chain, updated everywhere as soon as one is saved or removed
+ */
+export function useAddressBook({
+  chainId: requestedChainId,
+  store = getSharedAddressBookStore()
+}: UseAddressBookOptions = {}) {
+  const connectedChainId = useChainId();
+  const chainId = requestedChainId ?? connectedChainId;
+  const [latest, setLatest] = useState(() => ({ chainId, entries: store.list(chainId) }));
+
+  useEffect(() => {
+    return store.subscribe((changedChainId) => {
+      if (changedChainId === chainId) {
+        setLatest({ chainId, entries: store.list(chainId) });
+      }
+    });
+  }, [store, chainId]);
+
+  // Right after a chain switch `latest` still holds the previous chain's book
+  const entries = useMemo(
+    () => (latest.chainId === chainId ? latest.entries : store.list(chainId)),
+    [latest, store, chainId]
+  );
+
+  const getEntry = useCallback(
+    (address: string) => entries.find((entry) => entry.address.toLowerCase() === address.toLowerCase()),
+    [entries]
+  );
+
+  const saveEntry = useCallback(
+    (input: Omit<AddressBookInput, 'chainId'>) => store.save({ ...input, chainId }),
+    [store, chainId]
+  );
+
+  const removeEntry = useCallback((address: string) => store.remove(chainId, address), [store, chainId]);
+
+  /** Entries whose label, note, tags or address match the query */
+  const search = useCallback(
+    (query: string) => entries.filter((entry) => matchesAddressBookEntry(entry, query)),
+    [entries]
+  );
+
+  return {
+    chainId,
+    entries,
+    getEntry,
+    saveEntry,
+    removeEntry,
+    search
+  };
+}
@@ -1,46 +1,55 @@
 import { useCallback, useMemo } from 'react';
-import { useChainId, useSwitchChain } from 'wagmi';
-import { celo, celoAlfajores } from '../config/celoChains';
-
-const AVAILABLE_CHAINS = [celoAlfajores, celo] as const
+import { useAccount, useChainId, useSwitchChain } from 'wagmi';
+import { CELO_CHAINS, celo, celoAlfajores, getCeloChain } from '../config/celoChains';
+import { normalizeWalletError } from '../services/walletErrors';
 
 export function useCeloNetwork() {
-  const currentChainId = useChainId()
-  const { chains, switchChain, isPending, status, error } = useSwitchChain()
+  // The wallet may be on a chain the app does not support, which useChainId
+  // never returns; it only knows configured chains
+  const { chainId: walletChainId } = useAccount();
+  const configChainId = useChainId();
+  const currentChainId = walletChainId ?? configChainId;
+  const { chains, switchChain, isPending, status, error } = useSwitchChain();
 
   const isSupportedChain = useMemo(
-    () => AVAILABLE_CHAINS.some((chain) => chain.id === currentChainId),
-    [currentChainId],
-  )
+    () => getCeloChain(currentChainId) !== undefined,
+    [currentChainId]
+  );
 
   const currentChain = useMemo(
-    () => AVAILABLE_CHAINS.find((chain) => chain.id === currentChainId) ?? null,
-    [currentChainId],
-  )
+    () => getCeloChain(currentChainId) ?? null,
+    [currentChainId]
+  );
 
   const switchTo = useCallback(
     (targetChainId: number) => {
-      const target = chains.find((chain) => chain.id === targetChainId)
+      const target = chains.find((chain) => chain.id === targetChainId);
       if (target && switchChain) {
-        switchChain({ chainId: target.id })
+        switchChain({ chainId: target.id });
       }
     },
-    [chains, switchChain],
-  )
+    [chains, switchChain]
+  );
+
+  const switchToCelo = useCallback(() => switchTo(celo.id), [switchTo]);
+  const switchToAlfajores = useCallback(() => switchTo(celoAlfajores.id), [switchTo]);
 
-  const switchToCelo = useCallback(() => switchTo(celo.id), [switchTo])
-  const switchToAlfajores = useCallback(() => switchTo(celoAlfajores.id), [switchTo])
+  const switchError = useMemo(() => (error ? normalizeWalletError(error) : null), [error]);
 
   return {
     currentChainId,
     currentChain,
     isSupportedChain,
+    availableChains: CELO_CHAINS,
     celoMainnet: celo,
     alfajores: celoAlfajores,
+    switchTo,
     switchToCelo,
     switchToAlfajores,
     isSwitching: isPending,
     status,
-    error
+    error,
+    /** Why the last switch failed, with a message for the user */
+    switchError
   };
 }
@@ -0,0 +1,69 @@
+import { useMemo } from 'react';
+import { useAccount, useChainId } from 'wagmi';
+import { useQuery } from '@tanstack/react-query';
+import type { EpochReward } from '../types/staking';
+import {
+  getSharedEpochRewardsCache,
+  summarizeEpochRewards,
+  type EpochRewardsCache
+} from '../services/epochRewards';
+import { normalizeWalletError } from '../services/walletErrors';
+
+export interface UseEpochRewardsOptions {
+  /** Chain to read rewards on; the connected chain by default */
+  chainId?: number;
+  /** First block of the account's vote history to read; rewards are not read without it or a cache */
+  fromBlock?: bigint;
+  /** Per-epoch cache; defaults to the shared one for `fromBlock` */
+  cache?: EpochRewardsCache;
+  /** Set to false to skip reading rewards */
+  enabled?: boolean;
+}
+
+// Rechecks the epoch now and then; rewards are only read again in a new epoch
+const STALE_TIME = 60 * 1000;
+
+const NO_REWARDS: EpochReward[] = [];
+
+export function useEpochRewards({
+  chainId: requestedChainId,
+  fromBlock,
+  cache,
+  enabled = true
+}: UseEpochRewardsOptions = {}) {
+  const { address, isConnected } = useAccount();
+  const connectedChainId = useChainId();
+  const chainId = requestedChainId ?? connectedChainId;
+  const rewardsCache = cache ?? (fromBlock === undefined ? undefined : getSharedEpochRewardsCache(fromBlock));
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['epochRewards', chainId, address, fromBlock?.toString()],
+    queryFn: (): Promise<EpochReward[]> => {
+      if (!address || !rewardsCache) {
+        throw new Error('No account connected');
+      }
+      return rewardsCache.get(chainId, address);
+    },
+    enabled: enabled && !!rewardsCache && isConnected && !!address,
+    staleTime: STALE_TIME,
+    retry: false
+  });
+  const rewards = data ?? NO_REWARDS;
+
+  const epochs = useMemo(() => summarizeEpochRewards(rewards), [rewards]);
+  const total = useMemo(() => rewards.reduce((sum, reward) => sum + reward.value, BigInt(0)), [rewards]);
+
+  return {
+    address,
+    chainId,
+    isConnected,
+    /** False until a start block or cache is given; no rewards are read before */
+    isEnabled: !!rewardsCache,
+    rewards,
+    epochs,
+    total,
+    isLoading,
+    error: error ? normalizeWalletError(error) : null,
+    refetch
+  };
+}
@@ -0,0 +1,42 @@
+import { useQuery } from '@tanstack/react-query';
+import { useChainId, usePublicClient } from 'wagmi';
+import type { FeeCurrency, TokenInfo } from '../types/token';
+import { fetchFeeCurrencies } from '../services/feeCurrencies';
+
+export interface UseFeeCurrenciesOptions {
+  /** Known tokens, used before falling back to on-chain metadata lookups */
+  tokens?: readonly TokenInfo[];
+  /** Chain to list fee currencies for; the connected chain by default */
+  chainId?: number;
+}
+
+/**
+ * Currencies accepted for paying transaction fees (CIP-64) on a chain.
+ * The list changes through governance only, so it is cached for the session.
+ */
+export function useFeeCurrencies({ tokens, chainId: requestedChainId }: UseFeeCurrenciesOptions = {}) {
+  const connectedChainId = useChainId();
+  const chainId = requestedChainId ?? connectedChainId;
+  const client = usePublicClient({ chainId });
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['feeCurrencies', chainId, tokens?.map((token) => token.address)],
+    queryFn: (): Promise<FeeCurrency[]> => {
+      if (!client) {
+        throw new Error(`No client available for chain ${chainId}`);
+      }
+      const chainTokens = tokens?.filter((token) => token.chainId === chainId);
+      return fetchFeeCurrencies(client, chainId, chainTokens);
+    },
+    enabled: !!client,
+    staleTime: Number.POSITIVE_INFINITY
+  });
+
+  return {
+    chainId,
+    feeCurrencies: data ?? [],
+    isLoading,
+    error: error ?? null,
+    refetch
+  };
+}
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { PricedAsset, PriceProvider } from '../types/price';
+import { FIAT_CURRENCIES } from '../config/fiatCurrencies';
+import {
+  getPriceKey,
+  getSharedFiatCurrencyStore,
+  getSharedPriceProvider,
+  type FiatCurrencyStore
+} from '../services/prices';
+import { normalizeWalletError } from '../services/walletErrors';
+import { getFiatValue } from '../utils/tokenAmounts';
+
+export interface UseFiatCurrencyOptions {
+  /** Where the choice is kept; defaults to the shared, persisted one */
+  store?: FiatCurrencyStore;
+}
+
+/**
+ * The fiat currency selected by the user, shared by every component showing values
+ */
+export function useFiatCurrency({ store = getSharedFiatCurrencyStore() }: UseFiatCurrencyOptions = {}) {
+  const [currency, setLatest] = useState(() => store.get());
+
+  useEffect(() => store.subscribe(setLatest), [store]);
+
+  const setCurrency = useCallback((next: string) => store.set(next), [store]);
+
+  const formatFiat = useCallback(
+    (value: number) => new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(value),
+    [currency]
+  );
+
+  return {
+    currency,
+    setCurrency,
+    currencies: FIAT_CURRENCIES,
+    formatFiat
+  };
+}
+
+export interface UseFiatValuationOptions extends UseFiatCurrencyOptions {
+  /** Assets to price, e.g. the ones with a balance */
+  assets: readonly PricedAsset[];
+  /** Defaults to the shared HTTP provider; ids should be unique per provider */
+  provider?: PriceProvider;
+}
+
+/**
+ * Current prices of the given assets in the selected fiat currency, to value balances
+ */
+export function useFiatValuation({ assets, provider = getSharedPriceProvider(), store }: UseFiatValuationOptions) {
+  const fiat = useFiatCurrency({ store });
+  const { currency } = fiat;
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['fiatPrices', provider.id, currency, assets.map(getPriceKey)],
+    queryFn: () => provider.getPrices(assets, currency),
+    enabled: assets.length > 0,
+    staleTime: 60000
+  });
+
+  const getPrice = useCallback((asset: PricedAsset) => data?.[getPriceKey(asset)], [data]);
+
+  const getValue = useCallback((asset: PricedAsset, value: bigint, decimals: number) => {
+    const price = getPrice(asset);
+    return price === undefined ? undefined : getFiatValue(value, decimals, price);
+  }, [getPrice]);
+
+  return {
+    ...fiat,
+    prices: data ?? {},
+    getPrice,
+    getValue,
+    isLoading,
+    error: error ? normalizeWalletError(error) : null,
+    refetch
+  };
+}
@@ -0,0 +1,173 @@
+import { useCallback } from 'react';
+import type { Hash } from 'viem';
+import { useAccount, useChainId, usePublicClient } from 'wagmi';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type {
+  GovernanceAccount,
+  GovernanceAction,
+  GovernanceError,
+  Proposal
+} from '../types/governance';
+import {
+  createPendingGovernanceTransaction,
+  fetchExecutedProposals,
+  fetchProposals,
+  getGovernanceContracts,
+  prepareGovernanceAction,
+  readGovernanceAccount,
+  type GovernanceCall
+} from '../services/governance';
+import type { CoreContractLookup } from '../services/coreContracts';
+import {
+  getSharedTransactionHistoryCache,
+  type TransactionHistoryCache
+} from '../services/transactionCache';
+import { normalizeWalletError } from '../services/walletErrors';
+import { useTransactionSequence, type TransactionSequenceErrors } from './useTransactionSequence';
+
+const GOVERNANCE_ERRORS: TransactionSequenceErrors<GovernanceError> = {
+  prepare: { message: 'Failed to prepare the vote', code: 'SEND_FAILED' },
+  send: { message: 'Failed to send the vote', code: 'SEND_FAILED' },
+  receipt: { message: 'Could not confirm the vote', code: 'RECEIPT_ERROR' }
+};
+
+export interface UseGovernanceOptions {
+  /** Chain to govern on; the connected chain by default */
+  chainId?: number;
+  /** Core contract addresses; defaults to the shared registry lookup */
+  lookup?: CoreContractLookup;
+  /** History cache votes are added to while pending; defaults to the shared one */
+  cache?: TransactionHistoryCache;
+  /** Confirmations to wait for before a vote counts as confirmed */
+  confirmations?: number;
+  /** First block to read executed proposals from; they are not listed without it */
+  executedFromBlock?: bigint;
+  /** Most recent executed proposals to list */
+  executedLimit?: number;
+}
+
+export function useGovernance({
+  chainId: requestedChainId,
+  lookup,
+  cache,
+  confirmations = 1,
+  executedFromBlock,
+  executedLimit
+}: UseGovernanceOptions = {}) {
+  const { address, isConnected } = useAccount();
+  const connectedChainId = useChainId();
+  const chainId = requestedChainId ?? connectedChainId;
+  const client = usePublicClient({ chainId });
+  const queryClient = useQueryClient();
+  const historyCache = cache ?? getSharedTransactionHistoryCache();
+
+  const proposalsQuery = useQuery({
+    queryKey: ['governanceProposals', chainId],
+    queryFn: (): Promise<Proposal[]> => {
+      if (!client) {
+        throw new Error(`No client available for chain ${chainId}`);
+      }
+      return fetchProposals(client, chainId, { lookup });
+    },
+    enabled: !!client
+  });
+  const proposals = proposalsQuery.data;
+
+  // Reads event logs, so kept apart: live proposals show even when logs are unavailable
+  const executedQuery = useQuery({
+    queryKey: ['governanceExecuted', chainId, executedFromBlock?.toString(), executedLimit],
+    queryFn: (): Promise<Proposal[]> => {
+      if (!client || executedFromBlock === undefined) {
+        throw new Error(`No client available for chain ${chainId}`);
+      }
+      return fetchExecutedProposals(client, chainId, { lookup, fromBlock: executedFromBlock, limit: executedLimit });
+    },
+    enabled: !!client && executedFromBlock !== undefined,
+    retry: false
+  });
+  const executed = executedQuery.data;
+
+  // Vote records are kept per dequeue slot, so they are read against the listed proposals
+  const accountQuery = useQuery({
+    queryKey: ['governanceAccount', chainId, address, proposalsQuery.dataUpdatedAt],
+    queryFn: async (): Promise<GovernanceAccount> => {
+      if (!client || !address || !proposals) {
+        throw new Error(`No client available for chain ${chainId}`);
+      }
+      const contracts = await getGovernanceContracts(client, chainId, lookup);
+      return readGovernanceAccount(client, contracts, address, proposals);
+    },
+    enabled: isConnected && !!address && !!client && !!proposals
+  });
+  const account = accountQuery.data;
+
+  const recordPending = useCallback((call: GovernanceCall, hash: Hash): Promise<unknown> => {
+    if (!address) {
+      return Promise.resolve();
+    }
+    return historyCache.addPending(address, createPendingGovernanceTransaction(address, call, hash, chainId));
+  }, [address, chainId, historyCache]);
+
+  // Replaces the pending history entries once mined
+  const afterSent = useCallback(async (): Promise<void> => {
+    if (!address) {
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: ['governanceProposals', chainId] }).catch(() => undefined);
+    await historyCache.sync(address, chainId);
+  }, [address, chainId, queryClient, historyCache]);
+
+  const sequence = useTransactionSequence<GovernanceAction, GovernanceError>({
+    chainId,
+    confirmations,
+    errors: GOVERNANCE_ERRORS,
+    recordPending,
+    afterSent
+  });
+  const { run, setError } = sequence;
+
+  /**
+   * Check the action and send its transactions one after another, each once
+   * the previous one is mined. Each shows in the transaction history as
+   * pending until it is.
+   */
+  const execute = useCallback(async (action: GovernanceAction): Promise<Hash[] | null> => {
+    if (!address || !client || !proposals || !account) {
+      setError({ message: 'Connect a wallet to take part in governance', code: 'NOT_CONNECTED' });
+      return null;
+    }
+    return run(client, action, async () => {
+      const contracts = await getGovernanceContracts(client, chainId, lookup);
+      return prepareGovernanceAction(contracts, proposals, account, action);
+    });
+  }, [address, client, proposals, account, chainId, lookup, run, setError]);
+
+  return {
+    // Data
+    address,
+    chainId,
+    isConnected,
+    /** Live proposals, followed by the executed ones when `executedFromBlock` is set */
+    proposals: [...proposals ?? [], ...executed ?? []],
+    account,
+    isLoading: proposalsQuery.isLoading,
+    isLoadingExecuted: executedQuery.isLoading,
+    isLoadingAccount: accountQuery.isLoading,
+    status: sequence.state.status,
+    action: sequence.state.action,
+    hashes: sequence.state.hashes,
+
+    // Actions
+    execute,
+    reset: sequence.reset,
+    refetch: proposalsQuery.refetch,
+
+    // Error handling
+    error: sequence.error,
+    /** Set when the history could not be updated after the vote was sent */
+    historyError: sequence.historyError,
+    proposalsError: proposalsQuery.error ? normalizeWalletError(proposalsQuery.error) : null,
+    executedError: executedQuery.error ? normalizeWalletError(executedQuery.error) : null,
+    accountError: accountQuery.error ? normalizeWalletError(accountQuery.error) : null
+  };
+}
@@ -0,0 +1,49 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { CeloTransaction } from '../types/transaction';
+import type { PriceProvider } from '../types/price';
+import { getHistoricalPrices, getSharedPriceProvider } from '../services/prices';
+import { normalizeWalletError } from '../services/walletErrors';
+import { getTransactionKey } from '../utils/transactionHelpers';
+import { getFiatValue } from '../utils/tokenAmounts';
+import { useFiatCurrency, type UseFiatCurrencyOptions } from './useFiatValuation';
+
+export interface UseHistoricalPricesOptions extends UseFiatCurrencyOptions {
+  provider?: PriceProvider;
+}
+
+/**
+ * Price of each transaction's asset at the time it happened, in the selected fiat currency
+ */
+export function useHistoricalPrices(
+  transactions: readonly CeloTransaction[],
+  { provider = getSharedPriceProvider(), store }: UseHistoricalPricesOptions = {}
+) {
+  const fiat = useFiatCurrency({ store });
+  const { currency } = fiat;
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['historicalPrices', provider.id, currency, transactions.map(getTransactionKey)],
+    queryFn: () => getHistoricalPrices(provider, transactions, currency),
+    enabled: transactions.length > 0,
+    // Past prices do not change
+    staleTime: Number.POSITIVE_INFINITY
+  });
+
+  const getPrice = useCallback((tx: CeloTransaction) => data?.[getTransactionKey(tx)], [data]);
+
+  /** Fiat value of the amount moved, at the time of the transaction */
+  const getValue = useCallback((tx: CeloTransaction) => {
+    const price = getPrice(tx);
+    return price === undefined ? undefined : getFiatValue(BigInt(tx.value), tx.tokenDecimals ?? 18, price);
+  }, [getPrice]);
+
+  return {
+    ...fiat,
+    prices: data ?? {},
+    getPrice,
+    getValue,
+    isLoading,
+    error: error ? normalizeWalletError(error) : null
+  };
+}
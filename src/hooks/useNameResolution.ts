@@ -0,0 +1,65 @@
+import { useChainId } from 'wagmi';
+import { useQuery } from '@tanstack/react-query';
+import { getSharedNameService, parseNameQuery, type NameService } from '../services/nameResolution';
+import { normalizeWalletError } from '../services/walletErrors';
+
+export interface UseNameResolutionOptions {
+  /** Chain names resolve on; the connected chain by default */
+  chainId?: number;
+  /** Resolvers and their cache; defaults to the shared service */
+  service?: NameService;
+}
+
+// Names rarely change; the service keeps its own cache too
+const STALE_TIME = 10 * 60 * 1000;
+
+/**
+ * Address of a name typed by the user, e.g. a recipient. Nothing is looked up
+ * while the input is an address or not a name.
+ */
+export function useNameResolution(
+  input: string,
+  { chainId: requestedChainId, service = getSharedNameService() }: UseNameResolutionOptions = {}
+) {
+  const connectedChainId = useChainId();
+  const chainId = requestedChainId ?? connectedChainId;
+  const query = parseNameQuery(input);
+
+  const { data, isFetching, error } = useQuery({
+    queryKey: ['resolveName', chainId, query?.kind, query?.value],
+    queryFn: () => service.resolve(input, chainId),
+    enabled: !!query,
+    staleTime: STALE_TIME,
+    retry: false
+  });
+
+  return {
+    isName: !!query,
+    resolved: query ? data : undefined,
+    isResolving: !!query && isFetching,
+    error: query && error ? normalizeWalletError(error) : null
+  };
+}
+
+/**
+ * Name to show for an address, from reverse records; `undefined` while
+ * unknown or when it has none
+ */
+export function useAddressName(
+  address: string,
+  { chainId: requestedChainId, service = getSharedNameService() }: UseNameResolutionOptions = {}
+) {
+  const connectedChainId = useChainId();
+  const chainId = requestedChainId ?? connectedChainId;
+
+  const { data } = useQuery({
+    queryKey: ['addressName', chainId, address.toLowerCase()],
+    // Query results cannot be `undefined`
+    queryFn: async () => (await service.lookupName(address, chainId)) ?? null,
+    enabled: !!address,
+    staleTime: STALE_TIME,
+    retry: false
+  });
+
+  return data ?? undefined;
+}
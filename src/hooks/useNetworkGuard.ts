@@ -0,0 +1,110 @@
+import { useCallback, useMemo, useState } from 'react';
+import type { Chain } from 'viem';
+import { useAccount, useSwitchChain, useWalletClient } from 'wagmi';
+import { CELO_CHAINS, DEFAULT_CHAIN, getCeloChain } from '../config/celoChains';
+import type { WalletError } from '../types/walletError';
+import { addChainToWallet, getSharedKnownChainsStore, type KnownChainsStore } from '../services/walletNetwork';
+import { getWalletErrorMessage, normalizeWalletError } from '../services/walletErrors';
+
+export interface UseNetworkGuardOptions {
+  /** Chains actions may run on, the first being the one to switch to; defaults to the registry */
+  chainIds?: readonly number[];
+  /** Where chains found in or missing from the wallet are recorded */
+  knownChains?: KnownChainsStore;
+}
+
+export type NetworkGuardStatus = 'disconnected' | 'ready' | 'wrong-chain' | 'switching' | 'adding';
+
+/**
+ * Whether the connected wallet is on a chain actions may run on, and the
+ * means to get it there: switching, or adding the chain to wallets that lack it
+ */
+export function useNetworkGuard({
+  chainIds,
+  knownChains = getSharedKnownChainsStore()
+}: UseNetworkGuardOptions = {}) {
+  const { isConnected, chainId, connector } = useAccount();
+  const { data: walletClient } = useWalletClient();
+  const { switchChainAsync, isPending: isSwitching } = useSwitchChain();
+  const [error, setError] = useState<WalletError<string> | null>(null);
+  const [needsAdd, setNeedsAdd] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const allowedChains = useMemo(
+    () => (chainIds ? CELO_CHAINS.filter((chain) => chainIds.includes(chain.id)) : [...CELO_CHAINS]),
+    [chainIds]
+  );
+  const targetChain: Chain = allowedChains[0] ?? DEFAULT_CHAIN;
+  const isCorrectChain = chainId !== undefined && allowedChains.some((chain) => chain.id === chainId);
+
+  const switchNetwork = useCallback(async (target: Chain = targetChain): Promise<boolean> => {
+    setError(null);
+    try {
+      await switchChainAsync({ chainId: target.id });
+      setNeedsAdd(false);
+      if (connector) {
+        knownChains.setKnown(connector.id, target.id, true);
+      }
+      return true;
+    } catch (err) {
+      const walletError = normalizeWalletError(err);
+      // The wallet does not know the chain (4902): it has to be added first
+      const unknownChain = walletError.code === 'UNSUPPORTED_CHAIN';
+      setNeedsAdd(unknownChain);
+      if (connector && unknownChain) {
+        knownChains.setKnown(connector.id, target.id, false);
+      }
+      setError(walletError);
+      return false;
+    }
+  }, [connector, knownChains, switchChainAsync, targetChain]);
+
+  const addNetwork = useCallback(async (target: Chain = targetChain): Promise<boolean> => {
+    if (!walletClient) {
+      setError({ message: getWalletErrorMessage('NOT_CONNECTED'), code: 'NOT_CONNECTED' });
+      return false;
+    }
+    setIsAdding(true);
+    setError(null);
+    try {
+      await addChainToWallet(walletClient, target);
+      setNeedsAdd(false);
+      if (connector) {
+        knownChains.setKnown(connector.id, target.id, true);
+      }
+    } catch (err) {
+      setError(normalizeWalletError(err));
+      return false;
+    } finally {
+      setIsAdding(false);
+    }
+    // Not every wallet switches to a chain it just added
+    return switchNetwork(target);
+  }, [connector, knownChains, switchNetwork, targetChain, walletClient]);
+
+  let status: NetworkGuardStatus;
+  if (!isConnected) {
+    status = 'disconnected';
+  } else if (isAdding) {
+    status = 'adding';
+  } else if (isSwitching) {
+    status = 'switching';
+  } else {
+    status = isCorrectChain ? 'ready' : 'wrong-chain';
+  }
+
+  return {
+    status,
+    /** Actions must wait: a wallet is connected, but not to an allowed chain */
+    isBlocked: isConnected && !isCorrectChain,
+    currentChainId: chainId,
+    currentChain: chainId === undefined ? undefined : getCeloChain(chainId),
+    targetChain,
+    allowedChains,
+    /** The wallet lacks the target chain, as a switch showed; offer addNetwork */
+    needsAdd: !isCorrectChain && (needsAdd || (!!connector && knownChains.isKnown(connector.id, targetChain.id) === false)),
+    error: isCorrectChain ? null : error,
+    switchNetwork,
+    addNetwork
+  };
+}
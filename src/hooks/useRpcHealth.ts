@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useChainId } from 'wagmi';
+import type { RpcChainHealth } from '../types/rpc';
+import { getSharedRpcHealthTracker, type RpcHealthTracker } from '../services/rpcHealth';
+import { probeRpcEndpoints } from '../services/rpcTransport';
+
+export interface UseRpcHealthOptions {
+  /** Chain to watch; the connected chain by default */
+  chainId?: number;
+  /** Tracker the transports report to; defaults to the shared one */
+  health?: RpcHealthTracker;
+  /** Ping every endpoint this often, in milliseconds; 0 only watches live traffic */
+  probeInterval?: number;
+}
+
+/**
+ * Live status of a chain's RPC endpoints: which one serves requests, latencies
+ * and which ones are down or rate limited
+ */
+export function useRpcHealth({
+  chainId: requestedChainId,
+  health = getSharedRpcHealthTracker(),
+  probeInterval = 0
+}: UseRpcHealthOptions = {}) {
+  const connectedChainId = useChainId();
+  const chainId = requestedChainId ?? connectedChainId;
+  const [latest, setLatest] = useState<RpcChainHealth>(() => health.getSnapshot(chainId));
+
+  useEffect(() => {
+    return health.subscribe((changedChainId) => {
+      if (changedChainId === chainId) {
+        setLatest(health.getSnapshot(chainId));
+      }
+    });
+  }, [health, chainId]);
+
+  // Right after a chain switch `latest` still describes the previous chain
+  const snapshot = latest.chainId === chainId ? latest : health.getSnapshot(chainId);
+
+  const probe = useCallback(() => probeRpcEndpoints(chainId, { health }), [chainId, health]);
+
+  useEffect(() => {
+    if (probeInterval <= 0) {
+      return;
+    }
+    // Failed pings are recorded by the tracker; `status` turns `down` when no endpoint answers
+    void probe();
+    const timer = setInterval(() => void probe(), probeInterval);
+    return () => clearInterval(timer);
+  }, [probe, probeInterval]);
+
+  return {
+    ...snapshot,
+    activeEndpoint: snapshot.endpoints[0],
+    probe
+  };
+}
@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useState } from 'react';
+import { erc20Abi, type Address, type Hash } from 'viem';
+import {
+  useAccount,
+  useChainId,
+  usePublicClient,
+  useSendTransaction,
+  useWaitForTransactionReceipt,
+  useWriteContract
+} from 'wagmi';
+import type { FeeCurrency, TokenInfo } from '../types/token';
+import type { TransferDraft, TransferError, TransferState, TransferStatus } from '../types/transfer';
+import type { WalletError } from '../types/walletError';
+import {
+  getSharedTransactionHistoryCache,
+  type TransactionHistoryCache
+} from '../services/transactionCache';
+import { createPendingTransfer, prepareTransfer } from '../services/transfers';
+import { normalizeWalletError, toWalletError } from '../services/walletErrors';
+import { getSharedNameService, parseNameQuery, type NameService } from '../services/nameResolution';
+
+export interface UseSendTransferOptions {
+  /** History cache the submitted transfer is added to; defaults to the shared one */
+  cache?: TransactionHistoryCache;
+  /** Confirmations to wait for before a transfer counts as confirmed */
+  confirmations?: number;
+  /** Resolves recipients entered as names or SocialConnect identifiers; defaults to the shared service */
+  names?: NameService;
+}
+
+export interface TransferRequest {
+  recipient: string;
+  amount: string;
+  /** ERC-20 token to send; native CELO when omitted */
+  token?: TokenInfo;
+  /** Currency to pay the fee in (CIP-64); CELO when omitted */
+  feeCurrency?: FeeCurrency;
+}
+
+export function useSendTransfer({ cache, confirmations = 1, names }: UseSendTransferOptions = {}) {
+  const { address, isConnected } = useAccount();
+  const chainId = useChainId();
+  const client = usePublicClient({ chainId });
+  const { sendTransactionAsync } = useSendTransaction();
+  const { writeContractAsync } = useWriteContract();
+  const historyCache = cache ?? getSharedTransactionHistoryCache();
+
+  const [state, setState] = useState<TransferState>({ status: 'idle' });
+  const [error, setError] = useState<TransferError | null>(null);
+  const [historyError, setHistoryError] = useState<WalletError<string> | null>(null);
+
+  const { data: receipt, error: receiptError } = useWaitForTransactionReceipt({
+    hash: state.hash,
+    chainId: state.draft?.chainId,
+    confirmations,
+    query: { enabled: !!state.hash }
+  });
+
+  // Once mined, sync so the optimistic history entry is replaced by the real one
+  useEffect(() => {
+    if (!receipt || !state.draft) {
+      return;
+    }
+    historyCache.sync(state.draft.from, state.draft.chainId).catch((err) => {
+      setHistoryError(normalizeWalletError(err));
+    });
+  }, [receipt, state.draft, historyCache]);
+
+  let status: TransferStatus = state.status;
+  if (state.status === 'pending' && receipt) {
+    status = receipt.status === 'success' ? 'confirmed' : 'failed';
+  }
+
+  /**
+   * Validate the transfer and estimate its fee, moving to the review step
+   */
+  const review = useCallback(async (request: TransferRequest): Promise<TransferDraft | null> => {
+    if (!address || !client) {
+      setError({ message: 'Connect a wallet to send funds', code: 'NOT_CONNECTED' });
+      return null;
+    }
+
+    setState({ status: 'estimating' });
+    setError(null);
+
+    let recipient = request.recipient;
+    let recipientName: string | undefined;
+    if (parseNameQuery(recipient)) {
+      try {
+        const resolved = await (names ?? getSharedNameService()).resolve(recipient, chainId);
+        recipient = resolved.address;
+        recipientName = resolved.name;
+      } catch (err) {
+        setError({ message: normalizeWalletError(err).message, code: 'INVALID_RECIPIENT', field: 'recipient', details: err });
+        setState({ status: 'idle' });
+        return null;
+      }
+    }
+
+    try {
+      const draft = await prepareTransfer(client, { ...request, recipient, chainId, from: address });
+      const named = recipientName ? { ...draft, recipientName } : draft;
+      setState({ status: 'review', draft: named });
+      return named;
+    } catch (err) {
+      setError(toWalletError<TransferError>(err, { message: 'Failed to prepare the transfer', code: 'ESTIMATION_FAILED' }));
+      setState({ status: 'idle' });
+      return null;
+    }
+  }, [address, client, chainId, names]);
+
+  /**
+   * Send the reviewed transfer through the connected wallet
+   */
+  const confirm = useCallback(async (): Promise<Hash | null> => {
+    const { draft } = state;
+    if (state.status !== 'review' || !draft) {
+      return null;
+    }
+
+    setState({ status: 'submitting', draft });
+    setError(null);
+    setHistoryError(null);
+    try {
+      // Turns the request into a CIP-64 transaction through the Celo chain formatters
+      const feeCurrencyField: { feeCurrency?: Address } = draft.feeCurrency ? { feeCurrency: draft.feeCurrency.address } : {};
+      const hash = draft.token
+        ? await writeContractAsync({
+          address: draft.token.address,
+          abi: erc20Abi,
+          functionName: 'transfer',
+          args: [draft.to, draft.value],
+          chainId: draft.chainId,
+          gas: draft.gas,
+          ...feeCurrencyField
+        })
+        : await sendTransactionAsync({
+          to: draft.to,
+          value: draft.value,
+          chainId: draft.chainId,
+          gas: draft.gas,
+          ...feeCurrencyField
+        });
+
+      setState({ status: 'pending', draft, hash });
+      historyCache.addPending(draft.from, createPendingTransfer(draft, hash)).catch((err) => {
+        setHistoryError(normalizeWalletError(err));
+      });
+      return hash;
+    } catch (err) {
+      setError(toWalletError<TransferError>(err, { message: 'Failed to send the transfer', code: 'SEND_FAILED' }));
+      setState({ status: 'review', draft });
+      return null;
+    }
+  }, [state, writeContractAsync, sendTransactionAsync, historyCache]);
+
+  /** Leave the review step to edit the transfer */
+  const cancel = useCallback(() => {
+    setState({ status: 'idle' });
+  }, []);
+
+  const reset = useCallback(() => {
+    setState({ status: 'idle' });
+    setError(null);
+    setHistoryError(null);
+  }, []);
+
+  return {
+    // Data
+    address,
+    chainId,
+    isConnected,
+    status,
+    draft: state.draft,
+    hash: state.hash,
+    receipt,
+
+    // Actions
+    review,
+    confirm,
+    cancel,
+    reset,
+
+    // Error handling
+    error: error ?? (receiptError
+      ? toWalletError<TransferError>(receiptError, { message: 'Could not confirm the transfer', code: 'RECEIPT_ERROR' })
+      : null),
+    /** Set when the history could not take the transfer; the transfer itself went through */
+    historyError
+  };
+}
@@ -0,0 +1,69 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useAccount, useChainId, usePublicClient } from 'wagmi';
+import type { SignatureError, SignatureVerification, SignedPayload } from '../types/signature';
+import {
+  addToSignatureHistory,
+  createDefaultSignatureStore,
+  verifySignature,
+  type SignatureHistoryStore
+} from '../services/signatures';
+
+export interface UseSignatureHistoryOptions {
+  /** Where signed payloads are persisted; defaults to localStorage */
+  store?: SignatureHistoryStore;
+}
+
+let defaultStore: SignatureHistoryStore | null = null;
+
+function getDefaultStore(): SignatureHistoryStore {
+  defaultStore ??= createDefaultSignatureStore();
+  return defaultStore;
+}
+
+/**
+ * Payloads signed by the connected account, newest first
+ */
+export function useSignatureHistory({ store }: UseSignatureHistoryOptions = {}) {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const client = usePublicClient({ chainId });
+  const historyStore = store ?? getDefaultStore();
+  // Lists changed in this session, by lowercase address; the store is read otherwise
+  const [editedLists, setEditedLists] = useState<Record<string, SignedPayload[]>>({});
+
+  const entries = useMemo(
+    () => address ? editedLists[address.toLowerCase()] ?? historyStore.load(address) : [],
+    [address, editedLists, historyStore]
+  );
+
+  const update = useCallback((next: SignedPayload[]) => {
+    if (!address) {
+      return;
+    }
+    historyStore.save(address, next);
+    setEditedLists((lists) => ({ ...lists, [address.toLowerCase()]: next }));
+  }, [address, historyStore]);
+
+  const add = useCallback((entry: SignedPayload) => {
+    update(addToSignatureHistory(entries, entry));
+  }, [entries, update]);
+
+  /**
+   * Check a signed payload again, e.g. after a contract wallet was deployed
+   */
+  const verify = useCallback(async (entry: SignedPayload): Promise<SignatureVerification> => {
+    if (!client) {
+      const error: SignatureError = { message: 'No client available to verify with', code: 'NO_CLIENT' };
+      throw error;
+    }
+    const verification = await verifySignature(client, entry);
+    update(entries.map((existing) =>
+      existing.signature === entry.signature ? { ...existing, verification } : existing
+    ));
+    return verification;
+  }, [client, entries, update]);
+
+  const clear = useCallback(() => update([]), [update]);
+
+  return { address, entries, add, verify, clear };
+}
@@ -0,0 +1,86 @@
+import { useCallback, useState } from 'react';
+import type { Address, Hex } from 'viem';
+import { useAccount, useChainId, usePublicClient, useSignMessage, useSignTypedData } from 'wagmi';
+import type { SignatureError, SignatureKind, SignedPayload } from '../types/signature';
+import {
+  parseTypedData,
+  stringifyTypedData,
+  verifySignature
+} from '../services/signatures';
+import { toWalletError } from '../services/walletErrors';
+
+interface SignedData {
+  payload: string;
+  signature: Hex;
+}
+
+// Shared flow of both signing hooks: sign with the wallet, then verify the result
+function useSigner<T>(kind: SignatureKind, signWithWallet: (input: T, address: Address) => Promise<SignedData>) {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const client = usePublicClient({ chainId });
+  const [isSigning, setIsSigning] = useState(false);
+  const [error, setError] = useState<SignatureError | null>(null);
+
+  const sign = useCallback(async (input: T): Promise<SignedPayload | null> => {
+    if (!address) {
+      setError({ message: 'Connect a wallet to sign', code: 'NOT_CONNECTED' });
+      return null;
+    }
+
+    setIsSigning(true);
+    setError(null);
+    try {
+      const { payload, signature } = await signWithWallet(input, address);
+      const entry: SignedPayload = { kind, address, chainId, payload, signature, signedAt: Date.now() };
+      if (client) {
+        // A failed check leaves the entry unverified; it can be verified again later
+        entry.verification = await verifySignature(client, entry).catch(() => undefined);
+      }
+      return entry;
+    } catch (err) {
+      setError(toWalletError<SignatureError>(err, { message: 'Failed to sign', code: 'SIGN_FAILED' }));
+      return null;
+    } finally {
+      setIsSigning(false);
+    }
+  }, [address, chainId, client, kind, signWithWallet]);
+
+  const reset = useCallback(() => setError(null), []);
+
+  return { sign, isSigning, error, reset };
+}
+
+/**
+ * Sign a plain-text message with personal_sign
+ */
+export function usePersonalSign() {
+  const { signMessageAsync } = useSignMessage();
+
+  const signWithWallet = useCallback(async (message: string, account: Address): Promise<SignedData> => {
+    if (!message) {
+      const error: SignatureError = { message: 'Enter a message to sign', code: 'EMPTY_MESSAGE' };
+      throw error;
+    }
+    return { payload: message, signature: await signMessageAsync({ message, account }) };
+  }, [signMessageAsync]);
+
+  return useSigner('message', signWithWallet);
+}
+
+/**
+ * Sign EIP-712 typed data, given as JSON, with eth_signTypedData_v4
+ */
+export function useTypedDataSign() {
+  const { signTypedDataAsync } = useSignTypedData();
+
+  const signWithWallet = useCallback(async (json: string, account: Address): Promise<SignedData> => {
+    const typedData = parseTypedData(json);
+    return {
+      payload: stringifyTypedData(typedData),
+      signature: await signTypedDataAsync({ ...typedData, account })
+    };
+  }, [signTypedDataAsync]);
+
+  return useSigner('typedData', signWithWallet);
+}
@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useState } from 'react';
+import { isAddressEqual } from 'viem';
+import { useAccount, useSignMessage } from 'wagmi';
+import { useCeloNetwork } from './useCeloNetwork';
+import type { SignatureError } from '../types/signature';
+import type { SiweSession, SiweSessionState, SiweSignOutReason } from '../types/siwe';
+import {
+  buildSiweMessage,
+  getSharedSiweSessionStore,
+  type SiweAdapter,
+  type SiweSessionStore
+} from '../services/siwe';
+import { toWalletError } from '../services/walletErrors';
+
+export interface UseSiweOptions {
+  /** Backend issuing nonces and verifying sign-ins; required to sign in */
+  adapter?: SiweAdapter;
+  /** Assertion shown in the wallet */
+  statement?: string;
+  /** Session lifetime in milliseconds; sessions do not expire when 0 */
+  expiresIn?: number;
+  /** Host and URI put in the message; default to the page's */
+  domain?: string;
+  uri?: string;
+  /** Shared session state; defaults to the app-wide one */
+  store?: SiweSessionStore;
+}
+
+const DEFAULT_EXPIRES_IN = 24 * 60 * 60 * 1000;
+
+// Longer timer delays overflow and fire at once (about 24.8 days)
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Sign-In With Ethereum for the connected account on the current Celo chain.
+ * The session ends by itself when it expires or when the account or chain changes.
+ */
+export function useSiwe({
+  adapter,
+  statement,
+  expiresIn = DEFAULT_EXPIRES_IN,
+  domain,
+  uri,
+  store = getSharedSiweSessionStore()
+}: UseSiweOptions = {}) {
+  const { address, status: accountStatus } = useAccount();
+  const { currentChainId, isSupportedChain } = useCeloNetwork();
+  const { signMessageAsync } = useSignMessage();
+  const [state, setState] = useState<SiweSessionState>(() => store.getState());
+  const [error, setError] = useState<SignatureError | null>(null);
+
+  useEffect(() => store.subscribe(setState), [store]);
+
+  const endSession = useCallback((reason: SiweSignOutReason) => {
+    const { session } = store.getState();
+    store.setState({ status: 'signed-out', session: null, signOutReason: reason });
+    if (session && adapter?.signOut) {
+      adapter.signOut(session).catch((err) => {
+        setError(toWalletError<SignatureError>(err, { message: 'Failed to end the session', code: 'SIWE_SIGN_OUT_FAILED' }));
+      });
+    }
+  }, [adapter, store]);
+
+  const { session } = state;
+
+  // Sessions are bound to the account and chain they were signed for
+  useEffect(() => {
+    if (!session) {
+      return;
+    }
+    if (accountStatus === 'disconnected') {
+      endSession('disconnected');
+    } else if (address && !isAddressEqual(address, session.address)) {
+      endSession('account-changed');
+    } else if (currentChainId !== session.chainId) {
+      endSession('chain-changed');
+    }
+  }, [accountStatus, address, currentChainId, endSession, session]);
+
+  useEffect(() => {
+    if (!session?.expiresAt || state.status !== 'signed-in') {
+      return;
+    }
+    const { expiresAt } = session;
+    let timer: ReturnType<typeof setTimeout>;
+    const schedule = (): void => {
+      const remaining = expiresAt - Date.now();
+      if (remaining > MAX_TIMER_DELAY) {
+        timer = setTimeout(schedule, MAX_TIMER_DELAY);
+        return;
+      }
+      timer = setTimeout(() => {
+        if (store.getState().session === session) {
+          store.setState({ status: 'expired', session });
+        }
+      }, Math.max(0, remaining));
+    };
+    schedule();
+    return () => clearTimeout(timer);
+  }, [session, state.status, store]);
+
+  const signIn = useCallback(async (): Promise<SiweSession | null> => {
+    if (!adapter) {
+      setError({ message: 'Sign-in is not configured', code: 'SIWE_NOT_CONFIGURED' });
+      return null;
+    }
+    if (!address) {
+      setError({ message: 'Connect a wallet to sign in', code: 'NOT_CONNECTED' });
+      return null;
+    }
+    if (!isSupportedChain) {
+      setError({ message: 'Switch to a Celo network to sign in', code: 'UNSUPPORTED_CHAIN' });
+      return null;
+    }
+
+    setError(null);
+    store.setState({ status: 'signing-in', session: null });
+    try {
+      const nonce = await adapter.getNonce(address, currentChainId);
+      const issuedAt = Date.now();
+      const expiresAt = expiresIn > 0 ? issuedAt + expiresIn : undefined;
+      const message = buildSiweMessage({
+        address,
+        chainId: currentChainId,
+        nonce,
+        statement,
+        domain,
+        uri,
+        issuedAt,
+        expiresAt
+      });
+      const signature = await signMessageAsync({ message, account: address });
+
+      if (!(await adapter.verify({ message, signature }))) {
+        const rejected: SignatureError = { message: 'The sign-in was not accepted', code: 'SIWE_REJECTED' };
+        throw rejected;
+      }
+
+      const signedIn: SiweSession = {
+        address,
+        chainId: currentChainId,
+        message,
+        signature,
+        nonce,
+        issuedAt,
+        expiresAt
+      };
+      store.setState({ status: 'signed-in', session: signedIn });
+      return signedIn;
+    } catch (err) {
+      store.setState({ status: 'signed-out', session: null });
+      setError(toWalletError<SignatureError>(err, { message: 'Failed to sign in', code: 'SIWE_FAILED' }));
+      return null;
+    }
+  }, [adapter, address, currentChainId, domain, expiresIn, isSupportedChain, signMessageAsync, statement, store, uri]);
+
+  const signOut = useCallback(() => endSession('user'), [endSession]);
+
+  return {
+    ...state,
+    isSignedIn: state.status === 'signed-in',
+    error,
+    signIn,
+    signOut
+  };
+}
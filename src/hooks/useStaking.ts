@@ -0,0 +1,144 @@
+import { useCallback } from 'react';
+import type { Hash } from 'viem';
+import { useAccount, useChainId, usePublicClient } from 'wagmi';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type {
+  GroupRewards,
+  StakingAction,
+  StakingError,
+  StakingSummary
+} from '../types/staking';
+import {
+  getStakingContracts,
+  prepareStakingAction,
+  readGroupRewards,
+  readStakingSummary
+} from '../services/staking';
+import type { CoreContractLookup } from '../services/coreContracts';
+import {
+  getSharedTransactionHistoryCache,
+  type TransactionHistoryCache
+} from '../services/transactionCache';
+import { normalizeWalletError } from '../services/walletErrors';
+import { useTransactionSequence, type TransactionSequenceErrors } from './useTransactionSequence';
+
+const STAKING_ERRORS: TransactionSequenceErrors<StakingError> = {
+  prepare: { message: 'Failed to prepare the transaction', code: 'SEND_FAILED' },
+  send: { message: 'Failed to send the transaction', code: 'SEND_FAILED' },
+  receipt: { message: 'Could not confirm the transaction', code: 'RECEIPT_ERROR' }
+};
+
+export interface UseStakingOptions {
+  /** Chain to stake on; the connected chain by default */
+  chainId?: number;
+  /** Core contract addresses; defaults to the shared registry lookup */
+  lookup?: CoreContractLookup;
+  /** History cache synced after each action; defaults to the shared one */
+  cache?: TransactionHistoryCache;
+  /** Confirmations to wait for before a transaction counts as confirmed */
+  confirmations?: number;
+  /**
+   * First block to read vote activations from when working out rewards, at or
+   * before the account's first vote; rewards are not read without it
+   */
+  rewardsFromBlock?: bigint;
+}
+
+export function useStaking({
+  chainId: requestedChainId,
+  lookup,
+  cache,
+  confirmations = 1,
+  rewardsFromBlock
+}: UseStakingOptions = {}) {
+  const { address, isConnected } = useAccount();
+  const connectedChainId = useChainId();
+  const chainId = requestedChainId ?? connectedChainId;
+  const client = usePublicClient({ chainId });
+  const queryClient = useQueryClient();
+  const historyCache = cache ?? getSharedTransactionHistoryCache();
+
+  const summaryQuery = useQuery({
+    queryKey: ['staking', chainId, address],
+    queryFn: async (): Promise<StakingSummary> => {
+      if (!client || !address) {
+        throw new Error(`No client available for chain ${chainId}`);
+      }
+      const contracts = await getStakingContracts(client, chainId, lookup);
+      return readStakingSummary(client, contracts, address);
+    },
+    enabled: isConnected && !!address && !!client
+  });
+  const summary = summaryQuery.data;
+
+  // Reads event logs, so kept apart: the summary shows even when logs are unavailable
+  const rewardsQuery = useQuery({
+    queryKey: ['stakingRewards', chainId, address, summaryQuery.dataUpdatedAt, rewardsFromBlock?.toString()],
+    queryFn: async (): Promise<GroupRewards[]> => {
+      if (!client || !summary || rewardsFromBlock === undefined) {
+        throw new Error(`No client available for chain ${chainId}`);
+      }
+      const contracts = await getStakingContracts(client, chainId, lookup);
+      return readGroupRewards(client, contracts, summary, { fromBlock: rewardsFromBlock });
+    },
+    enabled: !!client && !!summary && summary.votes.length > 0 && rewardsFromBlock !== undefined,
+    retry: false
+  });
+
+  const afterSent = useCallback(async (): Promise<void> => {
+    if (!address) {
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: ['staking', chainId, address] }).catch(() => undefined);
+    await historyCache.sync(address, chainId);
+  }, [address, chainId, queryClient, historyCache]);
+
+  const sequence = useTransactionSequence<StakingAction, StakingError>({
+    chainId,
+    confirmations,
+    errors: STAKING_ERRORS,
+    afterSent
+  });
+  const { run, setError } = sequence;
+
+  /**
+   * Check the action and send its transactions one after another, each once
+   * the previous one is mined
+   */
+  const execute = useCallback(async (action: StakingAction): Promise<Hash[] | null> => {
+    if (!address || !client || !summary) {
+      setError({ message: 'Connect a wallet to manage locked CELO', code: 'NOT_CONNECTED' });
+      return null;
+    }
+    return run(client, action, async () => {
+      const contracts = await getStakingContracts(client, chainId, lookup);
+      return prepareStakingAction(client, contracts, summary, action);
+    });
+  }, [address, client, summary, chainId, lookup, run, setError]);
+
+  return {
+    // Data
+    address,
+    chainId,
+    isConnected,
+    summary,
+    rewards: rewardsQuery.data,
+    isLoading: summaryQuery.isLoading,
+    isLoadingRewards: rewardsQuery.isLoading,
+    status: sequence.state.status,
+    action: sequence.state.action,
+    hashes: sequence.state.hashes,
+
+    // Actions
+    execute,
+    reset: sequence.reset,
+    refetch: summaryQuery.refetch,
+
+    // Error handling
+    error: sequence.error,
+    /** Set when the history could not be updated after the action was sent */
+    historyError: sequence.historyError,
+    summaryError: summaryQuery.error ? normalizeWalletError(summaryQuery.error) : null,
+    rewardsError: rewardsQuery.error ? normalizeWalletError(rewardsQuery.error) : null
+  };
+}
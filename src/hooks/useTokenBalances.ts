@@ -0,0 +1,152 @@
+import { useCallback, useMemo, useState } from 'react';
+import { erc20Abi, zeroAddress } from 'viem';
+import { useAccount, useChainId, usePublicClient, useReadContracts } from 'wagmi';
+import type { TokenBalance, TokenError, TokenInfo } from '../types/token';
+import { findToken, getTokenRegistry } from '../config/tokens';
+import {
+  createDefaultCustomTokenStore,
+  fetchTokenInfo,
+  type CustomTokenStore
+} from '../services/customTokens';
+import { formatTokenAmount, getFiatValue } from '../utils/tokenAmounts';
+
+export interface UseTokenBalancesOptions {
+  /** Token registry, any chain; defaults to the Celo stable assets */
+  tokens?: readonly TokenInfo[];
+  /** Where user-added tokens are persisted; defaults to localStorage */
+  store?: CustomTokenStore;
+  /** Unit price of a token in the display currency, when known */
+  getPrice?: (token: TokenInfo) => number | undefined;
+}
+
+let defaultStore: CustomTokenStore | null = null;
+
+function getDefaultStore(): CustomTokenStore {
+  defaultStore ??= createDefaultCustomTokenStore();
+  return defaultStore;
+}
+
+export function useTokenBalances({ tokens, store, getPrice }: UseTokenBalancesOptions = {}) {
+  const { address, isConnected } = useAccount();
+  const chainId = useChainId();
+  const client = usePublicClient({ chainId });
+  const customTokenStore = store ?? getDefaultStore();
+  // Custom lists changed in this session, by chain; the store is read otherwise
+  const [editedLists, setEditedLists] = useState<Record<number, TokenInfo[]>>({});
+
+  const registryTokens = useMemo(
+    () => tokens
+      ? tokens.filter((token) => token.chainId === chainId)
+      : getTokenRegistry(chainId),
+    [tokens, chainId]
+  );
+
+  const customTokens = useMemo(
+    () => editedLists[chainId] ?? customTokenStore.load(chainId),
+    [editedLists, chainId, customTokenStore]
+  );
+
+  const allTokens = useMemo(
+    () => [
+      ...registryTokens,
+      ...customTokens.filter((token) => !findToken(registryTokens, token.address))
+    ],
+    [registryTokens, customTokens]
+  );
+
+  // Batched into a single Multicall3 request by wagmi
+  const { data, isLoading, error, refetch } = useReadContracts({
+    allowFailure: true,
+    contracts: allTokens.map((token) => ({
+      address: token.address,
+      abi: erc20Abi,
+      functionName: 'balanceOf' as const,
+      args: [address ?? zeroAddress] as const,
+      chainId
+    })),
+    query: {
+      enabled: isConnected && !!address && allTokens.length > 0
+    }
+  });
+
+  const { balances, failedTokens } = useMemo(() => {
+    const loaded: TokenBalance[] = [];
+    const failed: TokenInfo[] = [];
+
+    allTokens.forEach((token, index) => {
+      const result = data?.[index];
+      if (!result) {
+        return;
+      }
+      if (result.status !== 'success') {
+        failed.push(token);
+        return;
+      }
+      const value = result.result;
+      const price = getPrice?.(token);
+      loaded.push({
+        token,
+        value,
+        formatted: formatTokenAmount(value, token.decimals),
+        fiatValue: price === undefined ? undefined : getFiatValue(value, token.decimals, price),
+        isCustom: !findToken(registryTokens, token.address)
+      });
+    });
+
+    return { balances: loaded, failedTokens: failed };
+  }, [allTokens, data, getPrice, registryTokens]);
+
+  const saveCustomTokens = useCallback((next: TokenInfo[]) => {
+    customTokenStore.save(chainId, next);
+    setEditedLists((lists) => ({ ...lists, [chainId]: next }));
+  }, [customTokenStore, chainId]);
+
+  /**
+   * Look up a token contract on the current chain and add it to the custom list
+   */
+  const addCustomToken = useCallback(async (tokenAddress: string): Promise<TokenInfo> => {
+    if (findToken(allTokens, tokenAddress)) {
+      const error: TokenError = {
+        message: 'This token is already listed',
+        code: 'DUPLICATE_TOKEN'
+      };
+      throw error;
+    }
+    if (!client) {
+      const error: TokenError = {
+        message: `No client available for chain ${chainId}`,
+        code: 'NO_CLIENT'
+      };
+      throw error;
+    }
+
+    const token = await fetchTokenInfo(client, chainId, tokenAddress);
+    saveCustomTokens([...customTokens, token]);
+    return token;
+  }, [allTokens, client, chainId, customTokens, saveCustomTokens]);
+
+  const removeCustomToken = useCallback((tokenAddress: string) => {
+    const lower = tokenAddress.toLowerCase();
+    saveCustomTokens(customTokens.filter((token) => token.address.toLowerCase() !== lower));
+  }, [customTokens, saveCustomTokens]);
+
+  return {
+    // Data
+    address,
+    chainId,
+    isConnected,
+    tokens: allTokens,
+    customTokens,
+    balances,
+    failedTokens,
+
+    // Actions
+    addCustomToken,
+    removeCustomToken,
+    refetch,
+
+    // Status
+    isLoading,
+    error: error ?? null
+  };
+}
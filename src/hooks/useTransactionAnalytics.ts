@@ -0,0 +1,122 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useTransactionHistory } from './useTransactionHistory';
+import { useFiatValuation } from './useFiatValuation';
+import { useHistoricalPrices } from './useHistoricalPrices';
+import { useEpochRewards } from './useEpochRewards';
+import type { AnalyticsPeriod } from '../types/analytics';
+import type { CeloTransaction, TransactionFilters } from '../types/transaction';
+import type { PricedAsset, PriceProvider } from '../types/price';
+import { collectTransactions } from '../services/transactionExport';
+import { normalizeWalletError } from '../services/walletErrors';
+import { nativePricedAsset } from '../services/prices';
+import type { EpochRewardsCache } from '../services/epochRewards';
+import {
+  bucketTransactions,
+  calculateCostBasis,
+  calculateTransactionSummary,
+  summarizeByCounterparty
+} from '../utils/transactionHelpers';
+
+export interface UseTransactionAnalyticsOptions {
+  /** Calendar period the history is bucketed by */
+  period?: AnalyticsPeriod;
+  /** History to analyze; all of it by default */
+  filters?: TransactionFilters;
+  /** Prices for fiat values, cost basis and P&L; defaults to the shared provider */
+  priceProvider?: PriceProvider;
+  /**
+   * Report epoch rewards in the summary and buckets, apart from transfers. Off
+   * by default: it scans event logs and reads historical state
+   */
+  includeRewards?: boolean;
+  /** First block of vote history to read rewards from; needed unless `rewardsCache` is given */
+  rewardsFromBlock?: bigint;
+  /** Epoch rewards cache; defaults to the shared one for `rewardsFromBlock` */
+  rewardsCache?: EpochRewardsCache;
+}
+
+const NO_TRANSACTIONS: CeloTransaction[] = [];
+
+/**
+ * Exact totals, counterparty flows, fees, calendar buckets and cost basis over
+ * the connected account's history, with epoch rewards reported on their own.
+ * Recomputed whenever the cached history changes.
+ */
+export function useTransactionAnalytics({
+  period = 'daily',
+  filters,
+  priceProvider,
+  includeRewards = false,
+  rewardsFromBlock,
+  rewardsCache
+}: UseTransactionAnalyticsOptions = {}) {
+  const { address, chainId, isConnected, fetchTransactions, cacheVersion } = useTransactionHistory();
+  const epochRewards = useEpochRewards({ chainId, fromBlock: rewardsFromBlock, cache: rewardsCache, enabled: includeRewards });
+  // Left out until read, so a missing report is not shown as zero rewards
+  const rewards = includeRewards && epochRewards.isEnabled && !epochRewards.isLoading && !epochRewards.error
+    ? epochRewards.rewards
+    : undefined;
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['transactionAnalytics', chainId, address, filters, cacheVersion],
+    queryFn: () => collectTransactions(fetchTransactions, { filters }),
+    enabled: isConnected && !!address
+  });
+  const transactions = data?.transactions ?? NO_TRANSACTIONS;
+
+  const summary = useMemo(
+    () => calculateTransactionSummary(transactions, { account: address, rewards }),
+    [transactions, address, rewards]
+  );
+  const counterparties = useMemo(
+    () => summarizeByCounterparty(transactions, { account: address }),
+    [transactions, address]
+  );
+  const buckets = useMemo(
+    () => bucketTransactions(transactions, period, { account: address, rewards }),
+    [transactions, period, address, rewards]
+  );
+
+  // Assets of the history, by AssetFlow.asset key, for current prices
+  const assets = useMemo(() => new Map<string, PricedAsset>(summary.byAsset.map((flow) => [
+    flow.asset,
+    flow.asset === 'native'
+      ? nativePricedAsset(chainId)
+      : { chainId, address: flow.asset, symbol: flow.symbol }
+  ])), [summary.byAsset, chainId]);
+
+  const historicalPrices = useHistoricalPrices(transactions, { provider: priceProvider });
+  const currentPrices = useFiatValuation({ assets: [...assets.values()], provider: priceProvider });
+  const { getPrice: getHistoricalPrice } = historicalPrices;
+  const { getPrice: getCurrentPrice } = currentPrices;
+
+  const costBasis = useMemo(() => calculateCostBasis(transactions, {
+    account: address,
+    getHistoricalPrice,
+    getCurrentPrice: (asset) => {
+      const priced = assets.get(asset);
+      return priced ? getCurrentPrice(priced) : undefined;
+    }
+  }), [transactions, address, assets, getHistoricalPrice, getCurrentPrice]);
+
+  return {
+    isConnected,
+    chainId,
+    transactions,
+    /** Older transactions were left out: the history is longer than the analytics collect */
+    truncated: data?.truncated ?? false,
+    summary,
+    counterparties,
+    buckets,
+    costBasis,
+    /** Whether any historical price is known, i.e. whether cost basis means anything */
+    hasPrices: Object.keys(historicalPrices.prices).length > 0,
+    currency: historicalPrices.currency,
+    formatFiat: historicalPrices.formatFiat,
+    isLoading,
+    error: error ? normalizeWalletError(error) : null,
+    rewardsError: epochRewards.error,
+    refetch
+  };
+}
@@ -0,0 +1,108 @@
+import { useCallback, useState } from 'react';
+import { useTransactionHistory } from './useTransactionHistory';
+import type {
+  TransactionExportColumn,
+  TransactionExportFile,
+  TransactionFilters
+} from '../types/transaction';
+import type { WalletError } from '../types/walletError';
+import {
+  collectTransactions,
+  getExportFileName,
+  parseTransactionExport,
+  toTransactionCsv,
+  toTransactionExportFile,
+  toTransactionJson
+} from '../services/transactionExport';
+import { normalizeWalletError } from '../services/walletErrors';
+import { downloadTextFile } from '../utils/download';
+
+export interface UseTransactionExportOptions {
+  /** Filters and date range the exported history must match */
+  filters?: TransactionFilters;
+}
+
+export interface TransactionStatementView {
+  file: TransactionExportFile;
+  /** Loaded from a JSON export rather than from the live history */
+  imported: boolean;
+}
+
+/**
+ * Export the connected account's history as CSV or JSON, show it as a
+ * printable statement, and load JSON exports back for offline review
+ */
+export function useTransactionExport({ filters }: UseTransactionExportOptions = {}) {
+  const { address, chainId, isConnected, fetchTransactions } = useTransactionHistory();
+  const [isCollecting, setIsCollecting] = useState(false);
+  const [error, setError] = useState<WalletError<string> | null>(null);
+  const [statement, setStatement] = useState<TransactionStatementView | null>(null);
+  const [truncated, setTruncated] = useState(false);
+
+  // Every matching transaction, across all pages
+  const withHistory = useCallback(async (
+    handle: (file: TransactionExportFile) => void
+  ): Promise<void> => {
+    if (!address) {
+      return;
+    }
+    setIsCollecting(true);
+    setError(null);
+    try {
+      const { transactions, truncated } = await collectTransactions(fetchTransactions, { filters });
+      setTruncated(truncated);
+      handle(toTransactionExportFile(transactions, { address, chainId, filters, truncated }));
+    } catch (err) {
+      setError(normalizeWalletError(err));
+    } finally {
+      setIsCollecting(false);
+    }
+  }, [address, chainId, fetchTransactions, filters]);
+
+  const exportCsv = useCallback(
+    (columns?: readonly TransactionExportColumn[]) => withHistory((file) => downloadTextFile(
+      getExportFileName(file.address, file.chainId, 'csv', file.exportedAt),
+      toTransactionCsv(file.transactions, { columns }),
+      'text/csv;charset=utf-8'
+    )),
+    [withHistory]
+  );
+
+  const exportJson = useCallback(() => withHistory((file) => downloadTextFile(
+    getExportFileName(file.address, file.chainId, 'json', file.exportedAt),
+    toTransactionJson(file.transactions, file),
+    'application/json'
+  )), [withHistory]);
+
+  const openStatement = useCallback(
+    () => withHistory((file) => setStatement({ file, imported: false })),
+    [withHistory]
+  );
+
+  const importFile = useCallback(async (file: Blob): Promise<boolean> => {
+    setError(null);
+    try {
+      setStatement({ file: parseTransactionExport(await file.text()), imported: true });
+      return true;
+    } catch (err) {
+      setError(normalizeWalletError(err));
+      return false;
+    }
+  }, []);
+
+  const closeStatement = useCallback(() => setStatement(null), []);
+
+  return {
+    isConnected,
+    isCollecting,
+    error,
+    /** The last export left out older transactions: the history is longer than an export collects */
+    truncated,
+    statement,
+    exportCsv,
+    exportJson,
+    openStatement,
+    importFile,
+    closeStatement
+  };
+}
@@ -1,173 +1,90 @@
-import { useCallback, useMemo } from 'react';
-import { useAccount, useChainId } from 'wagmi';
-import { createPublicClient, http, getAddress } from 'viem';
-import { celo, celoAlfajores } from '../config/celoChains';
-import {
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAccount, useBlockNumber, useChainId } from 'wagmi';
+import type {
   CeloTransaction,
   TransactionFilters,
   PaginatedTransactions,
+  TransactionHistorySource,
   TransactionQueryOptions,
   TransactionError
 } from '../types/transaction';
-
-/**
- * Create a viem client for the current chain
- */
-function createViemClient(chainId: number) {
-  const chain = chainId === celo.id ? celo : celoAlfajores;
-  return createPublicClient({
-    chain,
-    transport: http(chain.rpcUrls.default.http[0])
-  });
-}
-
-/**
- * Transform viem transaction to our CeloTransaction format
- */
-function transformTransaction(
-  tx: any,
-  address: string,
-  chainId: number,
-  receipt?: any
-): CeloTransaction {
-  const from = getAddress(tx.from);
-  const to = tx.to ? getAddress(tx.to) : '0x0000000000000000000000000000000000000000';
-  const isContractCreation = !tx.to;
-  const value = tx.value.toString();
-  const gasUsed = receipt?.gasUsed?.toString() || '0';
-  const gasPrice = tx.gasPrice?.toString() || '0';
-  const confirmations = 1; // Simplified for now
-  const status = receipt ? (receipt.status === 'success' ? 'success' : 'failure') : 'pending';
-
-  // Determine transaction type
-  let type: 'sent' | 'received' | 'contract';
-  if (isContractCreation || (tx.input && tx.input !== '0x')) {
-    type = 'contract';
-  } else if (from.toLowerCase() === address.toLowerCase()) {
-    type = 'sent';
-  } else {
-    type = 'received';
-  }
-
-  return {
-    hash: tx.hash,
-    blockNumber: tx.blockNumber?.toString() || '0',
-    timestamp: Date.now(), // We'll need to get this from block data
-    from,
-    to,
-    value,
-    gasUsed,
-    gasPrice,
-    status: status as 'success' | 'failure' | 'pending',
-    type,
-    confirmations,
-    chainId
-  };
-}
-
-/**
- * Fetch transaction history for an address using viem
- */
-async function fetchTransactionHistory(
-  options: TransactionQueryOptions
-): Promise<PaginatedTransactions> {
-  const { address, chainId, limit = 10, filters } = options;
-
-  try {
-    const client = createViemClient(chainId);
-
-    // Get current block number
-    const currentBlockNumber = await client.getBlockNumber();
-
-    // For simplicity, we'll fetch recent transactions by getting recent blocks
-    // In a real implementation, you might want to use event logs or a more sophisticated approach
-    const startBlock = currentBlockNumber - BigInt(1000); // Look back 1000 blocks
-    const endBlock = currentBlockNumber;
-
-    const transactions: CeloTransaction[] = [];
-
-    // Get block range for transaction lookup
-    // Note: This is a simplified approach. In production, you'd want to use event logs
-    // or a service like Alchemy/Infura for more efficient transaction history
-
-    for (let i = startBlock; i < endBlock && transactions.length < limit; i++) {
-      try {
-        const block = await client.getBlock({
-          blockNumber: i,
-          full: true
-        });
-
-        if (block.transactions) {
-          for (const tx of block.transactions) {
-            if (
-              (tx.from && tx.from.toLowerCase() === address.toLowerCase()) ||
-              (tx.to && tx.to.toLowerCase() === address.toLowerCase())
-            ) {
-              let receipt;
-              try {
-                receipt = await client.getTransactionReceipt({
-                  hash: tx.hash as `0x${string}`
-                });
-              } catch {
-                // Transaction might still be pending
-              }
-
-              const transformedTx = transformTransaction(tx, address, chainId, receipt);
-
-              // Apply filters
-              if (filters?.type && filters.type !== 'all') {
-                if (filters.type === 'contract' && transformedTx.type !== 'contract') {
-                  continue;
-                }
-                if (filters.type === 'sent' && transformedTx.type !== 'sent') {
-                  continue;
-                }
-                if (filters.type === 'received' && transformedTx.type !== 'received') {
-                  continue;
-                }
-              }
-
-              if (filters?.status && filters.status !== 'all') {
-                if (transformedTx.status !== filters.status) {
-                  continue;
-                }
-              }
-
-              transactions.push(transformedTx);
-
-              if (transactions.length >= limit) {
-                break;
-              }
-            }
-          }
-        }
-      } catch (error) {
-        // Continue with next block if current block fails
-        console.warn(`Failed to fetch block ${i}:`, error);
-      }
-    }
-
-    return {
-      transactions: transactions.slice(0, limit),
-      total: transactions.length,
-      hasMore: false, // Simplified for this implementation
-      nextCursor: undefined
-    };
-
-  } catch (error) {
-    console.error('Error fetching transaction history:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    const transactionError: TransactionError = {
-      message: `Failed to fetch transactions: ${errorMessage}`,
-      code: 'FETCH_ERROR'
-    };
-    throw transactionError;
-  }
+import {
+  createDefaultHistorySources,
+  createTransactionHistoryEngine
+} from '../services/transactionHistory';
+import {
+  createTransactionHistoryCache,
+  getSharedTransactionHistoryCache
+} from '../services/transactionCache';
+import {
+  getSharedTransactionStore,
+  type TransactionStore
+} from '../services/transactionStore';
+import { toWalletError } from '../services/walletErrors';
+import { refreshConfirmations } from '../utils/transactionHelpers';
+import { getDefaultHistoryTokens } from '../config/tokens';
+import type { TokenInfo } from '../types/token';
+
+export interface UseTransactionHistoryOptions {
+  /** History sources in fallback order; defaults to explorer API, then RPC log scan */
+  sources?: readonly TransactionHistorySource[];
+  /** Local store for synced history; defaults to IndexedDB where available */
+  store?: TransactionStore;
+  /** ERC-20 tokens listed in history, any chain; defaults to the Celo stable assets */
+  tokens?: readonly TokenInfo[];
 }
 
-export function useTransactionHistory() {
+export function useTransactionHistory({ sources, store, tokens }: UseTransactionHistoryOptions = {}) {
   const { address, isConnected } = useAccount();
   const chainId = useChainId();
+  // Bumped whenever the local history of this account changes
+  const [cacheVersion, setCacheVersion] = useState(0);
+  // Last failed sync or page load, cleared by the next one that succeeds
+  const [error, setError] = useState<TransactionError | null>(null);
+
+  // Live chain head, used to keep confirmation counts current
+  const { data: blockNumber } = useBlockNumber({
+    chainId,
+    watch: isConnected,
+    query: { enabled: isConnected }
+  });
+  const headRef = useRef<bigint | undefined>(undefined);
+  useEffect(() => {
+    headRef.current = blockNumber;
+  }, [blockNumber]);
+
+  const cache = useMemo(() => {
+    if (!sources && !store && !tokens) {
+      return getSharedTransactionHistoryCache();
+    }
+    const getTokens = tokens
+      ? (id: number) => tokens.filter((token) => token.chainId === id)
+      : undefined;
+    return createTransactionHistoryCache({
+      engine: createTransactionHistoryEngine(sources ?? createDefaultHistorySources({ getTokens })),
+      store: store ?? getSharedTransactionStore()
+    });
+  }, [sources, store, tokens]);
+
+  // Tokens the history lists on the current chain, e.g. for a token filter
+  const historyTokens = useMemo(
+    () => tokens
+      ? tokens.filter((token) => token.chainId === chainId)
+      : getDefaultHistoryTokens(chainId),
+    [tokens, chainId]
+  );
+
+  useEffect(() => {
+    if (!address) {
+      return undefined;
+    }
+    return cache.subscribe((changedAddress, changedChainId) => {
+      const sameChain = changedChainId === undefined || changedChainId === chainId;
+      if (sameChain && changedAddress.toLowerCase() === address.toLowerCase()) {
+        setCacheVersion((version) => version + 1);
+      }
+    });
+  }, [cache, address, chainId]);
 
   const fetchTransactions = useCallback(async (
     options: Omit<TransactionQueryOptions, 'address' | 'chainId'>
@@ -186,20 +103,54 @@ export function useTransactionHistory() {
       ...options
     };
 
-    return fetchTransactionHistory(queryOptions);
-  }, [address, chainId]);
+    try {
+      const page = await cache.fetchPage(queryOptions);
+      setError(null);
+      const head = headRef.current;
+      return head === undefined
+        ? page
+        : { ...page, transactions: refreshConfirmations(page.transactions, head) };
+    } catch (err) {
+      const fetchError = toWalletError<TransactionError>(err, {
+        message: 'Failed to fetch transactions',
+        code: 'FETCH_ERROR'
+      });
+      setError(fetchError);
+      throw fetchError;
+    }
+  }, [address, chainId, cache]);
+
+  const syncTransactions = useCallback(async () => {
+    if (!address) {
+      return;
+    }
+    try {
+      await cache.sync(address, chainId);
+      setError(null);
+    } catch (err) {
+      const syncError = toWalletError<TransactionError>(err, {
+        message: 'Failed to sync transactions',
+        code: 'FETCH_ERROR'
+      });
+      setError(syncError);
+      throw syncError;
+    }
+  }, [address, chainId, cache]);
+
+  const clearTransactionCache = useCallback(async (allChains = false) => {
+    if (!address) {
+      return;
+    }
+    await cache.clear(address, allChains ? undefined : chainId);
+  }, [address, chainId, cache]);
 
   const refreshTransactions = useCallback(async (
     filters?: TransactionFilters,
     limit = 10
   ) => {
-    try {
-      return await fetchTransactions({ filters, limit });
-    } catch (error) {
-      console.error('Failed to refresh transactions:', error);
-      throw error;
-    }
-  }, [fetchTransactions]);
+    await syncTransactions();
+    return fetchTransactions({ filters, limit });
+  }, [fetchTransactions, syncTransactions]);
 
   const transactionSummary = useMemo(() => {
     if (!address) {
@@ -219,15 +170,20 @@ export function useTransactionHistory() {
     address,
     chainId,
     isConnected,
+    blockNumber,
+    historyTokens,
 
     // Actions
     fetchTransactions,
     refreshTransactions,
+    syncTransactions,
+    clearTransactionCache,
 
     // Metadata
     transactionSummary,
+    cacheVersion,
 
     // Error handling
-    error: null as TransactionError | null
+    error
   };
 }
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { useCallback, useState } from 'react';
+import type { Hash, PublicClient } from 'viem';
+import { useSendTransaction } from 'wagmi';
+import type { StakingCall } from '../services/staking';
+import type { WalletError } from '../types/walletError';
+import { normalizeWalletError, toWalletError } from '../services/walletErrors';
+
+export type TransactionSequenceStatus = 'idle' | 'preparing' | 'submitting' | 'pending' | 'confirmed' | 'failed';
+
+export interface TransactionSequenceState<A> {
+  status: TransactionSequenceStatus;
+  action?: A;
+  /** Transactions sent for the action, in order */
+  hashes: Hash[];
+}
+
+/** Errors reported when a step fails for a reason outside the wallet error taxonomy */
+export interface TransactionSequenceErrors<E> {
+  prepare: E;
+  send: E;
+  receipt: E;
+}
+
+export interface UseTransactionSequenceOptions<E> {
+  chainId: number;
+  /** Confirmations to wait for before a transaction counts as confirmed */
+  confirmations: number;
+  errors: TransactionSequenceErrors<E>;
+  /** Records a transaction in the history while it is pending */
+  recordPending?: (call: StakingCall, hash: Hash) => Promise<unknown>;
+  /** Runs once the sequence ends with at least one transaction sent */
+  afterSent?: (hashes: Hash[]) => Promise<unknown>;
+}
+
+/**
+ * Prepare the calls of an action and send them one after another, each once
+ * the previous one is mined
+ */
+export function useTransactionSequence<A, E extends WalletError<string>>({
+  chainId,
+  confirmations,
+  errors,
+  recordPending,
+  afterSent
+}: UseTransactionSequenceOptions<E>) {
+  const { sendTransactionAsync } = useSendTransaction();
+  const [state, setState] = useState<TransactionSequenceState<A>>({ status: 'idle', hashes: [] });
+  const [error, setError] = useState<E | null>(null);
+  const [historyError, setHistoryError] = useState<WalletError<string> | null>(null);
+
+  const reportHistoryError = useCallback((err: unknown) => {
+    setHistoryError(normalizeWalletError(err));
+  }, []);
+
+  const run = useCallback(async (
+    client: PublicClient,
+    action: A,
+    prepare: () => Promise<StakingCall[]> | StakingCall[]
+  ): Promise<Hash[] | null> => {
+    setState({ status: 'preparing', action, hashes: [] });
+    setError(null);
+    setHistoryError(null);
+
+    let calls: StakingCall[];
+    try {
+      calls = await prepare();
+    } catch (err) {
+      setError(toWalletError(err, errors.prepare));
+      setState({ status: 'idle', action, hashes: [] });
+      return null;
+    }
+
+    const hashes: Hash[] = [];
+    try {
+      for (const call of calls) {
+        setState({ status: 'submitting', action, hashes: [...hashes] });
+        let hash: Hash;
+        try {
+          hash = await sendTransactionAsync({ ...call, chainId });
+        } catch (err) {
+          setError(toWalletError(err, errors.send));
+          setState({ status: hashes.length ? 'failed' : 'idle', action, hashes: [...hashes] });
+          return null;
+        }
+
+        hashes.push(hash);
+        setState({ status: 'pending', action, hashes: [...hashes] });
+        recordPending?.(call, hash).catch(reportHistoryError);
+        const receipt = await client.waitForTransactionReceipt({ hash, confirmations });
+        if (receipt.status !== 'success') {
+          setState({ status: 'failed', action, hashes: [...hashes] });
+          return null;
+        }
+      }
+      setState({ status: 'confirmed', action, hashes: [...hashes] });
+      return hashes;
+    } catch (err) {
+      setError(toWalletError(err, errors.receipt));
+      setState({ status: 'failed', action, hashes: [...hashes] });
+      return null;
+    } finally {
+      if (hashes.length) {
+        afterSent?.(hashes).catch(reportHistoryError);
+      }
+    }
+  }, [chainId, confirmations, errors, recordPending, afterSent, sendTransactionAsync, reportHistoryError]);
+
+  const reset = useCallback(() => {
+    setState({ status: 'idle', hashes: [] });
+    setError(null);
+    setHistoryError(null);
+  }, []);
+
+  return { state, error, setError, historyError, run, reset };
+}
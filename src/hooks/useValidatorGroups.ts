@@ -0,0 +1,37 @@
+import { useChainId } from 'wagmi';
+import { useQuery } from '@tanstack/react-query';
+import { getSharedValidatorGroupCache, type ValidatorGroupCache } from '../services/validatorGroups';
+import { normalizeWalletError } from '../services/walletErrors';
+
+export interface UseValidatorGroupsOptions {
+  /** Chain whose groups are listed; the connected chain by default */
+  chainId?: number;
+  /** Per-epoch cache; defaults to the shared one */
+  cache?: ValidatorGroupCache;
+}
+
+// Rechecks the epoch now and then; groups are only read again in a new epoch
+const STALE_TIME = 60 * 1000;
+
+export function useValidatorGroups({
+  chainId: requestedChainId,
+  cache = getSharedValidatorGroupCache()
+}: UseValidatorGroupsOptions = {}) {
+  const connectedChainId = useChainId();
+  const chainId = requestedChainId ?? connectedChainId;
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['validatorGroups', chainId],
+    queryFn: () => cache.get(chainId),
+    staleTime: STALE_TIME
+  });
+
+  return {
+    chainId,
+    groups: data?.groups ?? [],
+    epoch: data?.epoch,
+    isLoading,
+    error: error ? normalizeWalletError(error) : null,
+    refetch
+  };
+}
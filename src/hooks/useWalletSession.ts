@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, useConfig } from 'wagmi';
+import { forgetWallet, getRecentConnectorId, WALLETCONNECT_CONNECTOR_ID } from '../services/walletSession';
+
+/**
+ * The wallet session remembered on this device: which connector was used
+ * last, whether it is being restored after a reload and whether restoring a
+ * WalletConnect session failed because it expired
+ */
+export function useWalletSession() {
+  const config = useConfig();
+  const { status, connector } = useAccount();
+  const [recentConnectorId, setRecentConnectorId] = useState<string | null>(null);
+  const [sessionExpired, setSessionExpired] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getRecentConnectorId(config).then((id) => {
+      if (!cancelled) {
+        setRecentConnectorId(id);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [config]);
+
+  useEffect(() => config.subscribe(
+    (state) => state.status,
+    (next, previous) => {
+      getRecentConnectorId(config).then((id) => {
+        setRecentConnectorId(id);
+        // wagmi drops sessions it cannot restore without reporting why; for
+        // WalletConnect that means the wallet no longer knows the session
+        if (previous === 'reconnecting' && next === 'disconnected') {
+          setSessionExpired(id === WALLETCONNECT_CONNECTOR_ID);
+        }
+      });
+      if (next === 'connected') {
+        setSessionExpired(false);
+      }
+    }
+  ), [config]);
+
+  const lastConnectorId = connector?.id ?? recentConnectorId;
+  const lastConnector = config.connectors.find((existing) => existing.id === lastConnectorId);
+
+  const forget = useCallback(async () => {
+    try {
+      await forgetWallet(config);
+    } finally {
+      // Forgotten even when the wallet could not be told
+      setRecentConnectorId(null);
+      setSessionExpired(false);
+    }
+  }, [config]);
+
+  const dismissExpired = useCallback(() => setSessionExpired(false), []);
+
+  return {
+    isReconnecting: status === 'reconnecting',
+    lastConnectorId,
+    lastConnectorName: lastConnector?.name,
+    sessionExpired,
+    forget,
+    dismissExpired
+  };
+}
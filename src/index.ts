@@ -1,5 +1,38 @@
 export * from './components/WalletConnectUI';
 export * from './components/WalletStatus';
 export * from './components/CeloBalance';
+export * from './components/TokenBalances';
+export * from './components/AddToWallet';
+export * from './components/SendForm';
+export * from './components/FeeCurrencySelect';
+export * from './components/FiatCurrencySelect';
+export * from './components/SignMessage';
+export * from './components/NetworkGuard';
 export * from './components/TransactionHistory';
+export * from './components/TransactionExport';
+export * from './components/TransactionStatement';
+export * from './components/AnalyticsPanel';
+export * from './components/AddressLabel';
+export * from './components/AddressBook';
+export * from './components/StakingBalance';
+export * from './components/StakingPanel';
+export * from './components/ValidatorGroups';
+export * from './components/GovernancePanel';
+export * from './components/EpochRewardsTimeline';
+export * from './providers/WagmiProvider';
+export * from './config/walletConfig';
+export * from './config/celoChains';
+export * from './config/fiatCurrencies';
 export * from './config/ai';
+export * from './services/siwe';
+export * from './services/walletErrors';
+export * from './services/transactionExport';
+export * from './services/prices';
+export * from './services/addressBook';
+export * from './services/nameResolution';
+export * from './services/coreContracts';
+export * from './services/staking';
+export * from './services/epochs';
+export * from './services/validatorGroups';
+export * from './services/governance';
+export * from './services/epochRewards';
@@ -1,53 +1,51 @@
-import React, { type PropsWithChildren } from 'react';
+import { useState, type PropsWithChildren } from 'react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { WagmiProvider as BaseWagmiProvider, createConfig, http } from 'wagmi';
-import { injected } from 'wagmi/connectors';
-import { walletConnect } from 'wagmi/connectors';
-import { celo, celoAlfajores } from '../config/celoChains';
+import { WagmiProvider as BaseWagmiProvider, type Config, type State } from 'wagmi';
+import { createCeloWalletConfig, type CeloWalletConfigOptions } from '../config/walletConfig';
 
-const walletConnectProjectId =
-  import.meta.env.VITE_WALLETCONNECT_PROJECT_ID as string | undefined
-
-if (!walletConnectProjectId) {
-  console.warn(
-    'VITE_WALLETCONNECT_PROJECT_ID is not set. WalletConnect may not function as expected.',
-  )
+interface WagmiProviderProps extends PropsWithChildren {
+  /** Ready-made config, e.g. from createCeloWalletConfig; takes precedence over `options` */
+  config?: Config;
+  /** Options for the config built by the provider */
+  options?: CeloWalletConfigOptions;
+  /** Query client shared with the rest of the app; one is created when omitted */
+  queryClient?: QueryClient;
+  /** State restored on the server, e.g. with cookieToInitialState */
+  initialState?: State;
+  /** Reconnect previously connected wallets on mount */
+  reconnectOnMount?: boolean;
 }
 
-const queryClient = new QueryClient()
-const supportedChains = [celoAlfajores, celo] as const
+let defaultConfig: Config | undefined;
+let defaultQueryClient: QueryClient | undefined;
+
+// Zero-config setup, shared by every provider rendered without a config or options
+function getDefaultConfig(): Config {
+  defaultConfig ??= createCeloWalletConfig();
+  return defaultConfig;
+}
 
-const transports = supportedChains.reduce<Record<number, ReturnType<typeof http>>>(
-  (map, chain) => {
-    map[chain.id] = http(chain.rpcUrls.default.http[0])
-    return map
-  },
-  {},
-)
+function getDefaultQueryClient(): QueryClient {
+  defaultQueryClient ??= new QueryClient();
+  return defaultQueryClient;
+}
 
-const wagmiConfig = createConfig({
-  multiInjectedProviderDiscovery: true,
-  chains: supportedChains,
-  transports,
-  connectors: [
-    injected({ shimDisconnect: true }),
-    walletConnect({
-      projectId: walletConnectProjectId ?? '',
-      showQrModal: true,
-      metadata: {
-        name: 'Web3 Wallet Connect + Celo React Starter Kit',
-        description: 'React + Vite + Wagmi + WalletConnect starter for Celo',
-        url: 'https://example.com',
-        icons: ['https://walletconnect.com/walletconnect-logo.png']
-      }
-    })
-  ]
-});
+export function WagmiProvider({
+  children,
+  config,
+  options,
+  queryClient,
+  initialState,
+  reconnectOnMount = true
+}: WagmiProviderProps): JSX.Element {
+  // Options are read once: rebuilding the config would drop the wallet connection
+  const [wagmiConfig] = useState(() => config ?? (options ? createCeloWalletConfig(options) : getDefaultConfig()));
 
-export function WagmiProvider({ children }: PropsWithChildren): JSX.Element {
   return (
-    <QueryClientProvider client={queryClient}>
-      <BaseWagmiProvider config={wagmiConfig}>{children}</BaseWagmiProvider>
+    <QueryClientProvider client={queryClient ?? getDefaultQueryClient()}>
+      <BaseWagmiProvider config={config ?? wagmiConfig} initialState={initialState} reconnectOnMount={reconnectOnMount}>
+        {children}
+      </BaseWagmiProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,185 @@
+import { getAddress, isAddress } from 'viem';
+import type { AddressBookEntry, AddressBookError, AddressBookInput } from '../types/addressBook';
+
+const STORAGE_PREFIX = 'celo-wallet:address-book:';
+const MAX_LABEL_LENGTH = 64;
+
+type AddressBookListener = (chainId: number) => void;
+
+/**
+ * Saved addresses with labels, notes and tags, one book per chain
+ */
+export interface AddressBookStore {
+  list(chainId: number): AddressBookEntry[];
+  get(chainId: number, address: string): AddressBookEntry | undefined;
+  /** Add an entry, or update the one saved for the same address */
+  save(input: AddressBookInput, now?: number): AddressBookEntry;
+  remove(chainId: number, address: string): void;
+  /** Called with the chain whose book changed */
+  subscribe(listener: AddressBookListener): () => void;
+}
+
+function isAddressBookEntry(value: unknown): value is AddressBookEntry {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const entry = value as Record<string, unknown>;
+  return typeof entry.chainId === 'number'
+    && typeof entry.address === 'string'
+    && isAddress(entry.address)
+    && typeof entry.label === 'string'
+    && (entry.note === undefined || typeof entry.note === 'string')
+    && Array.isArray(entry.tags)
+    && entry.tags.every((tag) => typeof tag === 'string')
+    && typeof entry.createdAt === 'number'
+    && typeof entry.updatedAt === 'number';
+}
+
+/**
+ * Tags as stored: trimmed, lowercase and without duplicates
+ */
+export function normalizeTags(tags: readonly string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Split tags typed as a comma-separated list
+ */
+export function parseTags(value: string): string[] {
+  return normalizeTags(value.split(','));
+}
+
+/**
+ * Check and normalize an entry before saving it. Throws an AddressBookError
+ * with code INVALID_ADDRESS or INVALID_LABEL.
+ */
+export function toAddressBookEntry(
+  input: AddressBookInput,
+  existing?: AddressBookEntry,
+  now: number = Date.now()
+): AddressBookEntry {
+  if (!isAddress(input.address)) {
+    const error: AddressBookError = {
+      message: `Invalid address: ${input.address}`,
+      code: 'INVALID_ADDRESS'
+    };
+    throw error;
+  }
+  const label = input.label.trim();
+  if (!label || label.length > MAX_LABEL_LENGTH) {
+    const error: AddressBookError = {
+      message: `Labels must be 1 to ${MAX_LABEL_LENGTH} characters long`,
+      code: 'INVALID_LABEL'
+    };
+    throw error;
+  }
+  const note = input.note?.trim();
+
+  return {
+    chainId: input.chainId,
+    address: getAddress(input.address),
+    label,
+    ...(note ? { note } : {}),
+    tags: normalizeTags(input.tags ?? []),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now
+  };
+}
+
+/**
+ * Whether an entry's label, note, tags or address contain the query, ignoring case
+ */
+export function matchesAddressBookEntry(entry: AddressBookEntry, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return true;
+  }
+  return entry.label.toLowerCase().includes(needle)
+    || (entry.note?.toLowerCase().includes(needle) ?? false)
+    || entry.tags.some((tag) => tag.includes(needle))
+    || entry.address.toLowerCase().includes(needle);
+}
+
+/**
+ * Address book kept in Web Storage, or in memory without one
+ */
+export function createAddressBookStore(
+  storage?: Storage,
+  prefix: string = STORAGE_PREFIX
+): AddressBookStore {
+  const books = new Map<number, AddressBookEntry[]>();
+  const listeners = new Set<AddressBookListener>();
+
+  const load = (chainId: number): AddressBookEntry[] => {
+    let book = books.get(chainId);
+    if (book) {
+      return book;
+    }
+    book = [];
+    const raw = storage?.getItem(`${prefix}${chainId}`);
+    if (raw) {
+      try {
+        const parsed: unknown = JSON.parse(raw);
+        // Ignore entries written by an incompatible version
+        book = Array.isArray(parsed)
+          ? parsed.filter(isAddressBookEntry).filter((entry) => entry.chainId === chainId)
+          : [];
+      } catch {
+        book = [];
+      }
+    }
+    books.set(chainId, book);
+    return book;
+  };
+
+  const write = (chainId: number, book: AddressBookEntry[]): void => {
+    books.set(chainId, book);
+    storage?.setItem(`${prefix}${chainId}`, JSON.stringify(book));
+    listeners.forEach((listener) => listener(chainId));
+  };
+
+  const find = (book: readonly AddressBookEntry[], address: string): number =>
+    book.findIndex((entry) => entry.address.toLowerCase() === address.toLowerCase());
+
+  return {
+    list(chainId) {
+      return [...load(chainId)].sort((a, b) => a.label.localeCompare(b.label));
+    },
+
+    get(chainId, address) {
+      const book = load(chainId);
+      return book[find(book, address)];
+    },
+
+    save(input, now) {
+      const book = load(input.chainId);
+      const index = find(book, input.address);
+      const entry = toAddressBookEntry(input, book[index], now);
+      write(input.chainId, index === -1
+        ? [...book, entry]
+        : book.map((existing, i) => (i === index ? entry : existing)));
+      return entry;
+    },
+
+    remove(chainId, address) {
+      const book = load(chainId);
+      if (find(book, address) !== -1) {
+        write(chainId, book.filter((entry) => entry.address.toLowerCase() !== address.toLowerCase()));
+      }
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
+
+let sharedAddressBook: AddressBookStore | null = null;
+
+export function getSharedAddressBookStore(): AddressBookStore {
+  sharedAddressBook ??= createAddressBookStore(typeof localStorage === 'undefined' ? undefined : localStorage);
+  return sharedAddressBook;
+}
@@ -0,0 +1,54 @@
+import type { PublicClient } from 'viem';
+import { createViemClient } from '../utils/publicClient';
+
+export interface BlockTimestampCache {
+  /** Unix timestamp (seconds) of a block, fetched once per block and chain */
+  getTimestamp(chainId: number, blockNumber: bigint): Promise<number>;
+  size(): number;
+}
+
+export interface BlockTimestampCacheOptions {
+  getClient?: (chainId: number) => PublicClient;
+  /** Oldest entries are evicted past this many blocks */
+  maxEntries?: number;
+}
+
+/**
+ * Memoize block timestamps. Blocks are immutable once final, so entries never
+ * expire; concurrent lookups of the same block share one request.
+ */
+export function createBlockTimestampCache({
+  getClient = createViemClient,
+  maxEntries = 5000
+}: BlockTimestampCacheOptions = {}): BlockTimestampCache {
+  const entries = new Map<string, Promise<number>>();
+
+  return {
+    getTimestamp(chainId, blockNumber) {
+      const key = `${chainId}:${blockNumber.toString()}`;
+      const cached = entries.get(key);
+      if (cached) {
+        return cached;
+      }
+
+      const request = getClient(chainId)
+        .getBlock({ blockNumber })
+        .then((block) => Number(block.timestamp));
+      // Failed lookups are retried on the next call
+      request.catch(() => entries.delete(key));
+
+      entries.set(key, request);
+      if (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) {
+          entries.delete(oldest);
+        }
+      }
+      return request;
+    },
+
+    size() {
+      return entries.size;
+    }
+  };
+}
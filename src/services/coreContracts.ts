@@ -0,0 +1,49 @@
+import type { Address, PublicClient } from 'viem';
+import { CELO_REGISTRY_ADDRESS } from '../config/feeCurrencies';
+import { CELO_REGISTRY_ABI } from './feeCurrencies';
+
+/**
+ * Celo core contracts looked up by name in the registry
+ */
+export type CoreContractName =
+  | 'Accounts'
+  | 'Election'
+  | 'EpochManager'
+  | 'FederatedAttestations'
+  | 'Governance'
+  | 'LockedGold'
+  | 'ScoreManager'
+  | 'Validators';
+
+export type CoreContractLookup = (client: PublicClient, chainId: number, name: CoreContractName) => Promise<Address>;
+
+/**
+ * Registry lookups cached per chain. Failed lookups are forgotten so the
+ * next call retries.
+ */
+export function createCoreContractLookup(): CoreContractLookup {
+  const addresses = new Map<string, Promise<Address>>();
+
+  return (client, chainId, name) => {
+    const key = `${chainId}:${name}`;
+    let address = addresses.get(key);
+    if (!address) {
+      address = client.readContract({
+        address: CELO_REGISTRY_ADDRESS,
+        abi: CELO_REGISTRY_ABI,
+        functionName: 'getAddressForStringOrDie',
+        args: [name]
+      });
+      address.catch(() => addresses.delete(key));
+      addresses.set(key, address);
+    }
+    return address;
+  };
+}
+
+let sharedLookup: CoreContractLookup | null = null;
+
+export function getSharedCoreContractLookup(): CoreContractLookup {
+  sharedLookup ??= createCoreContractLookup();
+  return sharedLookup;
+}
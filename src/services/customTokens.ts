@@ -0,0 +1,112 @@
+import { erc20Abi, getAddress, isAddress, type PublicClient } from 'viem';
+import type { TokenError, TokenInfo } from '../types/token';
+
+export interface CustomTokenStore {
+  load(chainId: number): TokenInfo[];
+  save(chainId: number, tokens: readonly TokenInfo[]): void;
+}
+
+const STORAGE_PREFIX = 'celo-wallet:custom-tokens:';
+
+function isTokenInfo(value: unknown): value is TokenInfo {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const token = value as Record<string, unknown>;
+  return typeof token.chainId === 'number'
+    && typeof token.address === 'string'
+    && isAddress(token.address)
+    && typeof token.symbol === 'string'
+    && typeof token.name === 'string'
+    && typeof token.decimals === 'number';
+}
+
+/**
+ * Custom token lists persisted in Web Storage, one entry per chain
+ */
+export function createLocalStorageCustomTokenStore(
+  storage: Storage = localStorage,
+  prefix: string = STORAGE_PREFIX
+): CustomTokenStore {
+  return {
+    load(chainId) {
+      const raw = storage.getItem(`${prefix}${chainId}`);
+      if (!raw) {
+        return [];
+      }
+      try {
+        const parsed: unknown = JSON.parse(raw);
+        // Ignore entries written by an incompatible version
+        return Array.isArray(parsed)
+          ? parsed.filter(isTokenInfo).filter((token) => token.chainId === chainId)
+          : [];
+      } catch {
+        return [];
+      }
+    },
+
+    save(chainId, tokens) {
+      storage.setItem(`${prefix}${chainId}`, JSON.stringify(tokens));
+    }
+  };
+}
+
+/**
+ * Non-persistent custom token store, for tests and environments without Web Storage
+ */
+export function createMemoryCustomTokenStore(): CustomTokenStore {
+  const lists = new Map<number, TokenInfo[]>();
+
+  return {
+    load(chainId) {
+      return [...(lists.get(chainId) ?? [])];
+    },
+
+    save(chainId, tokens) {
+      lists.set(chainId, [...tokens]);
+    }
+  };
+}
+
+/**
+ * localStorage in the browser, memory otherwise
+ */
+export function createDefaultCustomTokenStore(): CustomTokenStore {
+  return typeof localStorage !== 'undefined'
+    ? createLocalStorageCustomTokenStore()
+    : createMemoryCustomTokenStore();
+}
+
+/**
+ * Read symbol, name and decimals of an ERC-20 contract
+ */
+export async function fetchTokenInfo(
+  client: PublicClient,
+  chainId: number,
+  address: string
+): Promise<TokenInfo> {
+  if (!isAddress(address)) {
+    const error: TokenError = {
+      message: `Invalid token address: ${address}`,
+      code: 'INVALID_ADDRESS'
+    };
+    throw error;
+  }
+
+  const contract = { address: getAddress(address), abi: erc20Abi } as const;
+  try {
+    const [symbol, name, decimals] = await Promise.all([
+      client.readContract({ ...contract, functionName: 'symbol' }),
+      client.readContract({ ...contract, functionName: 'name' }),
+      client.readContract({ ...contract, functionName: 'decimals' })
+    ]);
+    return { chainId, address: contract.address, symbol, name, decimals };
+  } catch (cause) {
+    const error: TokenError = {
+      message: `No ERC-20 token found at ${address}`,
+      code: 'TOKEN_LOOKUP_FAILED',
+      details: cause
+    };
+    throw error;
+  }
+}
@@ -0,0 +1,218 @@
+import type { Address, PublicClient } from 'viem';
+import type { EpochIncome, EpochReward } from '../types/staking';
+import { createViemClient } from '../utils/publicClient';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { createBlockTimestampCache, type BlockTimestampCache } from './blockTimestampCache';
+import { getSharedCoreContractLookup, type CoreContractLookup } from './coreContracts';
+import { readCurrentEpoch } from './epochs';
+import { scanLogs, type LogScanOptions } from './logScan';
+import { ELECTION_ABI } from './staking';
+
+export interface EpochRewardsOptions extends LogScanOptions {
+  lookup?: CoreContractLookup;
+  /** First block of the account's vote history to read, at or before its first vote */
+  fromBlock: bigint;
+  /** Only read distributions after this block, for rewards already read up to it */
+  afterBlock?: bigint;
+  /** Last block to read; the chain head by default */
+  toBlock?: bigint;
+  timestamps?: BlockTimestampCache;
+}
+
+/**
+ * Voter rewards of an account per epoch and group, oldest first.
+ *
+ * Election emits the rewards of all voters for a group at each epoch
+ * boundary; an account's share is that of its active votes in the group's
+ * active votes just before, read at the previous block. This needs an RPC
+ * endpoint serving historical state. Logs are read in bounded chunks and at
+ * most `concurrency` distributions are read at a time.
+ */
+export async function fetchEpochRewards(
+  client: PublicClient,
+  chainId: number,
+  account: Address,
+  {
+    lookup = getSharedCoreContractLookup(),
+    fromBlock,
+    afterBlock,
+    toBlock,
+    timestamps = createBlockTimestampCache({ getClient: () => client }),
+    chunkSize,
+    concurrency = 4
+  }: EpochRewardsOptions
+): Promise<EpochReward[]> {
+  const election = await lookup(client, chainId, 'Election');
+  const head = toBlock ?? await client.getBlockNumber();
+  const activations = await scanLogs({ fromBlock, toBlock: head }, (range) => client.getContractEvents({
+    address: election,
+    abi: ELECTION_ABI,
+    eventName: 'ValidatorGroupVoteActivated',
+    args: { account },
+    ...range
+  }), { chunkSize, concurrency });
+
+  const groups = [...new Set(activations.flatMap((log) => (log.args.group ? [log.args.group] : [])))];
+  if (groups.length === 0) {
+    return [];
+  }
+  // Nothing was earned before the first activation
+  const firstActivation = activations.reduce(
+    (first, log) => (log.blockNumber < first ? log.blockNumber : first),
+    activations[0].blockNumber
+  );
+  const start = afterBlock !== undefined && afterBlock >= firstActivation ? afterBlock + BigInt(1) : firstActivation;
+
+  const distributions = await scanLogs({ fromBlock: start, toBlock: head }, (range) => client.getContractEvents({
+    address: election,
+    abi: ELECTION_ABI,
+    eventName: 'EpochRewardsDistributedToVoters',
+    args: { group: groups },
+    ...range
+  }), { chunkSize, concurrency });
+
+  // Distributions for several groups share their block
+  const epochs = new Map<bigint, Promise<number>>();
+  const epochAt = (blockNumber: bigint): Promise<number> => {
+    let epoch = epochs.get(blockNumber);
+    if (!epoch) {
+      epoch = readCurrentEpoch(client, chainId, lookup, blockNumber);
+      epochs.set(blockNumber, epoch);
+    }
+    return epoch;
+  };
+
+  const rewards = await mapWithConcurrency(distributions, concurrency, async (log): Promise<EpochReward | null> => {
+    const { group, value } = log.args;
+    if (!group || !value) {
+      return null;
+    }
+    // The rewards belong to the epoch that ends with them
+    const before = log.blockNumber - BigInt(1);
+    const [accountActive, groupActive, epoch, timestamp] = await Promise.all([
+      client.readContract({
+        address: election,
+        abi: ELECTION_ABI,
+        functionName: 'getActiveVotesForGroupByAccount',
+        args: [group, account],
+        blockNumber: before
+      }),
+      client.readContract({
+        address: election,
+        abi: ELECTION_ABI,
+        functionName: 'getActiveVotesForGroup',
+        args: [group],
+        blockNumber: before
+      }),
+      epochAt(before),
+      timestamps.getTimestamp(chainId, log.blockNumber)
+    ]);
+    if (accountActive === BigInt(0) || groupActive === BigInt(0)) {
+      return null;
+    }
+    return { epoch, group, value: value * accountActive / groupActive, blockNumber: log.blockNumber, timestamp };
+  });
+
+  return rewards
+    .filter((reward): reward is EpochReward => reward !== null && reward.value > BigInt(0))
+    .sort((a, b) => a.epoch - b.epoch || a.group.localeCompare(b.group));
+}
+
+/**
+ * Rewards per epoch across groups, newest first
+ */
+export function summarizeEpochRewards(rewards: readonly EpochReward[]): EpochIncome[] {
+  const byEpoch = new Map<number, EpochIncome>();
+  for (const reward of rewards) {
+    const income = byEpoch.get(reward.epoch) ?? {
+      epoch: reward.epoch,
+      blockNumber: reward.blockNumber,
+      timestamp: reward.timestamp,
+      total: BigInt(0),
+      byGroup: []
+    };
+    income.total += reward.value;
+    income.byGroup.push({ group: reward.group, value: reward.value });
+    byEpoch.set(reward.epoch, income);
+  }
+  return [...byEpoch.values()].sort((a, b) => b.epoch - a.epoch);
+}
+
+export interface EpochRewardsCache {
+  /** Rewards of an account up to the current epoch; later calls only read new epochs */
+  get(chainId: number, account: Address): Promise<EpochReward[]>;
+  clear(): void;
+}
+
+export interface EpochRewardsCacheOptions {
+  getClient?: (chainId: number) => PublicClient;
+  lookup?: CoreContractLookup;
+  /** First block of vote history to read, at or before the accounts' first votes */
+  fromBlock: bigint;
+}
+
+interface CachedRewards {
+  epoch: number;
+  /** Last block read */
+  toBlock: bigint;
+  rewards: Promise<EpochReward[]>;
+}
+
+/**
+ * Epoch rewards per chain and account. Rewards only change at epoch
+ * boundaries, so each call costs one epoch number read within an epoch, and
+ * a new epoch only reads the blocks since the last call.
+ */
+export function createEpochRewardsCache({
+  getClient = createViemClient,
+  lookup = getSharedCoreContractLookup(),
+  fromBlock
+}: EpochRewardsCacheOptions): EpochRewardsCache {
+  const entries = new Map<string, CachedRewards>();
+  const timestamps = createBlockTimestampCache({ getClient });
+
+  return {
+    async get(chainId, account) {
+      const key = `${chainId}:${account.toLowerCase()}`;
+      const client = getClient(chainId);
+      const epoch = await readCurrentEpoch(client, chainId, lookup);
+      const cached = entries.get(key);
+      if (cached?.epoch === epoch) {
+        return cached.rewards;
+      }
+
+      const toBlock = await client.getBlockNumber();
+      const rewards = Promise.all([
+        cached?.rewards ?? [],
+        fetchEpochRewards(client, chainId, account, { lookup, fromBlock, afterBlock: cached?.toBlock, toBlock, timestamps })
+      ]).then(([previous, fresh]) => [...previous, ...fresh]);
+      const entry = { epoch, toBlock, rewards };
+      // Failed reads are retried from scratch on the next call
+      rewards.catch(() => {
+        if (entries.get(key) === entry) {
+          entries.delete(key);
+        }
+      });
+      entries.set(key, entry);
+      return rewards;
+    },
+
+    clear() {
+      entries.clear();
+    }
+  };
+}
+
+const sharedCaches = new Map<bigint, EpochRewardsCache>();
+
+/**
+ * Shared cache of the rewards read from `fromBlock`
+ */
+export function getSharedEpochRewardsCache(fromBlock: bigint): EpochRewardsCache {
+  let cache = sharedCaches.get(fromBlock);
+  if (!cache) {
+    cache = createEpochRewardsCache({ fromBlock });
+    sharedCaches.set(fromBlock, cache);
+  }
+  return cache;
+}
@@ -0,0 +1,37 @@
+import { parseAbi, type PublicClient } from 'viem';
+import { getSharedCoreContractLookup, type CoreContractLookup } from './coreContracts';
+import { ELECTION_ABI } from './staking';
+
+export const EPOCH_MANAGER_ABI = parseAbi([
+  'function getCurrentEpochNumber() view returns (uint256)'
+]);
+
+/**
+ * Current epoch number, or the one at `blockNumber`: from EpochManager since
+ * Celo became an L2, else from the epoch precompile through Election
+ */
+export async function readCurrentEpoch(
+  client: PublicClient,
+  chainId: number,
+  lookup: CoreContractLookup = getSharedCoreContractLookup(),
+  blockNumber?: bigint
+): Promise<number> {
+  try {
+    const epochManager = await lookup(client, chainId, 'EpochManager');
+    return Number(await client.readContract({
+      address: epochManager,
+      abi: EPOCH_MANAGER_ABI,
+      functionName: 'getCurrentEpochNumber',
+      blockNumber
+    }));
+  } catch {
+    // Also the case for blocks from before the L2 migration
+    const election = await lookup(client, chainId, 'Election');
+    return Number(await client.readContract({
+      address: election,
+      abi: ELECTION_ABI,
+      functionName: 'getEpochNumber',
+      blockNumber
+    }));
+  }
+}
@@ -0,0 +1,294 @@
+import { getAddress } from 'viem';
+import type {
+  CeloTransaction,
+  PaginatedTransactions,
+  TransactionHistorySource,
+  TransactionQueryOptions
+} from '../types/transaction';
+import {
+  getExplorerApiUrl,
+  getTransactionStatus,
+  getTransactionType,
+  hasExplorerApi,
+  type ExplorerResponse,
+  type ExplorerTransaction
+} from '../utils/celoExplorer';
+import { matchesTransactionFilters } from '../utils/transactionHelpers';
+import { findToken, getDefaultHistoryTokens } from '../config/tokens';
+import type { TokenInfo } from '../types/token';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export interface ExplorerHistorySourceOptions {
+  /** Fetch implementation, injectable for tests; defaults to the global fetch */
+  fetch?: typeof fetch;
+  /** Optional explorer API key appended to every request */
+  apiKey?: string;
+  /** Entries requested per explorer API call */
+  pageSize?: number;
+  /** Number of explorer pages requested at most for a single history page */
+  maxPagesPerFetch?: number;
+  /** ERC-20 tokens whose transfers are listed; Celo stable assets by default */
+  getTokens?: (chainId: number) => readonly TokenInfo[];
+}
+
+type ListAction = 'txlist' | 'tokentx';
+
+// Explorer listings merged into one history, newest first
+interface Listing {
+  action: ListAction;
+  /** Entries of this listing already consumed */
+  offset: number;
+  /** Total number of entries, known once a short page arrives */
+  end: number;
+  page?: { start: number; entries: ExplorerTransaction[] };
+}
+
+// ERC-20 transfer(address,uint256) and transferFrom(address,address,uint256)
+const TOKEN_TRANSFER_SELECTORS = ['0xa9059cbb', '0x23b872dd'];
+
+// The cursor holds how many entries of each listing were consumed, which
+// keeps it valid when consecutive history pages use different limits
+function encodeCursor(listings: Listing[]): string {
+  const offsetOf = (action: ListAction): number =>
+    listings.find((listing) => listing.action === action)?.offset ?? 0;
+  return `${offsetOf('txlist')}.${offsetOf('tokentx')}`;
+}
+
+function decodeCursor(cursor: string): Record<ListAction, number> {
+  const match = /^(\d+)\.(\d+)$/.exec(cursor);
+  if (!match) {
+    throw new Error(`Invalid explorer history cursor: ${cursor}`);
+  }
+  return { txlist: Number(match[1]), tokentx: Number(match[2]) };
+}
+
+function peek(listing: Listing): ExplorerTransaction | undefined {
+  return listing.page?.entries[listing.offset - listing.page.start];
+}
+
+/**
+ * Transform an explorer API entry to our CeloTransaction format
+ */
+export function transformExplorerTransaction(
+  tx: ExplorerTransaction,
+  address: string,
+  chainId: number
+): CeloTransaction {
+  const status = getTransactionStatus(tx.isError, tx.txreceipt_status);
+  const to = tx.to || tx.contractAddress || ZERO_ADDRESS;
+
+  const transaction: CeloTransaction = {
+    hash: tx.hash,
+    blockNumber: tx.blockNumber ?? '0',
+    timestamp: Number(tx.timeStamp),
+    from: getAddress(tx.from),
+    to: getAddress(to),
+    value: tx.value,
+    gasUsed: tx.gasUsed,
+    gasPrice: tx.gasPrice,
+    status,
+    type: tx.to ? getTransactionType(tx.from, tx.to, address, undefined, tx.input) : 'contract',
+    confirmations: Number(tx.confirmations) || 0,
+    chainId
+  };
+  if (tx.feeCurrency && tx.feeCurrency !== ZERO_ADDRESS) {
+    transaction.feeCurrency = getAddress(tx.feeCurrency);
+  }
+  return transaction;
+}
+
+/**
+ * Transform an explorer `tokentx` entry to a token entry of the history
+ */
+export function transformExplorerTokenTransfer(
+  tx: ExplorerTransaction,
+  token: TokenInfo,
+  address: string,
+  chainId: number
+): CeloTransaction {
+  const from = getAddress(tx.from);
+
+  return {
+    hash: tx.hash,
+    blockNumber: tx.blockNumber ?? '0',
+    timestamp: Number(tx.timeStamp),
+    from,
+    to: getAddress(tx.to),
+    value: tx.value,
+    gasUsed: tx.gasUsed,
+    gasPrice: tx.gasPrice,
+    // Transfer events are only emitted by successful transactions
+    status: 'success',
+    type: from.toLowerCase() === address.toLowerCase() ? 'sent' : 'received',
+    confirmations: Number(tx.confirmations) || 0,
+    chainId,
+    tokenAddress: getAddress(token.address),
+    tokenSymbol: token.symbol,
+    tokenDecimals: token.decimals,
+    logIndex: tx.logIndex !== undefined ? Number(tx.logIndex) : undefined
+  };
+}
+
+/**
+ * History source backed by the Etherscan-compatible `txlist` and `tokentx`
+ * endpoints of the chain's block explorer, merged newest first. Token
+ * transfers are listed for configured tokens only, in place of the contract
+ * call that made them.
+ */
+export function createExplorerHistorySource(
+  options: ExplorerHistorySourceOptions = {}
+): TransactionHistorySource {
+  const {
+    apiKey,
+    pageSize = 50,
+    maxPagesPerFetch = 5,
+    getTokens = getDefaultHistoryTokens
+  } = options;
+
+  const fetchListing = async (
+    action: ListAction,
+    address: string,
+    chainId: number,
+    page: number,
+    fromBlock?: string,
+    contractAddress?: string
+  ): Promise<ExplorerTransaction[]> => {
+    const params = new URLSearchParams({
+      module: 'account',
+      action,
+      address,
+      startblock: fromBlock ?? '0',
+      page: String(page),
+      offset: String(pageSize),
+      sort: 'desc'
+    });
+    if (contractAddress) {
+      params.set('contractaddress', contractAddress);
+    }
+    if (apiKey) {
+      params.set('apikey', apiKey);
+    }
+
+    const fetchImpl = options.fetch ?? fetch;
+    const response = await fetchImpl(`${getExplorerApiUrl(chainId)}?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error(`Explorer API responded with HTTP ${response.status}`);
+    }
+
+    const body = (await response.json()) as ExplorerResponse<ExplorerTransaction[] | string>;
+    if (Array.isArray(body.result)) {
+      return body.result;
+    }
+    // Etherscan-style APIs report an empty history as status "0"
+    if (body.message === 'No transactions found' || body.message === 'No token transfers found') {
+      return [];
+    }
+    throw new Error(`Explorer API error: ${typeof body.result === 'string' ? body.result : body.message}`);
+  };
+
+  return {
+    id: 'explorer',
+
+    supportsChain: hasExplorerApi,
+
+    async fetchPage({
+      address,
+      chainId,
+      limit = 10,
+      cursor,
+      fromBlock,
+      filters
+    }: TransactionQueryOptions): Promise<PaginatedTransactions> {
+      const offsets = cursor ? decodeCursor(cursor) : { txlist: 0, tokentx: 0 };
+      const tokens = getTokens(chainId);
+      const tokenFilter = filters?.token && filters.token !== 'all' && filters.token !== 'native'
+        ? filters.token
+        : undefined;
+
+      const actions: ListAction[] = filters?.token === 'native' || tokens.length === 0
+        ? ['txlist']
+        : tokenFilter
+          ? ['tokentx']
+          : ['txlist', 'tokentx'];
+      const listings: Listing[] = actions.map((action) => ({
+        action,
+        offset: offsets[action],
+        end: Number.POSITIVE_INFINITY
+      }));
+
+      const transactions: CeloTransaction[] = [];
+      let fetched = 0;
+
+      while (transactions.length < limit) {
+        // Load the page holding the next entry of every unfinished listing
+        for (const listing of listings) {
+          if (listing.offset >= listing.end || peek(listing) || fetched >= maxPagesPerFetch) {
+            continue;
+          }
+          const start = listing.offset - (listing.offset % pageSize);
+          const entries = await fetchListing(
+            listing.action,
+            address,
+            chainId,
+            start / pageSize + 1,
+            fromBlock,
+            listing.action === 'tokentx' ? tokenFilter : undefined
+          );
+          fetched++;
+          listing.page = { start, entries };
+          if (entries.length < pageSize) {
+            listing.end = start + entries.length;
+          }
+        }
+
+        const heads = listings
+          .filter((listing) => listing.offset < listing.end)
+          .map((listing) => ({ listing, entry: peek(listing) }));
+        // Out of request budget before every listing could be compared
+        if (heads.length === 0 || heads.some((head) => !head.entry)) {
+          break;
+        }
+
+        const { listing: next, entry } = heads.reduce((newest, head) =>
+          Number(head.entry?.blockNumber ?? 0) > Number(newest.entry?.blockNumber ?? 0) ? head : newest
+        );
+        if (!entry) {
+          break;
+        }
+        next.offset++;
+
+        if (next.action === 'txlist') {
+          const calledToken = entry.to && findToken(tokens, entry.to);
+          const selector = entry.input?.slice(0, 10).toLowerCase() ?? '';
+          // Represented by the matching tokentx entry
+          if (calledToken && TOKEN_TRANSFER_SELECTORS.includes(selector)) {
+            continue;
+          }
+          const tx = transformExplorerTransaction(entry, address, chainId);
+          if (matchesTransactionFilters(tx, filters)) {
+            transactions.push(tx);
+          }
+        } else {
+          const token = findToken(tokens, entry.contractAddress ?? '');
+          if (!token) {
+            continue;
+          }
+          const tx = transformExplorerTokenTransfer(entry, token, address, chainId);
+          if (matchesTransactionFilters(tx, filters)) {
+            transactions.push(tx);
+          }
+        }
+      }
+
+      const hasMore = listings.some((listing) => listing.offset < listing.end);
+
+      return {
+        transactions,
+        total: transactions.length,
+        hasMore,
+        nextCursor: hasMore ? encodeCursor(listings) : undefined
+      };
+    }
+  };
+}
@@ -0,0 +1,119 @@
+import { getAddress, parseAbi, type Address, type Hex, type PublicClient } from 'viem';
+import type { FeeCurrency, TokenInfo } from '../types/token';
+import { findToken, getTokenRegistry } from '../config/tokens';
+import {
+  CELO_REGISTRY_ADDRESS,
+  FEE_CURRENCY_DIRECTORY_ADDRESSES,
+  getFeeCurrencyToken
+} from '../config/feeCurrencies';
+import { fetchTokenInfo } from './customTokens';
+
+export const FEE_CURRENCY_DIRECTORY_ABI = parseAbi([
+  'function getCurrencies() view returns (address[])'
+]);
+
+export const CELO_REGISTRY_ABI = parseAbi([
+  'function getAddressForStringOrDie(string identifier) view returns (address)'
+]);
+
+export const FEE_CURRENCY_WHITELIST_ABI = parseAbi([
+  'function getWhitelist() view returns (address[])'
+]);
+
+const NATIVE_DECIMALS = 18;
+
+type GasPriceInFeeCurrencySchema = {
+  Method: 'eth_gasPrice';
+  Parameters: [Address];
+  ReturnType: Hex;
+};
+
+/**
+ * Addresses accepted as `feeCurrency` on a chain, read from the
+ * FeeCurrencyDirectory or, where there is none, the legacy whitelist
+ */
+export async function fetchFeeCurrencyAddresses(client: PublicClient, chainId: number): Promise<Address[]> {
+  const directory = FEE_CURRENCY_DIRECTORY_ADDRESSES[chainId];
+  if (directory) {
+    try {
+      const currencies = await client.readContract({
+        address: directory,
+        abi: FEE_CURRENCY_DIRECTORY_ABI,
+        functionName: 'getCurrencies'
+      });
+      return [...currencies];
+    } catch {
+      // Directory not deployed or not readable: the legacy whitelist still lists the currencies
+    }
+  }
+
+  const whitelist = await client.readContract({
+    address: CELO_REGISTRY_ADDRESS,
+    abi: CELO_REGISTRY_ABI,
+    functionName: 'getAddressForStringOrDie',
+    args: ['FeeCurrencyWhitelist']
+  });
+  const currencies = await client.readContract({
+    address: whitelist,
+    abi: FEE_CURRENCY_WHITELIST_ABI,
+    functionName: 'getWhitelist'
+  });
+  return [...currencies];
+}
+
+/**
+ * Fee currencies of a chain with the token each one charges. Known tokens
+ * come from `tokens`; others are looked up on chain, and skipped when that fails.
+ */
+export async function fetchFeeCurrencies(
+  client: PublicClient,
+  chainId: number,
+  tokens: readonly TokenInfo[] = getTokenRegistry(chainId)
+): Promise<FeeCurrency[]> {
+  const addresses = await fetchFeeCurrencyAddresses(client, chainId);
+
+  const resolved = await Promise.allSettled(addresses.map(async (address): Promise<FeeCurrency> => {
+    const adaptedToken = getFeeCurrencyToken(chainId, address);
+    const tokenAddress = adaptedToken ?? address;
+    const token = findToken(tokens, tokenAddress) ?? await fetchTokenInfo(client, chainId, tokenAddress);
+    return {
+      address: getAddress(address),
+      token,
+      decimals: adaptedToken ? NATIVE_DECIMALS : token.decimals
+    };
+  }));
+
+  return resolved
+    .filter((result): result is PromiseFulfilledResult<FeeCurrency> => result.status === 'fulfilled')
+    .map((result) => result.value);
+}
+
+/**
+ * Gas price quoted in a fee currency, or in CELO wei without one
+ */
+export async function getGasPriceInFeeCurrency(
+  client: PublicClient,
+  feeCurrency?: FeeCurrency
+): Promise<bigint> {
+  if (!feeCurrency) {
+    return client.getGasPrice();
+  }
+  const price = await client.request<GasPriceInFeeCurrencySchema>({
+    method: 'eth_gasPrice',
+    params: [feeCurrency.address]
+  });
+  return BigInt(price);
+}
+
+/**
+ * Convert a fee quoted in a fee currency to units of the token it is charged
+ * in, rounding up so balance checks never come out short
+ */
+export function toFeeTokenAmount(fee: bigint, feeCurrency: FeeCurrency): bigint {
+  const scale = feeCurrency.decimals - feeCurrency.token.decimals;
+  if (scale <= 0) {
+    return fee;
+  }
+  const divisor = BigInt(10) ** BigInt(scale);
+  return (fee + divisor - BigInt(1)) / divisor;
+}
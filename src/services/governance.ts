@@ -0,0 +1,503 @@
+import {
+  decodeFunctionData,
+  encodeFunctionData,
+  erc20Abi,
+  parseAbi,
+  sliceHex,
+  zeroAddress,
+  type Abi,
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient
+} from 'viem';
+import type {
+  GovernanceAccount,
+  GovernanceAction,
+  GovernanceError,
+  Proposal,
+  ProposalStage,
+  ProposalTransaction,
+  ProposalVoteValue
+} from '../types/governance';
+import type { CeloTransaction } from '../types/transaction';
+import { getSharedCoreContractLookup, type CoreContractLookup, type CoreContractName } from './coreContracts';
+import { ACCOUNTS_ABI, ELECTION_ABI, LOCKED_GOLD_ABI, type StakingCall } from './staking';
+import { VALIDATORS_ABI } from './validatorGroups';
+import { scanLogs, scanLogsBackward, type LogScanOptions } from './logScan';
+
+export const GOVERNANCE_ABI = parseAbi([
+  'function getQueue() view returns (uint256[] proposalIds, uint256[] upvotes)',
+  'function getDequeue() view returns (uint256[])',
+  'function getProposalStage(uint256 proposalId) view returns (uint8)',
+  'function getProposal(uint256 proposalId) view returns (address proposer, uint256 deposit, uint256 timestamp, uint256 transactionCount, string descriptionUrl, uint256 networkWeight, bool approved)',
+  'function getProposalTransaction(uint256 proposalId, uint256 index) view returns (uint256 value, address destination, bytes data)',
+  'function getVoteTotals(uint256 proposalId) view returns (uint256 yes, uint256 no, uint256 abstain)',
+  'function getUpvoteRecord(address account) view returns (uint256 proposalId, uint256 weight)',
+  'function getVoteRecord(address account, uint256 index) view returns (uint256 proposalId, uint256 value, uint256 weight, uint256 yesVotes, uint256 noVotes, uint256 abstainVotes)',
+  'function propose(uint256[] values, address[] destinations, bytes data, uint256[] dataLengths, string descriptionUrl) payable returns (uint256)',
+  'function upvote(uint256 proposalId, uint256 lesser, uint256 greater) returns (bool)',
+  'function revokeUpvote(uint256 lesser, uint256 greater) returns (bool)',
+  'function vote(uint256 proposalId, uint256 index, uint8 value) returns (bool)',
+  'event ProposalQueued(uint256 indexed proposalId, address indexed proposer, uint256 transactionCount, uint256 deposit, uint256 timestamp)',
+  'event ProposalExecuted(uint256 indexed proposalId)'
+]);
+
+// Proposals.Stage, by value; None and Expiration are left out of listings
+const STAGES: Array<ProposalStage | null> = [null, 'Queued', 'Approval', 'Referendum', 'Execution', null];
+
+// Proposals.VoteValue
+const VOTE_VALUES: Record<ProposalVoteValue, number> = { abstain: 1, no: 2, yes: 3 };
+
+// Core contracts whose calls proposals get decoded against
+const DECODABLE_CONTRACTS: Array<{ name: CoreContractName; abi: Abi }> = [
+  { name: 'Accounts', abi: ACCOUNTS_ABI },
+  { name: 'Election', abi: ELECTION_ABI },
+  { name: 'Governance', abi: GOVERNANCE_ABI },
+  { name: 'LockedGold', abi: LOCKED_GOLD_ABI },
+  { name: 'Validators', abi: VALIDATORS_ABI }
+];
+
+export interface GovernanceContracts {
+  governance: Address;
+  lockedGold: Address;
+}
+
+/**
+ * A transaction to send for a governance action
+ */
+export type GovernanceCall = StakingCall;
+
+/**
+ * A known contract proposal transactions are decoded against
+ */
+export interface ProposalDecoder {
+  name: string;
+  address: Address;
+  abi: Abi;
+}
+
+interface QueueEntry {
+  id: bigint;
+  upvotes: bigint;
+}
+
+const ZERO = BigInt(0);
+
+const sameAddress = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+export async function getGovernanceContracts(
+  client: PublicClient,
+  chainId: number,
+  lookup: CoreContractLookup = getSharedCoreContractLookup()
+): Promise<GovernanceContracts> {
+  const [governance, lockedGold] = await Promise.all([
+    lookup(client, chainId, 'Governance'),
+    lookup(client, chainId, 'LockedGold')
+  ]);
+  return { governance, lockedGold };
+}
+
+/**
+ * Decoders for the core contracts registered on a chain; contracts missing
+ * from the registry are skipped
+ */
+export async function readProposalDecoders(
+  client: PublicClient,
+  chainId: number,
+  lookup: CoreContractLookup = getSharedCoreContractLookup()
+): Promise<ProposalDecoder[]> {
+  const decoders = await Promise.all(DECODABLE_CONTRACTS.map(async ({ name, abi }): Promise<ProposalDecoder | null> => {
+    const address = await lookup(client, chainId, name).catch(() => undefined);
+    return address ? { name, address, abi } : null;
+  }));
+  return decoders.filter((decoder): decoder is ProposalDecoder => decoder !== null);
+}
+
+/**
+ * Name the contract a proposal transaction calls and decode the call when its
+ * ABI is known. Calls to other contracts are tried as ERC-20 calls, which
+ * covers treasury transfers.
+ */
+export function decodeProposalTransaction(
+  transaction: Pick<ProposalTransaction, 'destination' | 'value' | 'data'>,
+  decoders: readonly ProposalDecoder[]
+): ProposalTransaction {
+  const decoder = decoders.find((candidate) => sameAddress(candidate.address, transaction.destination));
+  const decoded: ProposalTransaction = decoder ? { ...transaction, contract: decoder.name } : { ...transaction };
+  if (transaction.data === '0x') {
+    return decoded;
+  }
+
+  try {
+    const { functionName, args } = decodeFunctionData({ abi: decoder?.abi ?? erc20Abi, data: transaction.data });
+    return { ...decoded, functionName, args: args ?? [] };
+  } catch {
+    return decoded;
+  }
+}
+
+/**
+ * Split the transactions of a `propose` call, whose call data is packed
+ * into one byte string
+ */
+export function decodeProposeInput(input: Hex): Pick<Proposal, 'descriptionUrl' | 'transactions'> | null {
+  let decoded;
+  try {
+    decoded = decodeFunctionData({ abi: GOVERNANCE_ABI, data: input });
+  } catch {
+    return null;
+  }
+  if (decoded.functionName !== 'propose') {
+    return null;
+  }
+
+  const [values, destinations, data, dataLengths, descriptionUrl] = decoded.args;
+  let offset = 0;
+  const transactions = destinations.map((destination, index): ProposalTransaction => {
+    const length = Number(dataLengths[index]);
+    const slice = length === 0 ? '0x' : sliceHex(data, offset, offset + length);
+    offset += length;
+    return { destination, value: values[index], data: slice };
+  });
+  return { descriptionUrl, transactions };
+}
+
+export interface ProposalQueryOptions {
+  lookup?: CoreContractLookup;
+}
+
+/**
+ * Queued and dequeued proposals from the Governance contract. Queued
+ * proposals come in dequeue order, most upvoted first.
+ */
+export async function fetchProposals(
+  client: PublicClient,
+  chainId: number,
+  { lookup = getSharedCoreContractLookup() }: ProposalQueryOptions = {}
+): Promise<Proposal[]> {
+  const governance = await lookup(client, chainId, 'Governance');
+  const [decoders, [queuedIds, upvotes], dequeue] = await Promise.all([
+    readProposalDecoders(client, chainId, lookup),
+    client.readContract({ address: governance, abi: GOVERNANCE_ABI, functionName: 'getQueue' }),
+    client.readContract({ address: governance, abi: GOVERNANCE_ABI, functionName: 'getDequeue' })
+  ]);
+
+  const readLive = async (id: bigint, upvoteCount: bigint, index?: number): Promise<Proposal | null> => {
+    const [stage, [proposer, deposit, timestamp, transactionCount, descriptionUrl], [yes, no, abstain]] =
+      await Promise.all([
+        client.readContract({ address: governance, abi: GOVERNANCE_ABI, functionName: 'getProposalStage', args: [id] }),
+        client.readContract({ address: governance, abi: GOVERNANCE_ABI, functionName: 'getProposal', args: [id] }),
+        client.readContract({ address: governance, abi: GOVERNANCE_ABI, functionName: 'getVoteTotals', args: [id] })
+      ]);
+    const name = STAGES[stage];
+    if (!name) {
+      return null;
+    }
+
+    const transactions = await Promise.all(Array.from({ length: Number(transactionCount) }, async (_, position) => {
+      const [value, destination, data] = await client.readContract({
+        address: governance,
+        abi: GOVERNANCE_ABI,
+        functionName: 'getProposalTransaction',
+        args: [id, BigInt(position)]
+      });
+      return decodeProposalTransaction({ destination, value, data }, decoders);
+    }));
+
+    return {
+      id,
+      stage: name,
+      proposer,
+      deposit,
+      timestamp: Number(timestamp),
+      descriptionUrl,
+      transactionCount: Number(transactionCount),
+      transactions,
+      upvotes: upvoteCount,
+      votes: { yes, no, abstain },
+      ...(index === undefined ? {} : { index })
+    };
+  };
+
+  const live = await Promise.all([
+    ...queuedIds.map((id, position) => readLive(id, upvotes[position])),
+    // Emptied slots of the dequeue hold 0
+    ...dequeue.flatMap((id, index) => (id === ZERO ? [] : [readLive(id, ZERO, index)]))
+  ]);
+
+  return live.filter((proposal): proposal is Proposal => proposal !== null);
+}
+
+export interface ExecutedProposalQueryOptions extends LogScanOptions {
+  lookup?: CoreContractLookup;
+  /** First block to read executed proposals from */
+  fromBlock: bigint;
+  /** Last block to read; the chain head by default */
+  toBlock?: bigint;
+  /** Most recent executed proposals to list */
+  limit?: number;
+}
+
+/**
+ * The most recently executed proposals, newest first. Events are read from
+ * the head down in bounded chunks until `limit` proposals are found.
+ */
+export async function fetchExecutedProposals(
+  client: PublicClient,
+  chainId: number,
+  { lookup = getSharedCoreContractLookup(), fromBlock, toBlock, limit = 10, ...scan }: ExecutedProposalQueryOptions
+): Promise<Proposal[]> {
+  if (limit <= 0) {
+    return [];
+  }
+
+  const governance = await lookup(client, chainId, 'Governance');
+  const range = { fromBlock, toBlock: toBlock ?? await client.getBlockNumber() };
+  const [decoders, executedLogs] = await Promise.all([
+    readProposalDecoders(client, chainId, lookup),
+    scanLogsBackward(range, (chunk) => client.getContractEvents({
+      address: governance,
+      abi: GOVERNANCE_ABI,
+      eventName: 'ProposalExecuted',
+      ...chunk
+    }), (logs) => logs.length >= limit, scan)
+  ]);
+
+  const executed = executedLogs.filter((log) => log.args.proposalId !== undefined).slice(0, limit);
+  return readExecutedProposals(client, governance, executed, decoders, { fromBlock, ...scan });
+}
+
+async function readExecutedProposals(
+  client: PublicClient,
+  governance: Address,
+  executed: ReadonlyArray<{ args: { proposalId?: bigint }; blockNumber: bigint }>,
+  decoders: readonly ProposalDecoder[],
+  { fromBlock, ...scan }: { fromBlock: bigint } & LogScanOptions
+): Promise<Proposal[]> {
+  if (executed.length === 0) {
+    return [];
+  }
+
+  // Proposals are queued before they are executed, newest first here; one
+  // queued before `fromBlock` is listed without its contents
+  const queuedLogs = await scanLogs({ fromBlock, toBlock: executed[0].blockNumber }, (chunk) => client.getContractEvents({
+    address: governance,
+    abi: GOVERNANCE_ABI,
+    eventName: 'ProposalQueued',
+    args: { proposalId: executed.map((log) => log.args.proposalId ?? ZERO) },
+    ...chunk
+  }), scan);
+
+  return Promise.all(executed.map(async (log): Promise<Proposal> => {
+    const id = log.args.proposalId ?? ZERO;
+    const queued = queuedLogs.find((entry) => entry.args.proposalId === id);
+    const proposal: Proposal = {
+      id,
+      stage: 'Executed',
+      proposer: queued?.args.proposer ?? zeroAddress,
+      deposit: queued?.args.deposit ?? ZERO,
+      timestamp: Number(queued?.args.timestamp ?? ZERO),
+      descriptionUrl: '',
+      transactionCount: Number(queued?.args.transactionCount ?? ZERO),
+      transactions: [],
+      upvotes: ZERO,
+      votes: { yes: ZERO, no: ZERO, abstain: ZERO },
+      executedBlock: log.blockNumber
+    };
+    if (!queued) {
+      return proposal;
+    }
+
+    // Executed proposals are deleted from storage; their contents are only in
+    // the proposing transaction, when it called Governance directly
+    const transaction = await client.getTransaction({ hash: queued.transactionHash }).catch(() => null);
+    const contents = transaction?.to && sameAddress(transaction.to, governance)
+      ? decodeProposeInput(transaction.input)
+      : null;
+    if (!contents) {
+      return proposal;
+    }
+    return {
+      ...proposal,
+      descriptionUrl: contents.descriptionUrl,
+      transactions: contents.transactions.map((entry) => decodeProposalTransaction(entry, decoders))
+    };
+  }));
+}
+
+/**
+ * Vote weight of an account with its upvote and its votes on the dequeued
+ * proposals
+ */
+export async function readGovernanceAccount(
+  client: PublicClient,
+  contracts: GovernanceContracts,
+  account: Address,
+  proposals: readonly Proposal[]
+): Promise<GovernanceAccount> {
+  const dequeued = proposals.filter((proposal) => proposal.index !== undefined);
+  const [weight, [upvoted], records] = await Promise.all([
+    client.readContract({
+      address: contracts.lockedGold,
+      abi: LOCKED_GOLD_ABI,
+      functionName: 'getAccountTotalLockedGold',
+      args: [account]
+    }),
+    client.readContract({
+      address: contracts.governance,
+      abi: GOVERNANCE_ABI,
+      functionName: 'getUpvoteRecord',
+      args: [account]
+    }),
+    Promise.all(dequeued.map((proposal) => client.readContract({
+      address: contracts.governance,
+      abi: GOVERNANCE_ABI,
+      functionName: 'getVoteRecord',
+      args: [account, BigInt(proposal.index ?? 0)]
+    })))
+  ]);
+
+  const votes: Record<string, ProposalVoteValue> = {};
+  dequeued.forEach((proposal, position) => {
+    const [proposalId, value, , yes, no, abstain] = records[position];
+    // Records of an earlier proposal in the same slot are stale
+    if (proposalId !== proposal.id) {
+      return;
+    }
+    const vote = yes > ZERO ? 'yes' : no > ZERO ? 'no' : abstain > ZERO ? 'abstain' : voteValueName(Number(value));
+    if (vote) {
+      votes[proposal.id.toString()] = vote;
+    }
+  });
+
+  const isQueued = proposals.some((proposal) => proposal.stage === 'Queued' && proposal.id === upvoted);
+  return { account, weight, ...(isQueued ? { upvoted } : {}), votes };
+}
+
+function voteValueName(value: number): ProposalVoteValue | undefined {
+  return (Object.keys(VOTE_VALUES) as ProposalVoteValue[]).find((name) => VOTE_VALUES[name] === value);
+}
+
+/**
+ * Neighbours of a proposal in the upvote queue once its upvotes change by
+ * `delta`, as `upvote` and `revokeUpvote` expect them; 0 when there is none
+ */
+export function findUpvoteNeighbours(
+  queue: readonly QueueEntry[],
+  proposalId: bigint,
+  delta: bigint
+): { lesser: bigint; greater: bigint } {
+  const current = queue.find((entry) => entry.id === proposalId);
+  if (!current) {
+    return { lesser: ZERO, greater: ZERO };
+  }
+  const upvotes = current.upvotes + delta;
+  const others = queue
+    .filter((entry) => entry !== current)
+    .sort((a, b) => (a.upvotes === b.upvotes ? 0 : a.upvotes > b.upvotes ? -1 : 1));
+
+  let greater = ZERO;
+  for (const entry of others) {
+    if (entry.upvotes <= upvotes) {
+      return { lesser: entry.id, greater };
+    }
+    greater = entry.id;
+  }
+  return { lesser: ZERO, greater };
+}
+
+function findProposal(proposals: readonly Proposal[], proposalId: bigint, stage: ProposalStage): Proposal {
+  const proposal = proposals.find((entry) => entry.id === proposalId);
+  if (!proposal || proposal.stage !== stage) {
+    const error: GovernanceError = {
+      message: `Proposal ${proposalId} is not ${stage === 'Queued' ? 'queued' : 'in its referendum'}`,
+      code: 'INVALID_PROPOSAL'
+    };
+    throw error;
+  }
+  return proposal;
+}
+
+/**
+ * Check a governance action against the proposals and the account, and turn
+ * it into the transactions to send. Throws a GovernanceError when the action
+ * is not possible.
+ */
+export function prepareGovernanceAction(
+  contracts: GovernanceContracts,
+  proposals: readonly Proposal[],
+  account: GovernanceAccount,
+  action: GovernanceAction
+): GovernanceCall[] {
+  if (account.weight === ZERO) {
+    const error: GovernanceError = { message: 'Lock CELO to upvote and vote on proposals', code: 'NO_VOTING_WEIGHT' };
+    throw error;
+  }
+  const governance = (data: Hex): GovernanceCall => ({ to: contracts.governance, data });
+
+  switch (action.type) {
+  case 'upvote': {
+    findProposal(proposals, action.proposalId, 'Queued');
+    if (account.upvoted === action.proposalId) {
+      const error: GovernanceError = { message: `Already upvoting proposal ${action.proposalId}`, code: 'ALREADY_UPVOTED' };
+      throw error;
+    }
+
+    const calls: GovernanceCall[] = [];
+    let queue: QueueEntry[] = proposals
+      .filter((proposal) => proposal.stage === 'Queued')
+      .map(({ id, upvotes }) => ({ id, upvotes }));
+    // Only one queued proposal can be upvoted at a time
+    if (account.upvoted !== undefined) {
+      const previous = account.upvoted;
+      const { lesser, greater } = findUpvoteNeighbours(queue, previous, -account.weight);
+      calls.push(governance(encodeFunctionData({ abi: GOVERNANCE_ABI, functionName: 'revokeUpvote', args: [lesser, greater] })));
+      queue = queue.map((entry) => (entry.id === previous ? { ...entry, upvotes: entry.upvotes - account.weight } : entry));
+    }
+    const { lesser, greater } = findUpvoteNeighbours(queue, action.proposalId, account.weight);
+    calls.push(governance(encodeFunctionData({
+      abi: GOVERNANCE_ABI,
+      functionName: 'upvote',
+      args: [action.proposalId, lesser, greater]
+    })));
+    return calls;
+  }
+
+  case 'vote': {
+    const proposal = findProposal(proposals, action.proposalId, 'Referendum');
+    return [governance(encodeFunctionData({
+      abi: GOVERNANCE_ABI,
+      functionName: 'vote',
+      args: [proposal.id, BigInt(proposal.index ?? 0), VOTE_VALUES[action.value]]
+    }))];
+  }
+  }
+}
+
+/**
+ * History entry for a governance transaction that was just submitted, shown
+ * until it is mined
+ */
+export function createPendingGovernanceTransaction(
+  from: Address,
+  call: GovernanceCall,
+  hash: Hash,
+  chainId: number,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): CeloTransaction {
+  return {
+    hash,
+    blockNumber: '0',
+    timestamp,
+    from,
+    to: call.to,
+    value: (call.value ?? ZERO).toString(),
+    gasUsed: '0',
+    gasPrice: '0',
+    status: 'pending',
+    type: 'contract',
+    confirmations: 0,
+    chainId
+  };
+}
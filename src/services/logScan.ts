@@ -0,0 +1,65 @@
+import { mapWithConcurrency } from '../utils/concurrency';
+
+const DEFAULT_CHUNK_SIZE = 2000;
+const DEFAULT_CONCURRENCY = 4;
+
+export interface BlockRange {
+  fromBlock: bigint;
+  toBlock: bigint;
+}
+
+export interface LogScanOptions {
+  /** Number of blocks per eth_getLogs request */
+  chunkSize?: number;
+  /** Maximum number of RPC requests in flight */
+  concurrency?: number;
+}
+
+/**
+ * Split a block range into chunks of at most `chunkSize` blocks, newest first
+ */
+export function chunkBlockRange(fromBlock: bigint, toBlock: bigint, chunkSize: bigint): BlockRange[] {
+  const chunks: BlockRange[] = [];
+
+  for (let upper = toBlock; upper >= fromBlock; upper -= chunkSize) {
+    const lower = upper - chunkSize + BigInt(1);
+    chunks.push({ fromBlock: lower > fromBlock ? lower : fromBlock, toBlock: upper });
+  }
+
+  return chunks;
+}
+
+/**
+ * Read the logs of a block range one chunk per request, oldest first
+ */
+export async function scanLogs<T>(
+  { fromBlock, toBlock }: BlockRange,
+  read: (range: BlockRange) => Promise<T[]>,
+  { chunkSize = DEFAULT_CHUNK_SIZE, concurrency = DEFAULT_CONCURRENCY }: LogScanOptions = {}
+): Promise<T[]> {
+  const chunks = chunkBlockRange(fromBlock, toBlock, BigInt(chunkSize)).reverse();
+  const logs = await mapWithConcurrency(chunks, concurrency, read);
+  return logs.flat();
+}
+
+/**
+ * Read the logs of a block range newest first, `concurrency` chunks at a time,
+ * stopping once `enough` holds for the logs read so far. Logs within a chunk
+ * are expected oldest first, as eth_getLogs returns them.
+ */
+export async function scanLogsBackward<T>(
+  { fromBlock, toBlock }: BlockRange,
+  read: (range: BlockRange) => Promise<T[]>,
+  enough: (logs: readonly T[]) => boolean,
+  { chunkSize = DEFAULT_CHUNK_SIZE, concurrency = DEFAULT_CONCURRENCY }: LogScanOptions = {}
+): Promise<T[]> {
+  const chunks = chunkBlockRange(fromBlock, toBlock, BigInt(chunkSize));
+  const logs: T[] = [];
+
+  for (let i = 0; i < chunks.length && !enough(logs); i += concurrency) {
+    const window = await mapWithConcurrency(chunks.slice(i, i + concurrency), concurrency, read);
+    logs.push(...window.flatMap((chunk) => [...chunk].reverse()));
+  }
+
+  return logs;
+}
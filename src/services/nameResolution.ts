@@ -0,0 +1,241 @@
+import { isAddress, parseAbi, type Address, type Hex, type PublicClient } from 'viem';
+import { normalize } from 'viem/ens';
+import type { NameError, NameQuery, NameResolver, ResolvedName } from '../types/names';
+import { createViemClient } from '../utils/publicClient';
+import { createCoreContractLookup } from './coreContracts';
+
+export const FEDERATED_ATTESTATIONS_ABI = parseAbi([
+  'function lookupAttestations(bytes32 identifier, address[] trustedIssuers) view returns (uint256[] countsPerIssuer, address[] accounts, address[] signers, uint64[] issuedOns, uint64[] publishedOns)'
+]);
+
+const PHONE_PATTERN = /^\+[1-9]\d{6,14}$/;
+const TWITTER_PATTERN = /^@[A-Za-z0-9_]{1,15}$/;
+const NAME_PATTERN = /^[^\s.]+(\.[^\s.]+)+$/;
+const DEFAULT_TTL = 10 * 60 * 1000;
+
+/**
+ * Read a name typed by the user, or `undefined` when it is an address or not a name at all
+ */
+export function parseNameQuery(input: string): NameQuery | undefined {
+  const value = input.trim();
+  if (!value || isAddress(value)) {
+    return undefined;
+  }
+  const phone = value.replace(/[\s().-]/g, '');
+  if (PHONE_PATTERN.test(phone)) {
+    return { kind: 'phone', value: phone };
+  }
+  if (TWITTER_PATTERN.test(value)) {
+    return { kind: 'twitter', value: value.slice(1).toLowerCase() };
+  }
+  if (NAME_PATTERN.test(value)) {
+    try {
+      return { kind: 'name', value: normalize(value) };
+    } catch {
+      // Characters ENSIP-15 does not allow
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+export interface EnsNameResolverOptions {
+  getClient?: (chainId: number) => PublicClient;
+  /** Name endings the resolver answers for */
+  suffixes?: readonly string[];
+}
+
+/**
+ * ENS-compatible names such as Celo Names' `.celo`, through the universal
+ * resolver of the chain (`contracts.ensUniversalResolver`). Chains without
+ * one resolve nothing.
+ */
+export function createEnsNameResolver({
+  getClient = createViemClient,
+  suffixes = ['.celo']
+}: EnsNameResolverOptions = {}): NameResolver {
+  const hasSuffix = (name: string): boolean => suffixes.some((suffix) => name.endsWith(suffix));
+  const clients = new Map<number, PublicClient>();
+  const getResolverClient = (chainId: number): PublicClient | undefined => {
+    const client = clients.get(chainId) ?? getClient(chainId);
+    clients.set(chainId, client);
+    return client.chain?.contracts?.ensUniversalResolver ? client : undefined;
+  };
+
+  return {
+    id: 'ens',
+
+    supports(query) {
+      return query.kind === 'name' && hasSuffix(query.value);
+    },
+
+    async resolve(query, chainId) {
+      const client = getResolverClient(chainId);
+      if (!client) {
+        return undefined;
+      }
+      return (await client.getEnsAddress({ name: query.value })) ?? undefined;
+    },
+
+    async reverse(address, chainId) {
+      const client = getResolverClient(chainId);
+      if (!client) {
+        return undefined;
+      }
+      // The universal resolver checks that the name points back to the address
+      const name = await client.getEnsName({ address });
+      return name && hasSuffix(name) ? name : undefined;
+    }
+  };
+}
+
+export interface SocialConnectResolverOptions {
+  getClient?: (chainId: number) => PublicClient;
+  /**
+   * Obfuscated identifier of a phone number or handle, as registered by the
+   * issuers. It takes a pepper from ODIS, e.g. through `@celo/identity` or
+   * the issuer's own backend.
+   */
+  getObfuscatedIdentifier(query: NameQuery, chainId: number): Promise<Hex>;
+  /** Issuers whose attestations are trusted, per chain id */
+  trustedIssuers: Record<number, readonly Address[]>;
+}
+
+/**
+ * SocialConnect phone numbers and Twitter handles, looked up in the
+ * FederatedAttestations contract. The most recently issued attestation wins.
+ * Attestations cannot be reverse-resolved without the plain identifier.
+ */
+export function createSocialConnectResolver({
+  getClient = createViemClient,
+  getObfuscatedIdentifier,
+  trustedIssuers
+}: SocialConnectResolverOptions): NameResolver {
+  const getCoreContract = createCoreContractLookup();
+
+  return {
+    id: 'socialconnect',
+
+    supports(query) {
+      return query.kind === 'phone' || query.kind === 'twitter';
+    },
+
+    async resolve(query, chainId) {
+      const issuers = trustedIssuers[chainId] ?? [];
+      if (issuers.length === 0) {
+        return undefined;
+      }
+      const client = getClient(chainId);
+      const [identifier, contract] = await Promise.all([
+        getObfuscatedIdentifier(query, chainId),
+        getCoreContract(client, chainId, 'FederatedAttestations')
+      ]);
+      const [, accounts, , issuedOns] = await client.readContract({
+        address: contract,
+        abi: FEDERATED_ATTESTATIONS_ABI,
+        functionName: 'lookupAttestations',
+        args: [identifier, [...issuers]]
+      });
+
+      let latest = -1;
+      accounts.forEach((_account, index) => {
+        if (latest === -1 || issuedOns[index] > issuedOns[latest]) {
+          latest = index;
+        }
+      });
+      return latest === -1 ? undefined : accounts[latest];
+    }
+  };
+}
+
+/**
+ * Resolvers tried in order, with cached results
+ */
+export interface NameService {
+  /**
+   * Address of a name. Throws a NameError with code INVALID_NAME when the input
+   * is not a name, or NAME_NOT_FOUND when no resolver knows it.
+   */
+  resolve(input: string, chainId: number): Promise<ResolvedName>;
+  /** Name to show for an address, `undefined` when it has none */
+  lookupName(address: string, chainId: number): Promise<string | undefined>;
+}
+
+export interface NameServiceOptions {
+  resolvers: readonly NameResolver[];
+  /** How long results are reused, in milliseconds */
+  ttl?: number;
+  now?: () => number;
+}
+
+export function createNameService({ resolvers, ttl = DEFAULT_TTL, now = Date.now }: NameServiceOptions): NameService {
+  const cache = new Map<string, { expiresAt: number; value: Promise<unknown> }>();
+
+  // Share lookups in flight and results until they expire; failures are retried
+  const cached = <T>(key: string, lookup: () => Promise<T>): Promise<T> => {
+    const entry = cache.get(key);
+    if (entry && entry.expiresAt > now()) {
+      return entry.value as Promise<T>;
+    }
+    const value = lookup();
+    value.catch(() => cache.delete(key));
+    cache.set(key, { expiresAt: now() + ttl, value });
+    return value;
+  };
+
+  return {
+    resolve(input, chainId) {
+      const query = parseNameQuery(input);
+      if (!query) {
+        const error: NameError = { message: `"${input.trim()}" is not a name or identifier`, code: 'INVALID_NAME' };
+        return Promise.reject(error);
+      }
+
+      return cached(`resolve:${chainId}:${query.kind}:${query.value}`, async () => {
+        let lastError: unknown;
+        for (const resolver of resolvers.filter((candidate) => candidate.supports(query))) {
+          try {
+            const address = await resolver.resolve(query, chainId);
+            if (address) {
+              return { name: input.trim(), address, resolver: resolver.id };
+            }
+          } catch (cause) {
+            lastError = cause;
+          }
+        }
+        // A failing resolver is not the same as an unknown name
+        if (lastError) {
+          throw lastError;
+        }
+        const error: NameError = { message: `No address found for ${input.trim()}`, code: 'NAME_NOT_FOUND' };
+        throw error;
+      });
+    },
+
+    lookupName(address, chainId) {
+      if (!isAddress(address)) {
+        return Promise.resolve(undefined);
+      }
+      return cached(`reverse:${chainId}:${address.toLowerCase()}`, async () => {
+        for (const resolver of resolvers) {
+          const name = await resolver.reverse?.(address, chainId);
+          if (name) {
+            return name;
+          }
+        }
+        return undefined;
+      });
+    }
+  };
+}
+
+let sharedNameService: NameService | null = null;
+
+/**
+ * Name service over the ENS-compatible resolvers of the registry chains.
+ * SocialConnect needs an ODIS setup, so apps add it with `createNameService`.
+ */
+export function getSharedNameService(): NameService {
+  sharedNameService ??= createNameService({ resolvers: [createEnsNameResolver()] });
+  return sharedNameService;
+}
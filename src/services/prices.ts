@@ -0,0 +1,336 @@
+import type { CeloTransaction } from '../types/transaction';
+import type { PriceError, PricedAsset, PriceProvider } from '../types/price';
+import type { TokenInfo } from '../types/token';
+import { getCeloChain } from '../config/celoChains';
+import { COINGECKO_ASSET_IDS, DEFAULT_FIAT_CURRENCY } from '../config/fiatCurrencies';
+import { getWalletErrorMessage } from './walletErrors';
+import { getTransactionKey } from '../utils/transactionHelpers';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+const FIAT_CURRENCY_KEY = 'celo-wallet:fiat-currency';
+const DAY = 86400;
+
+/**
+ * Key of an asset in price maps
+ */
+export function getPriceKey(asset: PricedAsset): string {
+  return `${asset.chainId}:${asset.address?.toLowerCase() ?? 'native'}`;
+}
+
+/**
+ * The asset a token stands for in price lookups
+ */
+export function tokenToPricedAsset(token: TokenInfo): PricedAsset {
+  return { chainId: token.chainId, address: token.address, symbol: token.symbol };
+}
+
+/**
+ * Native CELO of a chain
+ */
+export function nativePricedAsset(chainId: number): PricedAsset {
+  return { chainId, symbol: getCeloChain(chainId)?.nativeCurrency.symbol ?? 'CELO' };
+}
+
+/**
+ * The asset a history entry moved
+ */
+export function transactionToPricedAsset(tx: CeloTransaction): PricedAsset {
+  return tx.tokenAddress
+    ? { chainId: tx.chainId, address: tx.tokenAddress, symbol: tx.tokenSymbol ?? '' }
+    : nativePricedAsset(tx.chainId);
+}
+
+/**
+ * Requests and responses of one HTTP price API, so that providers other
+ * than CoinGecko only need a new adapter
+ */
+export interface HttpPriceApi {
+  /** Id of an asset in the API, `undefined` when it has no price */
+  getAssetId(asset: PricedAsset): string | undefined;
+  currentPricesUrl(ids: readonly string[], currency: string): string;
+  readCurrentPrice(body: unknown, id: string, currency: string): number | undefined;
+  historicalPriceUrl(id: string, currency: string, timestamp: number): string;
+  readHistoricalPrice(body: unknown, currency: string): number | undefined;
+  /** Seconds one historical price covers; lookups within the same span share a request */
+  historyResolution: number;
+}
+
+export interface CoinGeckoPriceApiOptions {
+  baseUrl?: string;
+  /** CoinGecko ids by chain id, then lowercase token address or `native` */
+  ids?: Record<number, Record<string, string>>;
+}
+
+function readNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function readPath(body: unknown, path: readonly string[]): unknown {
+  return path.reduce<unknown>(
+    (node, key) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined),
+    body
+  );
+}
+
+/**
+ * CoinGecko's public API, with daily historical prices. Only assets listed in
+ * `ids` have a price, so testnet assets and unknown contracts have none.
+ */
+export function createCoinGeckoPriceApi({
+  baseUrl = 'https://api.coingecko.com/api/v3',
+  ids = COINGECKO_ASSET_IDS
+}: CoinGeckoPriceApiOptions = {}): HttpPriceApi {
+  return {
+    getAssetId(asset) {
+      return ids[asset.chainId]?.[asset.address?.toLowerCase() ?? 'native'];
+    },
+
+    currentPricesUrl(assetIds, currency) {
+      return `${baseUrl}/simple/price?ids=${assetIds.join(',')}&vs_currencies=${currency.toLowerCase()}`;
+    },
+
+    readCurrentPrice(body, id, currency) {
+      return readNumber(readPath(body, [id, currency.toLowerCase()]));
+    },
+
+    historicalPriceUrl(id, _currency, timestamp) {
+      // Dates are DD-MM-YYYY, in UTC
+      const [year, month, day] = new Date(timestamp * 1000).toISOString().slice(0, 10).split('-');
+      return `${baseUrl}/coins/${id}/history?date=${day}-${month}-${year}&localization=false`;
+    },
+
+    readHistoricalPrice(body, currency) {
+      return readNumber(readPath(body, ['market_data', 'current_price', currency.toLowerCase()]));
+    },
+
+    historyResolution: DAY
+  };
+}
+
+export interface HttpPriceProviderOptions {
+  api?: HttpPriceApi;
+  /** Replaces `fetch`, e.g. to add an API key or to stub the API in tests */
+  fetchFn?: typeof fetch;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Prices from an HTTP API. Historical prices are cached for the session,
+ * since they do not change.
+ */
+export function createHttpPriceProvider({
+  api = createCoinGeckoPriceApi(),
+  fetchFn = (...args) => fetch(...args),
+  headers
+}: HttpPriceProviderOptions = {}): PriceProvider {
+  const history = new Map<string, Promise<number | undefined>>();
+
+  const request = async (url: string): Promise<unknown> => {
+    let response: Response;
+    try {
+      response = await fetchFn(url, { headers });
+    } catch (cause) {
+      const error: PriceError = { message: getWalletErrorMessage('RPC_UNAVAILABLE'), code: 'RPC_UNAVAILABLE', details: cause };
+      throw error;
+    }
+    if (response.status === 429) {
+      const error: PriceError = { message: getWalletErrorMessage('RATE_LIMITED'), code: 'RATE_LIMITED', details: response };
+      throw error;
+    }
+    if (!response.ok) {
+      const error: PriceError = {
+        message: `Prices are unavailable right now (HTTP ${response.status})`,
+        code: 'PRICE_UNAVAILABLE',
+        details: response
+      };
+      throw error;
+    }
+    return response.json();
+  };
+
+  return {
+    id: 'http',
+
+    async getPrices(assets, currency) {
+      const ids = new Map<string, string>();
+      for (const asset of assets) {
+        const id = api.getAssetId(asset);
+        if (id) {
+          ids.set(getPriceKey(asset), id);
+        }
+      }
+      if (ids.size === 0) {
+        return {};
+      }
+
+      const body = await request(api.currentPricesUrl([...new Set(ids.values())], currency));
+      const prices: Record<string, number> = {};
+      ids.forEach((id, key) => {
+        const price = api.readCurrentPrice(body, id, currency);
+        if (price !== undefined) {
+          prices[key] = price;
+        }
+      });
+      return prices;
+    },
+
+    getHistoricalPrice(asset, currency, timestamp) {
+      const id = api.getAssetId(asset);
+      if (!id) {
+        return Promise.resolve(undefined);
+      }
+      const span = Math.floor(timestamp / api.historyResolution) * api.historyResolution;
+      const key = `${id}:${currency}:${span}`;
+      let price = history.get(key);
+      if (!price) {
+        price = request(api.historicalPriceUrl(id, currency, span))
+          .then((body) => api.readHistoricalPrice(body, currency));
+        // Failures are retried on the next lookup
+        price.catch(() => history.delete(key));
+        history.set(key, price);
+      }
+      return price;
+    }
+  };
+}
+
+export interface FixturePrices {
+  /** Current prices by currency, then `getPriceKey` of the asset */
+  current: Record<string, Record<string, number>>;
+  /** `[timestamp, price]` points by currency, then price key, oldest first; each holds until the next */
+  history?: Record<string, Record<string, ReadonlyArray<readonly [number, number]>>>;
+}
+
+/**
+ * Fixed prices by asset, for tests, stories and offline demos
+ */
+export function createFixturePriceProvider({ current, history = {} }: FixturePrices): PriceProvider {
+  return {
+    id: 'fixture',
+
+    async getPrices(assets, currency) {
+      const prices: Record<string, number> = {};
+      for (const asset of assets) {
+        const price = current[currency]?.[getPriceKey(asset)];
+        if (price !== undefined) {
+          prices[getPriceKey(asset)] = price;
+        }
+      }
+      return prices;
+    },
+
+    async getHistoricalPrice(asset, currency, timestamp) {
+      const points = history[currency]?.[getPriceKey(asset)] ?? [];
+      let price: number | undefined;
+      for (const [time, value] of points) {
+        if (time > timestamp) {
+          break;
+        }
+        price = value;
+      }
+      return price;
+    }
+  };
+}
+
+export interface HistoricalPricesOptions {
+  /** Lookups in flight at most */
+  concurrency?: number;
+  /** Retries of a lookup the price API rate limited */
+  retryCount?: number;
+  /** Base delay before a retry, doubled on each attempt, in milliseconds */
+  retryDelay?: number;
+}
+
+const wait = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Price of the moved asset at the time of each transaction, keyed by
+ * `getTransactionKey`. Each lookup settles on its own: transactions whose
+ * price is unknown or could not be fetched are left out.
+ */
+export async function getHistoricalPrices(
+  provider: PriceProvider,
+  transactions: readonly CeloTransaction[],
+  currency: string,
+  { concurrency = 4, retryCount = 2, retryDelay = 1000 }: HistoricalPricesOptions = {}
+): Promise<Record<string, number>> {
+  const lookup = async (tx: CeloTransaction): Promise<number | undefined> => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await provider.getHistoricalPrice(transactionToPricedAsset(tx), currency, tx.timestamp);
+      } catch (error) {
+        if (attempt >= retryCount || (error as PriceError | null)?.code !== 'RATE_LIMITED') {
+          return undefined;
+        }
+        await wait(retryDelay * 2 ** attempt);
+      }
+    }
+  };
+  const prices = await mapWithConcurrency(transactions, concurrency, lookup);
+  const byKey: Record<string, number> = {};
+  transactions.forEach((tx, index) => {
+    const price = prices[index];
+    if (price !== undefined) {
+      byKey[getTransactionKey(tx)] = price;
+    }
+  });
+  return byKey;
+}
+
+type FiatCurrencyListener = (currency: string) => void;
+
+/**
+ * The fiat currency values are shown in, chosen by the user
+ */
+export interface FiatCurrencyStore {
+  get(): string;
+  set(currency: string): void;
+  subscribe(listener: FiatCurrencyListener): () => void;
+}
+
+/**
+ * Fiat currency choice kept in Web Storage, or in memory without one
+ */
+export function createFiatCurrencyStore(
+  storage?: Storage,
+  key: string = FIAT_CURRENCY_KEY
+): FiatCurrencyStore {
+  let currency = storage?.getItem(key) ?? DEFAULT_FIAT_CURRENCY;
+  const listeners = new Set<FiatCurrencyListener>();
+
+  return {
+    get() {
+      return currency;
+    },
+
+    set(next) {
+      if (next === currency) {
+        return;
+      }
+      currency = next;
+      storage?.setItem(key, next);
+      listeners.forEach((listener) => listener(currency));
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
+
+let sharedFiatCurrency: FiatCurrencyStore | null = null;
+let sharedPriceProvider: PriceProvider | null = null;
+
+export function getSharedFiatCurrencyStore(): FiatCurrencyStore {
+  sharedFiatCurrency ??= createFiatCurrencyStore(typeof localStorage === 'undefined' ? undefined : localStorage);
+  return sharedFiatCurrency;
+}
+
+export function getSharedPriceProvider(): PriceProvider {
+  sharedPriceProvider ??= createHttpPriceProvider();
+  return sharedPriceProvider;
+}
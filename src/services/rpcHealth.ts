@@ -0,0 +1,159 @@
+import type { RpcChainHealth, RpcEndpointHealth } from '../types/rpc';
+
+export type RpcHealthListener = (chainId: number) => void;
+
+/**
+ * Live health of the RPC endpoints of every chain, fed by the transports and
+ * used by them to order endpoints: fastest healthy ones first.
+ */
+export interface RpcHealthTracker {
+  /** Make endpoints known, in their configured fallback order */
+  register(chainId: number, urls: readonly string[]): void;
+  /** Endpoints in the order requests should try them */
+  rank(chainId: number): string[];
+  recordSuccess(chainId: number, url: string, latency: number): void;
+  recordFailure(chainId: number, url: string, error: unknown, rateLimited?: boolean): void;
+  getSnapshot(chainId: number): RpcChainHealth;
+  subscribe(listener: RpcHealthListener): () => void;
+}
+
+export interface RpcHealthTrackerOptions {
+  /** How long a rate-limited endpoint is tried last, in milliseconds */
+  rateLimitCooldown?: number;
+  /** Weight of the newest sample in the smoothed latency */
+  latencySmoothing?: number;
+  now?: () => number;
+}
+
+const DEFAULT_RATE_LIMIT_COOLDOWN = 30000;
+const DEFAULT_LATENCY_SMOOTHING = 0.3;
+
+function errorMessage(error: unknown): string {
+  if (error && typeof error === 'object') {
+    const { shortMessage, message } = error as { shortMessage?: unknown; message?: unknown };
+    return String(shortMessage ?? message);
+  }
+  return String(error);
+}
+
+export function createRpcHealthTracker({
+  rateLimitCooldown = DEFAULT_RATE_LIMIT_COOLDOWN,
+  latencySmoothing = DEFAULT_LATENCY_SMOOTHING,
+  now = Date.now
+}: RpcHealthTrackerOptions = {}): RpcHealthTracker {
+  // Endpoints per chain, in configured order
+  const chains = new Map<number, RpcEndpointHealth[]>();
+  const listeners = new Set<RpcHealthListener>();
+
+  const notify = (chainId: number): void => {
+    listeners.forEach((listener) => listener(chainId));
+  };
+
+  const isRateLimited = (endpoint: RpcEndpointHealth): boolean =>
+    endpoint.rateLimitedUntil !== undefined && endpoint.rateLimitedUntil > now();
+
+  // Lower is tried first: healthy, then untried, then failing, then rate-limited
+  const bucket = (endpoint: RpcEndpointHealth): number => {
+    if (isRateLimited(endpoint)) {
+      return 3;
+    }
+    if (endpoint.failures > 0) {
+      return 2;
+    }
+    return endpoint.status === 'healthy' ? 0 : 1;
+  };
+
+  const compare = (a: RpcEndpointHealth, b: RpcEndpointHealth): number => {
+    const byBucket = bucket(a) - bucket(b);
+    if (byBucket !== 0) {
+      return byBucket;
+    }
+    if (bucket(a) === 0) {
+      return (a.latency ?? 0) - (b.latency ?? 0);
+    }
+    return bucket(a) === 2 ? a.failures - b.failures : 0;
+  };
+
+  // Sorting is stable, so ties keep the configured fallback order
+  const ordered = (chainId: number): RpcEndpointHealth[] => [...chains.get(chainId) ?? []].sort(compare);
+
+  const endpointOf = (chainId: number, url: string): RpcEndpointHealth => {
+    const endpoints = chains.get(chainId) ?? [];
+    let endpoint = endpoints.find((candidate) => candidate.url === url);
+    if (!endpoint) {
+      endpoint = { url, status: 'unknown', failures: 0 };
+      chains.set(chainId, [...endpoints, endpoint]);
+    }
+    return endpoint;
+  };
+
+  return {
+    register(chainId, urls) {
+      urls.forEach((url) => endpointOf(chainId, url));
+    },
+
+    rank(chainId) {
+      return ordered(chainId).map((endpoint) => endpoint.url);
+    },
+
+    recordSuccess(chainId, url, latency) {
+      const endpoint = endpointOf(chainId, url);
+      endpoint.latency = endpoint.latency === undefined
+        ? latency
+        : Math.round(latencySmoothing * latency + (1 - latencySmoothing) * endpoint.latency);
+      endpoint.status = 'healthy';
+      endpoint.failures = 0;
+      endpoint.checkedAt = now();
+      endpoint.rateLimitedUntil = undefined;
+      notify(chainId);
+    },
+
+    recordFailure(chainId, url, error, rateLimited = false) {
+      const endpoint = endpointOf(chainId, url);
+      endpoint.status = rateLimited ? 'rate-limited' : 'down';
+      endpoint.failures += 1;
+      endpoint.lastError = errorMessage(error);
+      endpoint.checkedAt = now();
+      if (rateLimited) {
+        endpoint.rateLimitedUntil = now() + rateLimitCooldown;
+      }
+      notify(chainId);
+    },
+
+    getSnapshot(chainId) {
+      const endpoints = ordered(chainId).map((endpoint): RpcEndpointHealth => ({
+        ...endpoint,
+        // Rate limits expire with time rather than with a recorded request
+        status: endpoint.status === 'rate-limited' && !isRateLimited(endpoint) ? 'unknown' : endpoint.status
+      }));
+      const answering = endpoints.filter((endpoint) => endpoint.status === 'healthy').length;
+      const failing = endpoints.filter((endpoint) => endpoint.status === 'down' || endpoint.status === 'rate-limited').length;
+
+      let status: RpcChainHealth['status'] = 'unknown';
+      if (answering > 0) {
+        status = failing > 0 ? 'degraded' : 'healthy';
+      } else if (endpoints.length > 0 && failing === endpoints.length) {
+        status = 'down';
+      }
+
+      return { chainId, endpoints, activeUrl: endpoints[0]?.url, status };
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
+
+let sharedTracker: RpcHealthTracker | undefined;
+
+/**
+ * Tracker shared by the app's transports and the health hook
+ */
+export function getSharedRpcHealthTracker(): RpcHealthTracker {
+  sharedTracker ??= createRpcHealthTracker();
+  return sharedTracker;
+}
@@ -0,0 +1,354 @@
+import {
+  getAddress,
+  parseAbiItem,
+  type Address,
+  type Hash,
+  type PublicClient,
+  type Transaction,
+  type TransactionReceipt
+} from 'viem';
+import type {
+  CeloTransaction,
+  PaginatedTransactions,
+  TransactionHistorySource,
+  TransactionQueryOptions
+} from '../types/transaction';
+import { createViemClient } from '../utils/publicClient';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { getConfirmations, matchesTransactionFilters } from '../utils/transactionHelpers';
+import { findToken, getDefaultHistoryTokens } from '../config/tokens';
+import type { TokenInfo } from '../types/token';
+import { createBlockTimestampCache, type BlockTimestampCache } from './blockTimestampCache';
+import { chunkBlockRange } from './logScan';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// ERC-20 Transfer event. On Celo native CELO transfers are mirrored as Transfer
+// logs of the CELO token contract, so one topic index covers both.
+export const TRANSFER_EVENT = parseAbiItem(
+  'event Transfer(address indexed from, address indexed to, uint256 value)'
+);
+
+export interface RpcHistorySourceOptions {
+  /** Resolve the public client for a chain; defaults to the forno client */
+  getClient?: (chainId: number) => PublicClient;
+  /** Number of blocks per eth_getLogs request */
+  chunkSize?: number;
+  /** Maximum number of RPC requests in flight */
+  concurrency?: number;
+  /** Maximum number of blocks scanned for a single page */
+  maxBlocksPerPage?: number;
+  /** Shared block timestamp cache; one per source by default */
+  blockTimestamps?: BlockTimestampCache;
+  /** ERC-20 tokens whose transfers are listed as token entries; Celo stable assets by default */
+  getTokens?: (chainId: number) => readonly TokenInfo[];
+}
+
+/**
+ * Block context needed to complete a transaction: the timestamp of its block
+ * (seconds) and the current chain head
+ */
+export interface TransactionBlockContext {
+  timestamp: number;
+  head: bigint;
+}
+
+/**
+ * Position of the scanner: the next block to scan (inclusive, walking down)
+ * and how many candidate transactions of that block were already returned
+ */
+interface ScanCursor {
+  block: bigint;
+  skip: number;
+}
+
+interface TransferLog {
+  token: Address;
+  from: Address;
+  to: Address;
+  value: bigint;
+  logIndex: number;
+}
+
+interface Candidate {
+  hash: Hash;
+  blockNumber: bigint;
+  transactionIndex: number;
+  /** Position among the candidates of the same block, newest first */
+  position: number;
+  transfers: TransferLog[];
+}
+
+function encodeCursor(cursor: ScanCursor): string {
+  return `${cursor.block.toString()}.${cursor.skip}`;
+}
+
+function decodeCursor(cursor: string): ScanCursor {
+  const [block, skip] = cursor.split('.');
+  if (!/^\d+$/.test(block ?? '') || !/^\d+$/.test(skip ?? '')) {
+    throw new Error(`Invalid RPC history cursor: ${cursor}`);
+  }
+  return { block: BigInt(block), skip: Number(skip) };
+}
+
+/**
+ * Transform viem transaction to our CeloTransaction format
+ */
+export function transformTransaction(
+  tx: Transaction,
+  address: string,
+  chainId: number,
+  receipt: TransactionReceipt | undefined,
+  { timestamp, head }: TransactionBlockContext
+): CeloTransaction {
+  const from = getAddress(tx.from);
+  const to = tx.to ? getAddress(tx.to) : ZERO_ADDRESS;
+  const isContractCreation = !tx.to;
+  const value = tx.value.toString();
+  const gasUsed = receipt?.gasUsed?.toString() || '0';
+  const gasPrice = (receipt?.effectiveGasPrice ?? tx.gasPrice)?.toString() || '0';
+  const status = receipt ? (receipt.status === 'success' ? 'success' : 'failure') : 'pending';
+  const blockNumber = (receipt?.blockNumber ?? tx.blockNumber)?.toString() || '0';
+  const confirmations = receipt ? getConfirmations(blockNumber, head) : 0;
+
+  // Determine transaction type
+  let type: 'sent' | 'received' | 'contract';
+  if (isContractCreation || (tx.input && tx.input !== '0x')) {
+    type = 'contract';
+  } else if (from.toLowerCase() === address.toLowerCase()) {
+    type = 'sent';
+  } else {
+    type = 'received';
+  }
+
+  const transaction: CeloTransaction = {
+    hash: tx.hash,
+    blockNumber,
+    timestamp,
+    from,
+    to,
+    value,
+    gasUsed,
+    gasPrice,
+    status,
+    type,
+    confirmations,
+    chainId
+  };
+
+  // Set on CIP-64 transactions; gasPrice is then quoted in that currency
+  const { feeCurrency } = tx as Transaction & { feeCurrency?: Address | null };
+  if (feeCurrency) {
+    transaction.feeCurrency = getAddress(feeCurrency);
+  }
+  return transaction;
+}
+
+/**
+ * Transform one ERC-20 Transfer log to a token entry of the history
+ */
+export function transformTokenTransfer(
+  tx: Transaction,
+  transfer: TransferLog,
+  token: TokenInfo,
+  address: string,
+  chainId: number,
+  receipt: TransactionReceipt | undefined,
+  context: TransactionBlockContext
+): CeloTransaction {
+  const base = transformTransaction(tx, address, chainId, receipt, context);
+  const from = getAddress(transfer.from);
+
+  return {
+    ...base,
+    from,
+    to: getAddress(transfer.to),
+    value: transfer.value.toString(),
+    type: from.toLowerCase() === address.toLowerCase() ? 'sent' : 'received',
+    tokenAddress: getAddress(token.address),
+    tokenSymbol: token.symbol,
+    tokenDecimals: token.decimals,
+    logIndex: transfer.logIndex
+  };
+}
+
+/**
+ * History source that indexes Transfer logs touching the address over
+ * block-range chunks, newest first, and hydrates the matching transactions.
+ * Transfers of configured tokens become token entries; anything else is
+ * listed as the transaction itself.
+ *
+ * Transactions that emit no Transfer log (e.g. plain contract calls) are not
+ * visible to this source; the explorer source covers those when available.
+ */
+export function createRpcHistorySource(
+  options: RpcHistorySourceOptions = {}
+): TransactionHistorySource {
+  const {
+    getClient = createViemClient,
+    chunkSize = 2000,
+    concurrency = 4,
+    maxBlocksPerPage = 100000,
+    blockTimestamps = createBlockTimestampCache({ getClient }),
+    getTokens = getDefaultHistoryTokens
+  } = options;
+
+  const findCandidates = async (
+    client: PublicClient,
+    address: Address,
+    range: { fromBlock: bigint; toBlock: bigint },
+    token?: Address
+  ): Promise<Candidate[]> => {
+    const [sent, received] = await Promise.all([
+      client.getLogs({ address: token, event: TRANSFER_EVENT, args: { from: address }, ...range }),
+      client.getLogs({ address: token, event: TRANSFER_EVENT, args: { to: address }, ...range })
+    ]);
+
+    const byHash = new Map<Hash, Candidate>();
+    for (const log of [...sent, ...received]) {
+      if (!log.transactionHash || log.blockNumber === null) {
+        continue;
+      }
+      let candidate = byHash.get(log.transactionHash);
+      if (!candidate) {
+        candidate = {
+          hash: log.transactionHash,
+          blockNumber: log.blockNumber,
+          transactionIndex: log.transactionIndex ?? 0,
+          position: 0,
+          transfers: []
+        };
+        byHash.set(log.transactionHash, candidate);
+      }
+      // Self-transfers show up in both queries
+      const logIndex = log.logIndex ?? 0;
+      if (log.args.from && log.args.to && !candidate.transfers.some((t) => t.logIndex === logIndex)) {
+        candidate.transfers.push({
+          token: log.address,
+          from: log.args.from,
+          to: log.args.to,
+          value: log.args.value ?? BigInt(0),
+          logIndex
+        });
+      }
+    }
+
+    // Newest first, matching the scan direction
+    const candidates = [...byHash.values()].sort((a, b) => {
+      if (a.blockNumber !== b.blockNumber) {
+        return a.blockNumber > b.blockNumber ? -1 : 1;
+      }
+      return b.transactionIndex - a.transactionIndex;
+    });
+
+    candidates.forEach((candidate, i) => {
+      const previous = candidates[i - 1];
+      candidate.position = previous?.blockNumber === candidate.blockNumber ? previous.position + 1 : 0;
+    });
+
+    return candidates;
+  };
+
+  const hydrate = async (
+    client: PublicClient,
+    candidate: Candidate,
+    address: string,
+    chainId: number,
+    head: bigint
+  ): Promise<CeloTransaction[]> => {
+    const [tx, receipt, timestamp] = await Promise.all([
+      client.getTransaction({ hash: candidate.hash }),
+      client.getTransactionReceipt({ hash: candidate.hash }).catch(() => undefined),
+      blockTimestamps.getTimestamp(chainId, candidate.blockNumber)
+    ]);
+    const context = { timestamp, head };
+
+    const tokens = getTokens(chainId);
+    const tokenTransfers = candidate.transfers
+      .map((transfer) => ({ transfer, token: findToken(tokens, transfer.token) }))
+      .filter((entry): entry is { transfer: TransferLog; token: TokenInfo } => entry.token !== undefined)
+      .sort((a, b) => b.transfer.logIndex - a.transfer.logIndex);
+
+    if (tokenTransfers.length === 0) {
+      return [transformTransaction(tx, address, chainId, receipt, context)];
+    }
+    return tokenTransfers.map(({ transfer, token }) =>
+      transformTokenTransfer(tx, transfer, token, address, chainId, receipt, context)
+    );
+  };
+
+  return {
+    id: 'rpc',
+
+    supportsChain: () => true,
+
+    async fetchPage({
+      address,
+      chainId,
+      limit = 10,
+      cursor,
+      fromBlock,
+      filters
+    }: TransactionQueryOptions): Promise<PaginatedTransactions> {
+      const client = getClient(chainId);
+      const account = getAddress(address);
+      const head = await client.getBlockNumber();
+      const start = cursor ? decodeCursor(cursor) : { block: head, skip: 0 };
+
+      const span = BigInt(maxBlocksPerPage);
+      const floor = fromBlock ? BigInt(fromBlock) : BigInt(0);
+      const spanStart = start.block >= span ? start.block - span + BigInt(1) : BigInt(0);
+      const lowestBlock = spanStart > floor ? spanStart : floor;
+      const chunks = chunkBlockRange(lowestBlock, start.block, BigInt(chunkSize));
+      // Filtering on one token lets the node narrow the log query to its contract
+      const tokenFilter = filters?.token && filters.token !== 'all' && filters.token !== 'native'
+        ? getAddress(filters.token)
+        : undefined;
+
+      const transactions: CeloTransaction[] = [];
+      // Where the next page starts if this one does not fill up
+      let next: ScanCursor | null = lowestBlock > floor
+        ? { block: lowestBlock - BigInt(1), skip: 0 }
+        : null;
+
+      // Query `concurrency` chunks at a time, stopping as soon as the page is full
+      for (let i = 0; i < chunks.length && transactions.length < limit; i += concurrency) {
+        const window = chunks.slice(i, i + concurrency);
+        const candidates = (
+          await mapWithConcurrency(window, concurrency, (range) => findCandidates(client, account, range, tokenFilter))
+        )
+          .flat()
+          .filter((candidate) => candidate.blockNumber !== start.block || candidate.position >= start.skip);
+
+        for (let j = 0; j < candidates.length && transactions.length < limit; j += concurrency) {
+          const batch = candidates.slice(j, j + concurrency);
+          const hydrated = await mapWithConcurrency(batch, concurrency, (candidate) =>
+            hydrate(client, candidate, address, chainId, head)
+          );
+
+          // A candidate can yield several token entries; they are kept together
+          for (let k = 0; k < hydrated.length; k++) {
+            transactions.push(...hydrated[k].filter((tx) => matchesTransactionFilters(tx, filters)));
+            if (transactions.length >= limit) {
+              const resume = candidates[j + k + 1];
+              const lastScanned = window[window.length - 1].fromBlock;
+              if (resume) {
+                next = { block: resume.blockNumber, skip: resume.position };
+              } else if (i + concurrency < chunks.length) {
+                next = { block: lastScanned - BigInt(1), skip: 0 };
+              }
+              break;
+            }
+          }
+        }
+      }
+
+      return {
+        transactions,
+        total: transactions.length,
+        hasMore: next !== null,
+        nextCursor: next ? encodeCursor(next) : undefined
+      };
+    }
+  };
+}
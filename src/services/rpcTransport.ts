@@ -0,0 +1,145 @@
+import {
+  BaseError,
+  HttpRequestError,
+  InternalRpcError,
+  LimitExceededRpcError,
+  ResourceUnavailableRpcError,
+  TimeoutError,
+  createTransport,
+  http,
+  type Chain,
+  type EIP1193RequestFn,
+  type HttpTransportConfig,
+  type Transport
+} from 'viem';
+import { getSharedRpcHealthTracker, type RpcHealthTracker } from './rpcHealth';
+
+export interface CeloTransportOptions {
+  /** Endpoints in fallback order; defaults to the chain's RPC URLs */
+  urls?: readonly string[];
+  health?: RpcHealthTracker;
+  /** Extra passes over all endpoints when every one of them failed */
+  retryCount?: number;
+  /** Base delay before a retry, doubled on each attempt, in milliseconds */
+  retryDelay?: number;
+  /** Per-endpoint request timeout, in milliseconds */
+  timeout?: number;
+  /** Replaces `fetch`, e.g. to point the transport at stub servers in tests */
+  fetchFn?: HttpTransportConfig['fetchFn'];
+}
+
+const RATE_LIMIT_PATTERN = /rate limit|too many requests/i;
+
+function matches(error: unknown, predicate: (error: unknown) => boolean): boolean {
+  if (error instanceof BaseError) {
+    return !!error.walk(predicate);
+  }
+  return predicate(error);
+}
+
+/**
+ * Whether an error means the endpoint asked us to slow down
+ */
+export function isRateLimitError(error: unknown): boolean {
+  return matches(error, (cause) =>
+    (cause instanceof HttpRequestError && cause.status === 429) ||
+    (cause instanceof Error && 'code' in cause && cause.code === LimitExceededRpcError.code) ||
+    (cause instanceof Error && RATE_LIMIT_PATTERN.test(cause.message))
+  );
+}
+
+/**
+ * Whether an error comes from the endpoint itself rather than from the request,
+ * so another endpoint may succeed. Reverts and invalid params are not.
+ */
+export function isEndpointError(error: unknown): boolean {
+  return isRateLimitError(error) || matches(error, (cause) =>
+    cause instanceof HttpRequestError ||
+    cause instanceof TimeoutError ||
+    (cause instanceof Error && 'code' in cause && (
+      cause.code === InternalRpcError.code ||
+      cause.code === ResourceUnavailableRpcError.code
+    ))
+  );
+}
+
+/**
+ * HTTP transport over several endpoints of one chain. Each request goes to the
+ * best ranked endpoint and falls through to the next on endpoint errors; when
+ * all fail, the whole pass is retried with exponential backoff.
+ */
+export function createCeloTransport(
+  chain: Chain,
+  {
+    urls = chain.rpcUrls.default.http,
+    health = getSharedRpcHealthTracker(),
+    retryCount = 2,
+    retryDelay = 250,
+    timeout = 10000,
+    fetchFn
+  }: CeloTransportOptions = {}
+): Transport {
+  const endpoints = new Map(urls.map((url) => [url, http(url, { fetchFn, retryCount: 0, timeout })]));
+  health.register(chain.id, urls);
+
+  return ({ chain: clientChain }) => createTransport(
+    {
+      key: 'celo',
+      name: 'Celo RPC',
+      type: 'celo',
+      retryCount,
+      retryDelay,
+      timeout,
+      request: (async ({ method, params }) => {
+        let lastError: unknown;
+        for (const url of health.rank(chain.id)) {
+          const endpoint = endpoints.get(url);
+          if (!endpoint) {
+            continue;
+          }
+          const start = Date.now();
+          try {
+            const result = await endpoint({ chain: clientChain ?? chain }).request({ method, params });
+            health.recordSuccess(chain.id, url, Date.now() - start);
+            return result;
+          } catch (error) {
+            if (!isEndpointError(error)) {
+              // The endpoint answered; the request itself is at fault
+              health.recordSuccess(chain.id, url, Date.now() - start);
+              throw error;
+            }
+            health.recordFailure(chain.id, url, error, isRateLimitError(error));
+            lastError = error;
+          }
+        }
+        throw lastError;
+      }) as EIP1193RequestFn
+    },
+    { urls }
+  );
+}
+
+/**
+ * Ping every endpoint of a chain to refresh latencies and statuses, including
+ * endpoints that requests have not reached yet. Failures are recorded on
+ * `health` rather than thrown, so this never rejects
+ */
+export async function probeRpcEndpoints(
+  chainId: number,
+  {
+    health = getSharedRpcHealthTracker(),
+    timeout = 5000,
+    fetchFn
+  }: Pick<CeloTransportOptions, 'health' | 'timeout' | 'fetchFn'> = {}
+): Promise<void> {
+  const urls = health.getSnapshot(chainId).endpoints.map((endpoint) => endpoint.url);
+  await Promise.all(urls.map(async (url) => {
+    const start = Date.now();
+    try {
+      await http(url, { fetchFn, retryCount: 0, timeout })({}).request({ method: 'eth_blockNumber' });
+      health.recordSuccess(chainId, url, Date.now() - start);
+    } catch (error) {
+      health.recordFailure(chainId, url, error, isRateLimitError(error));
+    }
+  }));
+}
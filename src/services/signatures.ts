@@ -0,0 +1,228 @@
+import {
+  getAddress,
+  hashMessage,
+  hashTypedData,
+  isAddress,
+  isAddressEqual,
+  isErc6492Signature,
+  isHex,
+  parseAbi,
+  recoverAddress,
+  validateTypedData,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type TypedDataDefinition
+} from 'viem';
+import type {
+  SignatureError,
+  SignatureKind,
+  SignatureVerification,
+  SignedPayload
+} from '../types/signature';
+
+export const ERC1271_ABI = parseAbi([
+  'function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)'
+]);
+
+// Returned by `isValidSignature` for a valid signature
+export const ERC1271_MAGIC_VALUE = '0x1626ba7e';
+
+const STORAGE_PREFIX = 'celo-wallet:signatures:';
+const MAX_HISTORY = 50;
+
+export interface VerifySignatureParameters {
+  address: Address;
+  kind: SignatureKind;
+  /** The message text, or the typed data as JSON */
+  payload: string;
+  signature: Hex;
+}
+
+/**
+ * Typed data as pretty-printed JSON; bigints become decimal strings
+ */
+export function stringifyTypedData(typedData: TypedDataDefinition): string {
+  return JSON.stringify(
+    typedData,
+    (_key, value: unknown) => (typeof value === 'bigint' ? value.toString() : value),
+    2
+  );
+}
+
+/**
+ * Parse and validate EIP-712 typed data entered as JSON.
+ * Throws a SignatureError with code INVALID_TYPED_DATA when it is not usable.
+ */
+export function parseTypedData(json: string): TypedDataDefinition {
+  const invalid = (message: string, details?: unknown): SignatureError => ({
+    message,
+    code: 'INVALID_TYPED_DATA',
+    details
+  });
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (cause) {
+    throw invalid('Typed data is not valid JSON', cause);
+  }
+  if (!parsed || typeof parsed !== 'object') {
+    throw invalid('Typed data must be a JSON object');
+  }
+
+  const { domain = {}, types, primaryType, message } = parsed as Record<string, unknown>;
+  if (!types || typeof types !== 'object') {
+    throw invalid('Typed data is missing "types"');
+  }
+  if (typeof primaryType !== 'string' || !(primaryType in types)) {
+    throw invalid('"primaryType" must name one of the "types"');
+  }
+  if (!message || typeof message !== 'object') {
+    throw invalid('Typed data is missing "message"');
+  }
+
+  const typedData = { domain, types, primaryType, message } as TypedDataDefinition;
+  try {
+    validateTypedData(typedData);
+  } catch (cause) {
+    const reason = cause instanceof Error ? cause.message.split('\n')[0] : String(cause);
+    throw invalid(`Typed data does not match its types: ${reason}`, cause);
+  }
+  return typedData;
+}
+
+function hashPayload(kind: SignatureKind, payload: string): Hex {
+  return kind === 'message' ? hashMessage(payload) : hashTypedData(parseTypedData(payload));
+}
+
+/**
+ * Check a signature against its signer. Externally owned accounts are checked
+ * by ECDSA recovery, deployed contract wallets through ERC-1271 and wallets
+ * that are not deployed yet through ERC-6492.
+ */
+export async function verifySignature(
+  client: PublicClient,
+  { address, kind, payload, signature }: VerifySignatureParameters,
+  now: number = Date.now()
+): Promise<SignatureVerification> {
+  const hash = hashPayload(kind, payload);
+
+  try {
+    if (isErc6492Signature(signature)) {
+      const valid = await client.verifyHash({ address, hash, signature });
+      return { valid, method: 'erc6492', verifiedAt: now };
+    }
+
+    const code = await client.getCode({ address });
+    if (!code || code === '0x') {
+      const valid = await recoverAddress({ hash, signature })
+        .then((signer) => isAddressEqual(signer, address))
+        .catch(() => false);
+      return { valid, method: 'eoa', verifiedAt: now };
+    }
+
+    const result = await client.readContract({
+      address,
+      abi: ERC1271_ABI,
+      functionName: 'isValidSignature',
+      args: [hash, signature]
+    }).catch(() => null);
+    return { valid: result === ERC1271_MAGIC_VALUE, method: 'erc1271', verifiedAt: now };
+  } catch (cause) {
+    const error: SignatureError = {
+      message: 'Failed to verify the signature',
+      code: 'VERIFICATION_FAILED',
+      details: cause
+    };
+    throw error;
+  }
+}
+
+export interface SignatureHistoryStore {
+  load(address: string): SignedPayload[];
+  save(address: string, entries: readonly SignedPayload[]): void;
+}
+
+function isSignedPayload(value: unknown): value is SignedPayload {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const entry = value as Record<string, unknown>;
+  return (entry.kind === 'message' || entry.kind === 'typedData')
+    && typeof entry.address === 'string'
+    && isAddress(entry.address)
+    && typeof entry.chainId === 'number'
+    && typeof entry.payload === 'string'
+    && typeof entry.signature === 'string'
+    && isHex(entry.signature)
+    && typeof entry.signedAt === 'number';
+}
+
+/**
+ * Signed payloads persisted in Web Storage, one list per signer
+ */
+export function createLocalStorageSignatureStore(
+  storage: Storage = localStorage,
+  prefix: string = STORAGE_PREFIX
+): SignatureHistoryStore {
+  const key = (address: string): string => `${prefix}${address.toLowerCase()}`;
+
+  return {
+    load(address) {
+      const raw = storage.getItem(key(address));
+      if (!raw) {
+        return [];
+      }
+      try {
+        const parsed: unknown = JSON.parse(raw);
+        // Ignore entries written by an incompatible version
+        return Array.isArray(parsed) ? parsed.filter(isSignedPayload) : [];
+      } catch {
+        return [];
+      }
+    },
+
+    save(address, entries) {
+      storage.setItem(key(address), JSON.stringify(entries));
+    }
+  };
+}
+
+/**
+ * Non-persistent signature history, for tests and environments without Web Storage
+ */
+export function createMemorySignatureStore(): SignatureHistoryStore {
+  const lists = new Map<string, SignedPayload[]>();
+
+  return {
+    load(address) {
+      return [...(lists.get(address.toLowerCase()) ?? [])];
+    },
+
+    save(address, entries) {
+      lists.set(address.toLowerCase(), [...entries]);
+    }
+  };
+}
+
+/**
+ * localStorage in the browser, memory otherwise
+ */
+export function createDefaultSignatureStore(): SignatureHistoryStore {
+  return typeof localStorage !== 'undefined'
+    ? createLocalStorageSignatureStore()
+    : createMemorySignatureStore();
+}
+
+/**
+ * Add a signed payload to a newest-first history, keeping the latest entries
+ */
+export function addToSignatureHistory(
+  entries: readonly SignedPayload[],
+  entry: SignedPayload,
+  limit: number = MAX_HISTORY
+): SignedPayload[] {
+  const others = entries.filter((existing) => existing.signature !== entry.signature);
+  return [{ ...entry, address: getAddress(entry.address) }, ...others].slice(0, limit);
+}
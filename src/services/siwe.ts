@@ -0,0 +1,205 @@
+import type { Address, Hex, PublicClient } from 'viem';
+import { createSiweMessage, generateSiweNonce, parseSiweMessage, validateSiweMessage } from 'viem/siwe';
+import type { SiweSession, SiweSessionState } from '../types/siwe';
+import type { SignatureError } from '../types/signature';
+import { createViemClient } from '../utils/publicClient';
+import { verifySignature } from './signatures';
+
+const DEFAULT_NONCE_TTL = 5 * 60 * 1000;
+
+export interface SiweMessageParameters {
+  address: Address;
+  chainId: number;
+  nonce: string;
+  /** Human-readable assertion shown in the wallet */
+  statement?: string;
+  /** Host requesting the sign-in; defaults to the page's host */
+  domain?: string;
+  /** Resource being signed in to; defaults to the page's origin */
+  uri?: string;
+  /** Milliseconds since the epoch */
+  issuedAt?: number;
+  /** Milliseconds since the epoch */
+  expiresAt?: number;
+  resources?: string[];
+}
+
+export interface SiweVerifyParameters {
+  message: string;
+  signature: Hex;
+}
+
+/**
+ * Backend side of Sign-In With Ethereum: hands out single-use nonces and
+ * checks signed messages. Implement it with calls to your auth API.
+ */
+export interface SiweAdapter {
+  getNonce(address: Address, chainId: number): Promise<string>;
+  /** Whether the backend accepted the signed message and started a session */
+  verify(params: SiweVerifyParameters): Promise<boolean>;
+  /** End the session on the backend */
+  signOut?(session: SiweSession): Promise<void>;
+}
+
+/**
+ * EIP-4361 message for signing in with an account on one chain
+ */
+export function buildSiweMessage({
+  address,
+  chainId,
+  nonce,
+  statement,
+  domain = typeof location === 'undefined' ? undefined : location.host,
+  uri = typeof location === 'undefined' ? undefined : location.origin,
+  issuedAt = Date.now(),
+  expiresAt,
+  resources
+}: SiweMessageParameters): string {
+  if (!domain || !uri) {
+    const error: SignatureError = {
+      message: 'A domain and URI are required to sign in outside the browser',
+      code: 'SIWE_MISSING_DOMAIN'
+    };
+    throw error;
+  }
+
+  return createSiweMessage({
+    address,
+    chainId,
+    domain,
+    uri,
+    nonce,
+    statement,
+    version: '1',
+    issuedAt: new Date(issuedAt),
+    expirationTime: expiresAt === undefined ? undefined : new Date(expiresAt),
+    resources
+  });
+}
+
+export interface MemorySiweAdapterOptions {
+  /** Only accept messages for this host; any host when omitted */
+  domain?: string;
+  /** Client used to verify signatures, which contract wallets need */
+  getClient?: (chainId: number) => PublicClient;
+  /** How long an issued nonce can be used, in milliseconds */
+  nonceTtl?: number;
+  now?: () => number;
+}
+
+export interface MemorySiweAdapter extends SiweAdapter {
+  /** Sessions started and not signed out yet */
+  sessions: SiweSession[];
+  signOut(session: SiweSession): Promise<void>;
+}
+
+/**
+ * SIWE verifier running in memory, for tests and local development. It does
+ * what a backend would: nonces are single-use and expire, and messages are
+ * checked for domain, time window and signature (EOA, ERC-1271 or ERC-6492).
+ */
+export function createMemorySiweAdapter({
+  domain,
+  getClient = createViemClient,
+  nonceTtl = DEFAULT_NONCE_TTL,
+  now = Date.now
+}: MemorySiweAdapterOptions = {}): MemorySiweAdapter {
+  // Issued nonce -> expiry
+  const nonces = new Map<string, number>();
+  const sessions: SiweSession[] = [];
+
+  return {
+    sessions,
+
+    async getNonce() {
+      const nonce = generateSiweNonce();
+      nonces.set(nonce, now() + nonceTtl);
+      return nonce;
+    },
+
+    async verify({ message, signature }) {
+      const parsed = parseSiweMessage(message);
+      const nonceExpiry = parsed.nonce ? nonces.get(parsed.nonce) : undefined;
+      if (!parsed.nonce || nonceExpiry === undefined) {
+        return false;
+      }
+      // A nonce is consumed by the first attempt, successful or not
+      nonces.delete(parsed.nonce);
+      if (nonceExpiry <= now() || !parsed.address || !parsed.chainId) {
+        return false;
+      }
+      if (!validateSiweMessage({ message: parsed, domain, time: new Date(now()) })) {
+        return false;
+      }
+
+      const { valid } = await verifySignature(getClient(parsed.chainId), {
+        address: parsed.address,
+        kind: 'message',
+        payload: message,
+        signature
+      });
+      if (valid) {
+        sessions.push({
+          address: parsed.address,
+          chainId: parsed.chainId,
+          message,
+          signature,
+          nonce: parsed.nonce,
+          issuedAt: parsed.issuedAt?.getTime() ?? now(),
+          expiresAt: parsed.expirationTime?.getTime()
+        });
+      }
+      return valid;
+    },
+
+    async signOut(session) {
+      const index = sessions.findIndex((existing) => existing.signature === session.signature);
+      if (index >= 0) {
+        sessions.splice(index, 1);
+      }
+    }
+  };
+}
+
+export type SiweSessionListener = (state: SiweSessionState) => void;
+
+/**
+ * Current sign-in state, shared by every component showing or changing it
+ */
+export interface SiweSessionStore {
+  getState(): SiweSessionState;
+  setState(state: SiweSessionState): void;
+  subscribe(listener: SiweSessionListener): () => void;
+}
+
+export function createSiweSessionStore(
+  initialState: SiweSessionState = { status: 'signed-out', session: null }
+): SiweSessionStore {
+  let state = initialState;
+  const listeners = new Set<SiweSessionListener>();
+
+  return {
+    getState() {
+      return state;
+    },
+
+    setState(next) {
+      state = next;
+      listeners.forEach((listener) => listener(state));
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
+
+let sharedStore: SiweSessionStore | null = null;
+
+export function getSharedSiweSessionStore(): SiweSessionStore {
+  sharedStore ??= createSiweSessionStore();
+  return sharedStore;
+}
@@ -0,0 +1,430 @@
+import {
+  encodeFunctionData,
+  isAddress,
+  getAddress,
+  parseAbi,
+  parseEther,
+  zeroAddress,
+  type Address,
+  type Hex,
+  type PublicClient
+} from 'viem';
+import type {
+  GroupRewards,
+  GroupVote,
+  PendingWithdrawal,
+  StakingAction,
+  StakingError,
+  StakingSummary
+} from '../types/staking';
+import { validateTransferAmount } from '../utils/transactionHelpers';
+import { formatTokenAmount } from '../utils/tokenAmounts';
+import { formatTimestamp } from '../utils/celoExplorer';
+import { getSharedCoreContractLookup, type CoreContractLookup } from './coreContracts';
+import { scanLogs, type LogScanOptions } from './logScan';
+
+export const ACCOUNTS_ABI = parseAbi([
+  'function isAccount(address account) view returns (bool)',
+  'function getName(address account) view returns (string)',
+  'function createAccount() returns (bool)'
+]);
+
+export const LOCKED_GOLD_ABI = parseAbi([
+  'function getAccountTotalLockedGold(address account) view returns (uint256)',
+  'function getAccountNonvotingLockedGold(address account) view returns (uint256)',
+  'function getPendingWithdrawals(address account) view returns (uint256[] values, uint256[] timestamps)',
+  'function unlockingPeriod() view returns (uint256)',
+  'function lock() payable',
+  'function unlock(uint256 value)',
+  'function relock(uint256 index, uint256 value)',
+  'function withdraw(uint256 index)'
+]);
+
+export const ELECTION_ABI = parseAbi([
+  'function getGroupsVotedForByAccount(address account) view returns (address[])',
+  'function getPendingVotesForGroupByAccount(address group, address account) view returns (uint256)',
+  'function getActiveVotesForGroupByAccount(address group, address account) view returns (uint256)',
+  'function getActiveVotesForGroup(address group) view returns (uint256)',
+  'function hasActivatablePendingVotes(address account, address group) view returns (bool)',
+  'function getTotalVotesForEligibleValidatorGroups() view returns (address[] groups, uint256[] values)',
+  'function getTotalVotesForGroup(address group) view returns (uint256)',
+  'function getNumVotesReceivable(address group) view returns (uint256)',
+  'function getEpochNumber() view returns (uint256)',
+  'function vote(address group, uint256 value, address lesser, address greater) returns (bool)',
+  'function activate(address group) returns (bool)',
+  'function revokePending(address group, uint256 value, address lesser, address greater, uint256 index) returns (bool)',
+  'function revokeActive(address group, uint256 value, address lesser, address greater, uint256 index) returns (bool)',
+  'event ValidatorGroupVoteActivated(address indexed account, address indexed group, uint256 value, uint256 units)',
+  'event ValidatorGroupActiveVoteRevoked(address indexed account, address indexed group, uint256 value, uint256 units)',
+  'event EpochRewardsDistributedToVoters(address indexed group, uint256 value)'
+]);
+
+const CELO_DECIMALS = 18;
+
+export interface StakingContracts {
+  accounts: Address;
+  lockedGold: Address;
+  election: Address;
+}
+
+/**
+ * A transaction to send for a staking action
+ */
+export interface StakingCall {
+  to: Address;
+  data: Hex;
+  value?: bigint;
+}
+
+interface GroupTotal {
+  group: Address;
+  votes: bigint;
+}
+
+const sameAddress = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+export async function getStakingContracts(
+  client: PublicClient,
+  chainId: number,
+  lookup: CoreContractLookup = getSharedCoreContractLookup()
+): Promise<StakingContracts> {
+  const [accounts, lockedGold, election] = await Promise.all([
+    lookup(client, chainId, 'Accounts'),
+    lookup(client, chainId, 'LockedGold'),
+    lookup(client, chainId, 'Election')
+  ]);
+  return { accounts, lockedGold, election };
+}
+
+/**
+ * Locked CELO of an account with its pending withdrawals and votes
+ */
+export async function readStakingSummary(
+  client: PublicClient,
+  contracts: StakingContracts,
+  account: Address
+): Promise<StakingSummary> {
+  const [isAccount, total, nonvoting, [values, timestamps], unlockingPeriod, groups] = await Promise.all([
+    client.readContract({ address: contracts.accounts, abi: ACCOUNTS_ABI, functionName: 'isAccount', args: [account] }),
+    client.readContract({
+      address: contracts.lockedGold,
+      abi: LOCKED_GOLD_ABI,
+      functionName: 'getAccountTotalLockedGold',
+      args: [account]
+    }),
+    client.readContract({
+      address: contracts.lockedGold,
+      abi: LOCKED_GOLD_ABI,
+      functionName: 'getAccountNonvotingLockedGold',
+      args: [account]
+    }),
+    client.readContract({
+      address: contracts.lockedGold,
+      abi: LOCKED_GOLD_ABI,
+      functionName: 'getPendingWithdrawals',
+      args: [account]
+    }),
+    client.readContract({ address: contracts.lockedGold, abi: LOCKED_GOLD_ABI, functionName: 'unlockingPeriod' }),
+    client.readContract({
+      address: contracts.election,
+      abi: ELECTION_ABI,
+      functionName: 'getGroupsVotedForByAccount',
+      args: [account]
+    })
+  ]);
+
+  // Kept in the contract's order, which revoking refers to by index
+  const votes = await Promise.all(groups.map(async (group): Promise<GroupVote> => {
+    const [pending, active, canActivate] = await Promise.all([
+      client.readContract({
+        address: contracts.election,
+        abi: ELECTION_ABI,
+        functionName: 'getPendingVotesForGroupByAccount',
+        args: [group, account]
+      }),
+      client.readContract({
+        address: contracts.election,
+        abi: ELECTION_ABI,
+        functionName: 'getActiveVotesForGroupByAccount',
+        args: [group, account]
+      }),
+      client.readContract({
+        address: contracts.election,
+        abi: ELECTION_ABI,
+        functionName: 'hasActivatablePendingVotes',
+        args: [account, group]
+      })
+    ]);
+    return { group, pending, active, canActivate };
+  }));
+
+  const pendingWithdrawals: PendingWithdrawal[] = values.map((value, index) => ({
+    index,
+    value,
+    availableAt: Number(timestamps[index])
+  }));
+
+  return {
+    account,
+    isAccount,
+    total,
+    nonvoting,
+    voting: total - nonvoting,
+    pendingWithdrawals,
+    votes,
+    unlockingPeriod: Number(unlockingPeriod)
+  };
+}
+
+export interface GroupRewardsOptions extends LogScanOptions {
+  /** First block to read vote activations from, at or before the account's first vote */
+  fromBlock: bigint;
+  /** Last block to read; the chain head by default */
+  toBlock?: bigint;
+}
+
+/**
+ * Rewards earned by the active votes of an account, from its vote activation
+ * and revocation events
+ */
+export async function readGroupRewards(
+  client: PublicClient,
+  contracts: StakingContracts,
+  summary: Pick<StakingSummary, 'account' | 'votes'>,
+  { fromBlock, toBlock, ...scan }: GroupRewardsOptions
+): Promise<GroupRewards[]> {
+  const range = { fromBlock, toBlock: toBlock ?? await client.getBlockNumber() };
+  // One scan after the other, so no more than `concurrency` requests are in flight
+  const activations = await scanLogs(range, (chunk) => client.getContractEvents({
+    address: contracts.election,
+    abi: ELECTION_ABI,
+    eventName: 'ValidatorGroupVoteActivated',
+    args: { account: summary.account },
+    ...chunk
+  }), scan);
+  const revocations = await scanLogs(range, (chunk) => client.getContractEvents({
+    address: contracts.election,
+    abi: ELECTION_ABI,
+    eventName: 'ValidatorGroupActiveVoteRevoked',
+    args: { account: summary.account },
+    ...chunk
+  }), scan);
+
+  const netFor = (group: Address): bigint => {
+    const sum = (logs: typeof activations | typeof revocations): bigint => logs
+      .filter((log) => log.args.group && sameAddress(log.args.group, group))
+      .reduce((total, log) => total + (log.args.value ?? BigInt(0)), BigInt(0));
+    return sum(activations) - sum(revocations);
+  };
+
+  return summary.votes.map(({ group, active }) => {
+    const activated = netFor(group);
+    // Revoking rewards along with votes can take the net below zero
+    const rewards = active > activated ? active - activated : BigInt(0);
+    return { group, activated, active, rewards };
+  });
+}
+
+/**
+ * Eligible groups with their total votes, most votes first
+ */
+export async function readEligibleGroups(client: PublicClient, contracts: StakingContracts): Promise<GroupTotal[]> {
+  const [groups, values] = await client.readContract({
+    address: contracts.election,
+    abi: ELECTION_ABI,
+    functionName: 'getTotalVotesForEligibleValidatorGroups'
+  });
+  return groups.map((group, index) => ({ group, votes: values[index] }));
+}
+
+/**
+ * Neighbours of a group in Election's sorted list once its votes change by
+ * `delta`, as `vote` and `revoke*` expect them
+ */
+export function findLesserAndGreater(
+  totals: readonly GroupTotal[],
+  group: Address,
+  delta: bigint
+): { lesser: Address; greater: Address } {
+  const current = totals.find((entry) => sameAddress(entry.group, group));
+  if (!current) {
+    // Groups that are no longer eligible are not in the list
+    return { lesser: zeroAddress, greater: zeroAddress };
+  }
+  const votes = current.votes + delta;
+  const others = totals
+    .filter((entry) => entry !== current)
+    .sort((a, b) => (a.votes === b.votes ? 0 : a.votes > b.votes ? -1 : 1));
+
+  let greater: Address = zeroAddress;
+  for (const entry of others) {
+    if (entry.votes <= votes) {
+      return { lesser: entry.group, greater };
+    }
+    greater = entry.group;
+  }
+  return { lesser: zeroAddress, greater };
+}
+
+/**
+ * Whether unlocked CELO has waited out the unlocking period
+ */
+export function isWithdrawable(withdrawal: PendingWithdrawal, now: number = Date.now()): boolean {
+  return withdrawal.availableAt * 1000 <= now;
+}
+
+function parseCelo(amount: string): bigint {
+  const amountError = validateTransferAmount(amount, CELO_DECIMALS);
+  if (amountError) {
+    const error: StakingError = { message: amountError, code: 'INVALID_AMOUNT', field: 'amount' };
+    throw error;
+  }
+  return parseEther(amount.trim());
+}
+
+function ensureAtMost(value: bigint, available: bigint, what: string): void {
+  if (value > available) {
+    const error: StakingError = {
+      message: `Only ${formatTokenAmount(available, CELO_DECIMALS)} CELO ${what}`,
+      code: 'INVALID_AMOUNT',
+      field: 'amount'
+    };
+    throw error;
+  }
+}
+
+function findVote(summary: StakingSummary, group: string): { vote: GroupVote; index: number } {
+  const index = summary.votes.findIndex((vote) => sameAddress(vote.group, group.trim()));
+  if (index === -1) {
+    const error: StakingError = { message: `No votes for ${group.trim()}`, code: 'INVALID_GROUP', field: 'group' };
+    throw error;
+  }
+  return { vote: summary.votes[index], index };
+}
+
+/**
+ * Check a staking action against the account's current state and turn it into
+ * the transactions to send. Throws a StakingError naming the offending field
+ * when the action is not possible.
+ */
+export async function prepareStakingAction(
+  client: PublicClient,
+  contracts: StakingContracts,
+  summary: StakingSummary,
+  action: StakingAction,
+  now: number = Date.now()
+): Promise<StakingCall[]> {
+  const lockedGold = (data: Hex): StakingCall => ({ to: contracts.lockedGold, data });
+  const election = (data: Hex): StakingCall => ({ to: contracts.election, data });
+
+  switch (action.type) {
+  case 'lock': {
+    const value = parseCelo(action.amount);
+    const balance = await client.getBalance({ address: summary.account });
+    if (value > balance) {
+      const error: StakingError = { message: 'Insufficient CELO balance', code: 'INSUFFICIENT_FUNDS', field: 'amount' };
+      throw error;
+    }
+    const lock: StakingCall = { ...lockedGold(encodeFunctionData({ abi: LOCKED_GOLD_ABI, functionName: 'lock' })), value };
+    // LockedGold only accepts registered accounts
+    return summary.isAccount
+      ? [lock]
+      : [{ to: contracts.accounts, data: encodeFunctionData({ abi: ACCOUNTS_ABI, functionName: 'createAccount' }) }, lock];
+  }
+  case 'unlock': {
+    const value = parseCelo(action.amount);
+    ensureAtMost(value, summary.nonvoting, 'is not voting; revoke votes to unlock more');
+    return [lockedGold(encodeFunctionData({ abi: LOCKED_GOLD_ABI, functionName: 'unlock', args: [value] }))];
+  }
+  case 'withdraw':
+  case 'relock': {
+    const withdrawal = summary.pendingWithdrawals.find((pending) => pending.index === action.index);
+    if (!withdrawal) {
+      const error: StakingError = { message: 'This withdrawal no longer exists', code: 'NOT_WITHDRAWABLE' };
+      throw error;
+    }
+    const index = BigInt(withdrawal.index);
+    if (action.type === 'relock') {
+      return [lockedGold(encodeFunctionData({
+        abi: LOCKED_GOLD_ABI,
+        functionName: 'relock',
+        args: [index, withdrawal.value]
+      }))];
+    }
+    if (!isWithdrawable(withdrawal, now)) {
+      const error: StakingError = {
+        message: `This CELO can be withdrawn from ${formatTimestamp(withdrawal.availableAt)}`,
+        code: 'NOT_WITHDRAWABLE'
+      };
+      throw error;
+    }
+    return [lockedGold(encodeFunctionData({ abi: LOCKED_GOLD_ABI, functionName: 'withdraw', args: [index] }))];
+  }
+  case 'vote': {
+    const group = action.group.trim();
+    if (!isAddress(group)) {
+      const error: StakingError = { message: 'Enter the address of a validator group', code: 'INVALID_GROUP', field: 'group' };
+      throw error;
+    }
+    const value = parseCelo(action.amount);
+    ensureAtMost(value, summary.nonvoting, 'is locked and not voting; lock more to vote');
+    const totals = await readEligibleGroups(client, contracts);
+    if (!totals.some((entry) => sameAddress(entry.group, group))) {
+      const error: StakingError = {
+        message: 'This group is not eligible for election',
+        code: 'INVALID_GROUP',
+        field: 'group'
+      };
+      throw error;
+    }
+    const { lesser, greater } = findLesserAndGreater(totals, group, value);
+    return [election(encodeFunctionData({
+      abi: ELECTION_ABI,
+      functionName: 'vote',
+      args: [getAddress(group), value, lesser, greater]
+    }))];
+  }
+  case 'activate': {
+    const { vote } = findVote(summary, action.group);
+    if (!vote.canActivate) {
+      const error: StakingError = {
+        message: 'Pending votes can be activated in the epoch after they were cast',
+        code: 'NOTHING_TO_ACTIVATE'
+      };
+      throw error;
+    }
+    return [election(encodeFunctionData({ abi: ELECTION_ABI, functionName: 'activate', args: [vote.group] }))];
+  }
+  case 'revoke': {
+    const { vote, index } = findVote(summary, action.group);
+    const value = parseCelo(action.amount);
+    ensureAtMost(value, vote.pending + vote.active, 'is voting for this group');
+
+    const fromPending = value < vote.pending ? value : vote.pending;
+    const fromActive = value - fromPending;
+    let totals = await readEligibleGroups(client, contracts);
+    const calls: StakingCall[] = [];
+    if (fromPending > BigInt(0)) {
+      const { lesser, greater } = findLesserAndGreater(totals, vote.group, -fromPending);
+      calls.push(election(encodeFunctionData({
+        abi: ELECTION_ABI,
+        functionName: 'revokePending',
+        args: [vote.group, fromPending, lesser, greater, BigInt(index)]
+      })));
+      // The active revocation is sorted against the list after the pending one
+      totals = totals.map((entry) => (
+        sameAddress(entry.group, vote.group) ? { ...entry, votes: entry.votes - fromPending } : entry
+      ));
+    }
+    if (fromActive > BigInt(0)) {
+      const { lesser, greater } = findLesserAndGreater(totals, vote.group, -fromActive);
+      calls.push(election(encodeFunctionData({
+        abi: ELECTION_ABI,
+        functionName: 'revokeActive',
+        args: [vote.group, fromActive, lesser, greater, BigInt(index)]
+      })));
+    }
+    return calls;
+  }
+  }
+}
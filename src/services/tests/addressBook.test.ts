@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createAddressBookStore,
+  matchesAddressBookEntry,
+  parseTags,
+  toAddressBookEntry
+} from '../addressBook';
+import { memoryStorage } from '../../test/memoryStorage';
+
+const ADDRESS = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+const CHECKSUMMED = '0xABcdEFABcdEFabcdEfAbCdefabcdeFABcDEFabCD';
+
+describe('toAddressBookEntry', () => {
+  it('checksums the address and normalizes label, note and tags', () => {
+    expect(toAddressBookEntry({
+      chainId: 42220,
+      address: ADDRESS,
+      label: '  Exchange ',
+      note: ' ',
+      tags: ['CEX', 'cex', ' daily ']
+    }, undefined, 1000)).toEqual({
+      chainId: 42220,
+      address: CHECKSUMMED,
+      label: 'Exchange',
+      tags: ['cex', 'daily'],
+      createdAt: 1000,
+      updatedAt: 1000
+    });
+  });
+
+  it('rejects invalid addresses and empty labels', () => {
+    expect(() => toAddressBookEntry({ chainId: 42220, address: '0x123', label: 'Bad' }))
+      .toThrow(expect.objectContaining({ code: 'INVALID_ADDRESS' }));
+    expect(() => toAddressBookEntry({ chainId: 42220, address: ADDRESS, label: '   ' }))
+      .toThrow(expect.objectContaining({ code: 'INVALID_LABEL' }));
+  });
+});
+
+describe('parseTags', () => {
+  it('splits comma-separated tags', () => {
+    expect(parseTags('Family, savings,,family')).toEqual(['family', 'savings']);
+  });
+});
+
+describe('matchesAddressBookEntry', () => {
+  const entry = toAddressBookEntry({
+    chainId: 42220,
+    address: ADDRESS,
+    label: 'Exchange',
+    note: 'Deposit address',
+    tags: ['cex']
+  });
+
+  it('matches label, note, tags and address, ignoring case', () => {
+    expect(matchesAddressBookEntry(entry, 'exch')).toBe(true);
+    expect(matchesAddressBookEntry(entry, 'DEPOSIT')).toBe(true);
+    expect(matchesAddressBookEntry(entry, 'cex')).toBe(true);
+    expect(matchesAddressBookEntry(entry, '0xabcdef')).toBe(true);
+    expect(matchesAddressBookEntry(entry, 'family')).toBe(false);
+    expect(matchesAddressBookEntry(entry, '')).toBe(true);
+  });
+});
+
+describe('createAddressBookStore', () => {
+  it('keeps one book per chain, sorted by label', () => {
+    const store = createAddressBookStore();
+    store.save({ chainId: 42220, address: ADDRESS, label: 'Zed' });
+    store.save({ chainId: 42220, address: '0x1234567890123456789012345678901234567890', label: 'Alice' });
+
+    expect(store.list(42220).map((entry) => entry.label)).toEqual(['Alice', 'Zed']);
+    expect(store.list(44787)).toEqual([]);
+  });
+
+  it('updates the entry of an address, keeping its creation date', () => {
+    const store = createAddressBookStore();
+    store.save({ chainId: 42220, address: ADDRESS, label: 'Exchange' }, 1000);
+    store.save({ chainId: 42220, address: CHECKSUMMED, label: 'Old exchange' }, 2000);
+
+    expect(store.list(42220)).toHaveLength(1);
+    expect(store.get(42220, ADDRESS)).toMatchObject({ label: 'Old exchange', createdAt: 1000, updatedAt: 2000 });
+  });
+
+  it('persists entries and notifies subscribers of the changed chain', () => {
+    const storage = memoryStorage();
+    const store = createAddressBookStore(storage);
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    store.save({ chainId: 42220, address: ADDRESS, label: 'Exchange', tags: ['cex'] });
+    store.remove(42220, '0x1234567890123456789012345678901234567890');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(42220);
+    expect(createAddressBookStore(storage).get(42220, ADDRESS)).toMatchObject({ label: 'Exchange', tags: ['cex'] });
+
+    store.remove(42220, ADDRESS);
+    expect(createAddressBookStore(storage).list(42220)).toEqual([]);
+  });
+
+  it('ignores unreadable stored entries', () => {
+    const storage = memoryStorage();
+    storage.setItem('celo-wallet:address-book:42220', JSON.stringify([{ address: 'nope' }]));
+    storage.setItem('celo-wallet:address-book:44787', '{');
+
+    const store = createAddressBookStore(storage);
+
+    expect(store.list(42220)).toEqual([]);
+    expect(store.list(44787)).toEqual([]);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { createBlockTimestampCache } from '../blockTimestampCache';
+import { MockJsonRpc } from '../../test/mockJsonRpc';
+
+describe('createBlockTimestampCache', () => {
+  it('fetches each block once, even for concurrent lookups', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(100) });
+    const cache = createBlockTimestampCache({ getClient: () => rpc.client() });
+
+    const [a, b] = await Promise.all([
+      cache.getTimestamp(42220, BigInt(10)),
+      cache.getTimestamp(42220, BigInt(10))
+    ]);
+    await cache.getTimestamp(42220, BigInt(10));
+
+    expect(a).toBe(rpc.blockTimestamp(BigInt(10)));
+    expect(b).toBe(a);
+    expect(rpc.callsTo('eth_getBlockByNumber')).toHaveLength(1);
+  });
+
+  it('keeps chains apart', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(100) });
+    const cache = createBlockTimestampCache({ getClient: () => rpc.client() });
+
+    await cache.getTimestamp(42220, BigInt(10));
+    await cache.getTimestamp(44787, BigInt(10));
+
+    expect(rpc.callsTo('eth_getBlockByNumber')).toHaveLength(2);
+  });
+
+  it('retries blocks whose lookup failed', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(100) });
+    const cache = createBlockTimestampCache({ getClient: () => rpc.client() });
+
+    rpc.failMethod('eth_getBlockByNumber');
+    await expect(cache.getTimestamp(42220, BigInt(10))).rejects.toThrow();
+    rpc.clearFailures();
+
+    await expect(cache.getTimestamp(42220, BigInt(10))).resolves.toBe(rpc.blockTimestamp(BigInt(10)));
+  });
+
+  it('evicts the oldest entries past the size limit', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(100) });
+    const cache = createBlockTimestampCache({ getClient: () => rpc.client(), maxEntries: 2 });
+
+    await cache.getTimestamp(42220, BigInt(1));
+    await cache.getTimestamp(42220, BigInt(2));
+    await cache.getTimestamp(42220, BigInt(3));
+
+    expect(cache.size()).toBe(2);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import type { Address } from 'viem';
+import {
+  createLocalStorageCustomTokenStore,
+  createMemoryCustomTokenStore,
+  fetchTokenInfo
+} from '../customTokens';
+import type { TokenInfo } from '../../types/token';
+import { MockJsonRpc } from '../../test/mockJsonRpc';
+import { memoryStorage } from '../../test/memoryStorage';
+
+const TOKEN: Address = '0x1111111111111111111111111111111111111111';
+
+const token: TokenInfo = {
+  chainId: 44787,
+  address: TOKEN,
+  symbol: 'TST',
+  name: 'Test Token',
+  decimals: 6
+};
+
+describe('createLocalStorageCustomTokenStore', () => {
+  it('keeps a separate list per chain', () => {
+    const storage = memoryStorage();
+    const store = createLocalStorageCustomTokenStore(storage);
+
+    store.save(44787, [token]);
+
+    expect(createLocalStorageCustomTokenStore(storage).load(44787)).toEqual([token]);
+    expect(store.load(42220)).toEqual([]);
+  });
+
+  it('ignores corrupt or foreign entries', () => {
+    const storage = memoryStorage();
+    storage.setItem('celo-wallet:custom-tokens:44787', JSON.stringify([token, { symbol: 'BAD' }, { ...token, chainId: 1 }]));
+    storage.setItem('celo-wallet:custom-tokens:42220', '{not json');
+    const store = createLocalStorageCustomTokenStore(storage);
+
+    expect(store.load(44787)).toEqual([token]);
+    expect(store.load(42220)).toEqual([]);
+  });
+});
+
+describe('createMemoryCustomTokenStore', () => {
+  it('returns copies of the saved list', () => {
+    const store = createMemoryCustomTokenStore();
+    store.save(44787, [token]);
+
+    store.load(44787).pop();
+
+    expect(store.load(44787)).toEqual([token]);
+  });
+});
+
+describe('fetchTokenInfo', () => {
+  it('reads symbol, name and decimals from the contract', async () => {
+    const rpc = new MockJsonRpc({
+      chainId: 44787,
+      head: BigInt(1),
+      tokens: [{ address: TOKEN, symbol: 'TST', name: 'Test Token', decimals: 6 }]
+    });
+
+    await expect(fetchTokenInfo(rpc.client(), 44787, TOKEN.toLowerCase())).resolves.toEqual(token);
+  });
+
+  it('rejects malformed addresses before any request', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(1) });
+
+    await expect(fetchTokenInfo(rpc.client(), 42220, '0x123')).rejects.toMatchObject({ code: 'INVALID_ADDRESS' });
+    expect(rpc.calls).toHaveLength(0);
+  });
+
+  it('reports addresses that are not ERC-20 contracts', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(1) });
+
+    await expect(fetchTokenInfo(rpc.client(), 42220, TOKEN)).rejects.toMatchObject({
+      code: 'TOKEN_LOOKUP_FAILED',
+      message: `No ERC-20 token found at ${TOKEN}`
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { encodeAbiParameters, encodeEventTopics, type Address } from 'viem';
+import { createEpochRewardsCache, fetchEpochRewards, summarizeEpochRewards } from '../epochRewards';
+import { ELECTION_ABI } from '../staking';
+import { CELO_REGISTRY_ABI } from '../feeCurrencies';
+import { createCoreContractLookup } from '../coreContracts';
+import { CELO_REGISTRY_ADDRESS } from '../../config/feeCurrencies';
+import { MockJsonRpc, type MockContract, type MockLog } from '../../test/mockJsonRpc';
+
+const ACCOUNT: Address = '0x1234567890123456789012345678901234567890';
+const ELECTION: Address = '0x1000000000000000000000000000000000000003';
+const GROUP_A: Address = '0x2000000000000000000000000000000000000001';
+const GROUP_B: Address = '0x2000000000000000000000000000000000000002';
+const GROUP_C: Address = '0x2000000000000000000000000000000000000003';
+
+// Epochs are 10 blocks long: epoch 1 ends with block 10
+const epochOf = (blockNumber: bigint): bigint => blockNumber / BigInt(10) + BigInt(1);
+
+function activation(group: Address, blockNumber: bigint): MockLog {
+  return {
+    address: ELECTION,
+    topics: encodeEventTopics({
+      abi: ELECTION_ABI,
+      eventName: 'ValidatorGroupVoteActivated',
+      args: { account: ACCOUNT, group }
+    }) as MockLog['topics'],
+    data: encodeAbiParameters([{ type: 'uint256' }, { type: 'uint256' }], [BigInt(1), BigInt(1)]),
+    blockNumber
+  };
+}
+
+function distribution(group: Address, value: bigint, blockNumber: bigint): MockLog {
+  return {
+    address: ELECTION,
+    topics: encodeEventTopics({
+      abi: ELECTION_ABI,
+      eventName: 'EpochRewardsDistributedToVoters',
+      args: { group }
+    }) as MockLog['topics'],
+    data: encodeAbiParameters([{ type: 'uint256' }], [value]),
+    blockNumber
+  };
+}
+
+function chain(): MockJsonRpc {
+  const contracts: MockContract[] = [
+    // Before the L2 migration: no EpochManager in the registry
+    { address: CELO_REGISTRY_ADDRESS, abi: CELO_REGISTRY_ABI, read: (_fn, [name]) => (name === 'Election' ? ELECTION : undefined) },
+    {
+      address: ELECTION,
+      abi: ELECTION_ABI,
+      read: (fn, [group], blockNumber) => {
+        switch (fn) {
+        case 'getEpochNumber':
+          return epochOf(blockNumber);
+        case 'getActiveVotesForGroupByAccount':
+          // A quarter of group A's votes; half of group B's once activated
+          return group === GROUP_A ? BigInt(25) : blockNumber >= BigInt(25) ? BigInt(30) : BigInt(0);
+        default:
+          return group === GROUP_A ? BigInt(100) : BigInt(60);
+        }
+      }
+    }
+  ];
+  return new MockJsonRpc({
+    head: BigInt(35),
+    contracts,
+    logs: [
+      distribution(GROUP_A, BigInt(400), BigInt(3)),
+      activation(GROUP_A, BigInt(5)),
+      distribution(GROUP_A, BigInt(100), BigInt(10)),
+      distribution(GROUP_A, BigInt(200), BigInt(20)),
+      distribution(GROUP_C, BigInt(999), BigInt(20)),
+      activation(GROUP_B, BigInt(25)),
+      distribution(GROUP_A, BigInt(100), BigInt(30)),
+      distribution(GROUP_B, BigInt(60), BigInt(30))
+    ]
+  });
+}
+
+describe('fetchEpochRewards', () => {
+  it('shares out each distribution by the active votes of the account before it', async () => {
+    const rpc = chain();
+
+    const rewards = await fetchEpochRewards(rpc.client(), 42220, ACCOUNT, { lookup: createCoreContractLookup(), fromBlock: BigInt(1) });
+
+    expect(rewards).toEqual([
+      { epoch: 1, group: GROUP_A, value: BigInt(25), blockNumber: BigInt(10), timestamp: rpc.blockTimestamp(BigInt(10)) },
+      { epoch: 2, group: GROUP_A, value: BigInt(50), blockNumber: BigInt(20), timestamp: rpc.blockTimestamp(BigInt(20)) },
+      { epoch: 3, group: GROUP_A, value: BigInt(25), blockNumber: BigInt(30), timestamp: rpc.blockTimestamp(BigInt(30)) },
+      { epoch: 3, group: GROUP_B, value: BigInt(30), blockNumber: BigInt(30), timestamp: rpc.blockTimestamp(BigInt(30)) }
+    ]);
+  });
+
+  it('reads logs from the start block to the head in chunks', async () => {
+    const rpc = chain();
+
+    const rewards = await fetchEpochRewards(rpc.client(), 42220, ACCOUNT, {
+      lookup: createCoreContractLookup(),
+      fromBlock: BigInt(1),
+      chunkSize: 10,
+      concurrency: 1
+    });
+
+    expect(rewards).toHaveLength(4);
+    const ranges = rpc.callsTo('eth_getLogs').map(({ params }) => {
+      const { fromBlock, toBlock } = params[0] as { fromBlock: string; toBlock: string };
+      return [Number(fromBlock), Number(toBlock)];
+    });
+    // Activations, then distributions from the first activation
+    expect(ranges).toEqual([[1, 5], [6, 15], [16, 25], [26, 35], [5, 5], [6, 15], [16, 25], [26, 35]]);
+  });
+
+  it('returns nothing for an account that never activated votes', async () => {
+    const rpc = chain();
+
+    const rewards = await fetchEpochRewards(rpc.client(), 42220, GROUP_C, { lookup: createCoreContractLookup(), fromBlock: BigInt(1) });
+
+    expect(rewards).toEqual([]);
+    expect(rpc.callsTo('eth_getLogs')).toHaveLength(1);
+  });
+});
+
+describe('summarizeEpochRewards', () => {
+  it('totals rewards per epoch, newest first', async () => {
+    const rpc = chain();
+    const rewards = await fetchEpochRewards(rpc.client(), 42220, ACCOUNT, { lookup: createCoreContractLookup(), fromBlock: BigInt(1) });
+
+    const epochs = summarizeEpochRewards(rewards);
+
+    expect(epochs.map(({ epoch, total, byGroup }) => ({ epoch, total, groups: byGroup.length }))).toEqual([
+      { epoch: 3, total: BigInt(55), groups: 2 },
+      { epoch: 2, total: BigInt(50), groups: 1 },
+      { epoch: 1, total: BigInt(25), groups: 1 }
+    ]);
+  });
+});
+
+describe('createEpochRewardsCache', () => {
+  it('reads rewards again only in a new epoch, and only the new blocks', async () => {
+    const rpc = chain();
+    const cache = createEpochRewardsCache({ getClient: () => rpc.client(), lookup: createCoreContractLookup(), fromBlock: BigInt(1) });
+
+    const first = await cache.get(42220, ACCOUNT);
+    const logReads = rpc.callsTo('eth_getLogs').length;
+    expect(await cache.get(42220, ACCOUNT)).toBe(first);
+    expect(rpc.callsTo('eth_getLogs')).toHaveLength(logReads);
+
+    rpc.extraLogs.push(distribution(GROUP_A, BigInt(40), BigInt(40)));
+    rpc.head = BigInt(45);
+    const second = await cache.get(42220, ACCOUNT);
+
+    expect(second).toHaveLength(first.length + 1);
+    expect(second[second.length - 1]).toMatchObject({ epoch: 4, group: GROUP_A, value: BigInt(10) });
+    // Distributions are read from the block after the last one read
+    const [filter] = rpc.callsTo('eth_getLogs').slice(-1)[0].params as Array<{ fromBlock: string }>;
+    expect(BigInt(filter.fromBlock)).toBe(BigInt(36));
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import type { Address } from 'viem';
+import {
+  CELO_REGISTRY_ABI,
+  FEE_CURRENCY_DIRECTORY_ABI,
+  FEE_CURRENCY_WHITELIST_ABI,
+  fetchFeeCurrencies,
+  fetchFeeCurrencyAddresses,
+  getGasPriceInFeeCurrency,
+  toFeeTokenAmount
+} from '../feeCurrencies';
+import { CELO_REGISTRY_ADDRESS, FEE_CURRENCY_DIRECTORY_ADDRESSES } from '../../config/feeCurrencies';
+import { getTokenRegistry } from '../../config/tokens';
+import type { FeeCurrency } from '../../types/token';
+import { MockJsonRpc, type MockContract } from '../../test/mockJsonRpc';
+
+const CUSD: Address = '0x765DE816845861e75A25fCA122bb6898B8B1282a';
+const USDC: Address = '0xcebA9300f2b948710d2653dD7B07f33A8B32118C';
+const USDC_ADAPTER: Address = '0x2F25deB3848C207fc8E0c34035B3Ba7fC157602B';
+const UNKNOWN: Address = '0x1111111111111111111111111111111111111111';
+const WHITELIST: Address = '0x2222222222222222222222222222222222222222';
+
+function directory(currencies: Address[]): MockContract {
+  return {
+    address: FEE_CURRENCY_DIRECTORY_ADDRESSES[42220],
+    abi: FEE_CURRENCY_DIRECTORY_ABI,
+    read: () => currencies
+  };
+}
+
+function legacyWhitelist(currencies: Address[]): MockContract[] {
+  return [
+    { address: CELO_REGISTRY_ADDRESS, abi: CELO_REGISTRY_ABI, read: () => WHITELIST },
+    { address: WHITELIST, abi: FEE_CURRENCY_WHITELIST_ABI, read: () => currencies }
+  ];
+}
+
+describe('fetchFeeCurrencyAddresses', () => {
+  it('reads the FeeCurrencyDirectory', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(1), contracts: [directory([CUSD, USDC_ADAPTER])] });
+
+    await expect(fetchFeeCurrencyAddresses(rpc.client(), 42220)).resolves.toEqual([CUSD, USDC_ADAPTER]);
+  });
+
+  it('falls back to the registry whitelist when the directory is unavailable', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(1), contracts: legacyWhitelist([CUSD]) });
+
+    await expect(fetchFeeCurrencyAddresses(rpc.client(), 42220)).resolves.toEqual([CUSD]);
+    // The directory, then the registry and the whitelist
+    expect(rpc.callsTo('eth_call')).toHaveLength(3);
+  });
+
+  it('uses the whitelist directly on chains without a directory', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(1), contracts: legacyWhitelist([CUSD]) });
+
+    await expect(fetchFeeCurrencyAddresses(rpc.client(), 1337)).resolves.toEqual([CUSD]);
+    expect(rpc.callsTo('eth_call')).toHaveLength(2);
+  });
+});
+
+describe('fetchFeeCurrencies', () => {
+  it('resolves registry tokens and adapters to the token they charge', async () => {
+    const rpc = new MockJsonRpc({
+      head: BigInt(1),
+      contracts: [directory([CUSD, USDC_ADAPTER])],
+      tokens: [{ address: USDC, symbol: 'USDC', name: 'USDC', decimals: 6 }]
+    });
+
+    const currencies = await fetchFeeCurrencies(rpc.client(), 42220);
+
+    expect(currencies).toHaveLength(2);
+    expect(currencies[0]).toMatchObject({ address: CUSD, decimals: 18 });
+    expect(currencies[0].token.symbol).toBe('cUSD');
+    expect(currencies[1]).toMatchObject({ address: USDC_ADAPTER, decimals: 18 });
+    expect(currencies[1].token).toMatchObject({ address: USDC, symbol: 'USDC', decimals: 6 });
+  });
+
+  it('skips fee currencies whose token cannot be looked up', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(1), contracts: [directory([CUSD, UNKNOWN])] });
+
+    const currencies = await fetchFeeCurrencies(rpc.client(), 42220);
+
+    expect(currencies.map((currency) => currency.address)).toEqual([CUSD]);
+  });
+});
+
+describe('getGasPriceInFeeCurrency', () => {
+  it('quotes the gas price in the fee currency', async () => {
+    const [cUSD] = getTokenRegistry(42220);
+    const rpc = new MockJsonRpc({
+      head: BigInt(1),
+      gasPrice: BigInt(5000000000),
+      feeCurrencyGasPrices: { [CUSD]: BigInt(2500000000) }
+    });
+    const client = rpc.client();
+
+    await expect(getGasPriceInFeeCurrency(client)).resolves.toBe(BigInt(5000000000));
+    await expect(
+      getGasPriceInFeeCurrency(client, { address: CUSD, token: cUSD, decimals: 18 })
+    ).resolves.toBe(BigInt(2500000000));
+    expect(rpc.callsTo('eth_gasPrice')[1].params).toEqual([CUSD]);
+  });
+});
+
+describe('toFeeTokenAmount', () => {
+  const usdc: FeeCurrency = {
+    address: USDC_ADAPTER,
+    token: { chainId: 42220, address: USDC, symbol: 'USDC', name: 'USDC', decimals: 6 },
+    decimals: 18
+  };
+
+  it('scales adapter fees down to token units, rounding up', () => {
+    expect(toFeeTokenAmount(BigInt(2) * BigInt(10) ** BigInt(12), usdc)).toBe(BigInt(2));
+    expect(toFeeTokenAmount(BigInt(10) ** BigInt(12) + BigInt(1), usdc)).toBe(BigInt(2));
+  });
+
+  it('keeps fees of 18-decimal tokens as they are', () => {
+    const [cUSD] = getTokenRegistry(42220);
+    expect(toFeeTokenAmount(BigInt(123), { address: CUSD, token: cUSD, decimals: 18 })).toBe(BigInt(123));
+  });
+});
@@ -0,0 +1,394 @@
+import { describe, it, expect } from 'vitest';
+import {
+  concatHex,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionData,
+  erc20Abi,
+  size,
+  type Address
+} from 'viem';
+import {
+  GOVERNANCE_ABI,
+  createPendingGovernanceTransaction,
+  decodeProposalTransaction,
+  fetchExecutedProposals,
+  fetchProposals,
+  findUpvoteNeighbours,
+  prepareGovernanceAction,
+  readGovernanceAccount
+} from '../governance';
+import { ACCOUNTS_ABI, ELECTION_ABI, LOCKED_GOLD_ABI } from '../staking';
+import { CELO_REGISTRY_ABI } from '../feeCurrencies';
+import { createCoreContractLookup } from '../coreContracts';
+import { CELO_REGISTRY_ADDRESS } from '../../config/feeCurrencies';
+import type { GovernanceAccount, GovernanceError, Proposal } from '../../types/governance';
+import { MockJsonRpc, fixtureHash, type MockContract, type MockLog } from '../../test/mockJsonRpc';
+
+const ACCOUNT: Address = '0x1234567890123456789012345678901234567890';
+const PROPOSER: Address = '0x4000000000000000000000000000000000000001';
+const TOKEN: Address = '0x5000000000000000000000000000000000000001';
+const ONE = BigInt(10) ** BigInt(18);
+
+const ADDRESSES: Record<string, Address> = {
+  Accounts: '0x1000000000000000000000000000000000000001',
+  LockedGold: '0x1000000000000000000000000000000000000002',
+  Election: '0x1000000000000000000000000000000000000003',
+  Governance: '0x1000000000000000000000000000000000000007'
+};
+const CONTRACTS = { governance: ADDRESSES.Governance, lockedGold: ADDRESSES.LockedGold };
+
+const UNLOCK_DATA = encodeFunctionData({ abi: LOCKED_GOLD_ABI, functionName: 'unlock', args: [ONE] });
+const TRANSFER_DATA = encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [PROPOSER, ONE] });
+
+// Proposals.Stage values
+const QUEUED = 1;
+const REFERENDUM = 3;
+const EXPIRATION = 5;
+
+interface StoredProposal {
+  stage: number;
+  transactions: Array<{ value: bigint; destination: Address; data: `0x${string}` }>;
+  votes?: [bigint, bigint, bigint];
+}
+
+const STORED: Record<string, StoredProposal> = {
+  5: { stage: QUEUED, transactions: [{ value: BigInt(2) * ONE, destination: PROPOSER, data: '0x' }] },
+  6: { stage: QUEUED, transactions: [] },
+  3: {
+    stage: REFERENDUM,
+    transactions: [
+      { value: BigInt(0), destination: ADDRESSES.LockedGold, data: UNLOCK_DATA },
+      { value: BigInt(0), destination: TOKEN, data: TRANSFER_DATA }
+    ],
+    votes: [BigInt(300) * ONE, BigInt(20) * ONE, BigInt(1) * ONE]
+  },
+  4: { stage: EXPIRATION, transactions: [] }
+};
+
+// Proposal 2 was queued at block 10 and executed at block 20
+const PROPOSE_HASH = fixtureHash(42);
+const PROPOSE_INPUT = encodeFunctionData({
+  abi: GOVERNANCE_ABI,
+  functionName: 'propose',
+  args: [
+    [BigInt(0), BigInt(0)],
+    [ADDRESSES.Election, ADDRESSES.Accounts],
+    concatHex([UNLOCK_DATA, encodeFunctionData({ abi: ACCOUNTS_ABI, functionName: 'createAccount' })]),
+    [BigInt(size(UNLOCK_DATA)), BigInt(4)],
+    'https://example.org/cgp-0002.md'
+  ]
+});
+
+function governanceLogs(): MockLog[] {
+  return [
+    {
+      address: ADDRESSES.Governance,
+      topics: encodeEventTopics({
+        abi: GOVERNANCE_ABI,
+        eventName: 'ProposalQueued',
+        args: { proposalId: BigInt(2), proposer: PROPOSER }
+      }) as MockLog['topics'],
+      data: encodeAbiParameters(
+        [{ type: 'uint256' }, { type: 'uint256' }, { type: 'uint256' }],
+        [BigInt(2), BigInt(100) * ONE, BigInt(1690000000)]
+      ),
+      blockNumber: BigInt(10),
+      transactionHash: PROPOSE_HASH
+    },
+    {
+      address: ADDRESSES.Governance,
+      topics: encodeEventTopics({
+        abi: GOVERNANCE_ABI,
+        eventName: 'ProposalExecuted',
+        args: { proposalId: BigInt(2) }
+      }) as MockLog['topics'],
+      data: '0x',
+      blockNumber: BigInt(20)
+    }
+  ];
+}
+
+function chain(): MockJsonRpc {
+  const contracts: MockContract[] = [
+    { address: CELO_REGISTRY_ADDRESS, abi: CELO_REGISTRY_ABI, read: (_fn, [name]) => ADDRESSES[name as string] },
+    { address: ADDRESSES.LockedGold, abi: LOCKED_GOLD_ABI, read: () => BigInt(50) * ONE },
+    {
+      address: ADDRESSES.Governance,
+      abi: GOVERNANCE_ABI,
+      read: (fn, args) => {
+        const stored = STORED[String(args[0])];
+        switch (fn) {
+        case 'getQueue':
+          return [[BigInt(5), BigInt(6)], [BigInt(100) * ONE, BigInt(50) * ONE]];
+        case 'getDequeue':
+          return [BigInt(3), BigInt(0), BigInt(4)];
+        case 'getProposalStage':
+          return stored.stage;
+        case 'getProposal':
+          return [PROPOSER, BigInt(100) * ONE, BigInt(1700000000), BigInt(stored.transactions.length), `https://example.org/${args[0]}`, BigInt(0), true];
+        case 'getProposalTransaction': {
+          const { value, destination, data } = stored.transactions[Number(args[1])];
+          return [value, destination, data];
+        }
+        case 'getVoteTotals':
+          return stored.votes ?? [BigInt(0), BigInt(0), BigInt(0)];
+        case 'getUpvoteRecord':
+          return [BigInt(6), BigInt(50) * ONE];
+        default:
+          // getVoteRecord: a No vote on proposal 3
+          return [BigInt(3), BigInt(2), BigInt(50) * ONE, BigInt(0), BigInt(50) * ONE, BigInt(0)];
+        }
+      }
+    }
+  ];
+  return new MockJsonRpc({
+    head: BigInt(100),
+    contracts,
+    logs: governanceLogs(),
+    transactions: [{ hash: PROPOSE_HASH, blockNumber: BigInt(10), from: PROPOSER, to: ADDRESSES.Governance, input: PROPOSE_INPUT }]
+  });
+}
+
+function proposal(overrides: Partial<Proposal>): Proposal {
+  return {
+    id: BigInt(1),
+    stage: 'Queued',
+    proposer: PROPOSER,
+    deposit: BigInt(0),
+    timestamp: 0,
+    descriptionUrl: '',
+    transactionCount: 0,
+    transactions: [],
+    upvotes: BigInt(0),
+    votes: { yes: BigInt(0), no: BigInt(0), abstain: BigInt(0) },
+    ...overrides
+  };
+}
+
+const governanceAccount = (overrides: Partial<GovernanceAccount> = {}): GovernanceAccount => ({
+  account: ACCOUNT,
+  weight: BigInt(50) * ONE,
+  votes: {},
+  ...overrides
+});
+
+describe('fetchProposals', () => {
+  it('lists queued and dequeued proposals', async () => {
+    const rpc = chain();
+
+    const proposals = await fetchProposals(rpc.client(), 42220, { lookup: createCoreContractLookup() });
+
+    expect(proposals.map(({ id, stage, index }) => ({ id, stage, index }))).toEqual([
+      { id: BigInt(5), stage: 'Queued', index: undefined },
+      { id: BigInt(6), stage: 'Queued', index: undefined },
+      { id: BigInt(3), stage: 'Referendum', index: 0 }
+    ]);
+    expect(proposals[0]).toMatchObject({
+      proposer: PROPOSER,
+      upvotes: BigInt(100) * ONE,
+      timestamp: 1700000000,
+      descriptionUrl: 'https://example.org/5',
+      transactionCount: 1
+    });
+    expect(proposals[2].votes).toEqual({ yes: BigInt(300) * ONE, no: BigInt(20) * ONE, abstain: ONE });
+    expect(rpc.callsTo('eth_getLogs')).toHaveLength(0);
+  });
+
+  it('decodes proposal transactions against core contracts and ERC-20', async () => {
+    const rpc = chain();
+
+    const proposals = await fetchProposals(rpc.client(), 42220, { lookup: createCoreContractLookup() });
+
+    expect(proposals[0].transactions).toEqual([{ destination: PROPOSER, value: BigInt(2) * ONE, data: '0x' }]);
+    expect(proposals[2].transactions).toEqual([
+      { destination: ADDRESSES.LockedGold, value: BigInt(0), data: UNLOCK_DATA, contract: 'LockedGold', functionName: 'unlock', args: [ONE] },
+      { destination: TOKEN, value: BigInt(0), data: TRANSFER_DATA, functionName: 'transfer', args: [PROPOSER, ONE] }
+    ]);
+  });
+});
+
+describe('fetchExecutedProposals', () => {
+  it('recovers executed proposals from their proposing transaction', async () => {
+    const rpc = chain();
+
+    const [executed] = await fetchExecutedProposals(rpc.client(), 42220, { lookup: createCoreContractLookup(), fromBlock: BigInt(1) });
+
+    expect(executed).toMatchObject({
+      id: BigInt(2),
+      stage: 'Executed',
+      proposer: PROPOSER,
+      deposit: BigInt(100) * ONE,
+      timestamp: 1690000000,
+      descriptionUrl: 'https://example.org/cgp-0002.md',
+      transactionCount: 2,
+      executedBlock: BigInt(20)
+    });
+    expect(executed.transactions.map((entry) => [entry.contract, entry.functionName])).toEqual([
+      ['Election', undefined],
+      ['Accounts', 'createAccount']
+    ]);
+  });
+
+  it('reads from the head down in chunks until the limit is reached', async () => {
+    const rpc = chain();
+
+    const executed = await fetchExecutedProposals(rpc.client(), 42220, {
+      lookup: createCoreContractLookup(),
+      fromBlock: BigInt(1),
+      limit: 1,
+      chunkSize: 30,
+      concurrency: 1
+    });
+
+    expect(executed).toHaveLength(1);
+    const ranges = rpc.callsTo('eth_getLogs').map(({ params }) => {
+      const { fromBlock, toBlock } = params[0] as { fromBlock: string; toBlock: string };
+      return [Number(fromBlock), Number(toBlock)];
+    });
+    // Executions down to block 11, then the queued event up to the execution
+    expect(ranges).toEqual([[71, 100], [41, 70], [11, 40], [1, 20]]);
+  });
+
+  it('lists no executed proposals past the limit', async () => {
+    const rpc = chain();
+
+    const proposals = await fetchExecutedProposals(rpc.client(), 42220, { lookup: createCoreContractLookup(), fromBlock: BigInt(1), limit: 0 });
+
+    expect(proposals).toEqual([]);
+    expect(rpc.callsTo('eth_getLogs')).toHaveLength(0);
+    expect(rpc.callsTo('eth_getTransactionByHash')).toHaveLength(0);
+  });
+});
+
+describe('readGovernanceAccount', () => {
+  it('reads the vote weight, the upvote and votes on dequeued proposals', async () => {
+    const rpc = chain();
+    const proposals = [
+      proposal({ id: BigInt(6), stage: 'Queued' }),
+      proposal({ id: BigInt(3), stage: 'Referendum', index: 0 }),
+      // The record in its slot belongs to proposal 3
+      proposal({ id: BigInt(9), stage: 'Referendum', index: 1 })
+    ];
+
+    const account = await readGovernanceAccount(rpc.client(), CONTRACTS, ACCOUNT, proposals);
+
+    expect(account).toEqual({ account: ACCOUNT, weight: BigInt(50) * ONE, upvoted: BigInt(6), votes: { 3: 'no' } });
+  });
+
+  it('ignores upvotes of proposals no longer queued', async () => {
+    const rpc = chain();
+
+    const account = await readGovernanceAccount(rpc.client(), CONTRACTS, ACCOUNT, []);
+
+    expect(account.upvoted).toBeUndefined();
+  });
+});
+
+describe('findUpvoteNeighbours', () => {
+  const queue = [
+    { id: BigInt(1), upvotes: BigInt(300) },
+    { id: BigInt(2), upvotes: BigInt(200) },
+    { id: BigInt(3), upvotes: BigInt(100) }
+  ];
+
+  it('finds the proposals around the new upvote count', () => {
+    expect(findUpvoteNeighbours(queue, BigInt(3), BigInt(150))).toEqual({ lesser: BigInt(2), greater: BigInt(1) });
+    expect(findUpvoteNeighbours(queue, BigInt(3), BigInt(500))).toEqual({ lesser: BigInt(1), greater: BigInt(0) });
+    expect(findUpvoteNeighbours(queue, BigInt(1), BigInt(-250))).toEqual({ lesser: BigInt(0), greater: BigInt(3) });
+  });
+});
+
+describe('prepareGovernanceAction', () => {
+  const proposals = [
+    proposal({ id: BigInt(5), stage: 'Queued', upvotes: BigInt(100) * ONE }),
+    proposal({ id: BigInt(6), stage: 'Queued', upvotes: BigInt(70) * ONE }),
+    proposal({ id: BigInt(7), stage: 'Queued', upvotes: BigInt(60) * ONE }),
+    proposal({ id: BigInt(3), stage: 'Referendum', index: 2 })
+  ];
+  const decode = (data: `0x${string}`) => decodeFunctionData({ abi: GOVERNANCE_ABI, data });
+
+  it('votes with the dequeue index of the proposal', () => {
+    const calls = prepareGovernanceAction(CONTRACTS, proposals, governanceAccount(), {
+      type: 'vote',
+      proposalId: BigInt(3),
+      value: 'yes'
+    });
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].to).toBe(ADDRESSES.Governance);
+    expect(decode(calls[0].data)).toEqual({ functionName: 'vote', args: [BigInt(3), BigInt(2), 3] });
+  });
+
+  it('upvotes between its new neighbours', () => {
+    const calls = prepareGovernanceAction(CONTRACTS, proposals, governanceAccount({ weight: BigInt(20) * ONE }), {
+      type: 'upvote',
+      proposalId: BigInt(7)
+    });
+
+    expect(calls.map((call) => decode(call.data))).toEqual([
+      { functionName: 'upvote', args: [BigInt(7), BigInt(6), BigInt(5)] }
+    ]);
+  });
+
+  it('moves an upvote off another queued proposal first', () => {
+    const calls = prepareGovernanceAction(CONTRACTS, proposals, governanceAccount({ upvoted: BigInt(6) }), {
+      type: 'upvote',
+      proposalId: BigInt(7)
+    });
+
+    // Proposal 6 drops to 20, below 7; 7 then rises to 110, to the top
+    expect(calls.map((call) => decode(call.data))).toEqual([
+      { functionName: 'revokeUpvote', args: [BigInt(0), BigInt(7)] },
+      { functionName: 'upvote', args: [BigInt(7), BigInt(5), BigInt(0)] }
+    ]);
+  });
+
+  it('rejects actions the account or proposal does not allow', () => {
+    const attempt = (account: GovernanceAccount, action: Parameters<typeof prepareGovernanceAction>[3]): string => {
+      try {
+        prepareGovernanceAction(CONTRACTS, proposals, account, action);
+        return 'ok';
+      } catch (err) {
+        return (err as GovernanceError).code ?? '';
+      }
+    };
+
+    expect(attempt(governanceAccount({ weight: BigInt(0) }), { type: 'upvote', proposalId: BigInt(5) })).toBe('NO_VOTING_WEIGHT');
+    expect(attempt(governanceAccount(), { type: 'upvote', proposalId: BigInt(3) })).toBe('INVALID_PROPOSAL');
+    expect(attempt(governanceAccount(), { type: 'vote', proposalId: BigInt(5), value: 'no' })).toBe('INVALID_PROPOSAL');
+    expect(attempt(governanceAccount({ upvoted: BigInt(5) }), { type: 'upvote', proposalId: BigInt(5) })).toBe('ALREADY_UPVOTED');
+  });
+});
+
+describe('decodeProposalTransaction', () => {
+  it('keeps calls it cannot decode as they are', () => {
+    const decoders = [{ name: 'Election', address: ADDRESSES.Election, abi: ELECTION_ABI }];
+
+    expect(decodeProposalTransaction({ destination: ADDRESSES.Election, value: BigInt(0), data: UNLOCK_DATA }, decoders))
+      .toEqual({ destination: ADDRESSES.Election, value: BigInt(0), data: UNLOCK_DATA, contract: 'Election' });
+  });
+});
+
+describe('createPendingGovernanceTransaction', () => {
+  it('creates a pending contract call for the history', () => {
+    const hash = fixtureHash(7);
+
+    expect(createPendingGovernanceTransaction(ACCOUNT, { to: ADDRESSES.Governance, data: '0x' }, hash, 42220, 1700000000))
+      .toEqual({
+        hash,
+        blockNumber: '0',
+        timestamp: 1700000000,
+        from: ACCOUNT,
+        to: ADDRESSES.Governance,
+        value: '0',
+        gasUsed: '0',
+        gasPrice: '0',
+        status: 'pending',
+        type: 'contract',
+        confirmations: 0,
+        chainId: 42220
+      });
+  });
+});
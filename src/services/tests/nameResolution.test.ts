@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { PublicClient } from 'viem';
+import {
+  createEnsNameResolver,
+  createNameService,
+  createSocialConnectResolver,
+  parseNameQuery
+} from '../nameResolution';
+import { CELO_REGISTRY_ADDRESS } from '../../config/feeCurrencies';
+import type { NameResolver } from '../../types/names';
+
+const ALICE = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' as const;
+const BOB = '0x1234567890123456789012345678901234567890';
+const ISSUER = '0x1111111111111111111111111111111111111111';
+const ATTESTATIONS = '0x2222222222222222222222222222222222222222';
+
+function stubResolver(overrides: Partial<NameResolver> = {}): NameResolver {
+  return {
+    id: 'stub',
+    supports: () => true,
+    resolve: vi.fn(async () => ALICE),
+    reverse: vi.fn(async () => 'alice.celo'),
+    ...overrides
+  };
+}
+
+describe('parseNameQuery', () => {
+  it('recognizes names, phone numbers and handles', () => {
+    expect(parseNameQuery(' Alice.celo ')).toEqual({ kind: 'name', value: 'alice.celo' });
+    expect(parseNameQuery('+1 (415) 555-0100')).toEqual({ kind: 'phone', value: '+14155550100' });
+    expect(parseNameQuery('@CeloOrg')).toEqual({ kind: 'twitter', value: 'celoorg' });
+  });
+
+  it('ignores addresses and other input', () => {
+    expect(parseNameQuery(ALICE)).toBeUndefined();
+    expect(parseNameQuery('alice')).toBeUndefined();
+    expect(parseNameQuery('')).toBeUndefined();
+    expect(parseNameQuery('12345')).toBeUndefined();
+  });
+});
+
+describe('createEnsNameResolver', () => {
+  const client = (contracts: object) => ({
+    chain: { contracts },
+    getEnsAddress: vi.fn(async () => ALICE),
+    getEnsName: vi.fn(async () => 'alice.celo')
+  });
+
+  it('resolves names through the chain universal resolver', async () => {
+    const stub = client({ ensUniversalResolver: { address: ISSUER } });
+    const resolver = createEnsNameResolver({ getClient: () => stub as unknown as PublicClient });
+
+    expect(resolver.supports({ kind: 'name', value: 'alice.celo' })).toBe(true);
+    expect(resolver.supports({ kind: 'name', value: 'alice.eth' })).toBe(false);
+    expect(await resolver.resolve({ kind: 'name', value: 'alice.celo' }, 42220)).toBe(ALICE);
+    expect(await resolver.reverse?.(ALICE, 42220)).toBe('alice.celo');
+    expect(stub.getEnsAddress).toHaveBeenCalledWith({ name: 'alice.celo' });
+  });
+
+  it('resolves nothing on chains without a universal resolver', async () => {
+    const stub = client({});
+    const resolver = createEnsNameResolver({ getClient: () => stub as unknown as PublicClient });
+
+    expect(await resolver.resolve({ kind: 'name', value: 'alice.celo' }, 44787)).toBeUndefined();
+    expect(await resolver.reverse?.(ALICE, 44787)).toBeUndefined();
+    expect(stub.getEnsAddress).not.toHaveBeenCalled();
+  });
+});
+
+describe('createSocialConnectResolver', () => {
+  it('returns the account of the latest trusted attestation', async () => {
+    const readContract = vi.fn(async ({ functionName }: { functionName: string }) => (
+      functionName === 'getAddressForStringOrDie'
+        ? ATTESTATIONS
+        : [[BigInt(2)], [BOB, ALICE], [ISSUER, ISSUER], [BigInt(100), BigInt(200)], [BigInt(100), BigInt(200)]]
+    ));
+    const getObfuscatedIdentifier = vi.fn(async () => `0x${'ab'.repeat(32)}` as const);
+    const resolver = createSocialConnectResolver({
+      getClient: () => ({ readContract }) as unknown as PublicClient,
+      getObfuscatedIdentifier,
+      trustedIssuers: { 42220: [ISSUER] }
+    });
+
+    const address = await resolver.resolve({ kind: 'phone', value: '+14155550100' }, 42220);
+
+    expect(address).toBe(ALICE);
+    expect(readContract).toHaveBeenCalledWith(expect.objectContaining({ address: CELO_REGISTRY_ADDRESS }));
+    expect(readContract).toHaveBeenCalledWith(expect.objectContaining({
+      address: ATTESTATIONS,
+      args: [`0x${'ab'.repeat(32)}`, [ISSUER]]
+    }));
+  });
+
+  it('resolves nothing without trusted issuers', async () => {
+    const getObfuscatedIdentifier = vi.fn();
+    const resolver = createSocialConnectResolver({ getObfuscatedIdentifier, trustedIssuers: {} });
+
+    expect(resolver.supports({ kind: 'twitter', value: 'celoorg' })).toBe(true);
+    expect(resolver.supports({ kind: 'name', value: 'alice.celo' })).toBe(false);
+    expect(await resolver.resolve({ kind: 'twitter', value: 'celoorg' }, 42220)).toBeUndefined();
+    expect(getObfuscatedIdentifier).not.toHaveBeenCalled();
+  });
+});
+
+describe('createNameService', () => {
+  it('resolves with the first resolver that knows the name', async () => {
+    const unknown = stubResolver({ id: 'unknown', resolve: vi.fn(async () => undefined) });
+    const service = createNameService({ resolvers: [unknown, stubResolver()] });
+
+    expect(await service.resolve('Alice.celo', 42220)).toEqual({ name: 'Alice.celo', address: ALICE, resolver: 'stub' });
+  });
+
+  it('rejects input that is not a name and names nobody knows', async () => {
+    const service = createNameService({ resolvers: [stubResolver({ resolve: vi.fn(async () => undefined) })] });
+
+    await expect(service.resolve(ALICE, 42220)).rejects.toMatchObject({ code: 'INVALID_NAME' });
+    await expect(service.resolve('nobody.celo', 42220)).rejects.toMatchObject({ code: 'NAME_NOT_FOUND' });
+  });
+
+  it('reports resolver failures instead of an unknown name', async () => {
+    const failure = new Error('RPC down');
+    const service = createNameService({ resolvers: [stubResolver({ resolve: vi.fn().mockRejectedValue(failure) })] });
+
+    await expect(service.resolve('alice.celo', 42220)).rejects.toBe(failure);
+  });
+
+  it('caches results until they expire', async () => {
+    let now = 0;
+    const resolver = stubResolver();
+    const service = createNameService({ resolvers: [resolver], ttl: 1000, now: () => now });
+
+    await service.resolve('alice.celo', 42220);
+    await service.resolve('ALICE.celo', 42220);
+    expect(await service.lookupName(ALICE, 42220)).toBe('alice.celo');
+    expect(await service.lookupName(ALICE, 42220)).toBe('alice.celo');
+    expect(resolver.resolve).toHaveBeenCalledTimes(1);
+    expect(resolver.reverse).toHaveBeenCalledTimes(1);
+
+    now = 1001;
+    await service.resolve('alice.celo', 42220);
+    expect(resolver.resolve).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries lookups that failed', async () => {
+    const resolver = stubResolver({ resolve: vi.fn().mockRejectedValueOnce(new Error('RPC down')).mockResolvedValue(ALICE) });
+    const service = createNameService({ resolvers: [resolver] });
+
+    await expect(service.resolve('alice.celo', 42220)).rejects.toThrow('RPC down');
+    expect((await service.resolve('alice.celo', 42220)).address).toBe(ALICE);
+  });
+});
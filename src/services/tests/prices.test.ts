@@ -0,0 +1,222 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createCoinGeckoPriceApi,
+  createFiatCurrencyStore,
+  createFixturePriceProvider,
+  createHttpPriceProvider,
+  getHistoricalPrices,
+  getPriceKey,
+  nativePricedAsset,
+  transactionToPricedAsset
+} from '../prices';
+import type { CeloTransaction } from '../../types/transaction';
+import type { PricedAsset } from '../../types/price';
+import { memoryStorage } from '../../test/memoryStorage';
+
+const CUSD = '0x765DE816845861e75A25fCA122bb6898B8B1282a';
+const celo: PricedAsset = { chainId: 42220, symbol: 'CELO' };
+const cusd: PricedAsset = { chainId: 42220, address: CUSD, symbol: 'cUSD' };
+
+const transaction: CeloTransaction = {
+  hash: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+  blockNumber: '100',
+  timestamp: Date.UTC(2024, 0, 31, 12) / 1000,
+  from: '0x1234567890123456789012345678901234567890',
+  to: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+  value: '1000000000000000000',
+  gasUsed: '21000',
+  gasPrice: '5000000000',
+  status: 'success',
+  type: 'sent',
+  confirmations: 1,
+  chainId: 42220
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('price assets', () => {
+  it('keys assets by chain and lowercase address', () => {
+    expect(getPriceKey(celo)).toBe('42220:native');
+    expect(getPriceKey(cusd)).toBe(`42220:${CUSD.toLowerCase()}`);
+  });
+
+  it('prices the asset a transaction moved', () => {
+    expect(transactionToPricedAsset(transaction)).toEqual(nativePricedAsset(42220));
+    expect(transactionToPricedAsset({ ...transaction, tokenAddress: CUSD, tokenSymbol: 'cUSD' })).toEqual(cusd);
+  });
+});
+
+describe('createHttpPriceProvider', () => {
+  it('fetches current prices of all assets in one request', async () => {
+    const fetchFn = vi.fn<typeof fetch>(async () => jsonResponse({ celo: { eur: 0.5 }, 'celo-dollar': { eur: 0.92 } }));
+    const provider = createHttpPriceProvider({ fetchFn });
+
+    const prices = await provider.getPrices([celo, cusd], 'EUR');
+
+    expect(prices).toEqual({ [getPriceKey(celo)]: 0.5, [getPriceKey(cusd)]: 0.92 });
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(fetchFn.mock.calls[0]).toEqual([
+      'https://api.coingecko.com/api/v3/simple/price?ids=celo,celo-dollar&vs_currencies=eur',
+      { headers: undefined }
+    ]);
+  });
+
+  it('does not price testnet assets', async () => {
+    const fetchFn = vi.fn();
+    const provider = createHttpPriceProvider({ fetchFn });
+
+    expect(await provider.getPrices([{ chainId: 11142220, symbol: 'CELO' }], 'USD')).toEqual({});
+    expect(await provider.getHistoricalPrice({ chainId: 11142220, symbol: 'CELO' }, 'USD', 0)).toBeUndefined();
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+
+  it('does not price unknown contracts that reuse a known symbol', async () => {
+    const fetchFn = vi.fn();
+    const provider = createHttpPriceProvider({ fetchFn });
+    const lookalike: PricedAsset = { chainId: 42220, address: '0x00000000000000000000000000000000000c05d0', symbol: 'cUSD' };
+
+    expect(await provider.getPrices([lookalike], 'USD')).toEqual({});
+    expect(await provider.getHistoricalPrice(lookalike, 'USD', 0)).toBeUndefined();
+    expect(await getHistoricalPrices(provider, [{ ...transaction, tokenAddress: lookalike.address, tokenSymbol: 'cUSD' }], 'USD')).toEqual({});
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+
+  it('shares one historical request per asset and day', async () => {
+    const fetchFn = vi.fn<typeof fetch>(async () => jsonResponse({ market_data: { current_price: { usd: 0.61 } } }));
+    const provider = createHttpPriceProvider({ fetchFn });
+
+    const [morning, evening] = await Promise.all([
+      provider.getHistoricalPrice(celo, 'USD', Date.UTC(2024, 0, 31, 8) / 1000),
+      provider.getHistoricalPrice(celo, 'USD', Date.UTC(2024, 0, 31, 20) / 1000)
+    ]);
+
+    expect(morning).toBe(0.61);
+    expect(evening).toBe(0.61);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(fetchFn.mock.calls[0][0]).toBe(
+      'https://api.coingecko.com/api/v3/coins/celo/history?date=31-01-2024&localization=false'
+    );
+  });
+
+  it('reports rate limiting and retries failed historical lookups', async () => {
+    const fetchFn = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({}, 429))
+      .mockResolvedValueOnce(jsonResponse({ market_data: { current_price: { usd: 0.61 } } }));
+    const provider = createHttpPriceProvider({ fetchFn });
+
+    await expect(provider.getHistoricalPrice(celo, 'USD', 0)).rejects.toMatchObject({ code: 'RATE_LIMITED' });
+    expect(await provider.getHistoricalPrice(celo, 'USD', 0)).toBe(0.61);
+  });
+
+  it('maps network and HTTP failures to wallet errors', async () => {
+    const offline = createHttpPriceProvider({ fetchFn: vi.fn().mockRejectedValue(new TypeError('Failed to fetch')) });
+    const broken = createHttpPriceProvider({ fetchFn: vi.fn().mockResolvedValue(jsonResponse({}, 500)) });
+
+    await expect(offline.getPrices([celo], 'USD')).rejects.toMatchObject({ code: 'RPC_UNAVAILABLE' });
+    await expect(broken.getPrices([celo], 'USD')).rejects.toMatchObject({ code: 'PRICE_UNAVAILABLE' });
+  });
+
+  it('builds requests through a custom API adapter', async () => {
+    const fetchFn = vi.fn<typeof fetch>(async () => jsonResponse({ celo: { usd: 1 } }));
+    const provider = createHttpPriceProvider({
+      fetchFn,
+      api: createCoinGeckoPriceApi({ baseUrl: 'https://pro-api.example.com/v3' }),
+      headers: { 'x-api-key': 'key' }
+    });
+
+    await provider.getPrices([celo], 'USD');
+
+    expect(fetchFn).toHaveBeenCalledWith(
+      'https://pro-api.example.com/v3/simple/price?ids=celo&vs_currencies=usd',
+      { headers: { 'x-api-key': 'key' } }
+    );
+  });
+});
+
+describe('createFixturePriceProvider', () => {
+  const provider = createFixturePriceProvider({
+    current: { USD: { [getPriceKey(celo)]: 0.7 } },
+    history: { USD: { [getPriceKey(celo)]: [[100, 0.5], [200, 0.6]] } }
+  });
+
+  it('returns fixed current prices by asset', async () => {
+    expect(await provider.getPrices([celo, cusd], 'USD')).toEqual({ [getPriceKey(celo)]: 0.7 });
+    expect(await provider.getPrices([celo], 'EUR')).toEqual({});
+  });
+
+  it('holds each historical point until the next one', async () => {
+    expect(await provider.getHistoricalPrice(celo, 'USD', 99)).toBeUndefined();
+    expect(await provider.getHistoricalPrice(celo, 'USD', 150)).toBe(0.5);
+    expect(await provider.getHistoricalPrice(celo, 'USD', 5000)).toBe(0.6);
+  });
+});
+
+describe('getHistoricalPrices', () => {
+  it('keys prices by transaction and leaves unpriced ones out', async () => {
+    const provider = createFixturePriceProvider({
+      current: {},
+      history: { USD: { [getPriceKey(celo)]: [[0, 0.5]] } }
+    });
+    const token = { ...transaction, hash: `0x${'2'.repeat(64)}`, tokenAddress: CUSD, tokenSymbol: 'cUSD' };
+
+    const prices = await getHistoricalPrices(provider, [transaction, token], 'USD');
+
+    expect(prices).toEqual({ [transaction.hash]: 0.5 });
+  });
+
+  it('leaves out transactions whose lookup failed', async () => {
+    const later = { ...transaction, hash: `0x${'3'.repeat(64)}`, timestamp: transaction.timestamp + 86400 };
+    const provider = createFixturePriceProvider({ current: {} });
+    provider.getHistoricalPrice = vi.fn()
+      .mockRejectedValueOnce({ code: 'PRICE_UNAVAILABLE', message: 'Prices are unavailable right now (HTTP 500)' })
+      .mockResolvedValueOnce(0.6);
+
+    const prices = await getHistoricalPrices(provider, [transaction, later], 'USD', { concurrency: 1 });
+
+    expect(prices).toEqual({ [later.hash]: 0.6 });
+  });
+
+  it('backs off and retries rate limited lookups', async () => {
+    const fetchFn = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({}, 429))
+      .mockResolvedValueOnce(jsonResponse({}, 429))
+      .mockResolvedValueOnce(jsonResponse({ market_data: { current_price: { usd: 0.61 } } }));
+    const provider = createHttpPriceProvider({ fetchFn });
+
+    const prices = await getHistoricalPrices(provider, [transaction], 'USD', { retryDelay: 1 });
+
+    expect(prices).toEqual({ [transaction.hash]: 0.61 });
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up on a lookup that stays rate limited', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse({}, 429));
+    const provider = createHttpPriceProvider({ fetchFn });
+
+    const prices = await getHistoricalPrices(provider, [transaction], 'USD', { retryCount: 1, retryDelay: 1 });
+
+    expect(prices).toEqual({});
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('createFiatCurrencyStore', () => {
+  it('persists the selected currency and notifies subscribers', () => {
+    const storage = memoryStorage();
+    const store = createFiatCurrencyStore(storage);
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    expect(store.get()).toBe('USD');
+    store.set('KES');
+    store.set('KES');
+    unsubscribe();
+    store.set('EUR');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('KES');
+    expect(createFiatCurrencyStore(storage).get()).toBe('EUR');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createRpcHealthTracker } from '../rpcHealth';
+
+const A = 'https://a.example';
+const B = 'https://b.example';
+const C = 'https://c.example';
+
+describe('createRpcHealthTracker', () => {
+  it('keeps the configured order until endpoints are used', () => {
+    const health = createRpcHealthTracker();
+    health.register(42220, [A, B, C]);
+
+    expect(health.rank(42220)).toEqual([A, B, C]);
+    expect(health.getSnapshot(42220)).toMatchObject({ activeUrl: A, status: 'unknown' });
+  });
+
+  it('orders healthy endpoints by smoothed latency', () => {
+    const health = createRpcHealthTracker({ latencySmoothing: 0.5 });
+    health.register(42220, [A, B]);
+
+    health.recordSuccess(42220, A, 100);
+    health.recordSuccess(42220, B, 60);
+    expect(health.rank(42220)).toEqual([B, A]);
+
+    health.recordSuccess(42220, B, 200);
+    expect(health.getSnapshot(42220).endpoints.map((endpoint) => endpoint.latency)).toEqual([100, 130]);
+    expect(health.rank(42220)).toEqual([A, B]);
+  });
+
+  it('reports a chain as down once every endpoint fails', () => {
+    const health = createRpcHealthTracker();
+    health.register(42220, [A, B]);
+
+    health.recordFailure(42220, A, new Error('fetch failed'));
+    expect(health.getSnapshot(42220).status).toBe('unknown');
+    health.recordFailure(42220, B, new Error('fetch failed'));
+
+    const snapshot = health.getSnapshot(42220);
+    expect(snapshot.status).toBe('down');
+    expect(snapshot.endpoints[0]).toMatchObject({ url: A, failures: 1, lastError: 'fetch failed' });
+  });
+
+  it('lifts rate limits after the cooldown', () => {
+    let now = 1000;
+    const health = createRpcHealthTracker({ rateLimitCooldown: 500, now: () => now });
+    health.register(42220, [A, B]);
+
+    health.recordFailure(42220, A, new Error('Too Many Requests'), true);
+    expect(health.rank(42220)).toEqual([B, A]);
+    expect(health.getSnapshot(42220).endpoints[1].status).toBe('rate-limited');
+
+    now = 1600;
+    expect(health.getSnapshot(42220).endpoints[1].status).toBe('unknown');
+  });
+
+  it('notifies subscribers of the changed chain', () => {
+    const health = createRpcHealthTracker();
+    const listener = vi.fn();
+    const unsubscribe = health.subscribe(listener);
+
+    health.recordSuccess(44787, A, 10);
+    unsubscribe();
+    health.recordSuccess(44787, A, 10);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(44787);
+  });
+});
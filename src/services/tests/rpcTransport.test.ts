@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { createPublicClient, type Chain, type PublicClient, type Transport } from 'viem';
+import { createCeloTransport, isRateLimitError, probeRpcEndpoints } from '../rpcTransport';
+import { createRpcHealthTracker, type RpcHealthTracker } from '../rpcHealth';
+import { createCeloChain } from '../../config/celoChains';
+import { MockJsonRpc } from '../../test/mockJsonRpc';
+import { StubRpcServer, stubFetch } from '../../test/stubRpcServer';
+
+const PRIMARY = 'http://127.0.0.1:8545';
+const SECONDARY = 'http://127.0.0.1:8546';
+const TERTIARY = 'http://127.0.0.1:8547';
+
+function setup(urls = [PRIMARY, SECONDARY]): {
+  chain: Chain;
+  servers: StubRpcServer[];
+  health: RpcHealthTracker;
+  client: PublicClient;
+} {
+  const chain = createCeloChain({ id: 42220, name: 'Celo', currencyName: 'Celo', rpc: urls });
+  const servers = urls.map((url) => new StubRpcServer(url, new MockJsonRpc({ head: BigInt(100) })));
+  const health = createRpcHealthTracker();
+  const transport = createCeloTransport(chain, { health, retryCount: 0, fetchFn: stubFetch(servers) });
+  return { chain, servers, health, client: createPublicClient<Transport, Chain>({ chain, transport }) };
+}
+
+describe('createCeloTransport', () => {
+  it('sends requests to the first endpoint while it is healthy', async () => {
+    const { servers, client, health } = setup();
+
+    await expect(client.getBlockNumber({ cacheTime: 0 })).resolves.toBe(BigInt(100));
+
+    expect(servers[0].requests).toBe(1);
+    expect(servers[1].requests).toBe(0);
+    expect(health.getSnapshot(42220)).toMatchObject({ activeUrl: PRIMARY, status: 'healthy' });
+  });
+
+  it('fails over to the next endpoint and keeps using it while the first is down', async () => {
+    const { servers, client, health } = setup();
+    servers[0].down = true;
+
+    await expect(client.getBlockNumber({ cacheTime: 0 })).resolves.toBe(BigInt(100));
+    await expect(client.getBlockNumber({ cacheTime: 0 })).resolves.toBe(BigInt(100));
+
+    expect(servers[0].requests).toBe(1);
+    expect(servers[1].requests).toBe(2);
+    const snapshot = health.getSnapshot(42220);
+    expect(snapshot).toMatchObject({ activeUrl: SECONDARY, status: 'degraded' });
+    expect(snapshot.endpoints[1]).toMatchObject({ url: PRIMARY, status: 'down', failures: 1 });
+  });
+
+  it('detects rate limits and tries the limited endpoint last', async () => {
+    const { servers, client, health } = setup([PRIMARY, SECONDARY, TERTIARY]);
+    servers[0].status = 429;
+    servers[1].down = true;
+
+    await client.getBlockNumber({ cacheTime: 0 });
+
+    expect(health.rank(42220)).toEqual([TERTIARY, SECONDARY, PRIMARY]);
+    expect(health.getSnapshot(42220).endpoints[2].status).toBe('rate-limited');
+  });
+
+  it('does not fail over when the node rejects the request itself', async () => {
+    const { servers, client } = setup();
+    servers[0].rpc.failMethod('eth_blockNumber', Object.assign(new Error('invalid argument'), { code: -32602 }));
+
+    await expect(client.getBlockNumber({ cacheTime: 0 })).rejects.toThrow();
+
+    expect(servers[1].requests).toBe(0);
+  });
+
+  it('retries with backoff once every endpoint failed', async () => {
+    const chain = createCeloChain({ id: 42220, name: 'Celo', currencyName: 'Celo', rpc: PRIMARY });
+    const server = new StubRpcServer(PRIMARY);
+    server.status = 503;
+    const fetchFn = stubFetch([server]);
+    const client = createPublicClient({
+      chain,
+      transport: createCeloTransport(chain, {
+        health: createRpcHealthTracker(),
+        retryCount: 2,
+        retryDelay: 1,
+        fetchFn: async (input, init) => {
+          // Recovers on the third attempt
+          if (server.requests === 2) {
+            server.status = 200;
+          }
+          return fetchFn(input, init);
+        }
+      })
+    });
+
+    await expect(client.getBlockNumber({ cacheTime: 0 })).resolves.toBe(BigInt(100));
+    expect(server.requests).toBe(3);
+  });
+});
+
+describe('probeRpcEndpoints', () => {
+  it('ranks healthy endpoints by latency', async () => {
+    const { servers, health } = setup();
+    servers[0].delay = 40;
+
+    await probeRpcEndpoints(42220, { health, fetchFn: stubFetch(servers) });
+
+    expect(health.rank(42220)).toEqual([SECONDARY, PRIMARY]);
+    expect(servers.map((server) => server.requests)).toEqual([1, 1]);
+  });
+
+  it('records endpoints that do not answer instead of rejecting', async () => {
+    const { servers, health } = setup();
+    servers.forEach((server) => {
+      server.down = true;
+    });
+
+    await expect(probeRpcEndpoints(42220, { health, fetchFn: stubFetch(servers) })).resolves.toBeUndefined();
+
+    expect(health.getSnapshot(42220)).toMatchObject({ status: 'down' });
+  });
+});
+
+describe('isRateLimitError', () => {
+  it('recognizes limit errors reported in the JSON-RPC body', async () => {
+    const { servers, client } = setup([PRIMARY]);
+    servers[0].rpc.failMethod('eth_blockNumber', Object.assign(new Error('limit exceeded'), { code: -32005 }));
+
+    const error = await client.getBlockNumber({ cacheTime: 0 }).catch((err: unknown) => err);
+
+    expect(isRateLimitError(error)).toBe(true);
+    expect(isRateLimitError(new Error('execution reverted'))).toBe(false);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+import { serializeErc6492Signature, type Address, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  ERC1271_ABI,
+  ERC1271_MAGIC_VALUE,
+  addToSignatureHistory,
+  createLocalStorageSignatureStore,
+  parseTypedData,
+  stringifyTypedData,
+  verifySignature
+} from '../signatures';
+import type { SignedPayload } from '../../types/signature';
+import { MockJsonRpc, type MockContract } from '../../test/mockJsonRpc';
+import { memoryStorage } from '../../test/memoryStorage';
+
+const account = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const WALLET: Address = '0x3333333333333333333333333333333333333333';
+const FACTORY: Address = '0x4444444444444444444444444444444444444444';
+
+const TYPED_DATA = {
+  domain: { name: 'Test', version: '1', chainId: 42220 },
+  types: {
+    Mail: [
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' }
+    ]
+  },
+  primaryType: 'Mail',
+  message: { to: WALLET, amount: BigInt(5) }
+} as const;
+
+function contractWallet(validSignature: Hex): MockContract {
+  return {
+    address: WALLET,
+    abi: ERC1271_ABI,
+    read: (_functionName, [, signature]) => signature === validSignature ? ERC1271_MAGIC_VALUE : '0xffffffff'
+  };
+}
+
+function entry(signature: Hex, signedAt: number): SignedPayload {
+  return { kind: 'message', address: account.address, chainId: 42220, payload: 'hi', signature, signedAt };
+}
+
+describe('verifySignature', () => {
+  it('recovers the signer of a message signed by an externally owned account', async () => {
+    const client = new MockJsonRpc({ head: BigInt(1) }).client();
+    const signature = await account.signMessage({ message: 'hello' });
+
+    await expect(verifySignature(client, {
+      address: account.address,
+      kind: 'message',
+      payload: 'hello',
+      signature
+    }, 1000)).resolves.toEqual({ valid: true, method: 'eoa', verifiedAt: 1000 });
+  });
+
+  it('verifies typed data from its JSON form', async () => {
+    const client = new MockJsonRpc({ head: BigInt(1) }).client();
+    const signature = await account.signTypedData(TYPED_DATA);
+
+    const result = await verifySignature(client, {
+      address: account.address,
+      kind: 'typedData',
+      payload: stringifyTypedData(TYPED_DATA),
+      signature
+    });
+    expect(result.valid).toBe(true);
+  });
+
+  it('rejects a signature from another signer', async () => {
+    const client = new MockJsonRpc({ head: BigInt(1) }).client();
+    const signature = await account.signMessage({ message: 'hello' });
+
+    const result = await verifySignature(client, { address: WALLET, kind: 'message', payload: 'hello', signature });
+    expect(result).toMatchObject({ valid: false, method: 'eoa' });
+  });
+
+  it('asks deployed contract wallets through ERC-1271', async () => {
+    const signature = await account.signMessage({ message: 'hello' });
+    const client = new MockJsonRpc({ head: BigInt(1), contracts: [contractWallet(signature)] }).client();
+
+    await expect(verifySignature(client, { address: WALLET, kind: 'message', payload: 'hello', signature }))
+      .resolves.toMatchObject({ valid: true, method: 'erc1271' });
+    await expect(verifySignature(client, { address: WALLET, kind: 'message', payload: 'bye', signature: '0x1234' }))
+      .resolves.toMatchObject({ valid: false, method: 'erc1271' });
+  });
+
+  it('hands ERC-6492 signatures of undeployed wallets to the universal validator', async () => {
+    const client = new MockJsonRpc({ head: BigInt(1) }).client();
+    const verifyHash = vi.spyOn(client, 'verifyHash').mockResolvedValue(true);
+    const signature = serializeErc6492Signature({
+      address: FACTORY,
+      data: '0xdeadbeef',
+      signature: await account.signMessage({ message: 'hello' })
+    });
+
+    await expect(verifySignature(client, { address: WALLET, kind: 'message', payload: 'hello', signature }))
+      .resolves.toMatchObject({ valid: true, method: 'erc6492' });
+    expect(verifyHash).toHaveBeenCalledWith(expect.objectContaining({ address: WALLET, signature }));
+  });
+});
+
+describe('parseTypedData', () => {
+  it('round-trips typed data with bigint values', () => {
+    const parsed = parseTypedData(stringifyTypedData(TYPED_DATA));
+    expect(parsed.primaryType).toBe('Mail');
+    expect(parsed.message).toEqual({ to: WALLET, amount: '5' });
+  });
+
+  it.each([
+    ['not json', 'not valid JSON'],
+    ['{"primaryType":"Mail","message":{}}', 'missing "types"'],
+    ['{"types":{"Mail":[]},"primaryType":"Other","message":{}}', '"primaryType"'],
+    ['{"types":{"Mail":[{"name":"to","type":"address"}]},"primaryType":"Mail","message":{"to":"0x12"}}', 'does not match']
+  ])('rejects %s', (json, message) => {
+    expect(() => parseTypedData(json)).toThrow(expect.objectContaining({
+      code: 'INVALID_TYPED_DATA',
+      message: expect.stringContaining(message)
+    }));
+  });
+});
+
+describe('signature history', () => {
+  it('persists entries per signer and drops malformed ones', () => {
+    const storage = memoryStorage();
+    const store = createLocalStorageSignatureStore(storage, 'test:');
+    store.save(account.address, [entry('0x01', 1)]);
+
+    expect(createLocalStorageSignatureStore(storage, 'test:').load(account.address.toUpperCase()))
+      .toEqual([entry('0x01', 1)]);
+
+    storage.setItem(`test:${WALLET}`, JSON.stringify([{ kind: 'message' }, entry('0x02', 2)]));
+    expect(store.load(WALLET)).toEqual([entry('0x02', 2)]);
+  });
+
+  it('keeps the newest entries first without duplicates', () => {
+    let entries = addToSignatureHistory([], entry('0x01', 1));
+    entries = addToSignatureHistory(entries, entry('0x02', 2));
+    entries = addToSignatureHistory(entries, entry('0x01', 3), 2);
+
+    expect(entries.map((e) => e.signedAt)).toEqual([3, 2]);
+    expect(addToSignatureHistory(entries, entry('0x03', 4), 2).map((e) => e.signature)).toEqual(['0x03', '0x01']);
+  });
+});
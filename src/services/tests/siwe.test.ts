@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+import { privateKeyToAccount } from 'viem/accounts';
+import { parseSiweMessage } from 'viem/siwe';
+import { buildSiweMessage, createMemorySiweAdapter, createSiweSessionStore } from '../siwe';
+import { MockJsonRpc } from '../../test/mockJsonRpc';
+
+const account = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const other = privateKeyToAccount('0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a');
+const NOW = 1700000000000;
+
+function setup(domain = 'app.example') {
+  let now = NOW;
+  const client = new MockJsonRpc({ head: BigInt(1) }).client();
+  const adapter = createMemorySiweAdapter({ domain, getClient: () => client, now: () => now });
+  return { adapter, advance: (ms: number) => { now += ms; } };
+}
+
+async function signIn(adapter: ReturnType<typeof setup>['adapter'], overrides: Partial<Parameters<typeof buildSiweMessage>[0]> = {}) {
+  const nonce = await adapter.getNonce(account.address, 42220);
+  const message = buildSiweMessage({
+    address: account.address,
+    chainId: 42220,
+    nonce,
+    domain: 'app.example',
+    uri: 'https://app.example',
+    issuedAt: NOW,
+    expiresAt: NOW + 60000,
+    ...overrides
+  });
+  return { message, signature: await account.signMessage({ message }) };
+}
+
+describe('buildSiweMessage', () => {
+  it('binds the message to the account, chain and nonce', () => {
+    const message = buildSiweMessage({
+      address: account.address,
+      chainId: 44787,
+      nonce: 'abcdef123456',
+      statement: 'Sign in to the app',
+      domain: 'app.example',
+      uri: 'https://app.example',
+      issuedAt: NOW,
+      expiresAt: NOW + 60000
+    });
+
+    expect(parseSiweMessage(message)).toMatchObject({
+      address: account.address,
+      chainId: 44787,
+      nonce: 'abcdef123456',
+      statement: 'Sign in to the app',
+      domain: 'app.example',
+      issuedAt: new Date(NOW),
+      expirationTime: new Date(NOW + 60000)
+    });
+  });
+
+  it('needs a domain outside the browser', () => {
+    expect(() => buildSiweMessage({ address: account.address, chainId: 42220, nonce: 'abcdef123456' }))
+      .toThrow(expect.objectContaining({ code: 'SIWE_MISSING_DOMAIN' }));
+  });
+});
+
+describe('createMemorySiweAdapter', () => {
+  it('accepts a signed message and records the session', async () => {
+    const { adapter } = setup();
+    const signed = await signIn(adapter);
+
+    await expect(adapter.verify(signed)).resolves.toBe(true);
+    expect(adapter.sessions).toMatchObject([{ address: account.address, chainId: 42220, expiresAt: NOW + 60000 }]);
+
+    await adapter.signOut(adapter.sessions[0]);
+    expect(adapter.sessions).toEqual([]);
+  });
+
+  it('accepts each nonce once', async () => {
+    const { adapter } = setup();
+    const signed = await signIn(adapter);
+
+    await adapter.verify(signed);
+    await expect(adapter.verify(signed)).resolves.toBe(false);
+  });
+
+  it('rejects nonces it did not issue or that expired', async () => {
+    const { adapter, advance } = setup();
+    await expect(adapter.verify(await signIn(adapter, { nonce: 'unknownnonce1' }))).resolves.toBe(false);
+
+    const signed = await signIn(adapter);
+    advance(10 * 60 * 1000);
+    await expect(adapter.verify(signed)).resolves.toBe(false);
+  });
+
+  it('rejects expired messages, other domains and other signers', async () => {
+    const { adapter } = setup();
+
+    await expect(adapter.verify(await signIn(adapter, { expiresAt: NOW - 1 }))).resolves.toBe(false);
+    await expect(adapter.verify(await signIn(adapter, { domain: 'evil.example' }))).resolves.toBe(false);
+
+    const nonce = await adapter.getNonce(account.address, 42220);
+    const message = buildSiweMessage({
+      address: account.address,
+      chainId: 42220,
+      nonce,
+      domain: 'app.example',
+      uri: 'https://app.example',
+      issuedAt: NOW
+    });
+    await expect(adapter.verify({ message, signature: await other.signMessage({ message }) })).resolves.toBe(false);
+  });
+});
+
+describe('createSiweSessionStore', () => {
+  it('notifies subscribers until they unsubscribe', () => {
+    const store = createSiweSessionStore();
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.setState({ status: 'signing-in', session: null });
+    unsubscribe();
+    store.setState({ status: 'signed-out', session: null, signOutReason: 'user' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.getState()).toEqual({ status: 'signed-out', session: null, signOutReason: 'user' });
+  });
+});
@@ -0,0 +1,272 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeEventTopics,
+  zeroAddress,
+  type Address
+} from 'viem';
+import {
+  ACCOUNTS_ABI,
+  ELECTION_ABI,
+  LOCKED_GOLD_ABI,
+  findLesserAndGreater,
+  getStakingContracts,
+  prepareStakingAction,
+  readGroupRewards,
+  readStakingSummary,
+  type StakingContracts
+} from '../staking';
+import { CELO_REGISTRY_ABI } from '../feeCurrencies';
+import { createCoreContractLookup } from '../coreContracts';
+import { CELO_REGISTRY_ADDRESS } from '../../config/feeCurrencies';
+import type { StakingSummary } from '../../types/staking';
+import { MockJsonRpc, type MockLog } from '../../test/mockJsonRpc';
+
+const ACCOUNT: Address = '0x1234567890123456789012345678901234567890';
+const GROUP_A: Address = '0x2000000000000000000000000000000000000001';
+const GROUP_B: Address = '0x2000000000000000000000000000000000000002';
+const GROUP_C: Address = '0x2000000000000000000000000000000000000003';
+const ONE = BigInt(10) ** BigInt(18);
+const NOW = 1700000000 * 1000;
+
+const CONTRACTS: StakingContracts = {
+  accounts: '0x1000000000000000000000000000000000000001',
+  lockedGold: '0x1000000000000000000000000000000000000002',
+  election: '0x1000000000000000000000000000000000000003'
+};
+
+function voteLog(eventName: 'ValidatorGroupVoteActivated' | 'ValidatorGroupActiveVoteRevoked', group: Address, value: bigint): MockLog {
+  return {
+    address: CONTRACTS.election,
+    topics: encodeEventTopics({ abi: ELECTION_ABI, eventName, args: { account: ACCOUNT, group } }) as MockLog['topics'],
+    data: encodeAbiParameters([{ type: 'uint256' }, { type: 'uint256' }], [value, value]),
+    blockNumber: BigInt(10)
+  };
+}
+
+function chain({ logs = [] }: { logs?: MockLog[] } = {}): MockJsonRpc {
+  const names: Record<string, Address> = {
+    Accounts: CONTRACTS.accounts,
+    LockedGold: CONTRACTS.lockedGold,
+    Election: CONTRACTS.election
+  };
+  return new MockJsonRpc({
+    head: BigInt(100),
+    balances: { [ACCOUNT]: BigInt(3) * ONE },
+    logs,
+    contracts: [
+      { address: CELO_REGISTRY_ADDRESS, abi: CELO_REGISTRY_ABI, read: (_fn, [name]) => names[name as string] },
+      { address: CONTRACTS.accounts, abi: ACCOUNTS_ABI, read: () => true },
+      {
+        address: CONTRACTS.lockedGold,
+        abi: LOCKED_GOLD_ABI,
+        read: (fn) => {
+          switch (fn) {
+          case 'getAccountTotalLockedGold':
+            return BigInt(10) * ONE;
+          case 'getAccountNonvotingLockedGold':
+            return BigInt(4) * ONE;
+          case 'getPendingWithdrawals':
+            return [[ONE, BigInt(2) * ONE], [BigInt(1690000000), BigInt(1710000000)]];
+          default:
+            return BigInt(259200);
+          }
+        }
+      },
+      {
+        address: CONTRACTS.election,
+        abi: ELECTION_ABI,
+        read: (fn, args) => {
+          switch (fn) {
+          case 'getGroupsVotedForByAccount':
+            return [GROUP_A, GROUP_B];
+          case 'getPendingVotesForGroupByAccount':
+            return args[0] === GROUP_A ? ONE : BigInt(0);
+          case 'getActiveVotesForGroupByAccount':
+            return args[0] === GROUP_A ? BigInt(2) * ONE : BigInt(3) * ONE;
+          case 'hasActivatablePendingVotes':
+            return args[1] === GROUP_A;
+          default:
+            return [[GROUP_C, GROUP_A, GROUP_B], [BigInt(300) * ONE, BigInt(200) * ONE, BigInt(100) * ONE]];
+          }
+        }
+      }
+    ]
+  });
+}
+
+async function summaryOf(rpc: MockJsonRpc): Promise<StakingSummary> {
+  return readStakingSummary(rpc.client(), CONTRACTS, ACCOUNT);
+}
+
+describe('getStakingContracts', () => {
+  it('looks the contracts up in the registry once', async () => {
+    const rpc = chain();
+    const lookup = createCoreContractLookup();
+
+    await getStakingContracts(rpc.client(), 42220, lookup);
+    await expect(getStakingContracts(rpc.client(), 42220, lookup)).resolves.toEqual(CONTRACTS);
+    expect(rpc.callsTo('eth_call')).toHaveLength(3);
+  });
+});
+
+describe('readStakingSummary', () => {
+  it('splits locked CELO and lists withdrawals and votes', async () => {
+    const summary = await summaryOf(chain());
+
+    expect(summary).toMatchObject({
+      isAccount: true,
+      total: BigInt(10) * ONE,
+      nonvoting: BigInt(4) * ONE,
+      voting: BigInt(6) * ONE,
+      unlockingPeriod: 259200
+    });
+    expect(summary.pendingWithdrawals).toEqual([
+      { index: 0, value: ONE, availableAt: 1690000000 },
+      { index: 1, value: BigInt(2) * ONE, availableAt: 1710000000 }
+    ]);
+    expect(summary.votes).toEqual([
+      { group: GROUP_A, pending: ONE, active: BigInt(2) * ONE, canActivate: true },
+      { group: GROUP_B, pending: BigInt(0), active: BigInt(3) * ONE, canActivate: false }
+    ]);
+  });
+});
+
+describe('readGroupRewards', () => {
+  it('counts active votes above the net activated amount as rewards', async () => {
+    const rpc = chain({
+      logs: [
+        voteLog('ValidatorGroupVoteActivated', GROUP_A, BigInt(3) * ONE),
+        voteLog('ValidatorGroupActiveVoteRevoked', GROUP_A, BigInt(15) * ONE / BigInt(10)),
+        voteLog('ValidatorGroupVoteActivated', GROUP_B, BigInt(3) * ONE)
+      ]
+    });
+    const summary = await summaryOf(rpc);
+
+    const rewards = await readGroupRewards(rpc.client(), CONTRACTS, summary, { fromBlock: BigInt(1) });
+
+    expect(rewards).toEqual([
+      { group: GROUP_A, activated: BigInt(15) * ONE / BigInt(10), active: BigInt(2) * ONE, rewards: ONE / BigInt(2) },
+      { group: GROUP_B, activated: BigInt(3) * ONE, active: BigInt(3) * ONE, rewards: BigInt(0) }
+    ]);
+  });
+
+  it('reads the events from the start block to the head in chunks', async () => {
+    const rpc = chain({ logs: [voteLog('ValidatorGroupVoteActivated', GROUP_B, BigInt(3) * ONE)] });
+    const summary = await summaryOf(rpc);
+
+    const rewards = await readGroupRewards(rpc.client(), CONTRACTS, summary, { fromBlock: BigInt(1), chunkSize: 40, concurrency: 1 });
+
+    expect(rewards[1]).toMatchObject({ group: GROUP_B, activated: BigInt(3) * ONE });
+    const ranges = rpc.callsTo('eth_getLogs').map(({ params }) => {
+      const { fromBlock, toBlock } = params[0] as { fromBlock: string; toBlock: string };
+      return [Number(fromBlock), Number(toBlock)];
+    });
+    // Activations, then revocations
+    expect(ranges).toEqual([[1, 20], [21, 60], [61, 100], [1, 20], [21, 60], [61, 100]]);
+  });
+});
+
+describe('findLesserAndGreater', () => {
+  const totals = [
+    { group: GROUP_C, votes: BigInt(300) },
+    { group: GROUP_A, votes: BigInt(200) },
+    { group: GROUP_B, votes: BigInt(100) }
+  ];
+
+  it('finds the neighbours after the votes change', () => {
+    expect(findLesserAndGreater(totals, GROUP_A, BigInt(10))).toEqual({ lesser: GROUP_B, greater: GROUP_C });
+    expect(findLesserAndGreater(totals, GROUP_A, BigInt(150))).toEqual({ lesser: GROUP_C, greater: zeroAddress });
+    expect(findLesserAndGreater(totals, GROUP_A, BigInt(-150))).toEqual({ lesser: zeroAddress, greater: GROUP_B });
+  });
+
+  it('leaves groups that are not eligible unsorted', () => {
+    expect(findLesserAndGreater(totals, ACCOUNT, BigInt(10))).toEqual({ lesser: zeroAddress, greater: zeroAddress });
+  });
+});
+
+describe('prepareStakingAction', () => {
+  it('registers the account before the first lock', async () => {
+    const rpc = chain();
+    const summary = { ...await summaryOf(rpc), isAccount: false };
+
+    const calls = await prepareStakingAction(rpc.client(), CONTRACTS, summary, { type: 'lock', amount: '1.5' }, NOW);
+
+    expect(calls).toHaveLength(2);
+    expect(calls[0].to).toBe(CONTRACTS.accounts);
+    expect(calls[1]).toMatchObject({ to: CONTRACTS.lockedGold, value: BigInt(15) * ONE / BigInt(10) });
+  });
+
+  it('rejects amounts above the balance or the nonvoting CELO', async () => {
+    const rpc = chain();
+    const summary = await summaryOf(rpc);
+
+    await expect(prepareStakingAction(rpc.client(), CONTRACTS, summary, { type: 'lock', amount: '5' }, NOW))
+      .rejects.toMatchObject({ code: 'INSUFFICIENT_FUNDS', field: 'amount' });
+    await expect(prepareStakingAction(rpc.client(), CONTRACTS, summary, { type: 'unlock', amount: '4.5' }, NOW))
+      .rejects.toMatchObject({ code: 'INVALID_AMOUNT', field: 'amount' });
+    await expect(prepareStakingAction(rpc.client(), CONTRACTS, summary, { type: 'unlock', amount: 'abc' }, NOW))
+      .rejects.toMatchObject({ code: 'INVALID_AMOUNT' });
+  });
+
+  it('withdraws only once the unlocking period is over', async () => {
+    const rpc = chain();
+    const summary = await summaryOf(rpc);
+
+    const [withdraw] = await prepareStakingAction(rpc.client(), CONTRACTS, summary, { type: 'withdraw', index: 0 }, NOW);
+    expect(decodeFunctionData({ abi: LOCKED_GOLD_ABI, data: withdraw.data })).toMatchObject({
+      functionName: 'withdraw',
+      args: [BigInt(0)]
+    });
+    await expect(prepareStakingAction(rpc.client(), CONTRACTS, summary, { type: 'withdraw', index: 1 }, NOW))
+      .rejects.toMatchObject({ code: 'NOT_WITHDRAWABLE' });
+
+    const [relock] = await prepareStakingAction(rpc.client(), CONTRACTS, summary, { type: 'relock', index: 1 }, NOW);
+    expect(decodeFunctionData({ abi: LOCKED_GOLD_ABI, data: relock.data }).args).toEqual([BigInt(1), BigInt(2) * ONE]);
+  });
+
+  it('votes for eligible groups with their sorted neighbours', async () => {
+    const rpc = chain();
+    const summary = await summaryOf(rpc);
+
+    const [vote] = await prepareStakingAction(
+      rpc.client(),
+      CONTRACTS,
+      { ...summary, nonvoting: BigInt(150) * ONE },
+      { type: 'vote', group: GROUP_B, amount: '150' },
+      NOW
+    );
+
+    expect(decodeFunctionData({ abi: ELECTION_ABI, data: vote.data })).toMatchObject({
+      functionName: 'vote',
+      args: [GROUP_B, BigInt(150) * ONE, GROUP_A, GROUP_C]
+    });
+    await expect(prepareStakingAction(rpc.client(), CONTRACTS, summary, { type: 'vote', group: ACCOUNT, amount: '1' }, NOW))
+      .rejects.toMatchObject({ code: 'INVALID_GROUP', field: 'group' });
+  });
+
+  it('revokes pending votes before active ones', async () => {
+    const rpc = chain();
+    const summary = await summaryOf(rpc);
+
+    const calls = await prepareStakingAction(rpc.client(), CONTRACTS, summary, { type: 'revoke', group: GROUP_A, amount: '2' }, NOW);
+
+    expect(calls.map((call) => decodeFunctionData({ abi: ELECTION_ABI, data: call.data }))).toMatchObject([
+      { functionName: 'revokePending', args: [GROUP_A, ONE, GROUP_B, GROUP_C, BigInt(0)] },
+      { functionName: 'revokeActive', args: [GROUP_A, ONE, GROUP_B, GROUP_C, BigInt(0)] }
+    ]);
+    await expect(prepareStakingAction(rpc.client(), CONTRACTS, summary, { type: 'revoke', group: GROUP_A, amount: '4' }, NOW))
+      .rejects.toMatchObject({ code: 'INVALID_AMOUNT' });
+  });
+
+  it('activates only votes from an earlier epoch', async () => {
+    const rpc = chain();
+    const summary = await summaryOf(rpc);
+
+    const [activate] = await prepareStakingAction(rpc.client(), CONTRACTS, summary, { type: 'activate', group: GROUP_A }, NOW);
+    expect(decodeFunctionData({ abi: ELECTION_ABI, data: activate.data }).functionName).toBe('activate');
+    await expect(prepareStakingAction(rpc.client(), CONTRACTS, summary, { type: 'activate', group: GROUP_B }, NOW))
+      .rejects.toMatchObject({ code: 'NOTHING_TO_ACTIVATE' });
+  });
+});
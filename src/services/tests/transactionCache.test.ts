@@ -0,0 +1,282 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Address } from 'viem';
+import { createRpcHistorySource } from '../rpcHistorySource';
+import { createTransactionHistoryEngine } from '../transactionHistory';
+import { createTransactionHistoryCache, mergeTransactions } from '../transactionCache';
+import { createMemoryTransactionStore } from '../transactionStore';
+import type { CeloTransaction } from '../../types/transaction';
+import { MockJsonRpc, fixtureHash, type MockTransaction } from '../../test/mockJsonRpc';
+
+const ACCOUNT: Address = '0x1234567890123456789012345678901234567890';
+const OTHER: Address = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+function received(n: number, blockNumber: number): MockTransaction {
+  return {
+    hash: fixtureHash(n),
+    blockNumber: BigInt(blockNumber),
+    from: OTHER,
+    to: ACCOUNT,
+    value: BigInt(n),
+    transfers: [{ token: OTHER, from: OTHER, to: ACCOUNT, value: BigInt(n) }]
+  };
+}
+
+function setup(
+  rpc: MockJsonRpc,
+  options: { batchSize?: number; maxDeltaPages?: number; onError?: (error: unknown) => void } = {}
+) {
+  const store = createMemoryTransactionStore();
+  const engine = createTransactionHistoryEngine([
+    createRpcHistorySource({ getClient: () => rpc.client(), chunkSize: 1000 })
+  ]);
+  const cache = createTransactionHistoryCache({
+    engine,
+    store,
+    getClient: () => rpc.client(),
+    staleTime: 0,
+    ...options
+  });
+  return { store, engine, cache };
+}
+
+function pendingTx(n: number): CeloTransaction {
+  return {
+    hash: fixtureHash(n),
+    blockNumber: '0',
+    timestamp: 0,
+    from: ACCOUNT,
+    to: OTHER,
+    value: '1',
+    gasUsed: '0',
+    gasPrice: '0',
+    status: 'pending',
+    type: 'sent',
+    confirmations: 0,
+    chainId: 42220
+  };
+}
+
+describe('createTransactionHistoryCache', () => {
+  it('persists the first sync and records the synced head', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(3000), transactions: [received(1, 100), received(2, 2000)] });
+    const { cache, store } = setup(rpc);
+
+    const page = await cache.fetchPage({ address: ACCOUNT, chainId: 42220, limit: 10 });
+
+    expect(page.transactions.map((tx) => tx.hash)).toEqual([fixtureHash(2), fixtureHash(1)]);
+    const stored = await store.load(ACCOUNT, 42220);
+    expect(stored?.lastSyncedBlock).toBe('3000');
+    expect(stored?.complete).toBe(true);
+  });
+
+  it('only fetches blocks after the last synced one on refresh', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(3000), transactions: [received(1, 100)] });
+    const { cache } = setup(rpc);
+    await cache.sync(ACCOUNT, 42220);
+
+    rpc.head = BigInt(3500);
+    rpc.transactions.push(received(2, 3200));
+    rpc.calls.length = 0;
+    const history = await cache.sync(ACCOUNT, 42220);
+
+    const scannedFrom = rpc.callsTo('eth_getLogs').map((call) => BigInt((call.params[0] as { fromBlock: string }).fromBlock));
+    expect(scannedFrom.every((block) => block >= BigInt(3001))).toBe(true);
+    expect(history.lastSyncedBlock).toBe('3500');
+    expect(history.transactions.map((tx) => tx.hash)).toEqual([fixtureHash(2), fixtureHash(1)]);
+  });
+
+  it('serves cached history without waiting for the network', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(3000), transactions: [received(1, 100)] });
+    const onError = vi.fn();
+    const { cache } = setup(rpc, { onError });
+    await cache.sync(ACCOUNT, 42220);
+
+    rpc.failMethod('eth_blockNumber');
+    const page = await cache.fetchPage({ address: ACCOUNT, chainId: 42220 });
+
+    expect(page.transactions.map((tx) => tx.hash)).toEqual([fixtureHash(1)]);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(onError).toHaveBeenCalledWith(expect.any(Error));
+  });
+
+  it('reconciles pending entries once their receipts land', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(100), transactions: [] });
+    const { cache, store } = setup(rpc);
+    await store.save({
+      address: ACCOUNT,
+      chainId: 42220,
+      transactions: [pendingTx(7)],
+      lastSyncedBlock: '100',
+      complete: true,
+      updatedAt: 0
+    });
+
+    rpc.head = BigInt(105);
+    rpc.transactions.push({ hash: fixtureHash(7), blockNumber: BigInt(104), from: ACCOUNT, to: OTHER, gasUsed: BigInt(21000) });
+    const history = await cache.sync(ACCOUNT, 42220);
+
+    expect(history.transactions).toHaveLength(1);
+    expect(history.transactions[0]).toMatchObject({ status: 'success', blockNumber: '104', gasUsed: '21000' });
+  });
+
+  it('backfills older history from the source when paging past the cache', async () => {
+    const transactions = Array.from({ length: 6 }, (_, i) => received(i + 1, 100 + i * 100));
+    const rpc = new MockJsonRpc({ head: BigInt(1000), transactions });
+    const { cache } = setup(rpc, { batchSize: 2 });
+
+    const first = await cache.fetchPage({ address: ACCOUNT, chainId: 42220, limit: 3 });
+    const second = await cache.fetchPage({ address: ACCOUNT, chainId: 42220, limit: 3, cursor: first.nextCursor });
+
+    expect(first.transactions.map((tx) => tx.hash)).toEqual([6, 5, 4].map(fixtureHash));
+    expect(second.transactions.map((tx) => tx.hash)).toEqual([3, 2, 1].map(fixtureHash));
+    expect(second.hasMore).toBe(false);
+  });
+
+  it('keeps paging from the last entry served when a sync adds newer ones', async () => {
+    const transactions = Array.from({ length: 4 }, (_, i) => received(i + 1, 100 + i * 100));
+    const rpc = new MockJsonRpc({ head: BigInt(1000), transactions });
+    const { cache } = setup(rpc);
+    const first = await cache.fetchPage({ address: ACCOUNT, chainId: 42220, limit: 2 });
+
+    rpc.head = BigInt(1100);
+    rpc.transactions.push(received(5, 1050), received(6, 1060));
+    await cache.sync(ACCOUNT, 42220);
+    const second = await cache.fetchPage({ address: ACCOUNT, chainId: 42220, limit: 2, cursor: first.nextCursor });
+
+    expect(first.transactions.map((tx) => tx.hash)).toEqual([4, 3].map(fixtureHash));
+    expect(second.transactions.map((tx) => tx.hash)).toEqual([2, 1].map(fixtureHash));
+  });
+
+  it('rejects cursors it did not hand out', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(1000), transactions: [received(1, 100)] });
+    const { cache } = setup(rpc);
+
+    await expect(cache.fetchPage({ address: ACCOUNT, chainId: 42220, cursor: 'cache:10' }))
+      .rejects.toMatchObject({ code: 'INVALID_CURSOR' });
+  });
+
+  it('applies filters to cached history', async () => {
+    const sent: MockTransaction = {
+      hash: fixtureHash(9),
+      blockNumber: BigInt(500),
+      from: ACCOUNT,
+      to: OTHER,
+      transfers: [{ token: OTHER, from: ACCOUNT, to: OTHER, value: BigInt(1) }]
+    };
+    const rpc = new MockJsonRpc({ head: BigInt(1000), transactions: [received(1, 100), sent] });
+    const { cache } = setup(rpc);
+
+    const page = await cache.fetchPage({ address: ACCOUNT, chainId: 42220, filters: { type: 'sent' } });
+
+    expect(page.transactions.map((tx) => tx.hash)).toEqual([fixtureHash(9)]);
+  });
+
+  it('clears history per account and notifies subscribers', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(1000), transactions: [received(1, 100)] });
+    const { cache, store } = setup(rpc);
+    await cache.sync(ACCOUNT, 42220);
+    await store.save({ ...(await store.load(ACCOUNT, 42220))!, chainId: 44787 });
+    const listener = vi.fn();
+    cache.subscribe(listener);
+
+    await cache.clear(ACCOUNT, 42220);
+
+    expect(await store.load(ACCOUNT, 42220)).toBeNull();
+    expect(await store.load(ACCOUNT, 44787)).not.toBeNull();
+    expect(listener).toHaveBeenCalledWith(ACCOUNT, 42220);
+
+    await cache.clear(ACCOUNT);
+    expect(await store.load(ACCOUNT, 44787)).toBeNull();
+  });
+  it('shows submitted transfers before they are mined', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(1000), transactions: [received(1, 100)] });
+    const { cache } = setup(rpc);
+    await cache.sync(ACCOUNT, 42220);
+    const listener = vi.fn();
+    cache.subscribe(listener);
+
+    await cache.addPending(ACCOUNT, pendingTx(7));
+    const page = await cache.fetchPage({ address: ACCOUNT, chainId: 42220 });
+
+    expect(page.transactions.map((tx) => [tx.hash, tx.status])).toEqual([
+      [fixtureHash(7), 'pending'],
+      [fixtureHash(1), 'success']
+    ]);
+    expect(listener).toHaveBeenCalledWith(ACCOUNT, 42220);
+  });
+
+  it('keeps a transfer submitted while a sync is running', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(1000), transactions: [received(1, 100)] });
+    const { cache, store } = setup(rpc);
+    await cache.sync(ACCOUNT, 42220);
+
+    rpc.head = BigInt(1010);
+    rpc.transactions.push(received(2, 1005));
+    // Slow writes, as with IndexedDB, leave room for the next sync to read a stale record
+    const save = store.save.bind(store);
+    store.save = async (history) => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await save(history);
+    };
+    const syncing = cache.sync(ACCOUNT, 42220);
+    const adding = cache.addPending(ACCOUNT, pendingTx(7));
+    await syncing;
+    const resyncing = cache.sync(ACCOUNT, 42220);
+    await Promise.all([adding, resyncing]);
+
+    const stored = await store.load(ACCOUNT, 42220);
+    expect(stored?.transactions.map((tx) => tx.hash)).toEqual([7, 2, 1].map(fixtureHash));
+  });
+
+  it('does not lose a background sync to a backfill of older history', async () => {
+    const transactions = Array.from({ length: 4 }, (_, i) => received(i + 1, 100 + i * 100));
+    const rpc = new MockJsonRpc({ head: BigInt(1000), transactions });
+    const { cache, store } = setup(rpc, { batchSize: 2 });
+    await cache.sync(ACCOUNT, 42220);
+
+    rpc.head = BigInt(1100);
+    rpc.transactions.push(received(5, 1050));
+    // The first page starts a background sync, then backfills past the cache
+    await cache.fetchPage({ address: ACCOUNT, chainId: 42220, limit: 4 });
+    await cache.sync(ACCOUNT, 42220);
+
+    const stored = await store.load(ACCOUNT, 42220);
+    expect(stored?.transactions.map((tx) => tx.hash)).toEqual([5, 4, 3, 2, 1].map(fixtureHash));
+  });
+
+  it('replaces a pending token transfer with the mined Transfer log entry', async () => {
+    const token = '0x765DE816845861e75A25fCA122bb6898B8B1282a';
+    const rpc = new MockJsonRpc({ head: BigInt(1000), transactions: [] });
+    const { cache } = setup(rpc);
+    await cache.sync(ACCOUNT, 42220);
+    await cache.addPending(ACCOUNT, { ...pendingTx(7), tokenAddress: token, tokenSymbol: 'cUSD', tokenDecimals: 18 });
+
+    rpc.head = BigInt(1010);
+    rpc.transactions.push({
+      hash: fixtureHash(7),
+      blockNumber: BigInt(1005),
+      from: ACCOUNT,
+      to: token,
+      transfers: [{ from: ACCOUNT, to: OTHER, value: BigInt(1) }]
+    });
+    const history = await cache.sync(ACCOUNT, 42220);
+
+    expect(history.transactions).toHaveLength(1);
+    expect(history.transactions[0]).toMatchObject({ status: 'success', tokenSymbol: 'cUSD', logIndex: 0 });
+  });
+});
+
+describe('mergeTransactions', () => {
+  it('lets fresh entries replace cached ones and keeps pending entries on top', () => {
+    const mined = { ...pendingTx(1), status: 'success' as const, blockNumber: '50' };
+    const older = { ...pendingTx(2), status: 'success' as const, blockNumber: '10' };
+
+    const merged = mergeTransactions([pendingTx(1), older, pendingTx(3)], [mined]);
+
+    expect(merged.map((tx) => [tx.hash, tx.status])).toEqual([
+      [fixtureHash(3), 'pending'],
+      [fixtureHash(1), 'success'],
+      [fixtureHash(2), 'success']
+    ]);
+  });
+});
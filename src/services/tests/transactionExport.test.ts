@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  collectTransactions,
+  getExportFileName,
+  parseTransactionExport,
+  toTransactionCsv,
+  toTransactionExportFile,
+  toTransactionJson
+} from '../transactionExport';
+import type { CeloTransaction, PaginatedTransactions } from '../../types/transaction';
+
+const ADDRESS = '0x1234567890123456789012345678901234567890';
+const CUSD = '0x765DE816845861e75A25fCA122bb6898B8B1282a';
+
+const sent: CeloTransaction = {
+  hash: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+  blockNumber: '100',
+  timestamp: 1700000000,
+  from: ADDRESS,
+  to: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+  value: '1234567890123456789',
+  gasUsed: '21000',
+  gasPrice: '5000000000',
+  status: 'success',
+  type: 'sent',
+  confirmations: 1,
+  chainId: 42220
+};
+
+const received: CeloTransaction = {
+  ...sent,
+  hash: '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890',
+  blockNumber: '200',
+  timestamp: 1700086400,
+  from: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+  to: ADDRESS,
+  value: '2500000',
+  type: 'received',
+  tokenAddress: CUSD,
+  tokenSymbol: 'USDC',
+  tokenDecimals: 6,
+  logIndex: 3
+};
+
+describe('toTransactionCsv', () => {
+  it('writes exact amounts, fees and explorer links', () => {
+    const csv = toTransactionCsv([sent, received], { columns: ['date', 'type', 'amount', 'asset', 'fee', 'explorerUrl'] });
+
+    expect(csv.split('\r\n')).toEqual([
+      'Date (UTC),Type,Amount,Asset,Fee,Explorer link',
+      `2023-11-14T22:13:20.000Z,sent,1.234567890123456789,CELO,0.000105,https://explorer.celo.org/tx/${sent.hash}`,
+      `2023-11-15T22:13:20.000Z,received,2.5,USDC,0,https://explorer.celo.org/tx/${received.hash}`,
+      ''
+    ]);
+  });
+
+  it('honors the filters and date range', () => {
+    const csv = toTransactionCsv([sent, received], {
+      columns: ['hash'],
+      filters: { type: 'all', dateRange: { start: 1700050000, end: 1700100000 } }
+    });
+
+    expect(csv).toBe(`Transaction hash\r\n${received.hash}\r\n`);
+  });
+
+  it('quotes cells and neutralizes spreadsheet formulas', () => {
+    const csv = toTransactionCsv([{ ...sent, tokenSymbol: '=HYPERLINK("x"),1' }], { columns: ['asset'] });
+
+    expect(csv).toBe('Asset\r\n"\'=HYPERLINK(""x""),1"\r\n');
+  });
+});
+
+describe('JSON export', () => {
+  it('round-trips through parseTransactionExport', () => {
+    const json = toTransactionJson([sent, received], {
+      address: ADDRESS,
+      chainId: 42220,
+      filters: { type: 'sent' },
+      exportedAt: 1700100000000
+    });
+
+    expect(parseTransactionExport(json)).toEqual({
+      version: 1,
+      address: ADDRESS,
+      chainId: 42220,
+      exportedAt: 1700100000000,
+      filters: { type: 'sent' },
+      transactions: [sent]
+    });
+  });
+
+  it('rejects files that are not exports', () => {
+    expect(() => parseTransactionExport('not json')).toThrow(expect.objectContaining({ code: 'INVALID_EXPORT' }));
+    expect(() => parseTransactionExport('{"version":2}')).toThrow(expect.objectContaining({ code: 'INVALID_EXPORT' }));
+  });
+
+  it('rejects exports with invalid transactions', () => {
+    const file = toTransactionExportFile([sent], { address: ADDRESS, chainId: 42220, exportedAt: 1 });
+    const json = JSON.stringify({ ...file, transactions: [{ ...sent, from: 'nobody' }] });
+
+    expect(() => parseTransactionExport(json)).toThrow(expect.objectContaining({
+      code: 'INVALID_EXPORT',
+      message: 'Transaction 1 of the export is invalid'
+    }));
+  });
+});
+
+describe('collectTransactions', () => {
+  it('follows cursors until the history ends', async () => {
+    const fetchPage = vi.fn(async ({ cursor }: { cursor?: string }): Promise<PaginatedTransactions> => (
+      cursor
+        ? { transactions: [received], total: 1, hasMore: false }
+        : { transactions: [sent], total: 1, hasMore: true, nextCursor: 'next' }
+    ));
+    const filters = { type: 'all' as const };
+
+    await expect(collectTransactions(fetchPage, { filters, pageSize: 1 })).resolves.toEqual({
+      transactions: [sent, received],
+      truncated: false
+    });
+    expect(fetchPage).toHaveBeenCalledWith({ limit: 1, cursor: undefined, filters });
+    expect(fetchPage).toHaveBeenCalledWith({ limit: 1, cursor: 'next', filters });
+  });
+
+  it('stops after maxPages and says the history was cut short', async () => {
+    const fetchPage = vi.fn(async (): Promise<PaginatedTransactions> => (
+      { transactions: [sent], total: 1, hasMore: true, nextCursor: 'again' }
+    ));
+
+    const { transactions, truncated } = await collectTransactions(fetchPage, { maxPages: 3 });
+
+    expect(transactions).toHaveLength(3);
+    expect(truncated).toBe(true);
+  });
+
+  it('does not flag a history that ends on the last page allowed', async () => {
+    const fetchPage = vi.fn(async ({ cursor }: { cursor?: string }): Promise<PaginatedTransactions> => (
+      cursor
+        ? { transactions: [received], total: 1, hasMore: false }
+        : { transactions: [sent], total: 1, hasMore: true, nextCursor: 'next' }
+    ));
+
+    await expect(collectTransactions(fetchPage, { maxPages: 2 })).resolves.toMatchObject({ truncated: false });
+  });
+});
+
+describe('getExportFileName', () => {
+  it('names exports by chain, account and date', () => {
+    expect(getExportFileName(ADDRESS, 42220, 'csv', Date.UTC(2024, 0, 31))).toBe(
+      'celo-transactions-42220-0x12345678-2024-01-31.csv'
+    );
+  });
+});
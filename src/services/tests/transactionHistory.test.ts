@@ -0,0 +1,415 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getAddress, type Address } from 'viem';
+import { createRpcHistorySource } from '../rpcHistorySource';
+import { createExplorerHistorySource } from '../explorerHistorySource';
+import { createTransactionHistoryEngine } from '../transactionHistory';
+import type { TransactionHistorySource } from '../../types/transaction';
+import { celo } from '../../config/celoChains';
+import { MockJsonRpc, fixtureHash, type MockTransaction } from '../../test/mockJsonRpc';
+
+const ACCOUNT: Address = '0x1234567890123456789012345678901234567890';
+const OTHER: Address = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+const CELO_TOKEN: Address = '0x471EcE3750Da237f93B8E339c536989b8978a438';
+const CUSD: Address = '0x765DE816845861e75A25fCA122bb6898B8B1282a';
+
+function transfer(n: number, blockNumber: number, direction: 'sent' | 'received'): MockTransaction {
+  const from = direction === 'sent' ? ACCOUNT : OTHER;
+  const to = direction === 'sent' ? OTHER : ACCOUNT;
+  return {
+    hash: fixtureHash(n),
+    blockNumber: BigInt(blockNumber),
+    from,
+    to,
+    value: BigInt(n) * BigInt(10) ** BigInt(18),
+    transfers: [{ token: CELO_TOKEN, from, to, value: BigInt(n) * BigInt(10) ** BigInt(18) }]
+  };
+}
+
+function explorerEntry(n: number): Record<string, string> {
+  return {
+    hash: fixtureHash(n),
+    blockNumber: String(1000 - n),
+    from: ACCOUNT,
+    to: OTHER,
+    value: '1000000000000000000',
+    timeStamp: String(1700000000 - n),
+    confirmations: '12',
+    gasUsed: '21000',
+    gasPrice: '5000000000',
+    isError: '0',
+    txreceipt_status: '1',
+    input: '0x'
+  };
+}
+
+function explorerTokenEntry(n: number, token: Address, blockNumber: number): Record<string, string> {
+  return {
+    ...explorerEntry(n),
+    blockNumber: String(blockNumber),
+    from: OTHER,
+    to: ACCOUNT,
+    contractAddress: token,
+    tokenSymbol: 'cUSD',
+    tokenDecimal: '18',
+    logIndex: '3',
+    value: '2500000000000000000'
+  };
+}
+
+function explorerFetch(
+  entries: Array<Record<string, string>>,
+  tokenEntries: Array<Record<string, string>> = []
+): typeof fetch {
+  return vi.fn(async (input: RequestInfo | URL) => {
+    const url = new URL(String(input));
+    const page = Number(url.searchParams.get('page'));
+    const offset = Number(url.searchParams.get('offset'));
+    const contract = url.searchParams.get('contractaddress')?.toLowerCase();
+    const listing = url.searchParams.get('action') === 'tokentx'
+      ? tokenEntries.filter((entry) => !contract || entry.contractAddress.toLowerCase() === contract)
+      : entries;
+    const result = listing.slice((page - 1) * offset, page * offset);
+    const body = result.length > 0
+      ? { status: '1', message: 'OK', result }
+      : { status: '0', message: 'No transactions found', result: [] };
+    return new Response(JSON.stringify(body), { status: 200 });
+  }) as unknown as typeof fetch;
+}
+
+describe('createRpcHistorySource', () => {
+  it('returns transfers touching the address, newest first', async () => {
+    const rpc = new MockJsonRpc({
+      head: BigInt(5000),
+      transactions: [transfer(1, 100, 'received'), transfer(2, 4200, 'sent'), transfer(3, 4999, 'received')]
+    });
+    const source = createRpcHistorySource({ getClient: () => rpc.client(), chunkSize: 1000 });
+
+    const page = await source.fetchPage({ address: ACCOUNT, chainId: 42220, limit: 10 });
+
+    expect(page.transactions.map((tx) => tx.hash)).toEqual([fixtureHash(3), fixtureHash(2), fixtureHash(1)]);
+    expect(page.transactions[1].type).toBe('sent');
+    expect(page.transactions[0].type).toBe('received');
+    expect(page.transactions[0].status).toBe('success');
+    expect(page.transactions[0].timestamp).toBe(rpc.blockTimestamp(BigInt(4999)));
+    expect(page.transactions[0].confirmations).toBe(2);
+    expect(page.transactions[2].confirmations).toBe(4901);
+    expect(page.hasMore).toBe(false);
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it('scans in block-range chunks instead of fetching every block', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(9999), transactions: [transfer(1, 10, 'sent')] });
+    const source = createRpcHistorySource({ getClient: () => rpc.client(), chunkSize: 2500 });
+
+    await source.fetchPage({ address: ACCOUNT, chainId: 42220 });
+
+    // Four chunks, one query for each side of the transfer
+    expect(rpc.callsTo('eth_getLogs')).toHaveLength(8);
+    // Blocks are only fetched for the timestamp of matching transactions
+    expect(rpc.callsTo('eth_getBlockByNumber')).toHaveLength(1);
+  });
+
+  it('limits the number of requests in flight', async () => {
+    const transactions = Array.from({ length: 12 }, (_, i) => transfer(i + 1, 100 * (i + 1), 'received'));
+    const rpc = new MockJsonRpc({ head: BigInt(2000), transactions });
+    const source = createRpcHistorySource({ getClient: () => rpc.client(), chunkSize: 100, concurrency: 2 });
+
+    const page = await source.fetchPage({ address: ACCOUNT, chainId: 42220, limit: 20 });
+
+    expect(page.transactions).toHaveLength(12);
+    // Each task issues at most three parallel calls (tx, receipt and block)
+    expect(rpc.maxInFlight).toBeLessThanOrEqual(6);
+  });
+
+  it('paginates with a cursor without skipping or repeating transactions', async () => {
+    const transactions = [
+      transfer(1, 50, 'sent'),
+      transfer(2, 300, 'received'),
+      transfer(3, 300, 'sent'),
+      transfer(4, 300, 'received'),
+      transfer(5, 900, 'sent')
+    ];
+    const rpc = new MockJsonRpc({ head: BigInt(1000), transactions });
+    const source = createRpcHistorySource({ getClient: () => rpc.client(), chunkSize: 400 });
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await source.fetchPage({ address: ACCOUNT, chainId: 42220, limit: 2, cursor });
+      seen.push(...page.transactions.map((tx) => tx.hash));
+      cursor = page.nextCursor;
+      expect(page.hasMore).toBe(cursor !== undefined);
+    } while (cursor);
+
+    expect(seen).toEqual([5, 4, 3, 2, 1].map(fixtureHash));
+  });
+
+  it('reports more history when the per-page scan span is exhausted', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(9999), transactions: [transfer(1, 10, 'sent')] });
+    const source = createRpcHistorySource({
+      getClient: () => rpc.client(),
+      chunkSize: 1000,
+      maxBlocksPerPage: 5000
+    });
+
+    const first = await source.fetchPage({ address: ACCOUNT, chainId: 42220 });
+    expect(first.transactions).toHaveLength(0);
+    expect(first.hasMore).toBe(true);
+
+    const second = await source.fetchPage({ address: ACCOUNT, chainId: 42220, cursor: first.nextCursor });
+    expect(second.transactions.map((tx) => tx.hash)).toEqual([fixtureHash(1)]);
+    expect(second.hasMore).toBe(false);
+  });
+
+  it('applies type and status filters', async () => {
+    const reverted = { ...transfer(3, 30, 'sent'), status: 'reverted' as const };
+    const rpc = new MockJsonRpc({
+      head: BigInt(100),
+      transactions: [transfer(1, 10, 'sent'), transfer(2, 20, 'received'), reverted]
+    });
+    const source = createRpcHistorySource({ getClient: () => rpc.client() });
+
+    const sent = await source.fetchPage({
+      address: ACCOUNT,
+      chainId: 42220,
+      filters: { type: 'sent', status: 'success' }
+    });
+
+    expect(sent.transactions.map((tx) => tx.hash)).toEqual([fixtureHash(1)]);
+  });
+
+  it('lists stable token transfers as token entries', async () => {
+    const payment: MockTransaction = {
+      hash: fixtureHash(7),
+      blockNumber: BigInt(60),
+      from: OTHER,
+      to: CUSD,
+      transfers: [{ from: OTHER, to: ACCOUNT, value: BigInt(25) * BigInt(10) ** BigInt(17) }]
+    };
+    const rpc = new MockJsonRpc({ head: BigInt(100), transactions: [transfer(1, 10, 'sent'), payment] });
+    const source = createRpcHistorySource({ getClient: () => rpc.client() });
+
+    const page = await source.fetchPage({ address: ACCOUNT, chainId: 42220 });
+
+    expect(page.transactions).toHaveLength(2);
+    expect(page.transactions[0]).toMatchObject({
+      hash: fixtureHash(7),
+      type: 'received',
+      value: '2500000000000000000',
+      tokenAddress: CUSD,
+      tokenSymbol: 'cUSD',
+      tokenDecimals: 18,
+      logIndex: 0
+    });
+    // Transfer logs of the CELO token contract mirror native transfers
+    expect(page.transactions[1].tokenAddress).toBeUndefined();
+  });
+
+  it('narrows the scan to one token when filtering by token address', async () => {
+    const payment: MockTransaction = {
+      hash: fixtureHash(7),
+      blockNumber: BigInt(60),
+      from: ACCOUNT,
+      to: CUSD,
+      transfers: [{ from: ACCOUNT, to: OTHER, value: BigInt(1) }]
+    };
+    const rpc = new MockJsonRpc({ head: BigInt(100), transactions: [transfer(1, 10, 'sent'), payment] });
+    const source = createRpcHistorySource({ getClient: () => rpc.client() });
+
+    const tokenPage = await source.fetchPage({ address: ACCOUNT, chainId: 42220, filters: { token: CUSD } });
+    const nativePage = await source.fetchPage({ address: ACCOUNT, chainId: 42220, filters: { token: 'native' } });
+
+    expect(tokenPage.transactions.map((tx) => tx.hash)).toEqual([fixtureHash(7)]);
+    expect(nativePage.transactions.map((tx) => tx.hash)).toEqual([fixtureHash(1)]);
+  });
+
+  it('records the fee currency of CIP-64 transactions', async () => {
+    const rpc = new MockJsonRpc({
+      head: BigInt(500),
+      transactions: [{ ...transfer(1, 400, 'sent'), feeCurrency: CUSD }, transfer(2, 450, 'sent')]
+    });
+    const source = createRpcHistorySource({ getClient: () => rpc.client(celo) });
+
+    const page = await source.fetchPage({ address: ACCOUNT, chainId: 42220, limit: 10 });
+
+    expect(page.transactions.map((tx) => tx.feeCurrency)).toEqual([undefined, CUSD]);
+  });
+
+  it('rejects malformed cursors', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(100) });
+    const source = createRpcHistorySource({ getClient: () => rpc.client() });
+
+    await expect(
+      source.fetchPage({ address: ACCOUNT, chainId: 42220, cursor: 'nope' })
+    ).rejects.toThrow('Invalid RPC history cursor');
+  });
+});
+
+describe('createExplorerHistorySource', () => {
+  it('maps explorer entries and pages through results with a cursor', async () => {
+    const entries = Array.from({ length: 7 }, (_, i) => explorerEntry(i + 1));
+    const fetchImpl = explorerFetch(entries);
+    const source = createExplorerHistorySource({ fetch: fetchImpl, pageSize: 3 });
+
+    const first = await source.fetchPage({ address: ACCOUNT, chainId: 42220, limit: 4 });
+    expect(first.transactions.map((tx) => tx.hash)).toEqual([1, 2, 3, 4].map(fixtureHash));
+    expect(first.transactions[0]).toMatchObject({
+      type: 'sent',
+      status: 'success',
+      timestamp: 1699999999,
+      confirmations: 12,
+      blockNumber: '999'
+    });
+    expect(first.hasMore).toBe(true);
+
+    const second = await source.fetchPage({
+      address: ACCOUNT,
+      chainId: 42220,
+      limit: 4,
+      cursor: first.nextCursor
+    });
+    expect(second.transactions.map((tx) => tx.hash)).toEqual([5, 6, 7].map(fixtureHash));
+    expect(second.hasMore).toBe(false);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('merges token transfers with native transactions, newest first', async () => {
+    const tokenCall = { ...explorerEntry(5), to: CUSD, input: '0xa9059cbb0000' };
+    const fetchImpl = explorerFetch(
+      [explorerEntry(1), explorerEntry(3), tokenCall, explorerEntry(8)],
+      [explorerTokenEntry(5, CUSD, 995), explorerTokenEntry(20, OTHER, 980)]
+    );
+    const source = createExplorerHistorySource({ fetch: fetchImpl, pageSize: 2 });
+
+    const first = await source.fetchPage({ address: ACCOUNT, chainId: 42220, limit: 2 });
+    const second = await source.fetchPage({ address: ACCOUNT, chainId: 42220, cursor: first.nextCursor });
+
+    expect(first.transactions.map((tx) => tx.hash)).toEqual([1, 3].map(fixtureHash));
+    // The transfer() call is only listed through its token entry; unknown tokens are skipped
+    expect(second.transactions.map((tx) => tx.hash)).toEqual([5, 8].map(fixtureHash));
+    expect(second.transactions[0]).toMatchObject({
+      type: 'received',
+      status: 'success',
+      tokenAddress: CUSD,
+      tokenSymbol: 'cUSD',
+      tokenDecimals: 18,
+      logIndex: 3
+    });
+    expect(second.hasMore).toBe(false);
+  });
+
+  it('queries only token transfers of the filtered token', async () => {
+    const fetchImpl = explorerFetch([explorerEntry(1)], [explorerTokenEntry(5, CUSD, 995)]);
+    const source = createExplorerHistorySource({ fetch: fetchImpl });
+
+    const page = await source.fetchPage({ address: ACCOUNT, chainId: 42220, filters: { token: CUSD } });
+
+    expect(page.transactions.map((tx) => tx.hash)).toEqual([fixtureHash(5)]);
+    const urls = vi.mocked(fetchImpl).mock.calls.map(([input]) => new URL(String(input)));
+    expect(urls.map((url) => url.searchParams.get('action'))).toEqual(['tokentx']);
+    expect(urls[0].searchParams.get('contractaddress')).toBe(CUSD);
+  });
+
+  it('treats "No transactions found" as an empty history', async () => {
+    const source = createExplorerHistorySource({ fetch: explorerFetch([]) });
+
+    const page = await source.fetchPage({ address: ACCOUNT, chainId: 42220 });
+
+    expect(page).toEqual({ transactions: [], total: 0, hasMore: false, nextCursor: undefined });
+  });
+
+  it('only supports chains with a configured explorer API', () => {
+    const source = createExplorerHistorySource({ fetch: explorerFetch([]) });
+
+    expect(source.supportsChain(42220)).toBe(true);
+    expect(source.supportsChain(1337)).toBe(false);
+  });
+});
+
+describe('createTransactionHistoryEngine', () => {
+  const staticSource = (id: string, hashes: number[], supported = true): TransactionHistorySource => ({
+    id,
+    supportsChain: () => supported,
+    fetchPage: vi.fn(async () => ({
+      transactions: hashes.map((n) => ({ ...explorerEntry(n), hash: fixtureHash(n) }) as never),
+      total: hashes.length,
+      hasMore: true,
+      nextCursor: '42'
+    }))
+  });
+
+  const failingSource = (id: string): TransactionHistorySource => ({
+    id,
+    supportsChain: () => true,
+    fetchPage: vi.fn(async () => {
+      throw new Error(`${id} down`);
+    })
+  });
+
+  it('falls back to the next source in order when one fails', async () => {
+    const onSourceError = vi.fn();
+    const explorer = failingSource('explorer');
+    const rpc = staticSource('rpc', [1]);
+    const engine = createTransactionHistoryEngine([explorer, rpc], { onSourceError });
+
+    const page = await engine.fetchPage({ address: ACCOUNT, chainId: 42220 });
+
+    expect(explorer.fetchPage).toHaveBeenCalledTimes(1);
+    expect(onSourceError).toHaveBeenCalledWith('explorer', expect.any(Error));
+    expect(page.transactions).toHaveLength(1);
+    expect(page.nextCursor).toBe('rpc:42');
+  });
+
+  it('skips sources that do not support the chain', async () => {
+    const explorer = staticSource('explorer', [1], false);
+    const rpc = staticSource('rpc', [2]);
+    const engine = createTransactionHistoryEngine([explorer, rpc]);
+
+    const page = await engine.fetchPage({ address: ACCOUNT, chainId: 1337 });
+
+    expect(explorer.fetchPage).not.toHaveBeenCalled();
+    expect(page.nextCursor).toBe('rpc:42');
+  });
+
+  it('routes follow-up pages to the source that issued the cursor', async () => {
+    const explorer = staticSource('explorer', [1]);
+    const rpc = staticSource('rpc', [2]);
+    const engine = createTransactionHistoryEngine([explorer, rpc]);
+
+    await engine.fetchPage({ address: ACCOUNT, chainId: 42220, cursor: 'rpc:17.0' });
+
+    expect(explorer.fetchPage).not.toHaveBeenCalled();
+    expect(rpc.fetchPage).toHaveBeenCalledWith(expect.objectContaining({ cursor: '17.0' }));
+  });
+
+  it('throws a FETCH_ERROR listing every failed source', async () => {
+    const engine = createTransactionHistoryEngine([failingSource('explorer'), failingSource('rpc')]);
+
+    await expect(engine.fetchPage({ address: ACCOUNT, chainId: 42220 })).rejects.toMatchObject({
+      code: 'FETCH_ERROR',
+      message: 'Failed to fetch transactions: explorer: explorer down; rpc: rpc down'
+    });
+  });
+
+  it('rejects cursors from unknown sources', async () => {
+    const engine = createTransactionHistoryEngine([staticSource('rpc', [])]);
+
+    await expect(
+      engine.fetchPage({ address: ACCOUNT, chainId: 42220, cursor: 'explorer:3' })
+    ).rejects.toMatchObject({ code: 'INVALID_CURSOR' });
+  });
+
+  it('works end to end against the JSON-RPC stand-in when the explorer is down', async () => {
+    const rpc = new MockJsonRpc({ head: BigInt(500), transactions: [transfer(1, 400, 'received')] });
+    const brokenFetch = vi.fn(async () => new Response('', { status: 503 })) as unknown as typeof fetch;
+    const engine = createTransactionHistoryEngine([
+      createExplorerHistorySource({ fetch: brokenFetch }),
+      createRpcHistorySource({ getClient: () => rpc.client() })
+    ]);
+
+    const page = await engine.fetchPage({ address: ACCOUNT, chainId: 42220 });
+
+    expect(page.transactions.map((tx) => tx.hash)).toEqual([fixtureHash(1)]);
+    expect(page.transactions[0].from).toBe(getAddress(OTHER));
+  });
+});
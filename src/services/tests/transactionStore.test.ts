@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  createIndexedDbTransactionStore,
+  createMemoryTransactionStore,
+  type CachedTransactionHistory
+} from '../transactionStore';
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890';
+
+function history(chainId: number, lastSyncedBlock = '100'): CachedTransactionHistory {
+  return {
+    address: ACCOUNT,
+    chainId,
+    transactions: [],
+    lastSyncedBlock,
+    complete: true,
+    updatedAt: 1700000000000
+  };
+}
+
+/**
+ * Factory whose opens fail with `event` the first `failures` times, and go to
+ * a working database afterwards
+ */
+function failingFactory(event: 'error' | 'blocked', failures = Number.POSITIVE_INFINITY): IDBFactory {
+  const working = new IDBFactory();
+  let attempts = 0;
+  return {
+    open: vi.fn((name: string, version?: number) => {
+      if (attempts++ >= failures) {
+        return working.open(name, version);
+      }
+      const request = { error: new DOMException('The operation failed', 'UnknownError') } as unknown as IDBOpenDBRequest;
+      setTimeout(() => {
+        const handler = event === 'error' ? request.onerror : request.onblocked;
+        handler?.call(request, new Event(event) as IDBVersionChangeEvent);
+      });
+      return request;
+    })
+  } as unknown as IDBFactory;
+}
+
+describe('createIndexedDbTransactionStore', () => {
+  it('keeps history per address and chain', async () => {
+    const store = createIndexedDbTransactionStore(new IDBFactory());
+
+    await store.save(history(42220));
+    await store.save(history(44787));
+    await store.save({ ...history(42220), address: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' });
+
+    await expect(store.load(ACCOUNT, 42220)).resolves.toEqual(history(42220));
+    await store.clear(ACCOUNT, 44787);
+    await expect(store.load(ACCOUNT, 44787)).resolves.toBeNull();
+    await expect(store.load(ACCOUNT, 42220)).resolves.toEqual(history(42220));
+
+    await store.clear(ACCOUNT);
+    await expect(store.load(ACCOUNT, 42220)).resolves.toBeNull();
+    await expect(store.load('0xabcdefabcdefabcdefabcdefabcdefabcdefabcd', 42220)).resolves.not.toBeNull();
+  });
+
+  it('opens the database again after a failed open', async () => {
+    const factory = failingFactory('error', 1);
+    const store = createIndexedDbTransactionStore(factory);
+
+    await expect(store.load(ACCOUNT, 42220)).rejects.toMatchObject({ name: 'UnknownError' });
+    await store.save(history(42220));
+
+    await expect(store.load(ACCOUNT, 42220)).resolves.toEqual(history(42220));
+    expect(factory.open).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up on an open blocked by another connection', async () => {
+    const store = createIndexedDbTransactionStore(failingFactory('blocked'));
+
+    await expect(store.load(ACCOUNT, 42220)).rejects.toThrow('blocked by another connection');
+  });
+
+  it('uses the fallback store for the session once the database cannot be opened', async () => {
+    const factory = failingFactory('error', 1);
+    const fallback = createMemoryTransactionStore();
+    const store = createIndexedDbTransactionStore(factory, 'celo-wallet', fallback);
+
+    await store.save(history(42220));
+
+    await expect(store.load(ACCOUNT, 42220)).resolves.toEqual(history(42220));
+    await expect(fallback.load(ACCOUNT, 42220)).resolves.toEqual(history(42220));
+    expect(factory.open).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import type { Address } from 'viem';
+import { createPendingTransfer, prepareTransfer } from '../transfers';
+import type { FeeCurrency, TokenInfo } from '../../types/token';
+import { celo } from '../../config/celoChains';
+import { MockJsonRpc, fixtureHash } from '../../test/mockJsonRpc';
+
+const ACCOUNT: Address = '0x1234567890123456789012345678901234567890';
+const RECIPIENT: Address = '0xABcdEFABcdEFabcdEfAbCdefabcdeFABcDEFabCD';
+const ONE = BigInt(10) ** BigInt(18);
+
+const cUSD: TokenInfo = {
+  chainId: 42220,
+  address: '0x765DE816845861e75A25fCA122bb6898B8B1282a',
+  symbol: 'cUSD',
+  name: 'Celo Dollar',
+  decimals: 18
+};
+
+const cUSDFee: FeeCurrency = { address: cUSD.address, token: cUSD, decimals: 18 };
+
+function chain(native: bigint, tokenBalance = BigInt(0)): MockJsonRpc {
+  return new MockJsonRpc({
+    head: BigInt(100),
+    gasPrice: BigInt(10000000000),
+    feeCurrencyGasPrices: { [cUSD.address]: BigInt(20000000000) },
+    balances: { [ACCOUNT]: native },
+    tokens: [{ ...cUSD, balances: { [ACCOUNT]: tokenBalance } }]
+  });
+}
+
+describe('prepareTransfer', () => {
+  it('estimates the fee of a native transfer', async () => {
+    const rpc = chain(BigInt(5) * ONE);
+
+    const draft = await prepareTransfer(rpc.client(), {
+      chainId: 42220,
+      from: ACCOUNT,
+      recipient: RECIPIENT.toLowerCase(),
+      amount: '1.5'
+    });
+
+    expect(draft).toMatchObject({
+      to: RECIPIENT,
+      value: BigInt(15) * ONE / BigInt(10),
+      gas: BigInt(21000),
+      gasPrice: BigInt(10000000000),
+      fee: BigInt(21000) * BigInt(10000000000)
+    });
+  });
+
+  it('estimates token transfers against the token contract', async () => {
+    const rpc = chain(ONE, BigInt(10) * ONE);
+
+    const draft = await prepareTransfer(rpc.client(), {
+      chainId: 42220,
+      from: ACCOUNT,
+      recipient: RECIPIENT,
+      amount: '10',
+      token: cUSD
+    });
+
+    expect(draft.gas).toBe(BigInt(65000));
+    expect(draft.value).toBe(BigInt(10) * ONE);
+    const estimate = rpc.callsTo('eth_estimateGas')[0].params[0] as { to: string };
+    expect(estimate.to.toLowerCase()).toBe(cUSD.address.toLowerCase());
+  });
+
+  it('rejects invalid recipients and amounts before touching the network', async () => {
+    const rpc = chain(ONE);
+    const client = rpc.client();
+
+    await expect(
+      prepareTransfer(client, { chainId: 42220, from: ACCOUNT, recipient: '0x123', amount: '1' })
+    ).rejects.toMatchObject({ code: 'INVALID_RECIPIENT', field: 'recipient' });
+    await expect(
+      prepareTransfer(client, { chainId: 42220, from: ACCOUNT, recipient: RECIPIENT, amount: '0' })
+    ).rejects.toMatchObject({ code: 'INVALID_AMOUNT', field: 'amount' });
+    expect(rpc.calls).toHaveLength(0);
+  });
+
+  it('requires the balance to cover the amount and the fee', async () => {
+    const rpc = chain(ONE);
+
+    await expect(
+      prepareTransfer(rpc.client(), { chainId: 42220, from: ACCOUNT, recipient: RECIPIENT, amount: '1' })
+    ).rejects.toMatchObject({ code: 'INSUFFICIENT_FUNDS', message: 'Not enough CELO to cover the network fee' });
+  });
+
+  it('quotes the fee in the selected fee currency', async () => {
+    const rpc = chain(BigInt(0), BigInt(10) * ONE);
+
+    const draft = await prepareTransfer(rpc.client(celo), {
+      chainId: 42220,
+      from: ACCOUNT,
+      recipient: RECIPIENT,
+      amount: '1',
+      token: cUSD,
+      feeCurrency: cUSDFee
+    });
+
+    expect(draft.feeCurrency).toBe(cUSDFee);
+    expect(draft.gas).toBe(BigInt(115000));
+    expect(draft.gasPrice).toBe(BigInt(20000000000));
+    expect(draft.fee).toBe(BigInt(115000) * BigInt(20000000000));
+    const estimate = rpc.callsTo('eth_estimateGas')[0].params[0] as { feeCurrency?: string };
+    expect(estimate.feeCurrency?.toLowerCase()).toBe(cUSD.address.toLowerCase());
+  });
+
+  it('requires the fee currency balance to cover the fee', async () => {
+    const rpc = chain(BigInt(10) * ONE, BigInt(0));
+
+    await expect(
+      prepareTransfer(rpc.client(celo), {
+        chainId: 42220,
+        from: ACCOUNT,
+        recipient: RECIPIENT,
+        amount: '1',
+        feeCurrency: cUSDFee
+      })
+    ).rejects.toMatchObject({ code: 'INSUFFICIENT_FUNDS', message: 'Not enough cUSD to cover the network fee' });
+  });
+
+  it('checks the token balance for token transfers', async () => {
+    const rpc = chain(ONE, ONE);
+
+    await expect(
+      prepareTransfer(rpc.client(), { chainId: 42220, from: ACCOUNT, recipient: RECIPIENT, amount: '2', token: cUSD })
+    ).rejects.toMatchObject({ code: 'INSUFFICIENT_FUNDS', message: 'Insufficient cUSD balance' });
+  });
+});
+
+describe('createPendingTransfer', () => {
+  it('describes a sent token transfer awaiting its block', async () => {
+    const rpc = chain(ONE, BigInt(10) * ONE);
+    const draft = await prepareTransfer(rpc.client(), {
+      chainId: 42220,
+      from: ACCOUNT,
+      recipient: RECIPIENT,
+      amount: '3',
+      token: cUSD
+    });
+
+    expect(createPendingTransfer(draft, fixtureHash(1), 1700000000)).toEqual({
+      hash: fixtureHash(1),
+      blockNumber: '0',
+      timestamp: 1700000000,
+      from: ACCOUNT,
+      to: RECIPIENT,
+      value: (BigInt(3) * ONE).toString(),
+      gasUsed: '65000',
+      gasPrice: '10000000000',
+      status: 'pending',
+      type: 'sent',
+      confirmations: 0,
+      chainId: 42220,
+      tokenAddress: cUSD.address,
+      tokenSymbol: 'cUSD',
+      tokenDecimals: 18
+    });
+  });
+
+  it('records the fee currency of the transfer', async () => {
+    const rpc = chain(ONE, BigInt(10) * ONE);
+    const draft = await prepareTransfer(rpc.client(celo), {
+      chainId: 42220,
+      from: ACCOUNT,
+      recipient: RECIPIENT,
+      amount: '1',
+      feeCurrency: cUSDFee
+    });
+
+    expect(createPendingTransfer(draft, fixtureHash(2)).feeCurrency).toBe(cUSD.address);
+  });
+});
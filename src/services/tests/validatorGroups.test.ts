@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import type { Address } from 'viem';
+import {
+  SCORE_MANAGER_ABI,
+  VALIDATORS_ABI,
+  createValidatorGroupCache,
+  fetchValidatorGroups,
+  matchesValidatorGroupFilters,
+  sortValidatorGroups
+} from '../validatorGroups';
+import { EPOCH_MANAGER_ABI } from '../epochs';
+import { ACCOUNTS_ABI, ELECTION_ABI } from '../staking';
+import { CELO_REGISTRY_ABI } from '../feeCurrencies';
+import { createCoreContractLookup } from '../coreContracts';
+import { CELO_REGISTRY_ADDRESS } from '../../config/feeCurrencies';
+import type { ValidatorGroup } from '../../types/validators';
+import { MockJsonRpc, type MockContract } from '../../test/mockJsonRpc';
+
+const GROUP_A: Address = '0x2000000000000000000000000000000000000001';
+const GROUP_B: Address = '0x2000000000000000000000000000000000000002';
+const MEMBER_1: Address = '0x3000000000000000000000000000000000000001';
+const MEMBER_2: Address = '0x3000000000000000000000000000000000000002';
+const ONE = BigInt(10) ** BigInt(18);
+const FIXED_ONE = BigInt(10) ** BigInt(24);
+
+const ADDRESSES: Record<string, Address> = {
+  Accounts: '0x1000000000000000000000000000000000000001',
+  Election: '0x1000000000000000000000000000000000000003',
+  Validators: '0x1000000000000000000000000000000000000004',
+  EpochManager: '0x1000000000000000000000000000000000000005',
+  ScoreManager: '0x1000000000000000000000000000000000000006'
+};
+
+interface ChainState {
+  epoch: number;
+  /** Celo L2 core contracts; without them, scores and epochs come from Validators and Election */
+  l2?: boolean;
+}
+
+function chain(state: ChainState): MockJsonRpc {
+  const registered = { ...ADDRESSES };
+  if (!state.l2) {
+    delete registered.EpochManager;
+    delete registered.ScoreManager;
+  }
+  const contracts: MockContract[] = [
+    { address: CELO_REGISTRY_ADDRESS, abi: CELO_REGISTRY_ABI, read: (_fn, [name]) => registered[name as string] },
+    { address: ADDRESSES.Accounts, abi: ACCOUNTS_ABI, read: (_fn, [account]) => (account === GROUP_A ? 'Alpha' : '') },
+    { address: ADDRESSES.EpochManager, abi: EPOCH_MANAGER_ABI, read: () => BigInt(state.epoch) },
+    { address: ADDRESSES.ScoreManager, abi: SCORE_MANAGER_ABI, read: () => FIXED_ONE * BigInt(9) / BigInt(10) },
+    {
+      address: ADDRESSES.Validators,
+      abi: VALIDATORS_ABI,
+      read: (fn, [account]) => {
+        switch (fn) {
+        case 'getRegisteredValidatorGroups':
+          return [GROUP_A, GROUP_B];
+        case 'getValidatorGroup':
+          return [
+            account === GROUP_A ? [MEMBER_1, MEMBER_2] : [],
+            FIXED_ONE / BigInt(10),
+            BigInt(0),
+            BigInt(0),
+            [],
+            FIXED_ONE,
+            BigInt(0)
+          ];
+        default:
+          // Member scores of 1 and 0.5
+          return ['0x', '0x', GROUP_A, account === MEMBER_1 ? FIXED_ONE : FIXED_ONE / BigInt(2), account];
+        }
+      }
+    },
+    {
+      address: ADDRESSES.Election,
+      abi: ELECTION_ABI,
+      read: (fn, [group]) => {
+        switch (fn) {
+        case 'getTotalVotesForEligibleValidatorGroups':
+          return [[GROUP_A], [BigInt(500) * ONE]];
+        case 'getTotalVotesForGroup':
+          return group === GROUP_A ? BigInt(500) * ONE : BigInt(50) * ONE;
+        case 'getNumVotesReceivable':
+          return BigInt(800) * ONE;
+        default:
+          return BigInt(state.epoch);
+        }
+      }
+    }
+  ];
+  return new MockJsonRpc({ head: BigInt(100), contracts });
+}
+
+function group(overrides: Partial<ValidatorGroup>): ValidatorGroup {
+  return {
+    address: GROUP_A,
+    name: '',
+    members: [],
+    commission: 0.1,
+    score: 1,
+    votes: BigInt(0),
+    capacity: BigInt(0),
+    eligible: true,
+    ...overrides
+  };
+}
+
+describe('fetchValidatorGroups', () => {
+  it('reads members, commission, score, votes and capacity', async () => {
+    const rpc = chain({ epoch: 10, l2: true });
+
+    const groups = await fetchValidatorGroups(rpc.client(), 42220, createCoreContractLookup());
+
+    expect(groups).toEqual([
+      {
+        address: GROUP_A,
+        name: 'Alpha',
+        members: [MEMBER_1, MEMBER_2],
+        commission: 0.1,
+        score: 0.9,
+        votes: BigInt(500) * ONE,
+        capacity: BigInt(300) * ONE,
+        eligible: true
+      },
+      {
+        address: GROUP_B,
+        name: '',
+        members: [],
+        commission: 0.1,
+        score: 0.9,
+        votes: BigInt(50) * ONE,
+        capacity: BigInt(750) * ONE,
+        eligible: false
+      }
+    ]);
+  });
+
+  it('averages member scores before ScoreManager', async () => {
+    const rpc = chain({ epoch: 10 });
+
+    const [alpha, empty] = await fetchValidatorGroups(rpc.client(), 42220, createCoreContractLookup());
+
+    expect(alpha.score).toBe(0.75);
+    expect(empty.score).toBe(0);
+  });
+
+  it('reads a limited number of groups at a time', async () => {
+    const rpc = chain({ epoch: 10, l2: true });
+
+    const groups = await fetchValidatorGroups(rpc.client(), 42220, createCoreContractLookup(), { concurrency: 1 });
+
+    expect(groups.map(({ name }) => name)).toEqual(['Alpha', '']);
+    // The four reads of one group, then its score
+    expect(rpc.maxInFlight).toBe(4);
+  });
+});
+
+describe('createValidatorGroupCache', () => {
+  it('reads the groups again only in a new epoch', async () => {
+    const state: ChainState = { epoch: 10, l2: true };
+    const rpc = chain(state);
+    let now = 1000;
+    const cache = createValidatorGroupCache({ getClient: () => rpc.client(), lookup: createCoreContractLookup(), now: () => now });
+
+    const first = await cache.get(42220);
+    now = 2000;
+    const second = await cache.get(42220);
+    expect(second).toBe(first);
+    expect(first).toMatchObject({ chainId: 42220, epoch: 10, fetchedAt: 1000 });
+
+    state.epoch = 11;
+    const third = await cache.get(42220);
+    expect(third).toMatchObject({ epoch: 11, fetchedAt: 2000 });
+  });
+
+  it('reads the epoch from Election before EpochManager', async () => {
+    const rpc = chain({ epoch: 42 });
+    const cache = createValidatorGroupCache({ getClient: () => rpc.client(), lookup: createCoreContractLookup() });
+
+    await expect(cache.get(42220)).resolves.toMatchObject({ epoch: 42 });
+  });
+});
+
+describe('matchesValidatorGroupFilters', () => {
+  it('matches names and addresses and applies the filters', () => {
+    const alpha = group({ name: 'Alpha', capacity: ONE, commission: 0.05, score: 0.95 });
+
+    expect(matchesValidatorGroupFilters(alpha, { query: 'alp' })).toBe(true);
+    expect(matchesValidatorGroupFilters(alpha, { query: GROUP_A.slice(0, 8) })).toBe(true);
+    expect(matchesValidatorGroupFilters(alpha, { query: 'beta' })).toBe(false);
+    expect(matchesValidatorGroupFilters(alpha, { hasCapacity: true, maxCommission: 0.1, minScore: 0.9 })).toBe(true);
+    expect(matchesValidatorGroupFilters({ ...alpha, capacity: BigInt(0) }, { hasCapacity: true })).toBe(false);
+    expect(matchesValidatorGroupFilters({ ...alpha, eligible: false }, { eligibleOnly: true })).toBe(false);
+    expect(matchesValidatorGroupFilters(alpha, { maxCommission: 0.01 })).toBe(false);
+  });
+});
+
+describe('sortValidatorGroups', () => {
+  it('sorts by a column and breaks ties by votes', () => {
+    const groups = [
+      group({ address: GROUP_A, name: 'Beta', votes: BigInt(1), commission: 0.1 }),
+      group({ address: GROUP_B, name: 'Alpha', votes: BigInt(3), commission: 0.1 })
+    ];
+
+    expect(sortValidatorGroups(groups).map((entry) => entry.name)).toEqual(['Alpha', 'Beta']);
+    expect(sortValidatorGroups(groups, 'name', 'desc').map((entry) => entry.name)).toEqual(['Beta', 'Alpha']);
+    expect(sortValidatorGroups(groups, 'commission', 'asc').map((entry) => entry.name)).toEqual(['Alpha', 'Beta']);
+  });
+});
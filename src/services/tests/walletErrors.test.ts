@@ -0,0 +1,101 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import {
+  ContractFunctionRevertedError,
+  HttpRequestError,
+  InsufficientFundsError,
+  LimitExceededRpcError,
+  SwitchChainError,
+  TimeoutError,
+  UnknownRpcError,
+  UserRejectedRequestError,
+  erc20Abi
+} from 'viem';
+import { ConnectorChainMismatchError, ConnectorNotFoundError, ProviderNotFoundError } from 'wagmi';
+import {
+  getWalletErrorLocale,
+  getWalletErrorMessage,
+  isWalletError,
+  normalizeWalletError,
+  setWalletErrorLocale,
+  toWalletError
+} from '../walletErrors';
+import { WALLET_ERROR_MESSAGES } from '../../config/walletErrorMessages';
+
+const http = (status: number): HttpRequestError =>
+  new HttpRequestError({ url: 'https://forno.celo.org', status, body: { method: 'eth_call' } });
+
+describe('normalizeWalletError', () => {
+  afterEach(() => setWalletErrorLocale(undefined));
+
+  it.each([
+    ['viem rejections', new UserRejectedRequestError(new Error('denied')), 'USER_REJECTED'],
+    ['EIP-1193 rejections', { code: 4001, message: 'User rejected the request.' }, 'USER_REJECTED'],
+    ['pending wallet requests', { code: -32002, message: "Request of type 'eth_requestAccounts' already pending" }, 'REQUEST_PENDING'],
+    ['chains unknown to the wallet', new SwitchChainError(new Error('Unrecognized chain ID')), 'UNSUPPORTED_CHAIN'],
+    ['missing wallets', new ProviderNotFoundError(), 'CONNECTOR_NOT_FOUND'],
+    ['disconnected wallets', { code: 4900, message: 'Disconnected' }, 'NOT_CONNECTED'],
+    ['unsupported methods', { code: 4200, message: 'Unsupported method' }, 'UNSUPPORTED_METHOD'],
+    ['expired WalletConnect sessions', new Error('Session expired. Please reconnect.'), 'WALLETCONNECT_SESSION_EXPIRED'],
+    ['insufficient funds', new InsufficientFundsError(), 'INSUFFICIENT_FUNDS'],
+    ['reverts', new ContractFunctionRevertedError({ abi: erc20Abi, functionName: 'transfer' }), 'EXECUTION_REVERTED'],
+    ['rate limits', http(429), 'RATE_LIMITED'],
+    ['rate limits as JSON-RPC errors', new LimitExceededRpcError(new Error('limit')), 'RATE_LIMITED'],
+    ['timeouts', new TimeoutError({ body: {}, url: 'https://forno.celo.org' }), 'TIMEOUT'],
+    ['unreachable endpoints', http(503), 'RPC_UNAVAILABLE'],
+    ['anything else', new UnknownRpcError(new Error('boom')), 'UNKNOWN']
+  ])('classifies %s', (_name, error, code) => {
+    expect(normalizeWalletError(error)).toMatchObject({ code, details: error });
+  });
+
+  it('classifies wagmi connector errors', () => {
+    const mismatch = new ConnectorChainMismatchError({ connectionChainId: 1, connectorChainId: 42220 });
+
+    expect(normalizeWalletError(new ConnectorNotFoundError()).code).toBe('CONNECTOR_NOT_FOUND');
+    expect(normalizeWalletError(mismatch).code).toBe('CHAIN_MISMATCH');
+  });
+
+  it('looks through wrapped causes', () => {
+    const wrapped = new Error('Transaction failed', { cause: { code: 4001, message: 'denied' } });
+
+    expect(normalizeWalletError(wrapped).code).toBe('USER_REJECTED');
+  });
+
+  it('passes errors the app already described through', () => {
+    const error = { message: 'Insufficient cUSD balance', code: 'INSUFFICIENT_FUNDS', field: 'amount' };
+
+    expect(isWalletError(error)).toBe(true);
+    expect(normalizeWalletError(error)).toBe(error);
+  });
+
+  it('localizes messages', () => {
+    const rejection = new UserRejectedRequestError(new Error('denied'));
+
+    expect(normalizeWalletError(rejection).message).toBe(WALLET_ERROR_MESSAGES.en.USER_REJECTED);
+    expect(normalizeWalletError(rejection, { locale: 'es' }).message).toBe(WALLET_ERROR_MESSAGES.es.USER_REJECTED);
+
+    setWalletErrorLocale('pt');
+    expect(getWalletErrorLocale()).toBe('pt');
+    expect(getWalletErrorMessage('TIMEOUT')).toBe(WALLET_ERROR_MESSAGES.pt.TIMEOUT);
+  });
+
+  it('has a message for every code in every language', () => {
+    const codes = Object.keys(WALLET_ERROR_MESSAGES.en).sort();
+    for (const messages of Object.values(WALLET_ERROR_MESSAGES)) {
+      expect(Object.keys(messages).sort()).toEqual(codes);
+      expect(Object.values(messages).every((message) => message.length > 0)).toBe(true);
+    }
+  });
+});
+
+describe('toWalletError', () => {
+  it('keeps the caller code for failures outside the taxonomy', () => {
+    const cause = new Error('boom');
+
+    expect(toWalletError(cause, { message: 'Failed to send the transfer', code: 'SEND_FAILED' })).toEqual({
+      message: 'Failed to send the transfer',
+      code: 'SEND_FAILED',
+      details: cause
+    });
+    expect(toWalletError(http(503), { message: 'Failed', code: 'SEND_FAILED' }).code).toBe('RPC_UNAVAILABLE');
+  });
+});
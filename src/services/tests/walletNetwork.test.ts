@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { createWalletClient, custom } from 'viem';
+import {
+  addChainToWallet,
+  createKnownChainsStore,
+  toAddEthereumChainParameter,
+  toWatchAssetParameters,
+  watchAssetInWallet
+} from '../walletNetwork';
+import { celo, celoSepolia } from '../../config/celoChains';
+import type { TokenInfo } from '../../types/token';
+import { memoryStorage } from '../../test/memoryStorage';
+
+const token: TokenInfo = {
+  chainId: 42220,
+  address: '0x765DE816845861e75A25fCA122bb6898B8B1282a',
+  symbol: 'cUSD',
+  name: 'Celo Dollar',
+  decimals: 18
+};
+
+describe('toAddEthereumChainParameter', () => {
+  it('describes a registry chain', () => {
+    expect(toAddEthereumChainParameter(celoSepolia)).toEqual({
+      chainId: '0xaa044c',
+      chainName: 'Celo Sepolia',
+      nativeCurrency: { name: 'Celo Sepolia Celo', symbol: 'S-CELO', decimals: 18 },
+      rpcUrls: ['https://forno.celo-sepolia.celo-testnet.org'],
+      blockExplorerUrls: ['https://celo-sepolia.blockscout.com']
+    });
+  });
+});
+
+describe('addChainToWallet', () => {
+  it('sends wallet_addEthereumChain to the wallet', async () => {
+    const requests: { method: string; params?: unknown }[] = [];
+    const walletClient = createWalletClient({
+      transport: custom({
+        request: async (request: { method: string; params?: unknown }) => {
+          requests.push(request);
+          return null;
+        }
+      })
+    });
+
+    await addChainToWallet(walletClient, celo);
+
+    expect(requests).toEqual([{ method: 'wallet_addEthereumChain', params: [toAddEthereumChainParameter(celo)] }]);
+  });
+});
+
+describe('watchAssetInWallet', () => {
+  const walletReturning = (accepted: boolean, requests: { method: string; params?: unknown }[] = []) =>
+    createWalletClient({
+      transport: custom({
+        request: async (request: { method: string; params?: unknown }) => {
+          requests.push(request);
+          return accepted;
+        }
+      })
+    });
+
+  it('sends wallet_watchAsset with the token details', async () => {
+    const requests: { method: string; params?: unknown }[] = [];
+
+    await expect(watchAssetInWallet(walletReturning(true, requests), token)).resolves.toBe(true);
+    expect(requests).toEqual([{
+      method: 'wallet_watchAsset',
+      params: { type: 'ERC20', options: { address: token.address, symbol: 'cUSD', decimals: 18 } }
+    }]);
+  });
+
+  it('resolves to false when the user declines', async () => {
+    await expect(watchAssetInWallet(walletReturning(false), token)).resolves.toBe(false);
+  });
+
+  it('shortens symbols wallets would reject', () => {
+    expect(toWatchAssetParameters({ ...token, symbol: 'VERYLONGSYMBOL' }).options.symbol).toBe('VERYLONGSYM');
+  });
+});
+
+describe('createKnownChainsStore', () => {
+  it('knows nothing about chains it has not seen', () => {
+    expect(createKnownChainsStore().isKnown('injected', 42220)).toBeUndefined();
+  });
+
+  it('keeps what it learns per wallet across instances', () => {
+    const storage = memoryStorage();
+    const store = createKnownChainsStore(storage);
+    store.setKnown('injected', 42220, true);
+    store.setKnown('injected', 44787, false);
+
+    const reloaded = createKnownChainsStore(storage);
+    expect(reloaded.isKnown('injected', 42220)).toBe(true);
+    expect(reloaded.isKnown('injected', 44787)).toBe(false);
+    expect(reloaded.isKnown('walletConnect', 42220)).toBeUndefined();
+  });
+
+  it('ignores an unreadable stored value', () => {
+    const storage = memoryStorage();
+    storage.setItem('celo-wallet:known-chains', '{not json');
+
+    expect(createKnownChainsStore(storage).isKnown('injected', 42220)).toBeUndefined();
+  });
+});
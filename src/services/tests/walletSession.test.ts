@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { custom } from 'viem';
+import { createConfig, createStorage } from 'wagmi';
+import { connect, getAccount } from 'wagmi/actions';
+import { mock } from 'wagmi/connectors';
+import { celo } from '../../config/celoChains';
+import { forgetWallet, getRecentConnectorId, isWalletConnectSessionExpired } from '../walletSession';
+import { memoryStorage } from '../../test/memoryStorage';
+import { MockJsonRpc } from '../../test/mockJsonRpc';
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890';
+
+function setup() {
+  const storage = memoryStorage();
+  const rpc = new MockJsonRpc({ chainId: celo.id, head: BigInt(1) });
+  const config = createConfig({
+    chains: [celo],
+    connectors: [mock({ accounts: [ACCOUNT] })],
+    transports: { [celo.id]: custom({ request: (args) => rpc.request(args) }) },
+    storage: createStorage({ storage })
+  });
+  return { config, storage };
+}
+
+describe('isWalletConnectSessionExpired', () => {
+  it('recognizes expired sessions, also when nested', () => {
+    const nested = new Error('Connection failed', { cause: new Error("No matching key. session topic doesn't exist: abc") });
+
+    expect(isWalletConnectSessionExpired(new Error('Session expired'))).toBe(true);
+    expect(isWalletConnectSessionExpired(nested)).toBe(true);
+    expect(isWalletConnectSessionExpired(new Error('Connection failed'))).toBe(false);
+  });
+});
+
+describe('forgetWallet', () => {
+  it('disconnects and forgets the connector and WalletConnect data', async () => {
+    const { config, storage } = setup();
+    await connect(config, { connector: config.connectors[0] });
+    storage.setItem('wc@2:core:0.3//keychain', '{}');
+    storage.setItem('unrelated', 'kept');
+
+    expect(await getRecentConnectorId(config)).toBe('mock');
+
+    await forgetWallet(config, storage);
+
+    expect(getAccount(config).status).toBe('disconnected');
+    expect(await getRecentConnectorId(config)).toBeNull();
+    expect(storage.getItem('wc@2:core:0.3//keychain')).toBeNull();
+    expect(storage.getItem('unrelated')).toBe('kept');
+  });
+
+  it('still forgets the wallet when it fails to disconnect, then reports the failure', async () => {
+    const { config, storage } = setup();
+    await connect(config, { connector: config.connectors[0] });
+    storage.setItem('wc@2:core:0.3//keychain', '{}');
+    config.connectors[0].disconnect = async () => {
+      throw new Error('Wallet unreachable');
+    };
+
+    await expect(forgetWallet(config, storage)).rejects.toThrow('Wallet unreachable');
+
+    expect(await getRecentConnectorId(config)).toBeNull();
+    expect(storage.getItem('wc@2:core:0.3//keychain')).toBeNull();
+  });
+});
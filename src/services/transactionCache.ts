@@ -0,0 +1,385 @@
+import { parseEventLogs, type Hash, type PublicClient } from 'viem';
+import type {
+  CeloTransaction,
+  PaginatedTransactions,
+  TransactionError,
+  TransactionQueryOptions
+} from '../types/transaction';
+import { createViemClient } from '../utils/publicClient';
+import {
+  getConfirmations,
+  getTransactionKey,
+  matchesTransactionFilters,
+  refreshConfirmations
+} from '../utils/transactionHelpers';
+import { TRANSFER_EVENT } from './rpcHistorySource';
+import { createTransactionHistoryEngine, type TransactionHistoryEngine } from './transactionHistory';
+import {
+  getSharedTransactionStore,
+  type CachedTransactionHistory,
+  type TransactionStore
+} from './transactionStore';
+
+type CacheListener = (address: string, chainId?: number) => void;
+
+export interface TransactionHistoryCacheOptions {
+  engine: TransactionHistoryEngine;
+  store: TransactionStore;
+  getClient?: (chainId: number) => PublicClient;
+  /** Transactions requested per engine call while syncing or backfilling */
+  batchSize?: number;
+  /** Delta pages fetched at most before the cache is rebuilt from the head */
+  maxDeltaPages?: number;
+  /** Cached history younger than this (ms) is served without a background sync */
+  staleTime?: number;
+  /** Backfill requests made at most while filling a single page */
+  maxBackfillPages?: number;
+  /** Called when a background sync fails; the cached history is served regardless */
+  onError?: (error: unknown) => void;
+}
+
+export interface TransactionHistoryCache {
+  /**
+   * Serve a page from the local cache, backfilling older history on demand.
+   * The first page (no cursor) triggers a sync: awaited when nothing is cached
+   * yet, in the background otherwise.
+   */
+  fetchPage(options: TransactionQueryOptions): Promise<PaginatedTransactions>;
+  /** Fetch everything newer than the last synced block and reconcile pending entries */
+  sync(address: string, chainId: number): Promise<CachedTransactionHistory>;
+  /** Insert a just-submitted transaction of `address` so it shows before it is mined */
+  addPending(address: string, transaction: CeloTransaction): Promise<void>;
+  clear(address: string, chainId?: number): Promise<void>;
+  /** Called whenever cached history of an address changes; no chain ID means every chain */
+  subscribe(listener: CacheListener): () => void;
+}
+
+// Cursors name the last entry served: `cache:<block or pending>:<transaction key>`
+const CACHE_CURSOR = /^cache:(pending|\d+):(.+)$/;
+
+function cacheKey(address: string, chainId: number): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+function compareNewestFirst(a: CeloTransaction, b: CeloTransaction): number {
+  // Pending transactions have no block yet and belong on top
+  const blockA = a.status === 'pending' ? Number.POSITIVE_INFINITY : Number(a.blockNumber);
+  const blockB = b.status === 'pending' ? Number.POSITIVE_INFINITY : Number(b.blockNumber);
+  if (blockA !== blockB) {
+    return blockB - blockA;
+  }
+  if (a.timestamp !== b.timestamp) {
+    return b.timestamp - a.timestamp;
+  }
+  return (b.logIndex ?? -1) - (a.logIndex ?? -1);
+}
+
+function toCursor(tx: CeloTransaction): string {
+  return `cache:${tx.status === 'pending' ? 'pending' : tx.blockNumber}:${getTransactionKey(tx)}`;
+}
+
+/**
+ * Index of the first entry after the one a cursor names. Entries that sync
+ * adds on top do not move it; should the entry itself be gone (a pending
+ * transaction that got mined), paging resumes at the next older block.
+ */
+function cursorOffset(transactions: readonly CeloTransaction[], cursor: string): number {
+  const [, block, key] = CACHE_CURSOR.exec(cursor) ?? [];
+  const index = transactions.findIndex((tx) => getTransactionKey(tx) === key);
+  if (index !== -1) {
+    return index + 1;
+  }
+  const next = transactions.findIndex((tx) =>
+    tx.status !== 'pending' && (block === 'pending' || BigInt(tx.blockNumber) < BigInt(block)));
+  return next === -1 ? transactions.length : next;
+}
+
+/**
+ * Merge fresh transactions into cached ones. Fresh entries win, which is how
+ * pending transactions get replaced once they are mined; a pending entry is
+ * also dropped when a fresh entry of the same transaction has another key,
+ * as happens for token transfers, which gain a log index once mined.
+ */
+export function mergeTransactions(
+  cached: readonly CeloTransaction[],
+  fresh: readonly CeloTransaction[]
+): CeloTransaction[] {
+  const freshHashes = new Set(fresh.map((tx) => tx.hash.toLowerCase()));
+  const byKey = new Map<string, CeloTransaction>();
+  for (const tx of cached) {
+    if (tx.status === 'pending' && freshHashes.has(tx.hash.toLowerCase())) {
+      continue;
+    }
+    byKey.set(getTransactionKey(tx), tx);
+  }
+  for (const tx of fresh) {
+    byKey.set(getTransactionKey(tx), tx);
+  }
+  return [...byKey.values()].sort(compareNewestFirst);
+}
+
+/**
+ * Create a read-through cache in front of a history engine.
+ * Sync state and transactions are persisted per address and chain in `store`.
+ */
+export function createTransactionHistoryCache({
+  engine,
+  store,
+  getClient = createViemClient,
+  batchSize = 25,
+  maxDeltaPages = 10,
+  staleTime = 15000,
+  maxBackfillPages = 5,
+  onError = (): void => {}
+}: TransactionHistoryCacheOptions): TransactionHistoryCache {
+  const listeners = new Set<CacheListener>();
+  const inFlight = new Map<string, Promise<CachedTransactionHistory>>();
+  const syncedAt = new Map<string, number>();
+  // Tail of the load → mutate → save work queued per address and chain
+  const queues = new Map<string, Promise<unknown>>();
+
+  /**
+   * Run `task` once all work queued before it for the same history is done,
+   * so saves never overwrite each other's changes
+   */
+  const withLock = <T>(key: string, task: () => Promise<T>): Promise<T> => {
+    const result = (queues.get(key) ?? Promise.resolve()).then(task);
+    const tail = result.catch(() => undefined);
+    queues.set(key, tail);
+    tail.then(() => {
+      if (queues.get(key) === tail) {
+        queues.delete(key);
+      }
+    });
+    return result;
+  };
+
+  const notify = (address: string, chainId?: number): void => {
+    listeners.forEach((listener) => listener(address, chainId));
+  };
+
+  const fetchFromHead = async (
+    address: string,
+    chainId: number,
+    fromBlock?: string
+  ): Promise<{ transactions: CeloTransaction[]; nextCursor?: string; hasMore: boolean }> => {
+    const transactions: CeloTransaction[] = [];
+    let cursor: string | undefined;
+    let hasMore = true;
+
+    for (let page = 0; hasMore && page < (fromBlock ? maxDeltaPages : 1); page++) {
+      const result = await engine.fetchPage({ address, chainId, limit: batchSize, cursor, fromBlock });
+      transactions.push(...result.transactions);
+      cursor = result.nextCursor;
+      hasMore = result.hasMore && !!cursor;
+    }
+
+    return { transactions, nextCursor: cursor, hasMore };
+  };
+
+  const reconcilePending = async (
+    client: PublicClient,
+    transactions: CeloTransaction[],
+    head: bigint
+  ): Promise<CeloTransaction[]> => {
+    const pending = transactions.filter((tx) => tx.status === 'pending');
+    if (pending.length === 0) {
+      return [];
+    }
+
+    const settled = await Promise.all(pending.map(async (tx): Promise<CeloTransaction | null> => {
+      try {
+        const receipt = await client.getTransactionReceipt({ hash: tx.hash as Hash });
+        // Token entries are keyed by their Transfer log, as history sources list them
+        const transferLog = tx.tokenAddress
+          ? parseEventLogs({ abi: [TRANSFER_EVENT], logs: receipt.logs }).find((log) =>
+            log.address.toLowerCase() === tx.tokenAddress?.toLowerCase()
+              && log.args.from.toLowerCase() === tx.from.toLowerCase()
+              && log.args.to.toLowerCase() === tx.to.toLowerCase())
+          : undefined;
+        return {
+          ...tx,
+          logIndex: transferLog?.logIndex ?? tx.logIndex,
+          blockNumber: receipt.blockNumber.toString(),
+          gasUsed: receipt.gasUsed.toString(),
+          gasPrice: receipt.effectiveGasPrice?.toString() ?? tx.gasPrice,
+          status: receipt.status === 'success' ? 'success' : 'failure',
+          confirmations: getConfirmations(receipt.blockNumber.toString(), head)
+        };
+      } catch {
+        // Not mined yet
+        return null;
+      }
+    }));
+
+    return settled.filter((tx): tx is CeloTransaction => tx !== null);
+  };
+
+  const runSync = async (address: string, chainId: number): Promise<CachedTransactionHistory> => {
+    const client = getClient(chainId);
+    // Read the head first so nothing mined during the sync is skipped next time
+    const head = await client.getBlockNumber();
+    const cached = await store.load(address, chainId);
+
+    let history: CachedTransactionHistory;
+    const delta = cached
+      ? await fetchFromHead(address, chainId, (BigInt(cached.lastSyncedBlock) + BigInt(1)).toString())
+      : null;
+
+    if (cached && delta && !delta.hasMore) {
+      history = {
+        ...cached,
+        transactions: mergeTransactions(cached.transactions, delta.transactions),
+        lastSyncedBlock: head.toString(),
+        updatedAt: Date.now()
+      };
+    } else {
+      // First sync, or too far behind to close the gap: start over from the head
+      const fresh = await fetchFromHead(address, chainId);
+      const pending = cached?.transactions.filter((tx) => tx.status === 'pending') ?? [];
+      history = {
+        address,
+        chainId,
+        transactions: mergeTransactions(pending, fresh.transactions),
+        lastSyncedBlock: head.toString(),
+        backfillCursor: fresh.nextCursor,
+        complete: !fresh.hasMore,
+        updatedAt: Date.now()
+      };
+    }
+
+    const mined = await reconcilePending(client, history.transactions, head);
+    if (mined.length > 0) {
+      history.transactions = mergeTransactions(history.transactions, mined);
+    }
+
+    await store.save(history);
+    syncedAt.set(cacheKey(address, chainId), Date.now());
+    notify(address, chainId);
+    return history;
+  };
+
+  const sync = (address: string, chainId: number): Promise<CachedTransactionHistory> => {
+    const key = cacheKey(address, chainId);
+    const running = inFlight.get(key);
+    if (running) {
+      return running;
+    }
+    const promise = withLock(key, () => runSync(address, chainId)).finally(() => inFlight.delete(key));
+    inFlight.set(key, promise);
+    return promise;
+  };
+
+  const backfill = (address: string, chainId: number): Promise<CachedTransactionHistory | null> =>
+    withLock(cacheKey(address, chainId), async () => {
+      // Start from the stored history: a sync may have landed since the caller read it
+      const history = await store.load(address, chainId);
+      if (!history || history.complete) {
+        return history;
+      }
+      const page = await engine.fetchPage({ address, chainId, limit: batchSize, cursor: history.backfillCursor });
+      const updated: CachedTransactionHistory = {
+        ...history,
+        transactions: mergeTransactions(history.transactions, page.transactions),
+        backfillCursor: page.nextCursor,
+        complete: !page.hasMore || !page.nextCursor,
+        updatedAt: Date.now()
+      };
+      await store.save(updated);
+      notify(address, chainId);
+      return updated;
+    });
+
+  return {
+    async fetchPage({ address, chainId, limit = 10, cursor, filters }) {
+      const key = cacheKey(address, chainId);
+
+      if (cursor && !CACHE_CURSOR.test(cursor)) {
+        const error: TransactionError = {
+          message: `Invalid transaction history cursor: ${cursor}`,
+          code: 'INVALID_CURSOR'
+        };
+        throw error;
+      }
+
+      let history = await store.load(address, chainId);
+      if (!history) {
+        history = await sync(address, chainId);
+      } else if (!cursor && Date.now() - (syncedAt.get(key) ?? 0) >= staleTime) {
+        sync(address, chainId).catch(onError);
+      }
+
+      let matching = history.transactions.filter((tx) => matchesTransactionFilters(tx, filters));
+      let offset = cursor ? cursorOffset(matching, cursor) : 0;
+      // Fetch one past the page end so `hasMore` is exact once the history is complete
+      for (let page = 0; matching.length <= offset + limit && !history.complete && page < maxBackfillPages; page++) {
+        history = await backfill(address, chainId) ?? history;
+        matching = history.transactions.filter((tx) => matchesTransactionFilters(tx, filters));
+        offset = cursor ? cursorOffset(matching, cursor) : 0;
+      }
+
+      const transactions = matching.slice(offset, offset + limit);
+      const hasMore = matching.length > offset + limit || !history.complete;
+
+      return {
+        // Stored confirmation counts are as of the sync; bring them up to the synced head
+        transactions: refreshConfirmations(transactions, BigInt(history.lastSyncedBlock)),
+        total: matching.length,
+        hasMore,
+        nextCursor: hasMore && transactions.length > 0 ? toCursor(transactions[transactions.length - 1]) : undefined
+      };
+    },
+
+    sync,
+
+    addPending(address, transaction) {
+      const { chainId } = transaction;
+      // Queued behind any running sync, so neither overwrites the other
+      return withLock(cacheKey(address, chainId), async () => {
+        const history = await store.load(address, chainId) ?? await runSync(address, chainId);
+        await store.save({
+          ...history,
+          transactions: mergeTransactions(history.transactions, [transaction]),
+          updatedAt: Date.now()
+        });
+        notify(address, chainId);
+      });
+    },
+
+    async clear(address, chainId) {
+      const keys = chainId !== undefined
+        ? [cacheKey(address, chainId)]
+        : [...queues.keys()].filter((key) => key.endsWith(`:${address.toLowerCase()}`));
+      // Let queued work finish so it does not write the history back afterwards
+      await Promise.all(keys.map((key) => withLock(key, async () => undefined)));
+      await store.clear(address, chainId);
+      for (const key of [...syncedAt.keys()]) {
+        if (key.endsWith(`:${address.toLowerCase()}`) && (chainId === undefined || key === cacheKey(address, chainId))) {
+          syncedAt.delete(key);
+        }
+      }
+      notify(address, chainId);
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
+
+let sharedCache: TransactionHistoryCache | null = null;
+
+/**
+ * Cache over the default sources and the shared store, used by every hook that
+ * does not bring its own, so submitted transfers show up in the history
+ */
+export function getSharedTransactionHistoryCache(): TransactionHistoryCache {
+  sharedCache ??= createTransactionHistoryCache({
+    engine: createTransactionHistoryEngine(),
+    store: getSharedTransactionStore()
+  });
+  return sharedCache;
+}
@@ -0,0 +1,221 @@
+import type {
+  CeloTransaction,
+  PaginatedTransactions,
+  TransactionExportColumn,
+  TransactionExportError,
+  TransactionExportFile,
+  TransactionFilters,
+  TransactionQueryOptions
+} from '../types/transaction';
+import { formatValue, getTransactionUrl } from '../utils/celoExplorer';
+import {
+  getTransactionAsset,
+  getTransactionFee,
+  matchesTransactionFilters,
+  validateTransaction
+} from '../utils/transactionHelpers';
+
+interface ColumnDefinition {
+  label: string;
+  value(tx: CeloTransaction): string;
+}
+
+const COLUMNS: Record<TransactionExportColumn, ColumnDefinition> = {
+  date: { label: 'Date (UTC)', value: (tx) => new Date(tx.timestamp * 1000).toISOString() },
+  hash: { label: 'Transaction hash', value: (tx) => tx.hash },
+  type: { label: 'Type', value: (tx) => tx.type },
+  status: { label: 'Status', value: (tx) => tx.status },
+  from: { label: 'From', value: (tx) => tx.from },
+  to: { label: 'To', value: (tx) => tx.to },
+  amount: { label: 'Amount', value: (tx) => formatValue(tx.value, tx.tokenDecimals ?? 18, { exact: true }) },
+  asset: { label: 'Asset', value: getTransactionAsset },
+  // Fee currencies are charged with 18 decimals, through an adapter when the token has fewer
+  fee: { label: 'Fee', value: (tx) => formatValue(getTransactionFee(tx).toString(), 18, { exact: true }) },
+  feeCurrency: { label: 'Fee currency', value: (tx) => tx.feeCurrency ?? 'CELO' },
+  blockNumber: { label: 'Block', value: (tx) => tx.blockNumber },
+  chainId: { label: 'Chain ID', value: (tx) => String(tx.chainId) },
+  explorerUrl: { label: 'Explorer link', value: (tx) => getTransactionUrl(tx.hash, tx.chainId) }
+};
+
+export const TRANSACTION_EXPORT_COLUMNS = Object.keys(COLUMNS) as TransactionExportColumn[];
+
+export const DEFAULT_TRANSACTION_EXPORT_COLUMNS: readonly TransactionExportColumn[] = [
+  'date',
+  'type',
+  'status',
+  'amount',
+  'asset',
+  'fee',
+  'from',
+  'to',
+  'hash',
+  'explorerUrl'
+];
+
+/**
+ * Header shown for a column
+ */
+export function getTransactionExportColumnLabel(column: TransactionExportColumn): string {
+  return COLUMNS[column].label;
+}
+
+export interface TransactionCsvOptions {
+  columns?: readonly TransactionExportColumn[];
+  /** Only transactions matching these filters are written */
+  filters?: TransactionFilters;
+}
+
+// Spreadsheets run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function toCsvCell(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Transactions as CSV (RFC 4180), one row per history entry with a header row
+ */
+export function toTransactionCsv(
+  transactions: readonly CeloTransaction[],
+  { columns = DEFAULT_TRANSACTION_EXPORT_COLUMNS, filters }: TransactionCsvOptions = {}
+): string {
+  const rows = transactions
+    .filter((tx) => matchesTransactionFilters(tx, filters))
+    .map((tx) => columns.map((column) => toCsvCell(COLUMNS[column].value(tx))).join(','));
+  const header = columns.map((column) => toCsvCell(COLUMNS[column].label)).join(',');
+  return `${[header, ...rows].join('\r\n')}\r\n`;
+}
+
+export interface TransactionExportFileOptions {
+  address: string;
+  chainId: number;
+  filters?: TransactionFilters;
+  exportedAt?: number;
+  truncated?: boolean;
+}
+
+/**
+ * Transactions matching the filters, wrapped with what is needed to review them later
+ */
+export function toTransactionExportFile(
+  transactions: readonly CeloTransaction[],
+  { address, chainId, filters, exportedAt = Date.now(), truncated }: TransactionExportFileOptions
+): TransactionExportFile {
+  return {
+    version: 1,
+    address,
+    chainId,
+    exportedAt,
+    ...(filters ? { filters } : {}),
+    transactions: transactions.filter((tx) => matchesTransactionFilters(tx, filters)),
+    ...(truncated ? { truncated } : {})
+  };
+}
+
+/**
+ * Transactions as a JSON export file
+ */
+export function toTransactionJson(
+  transactions: readonly CeloTransaction[],
+  options: TransactionExportFileOptions
+): string {
+  return JSON.stringify(toTransactionExportFile(transactions, options), null, 2);
+}
+
+function isCeloTransaction(value: unknown): value is CeloTransaction {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const tx = value as Record<string, unknown>;
+  return typeof tx.hash === 'string'
+    && typeof tx.blockNumber === 'string'
+    && typeof tx.timestamp === 'number'
+    && typeof tx.value === 'string'
+    && typeof tx.gasUsed === 'string'
+    && typeof tx.gasPrice === 'string'
+    && typeof tx.confirmations === 'number'
+    && validateTransaction(tx as Partial<CeloTransaction>).length === 0;
+}
+
+/**
+ * Read a JSON export back. Throws a TransactionExportError with code
+ * INVALID_EXPORT when the file is not one.
+ */
+export function parseTransactionExport(json: string): TransactionExportFile {
+  const invalid = (message: string, details?: unknown): TransactionExportError => ({
+    message,
+    code: 'INVALID_EXPORT',
+    details
+  });
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (cause) {
+    throw invalid('The file is not valid JSON', cause);
+  }
+  if (!parsed || typeof parsed !== 'object') {
+    throw invalid('The file is not a transaction export');
+  }
+
+  const file = parsed as Record<string, unknown>;
+  if (file.version !== 1) {
+    throw invalid('The file is not a transaction export, or comes from a newer version');
+  }
+  if (typeof file.address !== 'string' || typeof file.chainId !== 'number' || typeof file.exportedAt !== 'number') {
+    throw invalid('The export is missing its address, chain or date');
+  }
+  if (!Array.isArray(file.transactions)) {
+    throw invalid('The export has no transactions');
+  }
+  const index = file.transactions.findIndex((tx) => !isCeloTransaction(tx));
+  if (index !== -1) {
+    throw invalid(`Transaction ${index + 1} of the export is invalid`, file.transactions[index]);
+  }
+
+  return parsed as TransactionExportFile;
+}
+
+export interface CollectTransactionsOptions {
+  filters?: TransactionFilters;
+  pageSize?: number;
+  /** Pages fetched at most, bounding exports of very long histories */
+  maxPages?: number;
+}
+
+export interface CollectedTransactions {
+  transactions: CeloTransaction[];
+  /** More transactions matched than maxPages let through; only the newest are included */
+  truncated: boolean;
+}
+
+/**
+ * Fetch every page of history matching the filters, newest first
+ */
+export async function collectTransactions(
+  fetchPage: (options: Omit<TransactionQueryOptions, 'address' | 'chainId'>) => Promise<PaginatedTransactions>,
+  { filters, pageSize = 100, maxPages = 50 }: CollectTransactionsOptions = {}
+): Promise<CollectedTransactions> {
+  const transactions: CeloTransaction[] = [];
+  let cursor: string | undefined;
+
+  for (let page = 0; page < maxPages; page++) {
+    const result = await fetchPage({ limit: pageSize, cursor, filters });
+    transactions.push(...result.transactions);
+    if (!result.hasMore || !result.nextCursor) {
+      return { transactions, truncated: false };
+    }
+    cursor = result.nextCursor;
+  }
+  return { transactions, truncated: true };
+}
+
+/**
+ * File name for an export, e.g. `celo-transactions-42220-0x1234abcd-2024-01-31.csv`
+ */
+export function getExportFileName(address: string, chainId: number, extension: 'csv' | 'json', now = Date.now()): string {
+  const date = new Date(now).toISOString().split('T')[0];
+  return `celo-transactions-${chainId}-${address.slice(0, 10).toLowerCase()}-${date}.${extension}`;
+}
+
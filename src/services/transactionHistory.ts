@@ -0,0 +1,129 @@
+import type {
+  PaginatedTransactions,
+  TransactionError,
+  TransactionHistorySource,
+  TransactionQueryOptions
+} from '../types/transaction';
+import { createExplorerHistorySource } from './explorerHistorySource';
+import { createRpcHistorySource } from './rpcHistorySource';
+import type { TokenInfo } from '../types/token';
+
+export interface TransactionHistoryEngine {
+  sources: readonly TransactionHistorySource[];
+  fetchPage(options: TransactionQueryOptions): Promise<PaginatedTransactions>;
+}
+
+const CURSOR_SEPARATOR = ':';
+
+function encodeCursor(sourceId: string, cursor: string): string {
+  return `${sourceId}${CURSOR_SEPARATOR}${cursor}`;
+}
+
+function decodeCursor(cursor: string): { sourceId: string; cursor: string } | null {
+  const separatorIndex = cursor.indexOf(CURSOR_SEPARATOR);
+  if (separatorIndex <= 0) {
+    return null;
+  }
+  return {
+    sourceId: cursor.slice(0, separatorIndex),
+    cursor: cursor.slice(separatorIndex + 1)
+  };
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return 'Unknown error';
+}
+
+export interface DefaultHistorySourcesOptions {
+  /** ERC-20 tokens listed in history; Celo stable assets by default */
+  getTokens?: (chainId: number) => readonly TokenInfo[];
+}
+
+/**
+ * Default source order: the explorer API first since it sees every
+ * transaction, then the RPC log scanner which works against any node.
+ */
+export function createDefaultHistorySources({
+  getTokens
+}: DefaultHistorySourcesOptions = {}): TransactionHistorySource[] {
+  return [createExplorerHistorySource({ getTokens }), createRpcHistorySource({ getTokens })];
+}
+
+export interface TransactionHistoryEngineOptions {
+  /** Called when a source fails and the next one is tried */
+  onSourceError?: (sourceId: string, error: unknown) => void;
+}
+
+/**
+ * Create a history engine that pages through the first source able to serve
+ * the chain, falling back to the next one, in order, when a source fails.
+ *
+ * Cursors are prefixed with the id of the source that produced them, so
+ * follow-up pages always come from that same source.
+ */
+export function createTransactionHistoryEngine(
+  sources: readonly TransactionHistorySource[] = createDefaultHistorySources(),
+  { onSourceError }: TransactionHistoryEngineOptions = {}
+): TransactionHistoryEngine {
+  return {
+    sources,
+
+    async fetchPage(options: TransactionQueryOptions): Promise<PaginatedTransactions> {
+      let candidates = sources.filter((source) => source.supportsChain(options.chainId));
+      let sourceCursor: string | undefined;
+
+      if (options.cursor) {
+        const decoded = decodeCursor(options.cursor);
+        const source = decoded && candidates.find((candidate) => candidate.id === decoded.sourceId);
+        if (!decoded || !source) {
+          const error: TransactionError = {
+            message: `Invalid transaction history cursor: ${options.cursor}`,
+            code: 'INVALID_CURSOR'
+          };
+          throw error;
+        }
+        candidates = [source];
+        sourceCursor = decoded.cursor;
+      }
+
+      if (candidates.length === 0) {
+        const error: TransactionError = {
+          message: `No transaction history source supports chain ${options.chainId}`,
+          code: 'NO_SOURCE'
+        };
+        throw error;
+      }
+
+      const failures: Array<{ source: string; error: unknown }> = [];
+
+      for (const source of candidates) {
+        try {
+          const page = await source.fetchPage({ ...options, cursor: sourceCursor });
+          return {
+            ...page,
+            nextCursor: page.nextCursor ? encodeCursor(source.id, page.nextCursor) : undefined
+          };
+        } catch (error) {
+          onSourceError?.(source.id, error);
+          failures.push({ source: source.id, error });
+        }
+      }
+
+      const summary = failures
+        .map(({ source, error }) => `${source}: ${errorMessage(error)}`)
+        .join('; ');
+      const transactionError: TransactionError = {
+        message: `Failed to fetch transactions: ${summary}`,
+        code: 'FETCH_ERROR',
+        details: failures
+      };
+      throw transactionError;
+    }
+  };
+}
@@ -0,0 +1,209 @@
+import type { CeloTransaction } from '../types/transaction';
+
+/**
+ * Locally persisted history of one address on one chain.
+ *
+ * `transactions` is a contiguous, newest-first slice of the history: it covers
+ * everything from `lastSyncedBlock` down to the point where `backfillCursor`
+ * resumes. When `complete` is true the whole history is cached.
+ */
+export interface CachedTransactionHistory {
+  address: string;
+  chainId: number;
+  transactions: CeloTransaction[];
+  lastSyncedBlock: string;
+  backfillCursor?: string;
+  complete: boolean;
+  updatedAt: number;
+}
+
+export interface TransactionStore {
+  load(address: string, chainId: number): Promise<CachedTransactionHistory | null>;
+  save(history: CachedTransactionHistory): Promise<void>;
+  /** Remove cached history for an address, on one chain or on every chain */
+  clear(address: string, chainId?: number): Promise<void>;
+}
+
+const DB_NAME = 'celo-wallet';
+const DB_VERSION = 1;
+const STORE_NAME = 'transactionHistory';
+
+interface StoredRecord extends CachedTransactionHistory {
+  key: string;
+  account: string;
+}
+
+function storeKey(address: string, chainId: number): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Transaction store persisted in IndexedDB, one record per address and chain.
+ * A failed open is retried on the next call, unless a `fallback` store is
+ * given: then the fallback serves every call for the rest of the session.
+ */
+export function createIndexedDbTransactionStore(
+  factory: IDBFactory = indexedDB,
+  dbName: string = DB_NAME,
+  fallback?: TransactionStore
+): TransactionStore {
+  let database: Promise<IDBDatabase> | null = null;
+  let unavailable = false;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!database) {
+      const opening = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = factory.open(dbName, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          store.createIndex('account', 'account', { unique: false });
+        };
+        request.onsuccess = () => {
+          const db = request.result;
+          // Let another tab upgrade the database instead of blocking it
+          db.onversionchange = () => {
+            db.close();
+            if (database === opening) {
+              database = null;
+            }
+          };
+          resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+        // An older version is still open elsewhere; the upgrade would wait for it indefinitely
+        request.onblocked = () => reject(new Error(`Opening ${dbName} is blocked by another connection`));
+      });
+      opening.catch(() => {
+        if (database === opening) {
+          database = null;
+        }
+      });
+      database = opening;
+    }
+    return database;
+  };
+
+  const withDatabase = async <T>(
+    task: (db: IDBDatabase) => Promise<T>,
+    fallbackTask: (store: TransactionStore) => Promise<T>
+  ): Promise<T> => {
+    if (fallback && unavailable) {
+      return fallbackTask(fallback);
+    }
+    let db: IDBDatabase;
+    try {
+      db = await open();
+    } catch (error) {
+      if (!fallback) {
+        throw error;
+      }
+      unavailable = true;
+      return fallbackTask(fallback);
+    }
+    return task(db);
+  };
+
+  return {
+    load: (address, chainId) => withDatabase(async (db) => {
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      const record = await promisify<StoredRecord | undefined>(store.get(storeKey(address, chainId)));
+      if (!record) {
+        return null;
+      }
+      const { key: _key, account: _account, ...history } = record;
+      return history;
+    }, (store) => store.load(address, chainId)),
+
+    save: (history) => withDatabase(async (db) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const record: StoredRecord = {
+        ...history,
+        key: storeKey(history.address, history.chainId),
+        account: history.address.toLowerCase()
+      };
+      transaction.objectStore(STORE_NAME).put(record);
+      await transactionDone(transaction);
+    }, (store) => store.save(history)),
+
+    clear: (address, chainId) => withDatabase(async (db) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      if (chainId !== undefined) {
+        store.delete(storeKey(address, chainId));
+      } else {
+        // Delete inside the cursor callback so the transaction stays active
+        const request = store.index('account').openCursor(address.toLowerCase());
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            cursor.delete();
+            cursor.continue();
+          }
+        };
+      }
+      await transactionDone(transaction);
+    }, (store) => store.clear(address, chainId))
+  };
+}
+
+/**
+ * Non-persistent store, used where IndexedDB is unavailable and in tests
+ */
+export function createMemoryTransactionStore(): TransactionStore {
+  const records = new Map<string, CachedTransactionHistory>();
+
+  return {
+    async load(address, chainId) {
+      const history = records.get(storeKey(address, chainId));
+      return history ? structuredClone(history) : null;
+    },
+
+    async save(history) {
+      records.set(storeKey(history.address, history.chainId), structuredClone(history));
+    },
+
+    async clear(address, chainId) {
+      for (const [key, history] of records) {
+        const sameAccount = history.address.toLowerCase() === address.toLowerCase();
+        if (sameAccount && (chainId === undefined || history.chainId === chainId)) {
+          records.delete(key);
+        }
+      }
+    }
+  };
+}
+
+/**
+ * IndexedDB-backed store in the browser, in-memory store elsewhere (SSR, tests)
+ * and where the database cannot be opened (private browsing, denied quota)
+ */
+export function createDefaultTransactionStore(): TransactionStore {
+  return typeof indexedDB !== 'undefined'
+    ? createIndexedDbTransactionStore(indexedDB, DB_NAME, createMemoryTransactionStore())
+    : createMemoryTransactionStore();
+}
+
+let sharedStore: TransactionStore | null = null;
+
+/**
+ * Default store shared across hook instances so every component reads the same local history
+ */
+export function getSharedTransactionStore(): TransactionStore {
+  sharedStore ??= createDefaultTransactionStore();
+  return sharedStore;
+}
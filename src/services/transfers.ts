@@ -0,0 +1,137 @@
+import {
+  erc20Abi,
+  getAddress,
+  parseUnits,
+  type Address,
+  type Hash,
+  type PublicClient
+} from 'viem';
+import type { CeloTransaction } from '../types/transaction';
+import type { TokenInfo } from '../types/token';
+import type { TransferDraft, TransferError, TransferInput } from '../types/transfer';
+import { validateRecipient, validateTransferAmount } from '../utils/transactionHelpers';
+import { getGasPriceInFeeCurrency, toFeeTokenAmount } from './feeCurrencies';
+
+const NATIVE_DECIMALS = 18;
+
+/**
+ * Validate a transfer, check balances and estimate its network fee.
+ * Throws a TransferError naming the offending field when the input is invalid.
+ */
+export async function prepareTransfer(
+  client: PublicClient,
+  { chainId, from, recipient, amount, token, feeCurrency }: TransferInput
+): Promise<TransferDraft> {
+  const recipientError = validateRecipient(recipient);
+  if (recipientError) {
+    const error: TransferError = { message: recipientError, code: 'INVALID_RECIPIENT', field: 'recipient' };
+    throw error;
+  }
+  const decimals = token?.decimals ?? NATIVE_DECIMALS;
+  const amountError = validateTransferAmount(amount, decimals);
+  if (amountError) {
+    const error: TransferError = { message: amountError, code: 'INVALID_AMOUNT', field: 'amount' };
+    throw error;
+  }
+
+  const to = getAddress(recipient.trim());
+  const value = parseUnits(amount.trim(), decimals);
+  const feeToken = feeCurrency?.token;
+
+  const [balance, feeBalance, gasPrice] = await Promise.all([
+    readBalance(client, from, token),
+    readBalance(client, from, feeToken),
+    getGasPriceInFeeCurrency(client, feeCurrency)
+  ]);
+
+  if (value > balance) {
+    const error: TransferError = {
+      message: `Insufficient ${token?.symbol ?? 'CELO'} balance`,
+      code: 'INSUFFICIENT_FUNDS',
+      field: 'amount'
+    };
+    throw error;
+  }
+
+  let gas: bigint;
+  try {
+    // `feeCurrency` is not part of viem's generic request type; the Celo chain
+    // formatters pass it on to the node, which adds the fee currency's intrinsic gas
+    const feeCurrencyField: { feeCurrency?: Address } = feeCurrency ? { feeCurrency: feeCurrency.address } : {};
+    gas = token
+      ? await client.estimateContractGas({
+        address: token.address,
+        abi: erc20Abi,
+        functionName: 'transfer',
+        args: [to, value],
+        account: from,
+        ...feeCurrencyField
+      })
+      : await client.estimateGas({ account: from, to, value, ...feeCurrencyField });
+  } catch (cause) {
+    const error: TransferError = {
+      message: 'Failed to estimate the network fee',
+      code: 'ESTIMATION_FAILED',
+      details: cause
+    };
+    throw error;
+  }
+
+  const fee = gas * gasPrice;
+  const feeCost = feeCurrency ? toFeeTokenAmount(fee, feeCurrency) : fee;
+  // The fee comes out of the sent balance when both are the same asset
+  const sameAsset = token?.address.toLowerCase() === feeToken?.address.toLowerCase();
+  if (sameAsset ? value + feeCost > balance : feeCost > feeBalance) {
+    const error: TransferError = {
+      message: `Not enough ${feeToken?.symbol ?? 'CELO'} to cover the network fee`,
+      code: 'INSUFFICIENT_FUNDS',
+      field: 'amount'
+    };
+    throw error;
+  }
+
+  return { chainId, from, to, amount: amount.trim(), value, token, feeCurrency, gas, gasPrice, fee };
+}
+
+function readBalance(client: PublicClient, owner: Address, token?: TokenInfo): Promise<bigint> {
+  return token
+    ? client.readContract({ address: token.address, abi: erc20Abi, functionName: 'balanceOf', args: [owner] })
+    : client.getBalance({ address: owner });
+}
+
+/**
+ * History entry for a transfer that was just submitted, shown until it is mined
+ */
+export function createPendingTransfer(
+  draft: TransferDraft,
+  hash: Hash,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): CeloTransaction {
+  const entry: CeloTransaction = {
+    hash,
+    blockNumber: '0',
+    timestamp,
+    from: draft.from,
+    to: draft.to,
+    value: draft.value.toString(),
+    gasUsed: draft.gas.toString(),
+    gasPrice: draft.gasPrice.toString(),
+    status: 'pending',
+    type: 'sent',
+    confirmations: 0,
+    chainId: draft.chainId
+  };
+  if (draft.feeCurrency) {
+    entry.feeCurrency = draft.feeCurrency.address;
+  }
+
+  if (!draft.token) {
+    return entry;
+  }
+  return {
+    ...entry,
+    tokenAddress: draft.token.address,
+    tokenSymbol: draft.token.symbol,
+    tokenDecimals: draft.token.decimals
+  };
+}
@@ -0,0 +1,225 @@
+import { parseAbi, type Address, type PublicClient } from 'viem';
+import type {
+  ValidatorGroup,
+  ValidatorGroupFilters,
+  ValidatorGroupSnapshot,
+  ValidatorGroupSortKey
+} from '../types/validators';
+import { createViemClient } from '../utils/publicClient';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { getSharedCoreContractLookup, type CoreContractLookup } from './coreContracts';
+import { readCurrentEpoch } from './epochs';
+import { ACCOUNTS_ABI, ELECTION_ABI } from './staking';
+
+export const VALIDATORS_ABI = parseAbi([
+  'function getRegisteredValidatorGroups() view returns (address[])',
+  'function getValidatorGroup(address account) view returns (address[] members, uint256 commission, uint256 nextCommission, uint256 nextCommissionBlock, uint256[] sizeHistory, uint256 slashingMultiplier, uint256 lastSlashed)',
+  'function getValidator(address account) view returns (bytes ecdsaPublicKey, bytes blsPublicKey, address affiliation, uint256 score, address signer)'
+]);
+
+export const SCORE_MANAGER_ABI = parseAbi([
+  'function getGroupScore(address group) view returns (uint256)'
+]);
+
+// Fixidity fractions have 24 decimals; a millionth is precise enough to show
+const FIXED_TO_MILLIONTHS = BigInt(10) ** BigInt(18);
+
+function fromFixed(value: bigint): number {
+  return Number(value / FIXED_TO_MILLIONTHS) / 1e6;
+}
+
+export interface ValidatorGroupQueryOptions {
+  /** Maximum number of groups read at a time */
+  concurrency?: number;
+}
+
+/**
+ * Registered validator groups with their members, commission, score, votes
+ * and remaining capacity. Clients created with multicall batching read each
+ * group's contract calls in one request.
+ */
+export async function fetchValidatorGroups(
+  client: PublicClient,
+  chainId: number,
+  lookup: CoreContractLookup = getSharedCoreContractLookup(),
+  { concurrency = 4 }: ValidatorGroupQueryOptions = {}
+): Promise<ValidatorGroup[]> {
+  const [validators, election, accounts] = await Promise.all([
+    lookup(client, chainId, 'Validators'),
+    lookup(client, chainId, 'Election'),
+    lookup(client, chainId, 'Accounts')
+  ]);
+  // Scores moved to ScoreManager with Celo L2; before, a group scored the average of its members
+  const scoreManager = await lookup(client, chainId, 'ScoreManager').catch(() => undefined);
+
+  const [groups, [eligibleGroups]] = await Promise.all([
+    client.readContract({ address: validators, abi: VALIDATORS_ABI, functionName: 'getRegisteredValidatorGroups' }),
+    client.readContract({ address: election, abi: ELECTION_ABI, functionName: 'getTotalVotesForEligibleValidatorGroups' })
+  ]);
+  const eligible = new Set(eligibleGroups.map((group) => group.toLowerCase()));
+
+  const readScore = async (group: Address, members: readonly Address[]): Promise<number> => {
+    if (scoreManager) {
+      return fromFixed(await client.readContract({
+        address: scoreManager,
+        abi: SCORE_MANAGER_ABI,
+        functionName: 'getGroupScore',
+        args: [group]
+      }));
+    }
+    if (members.length === 0) {
+      return 0;
+    }
+    const scores = await Promise.all(members.map(async (member) => {
+      const [, , , score] = await client.readContract({
+        address: validators,
+        abi: VALIDATORS_ABI,
+        functionName: 'getValidator',
+        args: [member]
+      });
+      return fromFixed(score);
+    }));
+    return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  };
+
+  return mapWithConcurrency(groups, concurrency, async (address): Promise<ValidatorGroup> => {
+    const [[members, commission], name, votes, receivable] = await Promise.all([
+      client.readContract({ address: validators, abi: VALIDATORS_ABI, functionName: 'getValidatorGroup', args: [address] }),
+      client.readContract({ address: accounts, abi: ACCOUNTS_ABI, functionName: 'getName', args: [address] }),
+      client.readContract({ address: election, abi: ELECTION_ABI, functionName: 'getTotalVotesForGroup', args: [address] }),
+      client.readContract({ address: election, abi: ELECTION_ABI, functionName: 'getNumVotesReceivable', args: [address] })
+    ]);
+    return {
+      address,
+      name,
+      members: [...members],
+      commission: fromFixed(commission),
+      score: await readScore(address, members),
+      votes,
+      capacity: receivable > votes ? receivable - votes : BigInt(0),
+      eligible: eligible.has(address.toLowerCase())
+    };
+  });
+}
+
+export interface ValidatorGroupCache {
+  /** Groups as of the current epoch; read again once a new epoch starts */
+  get(chainId: number): Promise<ValidatorGroupSnapshot>;
+  clear(): void;
+}
+
+export interface ValidatorGroupCacheOptions {
+  /** Client per chain; defaults to one that batches reads through Multicall3 */
+  getClient?: (chainId: number) => PublicClient;
+  lookup?: CoreContractLookup;
+  now?: () => number;
+}
+
+/**
+ * Validator groups per chain, kept for the epoch they were read in. Group
+ * data only changes meaningfully at epoch boundaries, so each call costs one
+ * epoch number read until the next epoch.
+ */
+export function createValidatorGroupCache({
+  getClient = (chainId) => createViemClient(chainId, { multicall: true }),
+  lookup = getSharedCoreContractLookup(),
+  now = Date.now
+}: ValidatorGroupCacheOptions = {}): ValidatorGroupCache {
+  // Latest epoch read per chain; concurrent calls in one epoch share the read
+  const snapshots = new Map<number, { epoch: number; snapshot: Promise<ValidatorGroupSnapshot> }>();
+
+  return {
+    async get(chainId) {
+      const client = getClient(chainId);
+      const epoch = await readCurrentEpoch(client, chainId, lookup);
+      const cached = snapshots.get(chainId);
+      if (cached?.epoch === epoch) {
+        return cached.snapshot;
+      }
+
+      const snapshot = fetchValidatorGroups(client, chainId, lookup)
+        .then((groups) => ({ chainId, epoch, groups, fetchedAt: now() }));
+      const entry = { epoch, snapshot };
+      // Failed reads are retried on the next call
+      snapshot.catch(() => {
+        if (snapshots.get(chainId) === entry) {
+          snapshots.delete(chainId);
+        }
+      });
+      snapshots.set(chainId, entry);
+      return snapshot;
+    },
+
+    clear() {
+      snapshots.clear();
+    }
+  };
+}
+
+let sharedCache: ValidatorGroupCache | null = null;
+
+export function getSharedValidatorGroupCache(): ValidatorGroupCache {
+  sharedCache ??= createValidatorGroupCache();
+  return sharedCache;
+}
+
+/**
+ * Whether a group passes the search and filters
+ */
+export function matchesValidatorGroupFilters(group: ValidatorGroup, filters: ValidatorGroupFilters): boolean {
+  const query = filters.query?.trim().toLowerCase();
+  if (query && !group.name.toLowerCase().includes(query) && !group.address.toLowerCase().includes(query)) {
+    return false;
+  }
+  if (filters.hasCapacity && group.capacity <= BigInt(0)) {
+    return false;
+  }
+  if (filters.eligibleOnly && !group.eligible) {
+    return false;
+  }
+  if (filters.maxCommission !== undefined && group.commission > filters.maxCommission) {
+    return false;
+  }
+  if (filters.minScore !== undefined && group.score < filters.minScore) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Sort groups by a column; ties keep the most voted group first
+ */
+export function sortValidatorGroups(
+  groups: readonly ValidatorGroup[],
+  sortBy: ValidatorGroupSortKey = 'votes',
+  order: 'asc' | 'desc' = 'desc'
+): ValidatorGroup[] {
+  const compareBigInt = (a: bigint, b: bigint): number => (a === b ? 0 : a > b ? 1 : -1);
+
+  return [...groups].sort((a, b) => {
+    let comparison = 0;
+
+    switch (sortBy) {
+    case 'name':
+      comparison = (a.name || a.address).localeCompare(b.name || b.address);
+      break;
+    case 'votes':
+      comparison = compareBigInt(a.votes, b.votes);
+      break;
+    case 'capacity':
+      comparison = compareBigInt(a.capacity, b.capacity);
+      break;
+    case 'commission':
+      comparison = a.commission - b.commission;
+      break;
+    case 'score':
+      comparison = a.score - b.score;
+      break;
+    case 'members':
+      comparison = a.members.length - b.members.length;
+      break;
+    }
+
+    return (order === 'desc' ? -comparison : comparison) || compareBigInt(b.votes, a.votes);
+  });
+}
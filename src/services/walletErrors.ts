@@ -0,0 +1,166 @@
+import type { WalletError, WalletErrorCode, WalletErrorLocale } from '../types/walletError';
+import { DEFAULT_WALLET_ERROR_LOCALE, WALLET_ERROR_MESSAGES } from '../config/walletErrorMessages';
+import { isEndpointError, isRateLimitError } from './rpcTransport';
+import { isWalletConnectSessionExpired } from './walletSession';
+
+export interface WalletErrorOptions {
+  /** Language of the message; defaults to the one set with setWalletErrorLocale, then the browser's */
+  locale?: WalletErrorLocale;
+}
+
+// EIP-1193 and JSON-RPC error codes sent by wallets
+const USER_REJECTED_CODE = 4001;
+const UNAUTHORIZED_CODE = 4100;
+const UNSUPPORTED_METHOD_CODE = 4200;
+const DISCONNECTED_CODES = [4900, 4901];
+const UNRECOGNIZED_CHAIN_CODE = 4902;
+const RESOURCE_UNAVAILABLE_CODE = -32002;
+const METHOD_NOT_FOUND_CODES = [-32601, -32004];
+
+const PENDING_PATTERN = /already pending/i;
+const REJECTED_PATTERN = /user (rejected|denied|cancel+ed)|rejected by (the )?user/i;
+
+let appLocale: WalletErrorLocale | undefined;
+
+/**
+ * Language of every wallet error message; `undefined` goes back to the browser's
+ */
+export function setWalletErrorLocale(locale: WalletErrorLocale | undefined): void {
+  appLocale = locale;
+}
+
+export function getWalletErrorLocale(): WalletErrorLocale {
+  if (appLocale) {
+    return appLocale;
+  }
+  const language = typeof navigator === 'undefined' ? undefined : navigator.language?.slice(0, 2).toLowerCase();
+  return language && language in WALLET_ERROR_MESSAGES
+    ? language as WalletErrorLocale
+    : DEFAULT_WALLET_ERROR_LOCALE;
+}
+
+export function getWalletErrorMessage(code: WalletErrorCode, locale: WalletErrorLocale = getWalletErrorLocale()): string {
+  return WALLET_ERROR_MESSAGES[locale][code];
+}
+
+/**
+ * Whether a value is an error this app already described, as opposed to one
+ * thrown by a wallet, wagmi or viem
+ */
+export function isWalletError(error: unknown): error is WalletError<string> {
+  return !!error
+    && typeof error === 'object'
+    && !(error instanceof Error)
+    && typeof (error as { code?: unknown }).code === 'string'
+    && typeof (error as { message?: unknown }).message === 'string';
+}
+
+// The error and the errors it wraps, outermost first
+function causes(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  let current = error;
+  while (current && typeof current === 'object' && !chain.includes(current) && chain.length < 10) {
+    chain.push(current);
+    current = (current as { cause?: unknown }).cause;
+  }
+  return chain.length ? chain : [error];
+}
+
+function rpcCode(error: unknown): number | undefined {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'number' ? code : undefined;
+}
+
+function messageOf(error: unknown): string {
+  if (typeof error === 'string') {
+    return error;
+  }
+  const { shortMessage, message } = (error ?? {}) as { shortMessage?: unknown; message?: unknown };
+  return `${typeof shortMessage === 'string' ? shortMessage : ''} ${typeof message === 'string' ? message : ''}`;
+}
+
+function classify(error: unknown): WalletErrorCode {
+  const chain = causes(error);
+  const some = (predicate: (cause: unknown) => boolean): boolean => chain.some(predicate);
+  const hasCode = (...codes: number[]): boolean => some((cause) => codes.includes(rpcCode(cause) ?? NaN));
+  // viem and wagmi errors are matched by name rather than class, which also
+  // holds across duplicate package copies and module mocks
+  const hasName = (...names: string[]): boolean =>
+    some((cause) => names.includes(String((cause as { name?: unknown } | null)?.name)));
+
+  if (isWalletConnectSessionExpired(error)) {
+    return 'WALLETCONNECT_SESSION_EXPIRED';
+  }
+  if (hasCode(USER_REJECTED_CODE, UNAUTHORIZED_CODE) || some((cause) => REJECTED_PATTERN.test(messageOf(cause)))) {
+    return 'USER_REJECTED';
+  }
+  if (some((cause) => rpcCode(cause) === RESOURCE_UNAVAILABLE_CODE && PENDING_PATTERN.test(messageOf(cause)))) {
+    return 'REQUEST_PENDING';
+  }
+  if (hasName('ChainMismatchError', 'ConnectorChainMismatchError')) {
+    return 'CHAIN_MISMATCH';
+  }
+  if (hasCode(UNRECOGNIZED_CHAIN_CODE) || hasName('ChainNotConfiguredError', 'ChainNotFoundError')) {
+    return 'UNSUPPORTED_CHAIN';
+  }
+  if (hasName('SwitchChainNotSupportedError')) {
+    return 'SWITCH_CHAIN_NOT_SUPPORTED';
+  }
+  if (hasName('ConnectorNotFoundError', 'ProviderNotFoundError')) {
+    return 'CONNECTOR_NOT_FOUND';
+  }
+  if (hasCode(...DISCONNECTED_CODES) || hasName(
+    'ConnectorNotConnectedError',
+    'ConnectorAccountNotFoundError',
+    'ConnectorUnavailableReconnectingError'
+  )) {
+    return 'NOT_CONNECTED';
+  }
+  if (hasCode(UNSUPPORTED_METHOD_CODE, ...METHOD_NOT_FOUND_CODES)) {
+    return 'UNSUPPORTED_METHOD';
+  }
+  if (hasName('InsufficientFundsError')) {
+    return 'INSUFFICIENT_FUNDS';
+  }
+  if (hasName('ContractFunctionRevertedError', 'ExecutionRevertedError')) {
+    return 'EXECUTION_REVERTED';
+  }
+  if (isRateLimitError(error)) {
+    return 'RATE_LIMITED';
+  }
+  if (hasName('TimeoutError')) {
+    return 'TIMEOUT';
+  }
+  if (isEndpointError(error) || hasName('HttpRequestError')) {
+    return 'RPC_UNAVAILABLE';
+  }
+  return 'UNKNOWN';
+}
+
+/**
+ * Map anything a wallet, connector, wagmi or viem throws to a WalletError with
+ * a localized message. Errors the app already described pass through.
+ */
+export function normalizeWalletError(error: unknown, { locale }: WalletErrorOptions = {}): WalletError<string> {
+  if (isWalletError(error)) {
+    return error;
+  }
+  const code = classify(error);
+  return { message: getWalletErrorMessage(code, locale), code, details: error };
+}
+
+/**
+ * Like normalizeWalletError, but errors outside the taxonomy become `fallback`
+ * so callers keep their own code for failures nothing more is known about
+ */
+export function toWalletError<E extends WalletError<string>>(
+  error: unknown,
+  fallback: E,
+  options?: WalletErrorOptions
+): E {
+  if (isWalletError(error)) {
+    return error as E;
+  }
+  const normalized = normalizeWalletError(error, options);
+  return normalized.code === 'UNKNOWN' ? { ...fallback, details: error } : normalized as E;
+}
@@ -0,0 +1,106 @@
+import {
+  numberToHex,
+  type AddEthereumChainParameter,
+  type Chain,
+  type WalletClient,
+  type WatchAssetParams
+} from 'viem';
+import type { TokenInfo } from '../types/token';
+
+/**
+ * `wallet_addEthereumChain` parameters describing a registry chain
+ */
+export function toAddEthereumChainParameter(chain: Chain): AddEthereumChainParameter {
+  return {
+    chainId: numberToHex(chain.id),
+    chainName: chain.name,
+    nativeCurrency: chain.nativeCurrency,
+    rpcUrls: chain.rpcUrls.default.http,
+    blockExplorerUrls: chain.blockExplorers ? [chain.blockExplorers.default.url] : undefined
+  };
+}
+
+/**
+ * Ask the wallet to add a chain it does not know yet. Most wallets offer to
+ * switch to it right away.
+ */
+export async function addChainToWallet(walletClient: WalletClient, chain: Chain): Promise<void> {
+  await walletClient.request({
+    method: 'wallet_addEthereumChain',
+    params: [toAddEthereumChainParameter(chain)]
+  });
+}
+
+/**
+ * `wallet_watchAsset` parameters for an ERC-20 token
+ */
+export function toWatchAssetParameters(token: TokenInfo): WatchAssetParams {
+  return {
+    type: 'ERC20',
+    options: {
+      address: token.address,
+      // Wallets reject symbols longer than 11 characters
+      symbol: token.symbol.slice(0, 11),
+      decimals: token.decimals
+    }
+  };
+}
+
+/**
+ * Ask the wallet to track a token. Resolves to whether the user accepted.
+ */
+export async function watchAssetInWallet(walletClient: WalletClient, token: TokenInfo): Promise<boolean> {
+  return walletClient.watchAsset(toWatchAssetParameters(token));
+}
+
+/**
+ * What this device has seen of the chains each wallet knows. Wallets cannot
+ * be asked directly: a wallet knows a chain once it was on it or added it,
+ * and does not when switching to it failed with error 4902.
+ */
+export interface KnownChainsStore {
+  /** `undefined` when nothing is known yet */
+  isKnown(walletId: string, chainId: number): boolean | undefined;
+  setKnown(walletId: string, chainId: number, known: boolean): void;
+}
+
+const KNOWN_CHAINS_KEY = 'celo-wallet:known-chains';
+
+/**
+ * Known chains kept in Web Storage, or in memory without one
+ */
+export function createKnownChainsStore(storage?: Storage, key: string = KNOWN_CHAINS_KEY): KnownChainsStore {
+  let entries: Record<string, boolean> = {};
+  if (storage) {
+    try {
+      const parsed: unknown = JSON.parse(storage.getItem(key) ?? '{}');
+      if (parsed && typeof parsed === 'object') {
+        entries = parsed as Record<string, boolean>;
+      }
+    } catch {
+      // Start over when the stored value is unreadable
+    }
+  }
+  const entryKey = (walletId: string, chainId: number): string => `${walletId}:${chainId}`;
+
+  return {
+    isKnown(walletId, chainId) {
+      return entries[entryKey(walletId, chainId)];
+    },
+
+    setKnown(walletId, chainId, known) {
+      if (entries[entryKey(walletId, chainId)] === known) {
+        return;
+      }
+      entries = { ...entries, [entryKey(walletId, chainId)]: known };
+      storage?.setItem(key, JSON.stringify(entries));
+    }
+  };
+}
+
+let sharedKnownChains: KnownChainsStore | null = null;
+
+export function getSharedKnownChainsStore(): KnownChainsStore {
+  sharedKnownChains ??= createKnownChainsStore(typeof localStorage === 'undefined' ? undefined : localStorage);
+  return sharedKnownChains;
+}
@@ -0,0 +1,73 @@
+import type { Config } from 'wagmi';
+import { disconnect, getAccount } from 'wagmi/actions';
+
+/** Connector id of wagmi's WalletConnect connector */
+export const WALLETCONNECT_CONNECTOR_ID = 'walletConnect';
+
+// Keys WalletConnect keeps in localStorage (pairings, sessions, deep link choice)
+const WALLETCONNECT_STORAGE_PATTERN = /^(wc@2:|WALLETCONNECT_|wagmi\.walletConnect\.)/;
+
+const SESSION_EXPIRED_PATTERN =
+  /session (has )?expired|expired session|proposal expired|no matching key|session topic doesn't exist|missing or invalid\. record was recently deleted/i;
+
+function errorMessages(error: unknown): string[] {
+  const messages: string[] = [];
+  let current: unknown = error;
+  // Wallet SDK errors nest the useful message in `cause`
+  while (current && typeof current === 'object' && messages.length < 10) {
+    const { message, shortMessage, cause } = current as { message?: unknown; shortMessage?: unknown; cause?: unknown };
+    if (typeof shortMessage === 'string') {
+      messages.push(shortMessage);
+    }
+    if (typeof message === 'string') {
+      messages.push(message);
+    }
+    current = cause;
+  }
+  if (typeof error === 'string') {
+    messages.push(error);
+  }
+  return messages;
+}
+
+/**
+ * Whether a connection failed because the WalletConnect session or pairing
+ * it relies on expired or was removed on the wallet side
+ */
+export function isWalletConnectSessionExpired(error: unknown): boolean {
+  return errorMessages(error).some((message) => SESSION_EXPIRED_PATTERN.test(message));
+}
+
+/**
+ * Id of the connector used last on this device, which wagmi reconnects on load
+ */
+export async function getRecentConnectorId(config: Config): Promise<string | null> {
+  return (await config.storage?.getItem('recentConnectorId')) ?? null;
+}
+
+/**
+ * Disconnect and drop everything this device remembers about the wallet, so
+ * the next visit starts from the connector list without reconnecting. The
+ * stored data is dropped even when the wallet fails to disconnect, after
+ * which the disconnect error is thrown.
+ */
+export async function forgetWallet(
+  config: Config,
+  storage: Storage | undefined = typeof localStorage === 'undefined' ? undefined : localStorage
+): Promise<void> {
+  const { connector } = getAccount(config);
+  const disconnected = connector
+    ? await disconnect(config, { connector }).then(() => null, (error: unknown) => ({ error }))
+    : null;
+  await config.storage?.removeItem('recentConnectorId');
+
+  if (storage) {
+    const keys = Array.from({ length: storage.length }, (_, index) => storage.key(index))
+      .filter((key): key is string => key !== null && WALLETCONNECT_STORAGE_PATTERN.test(key));
+    keys.forEach((key) => storage.removeItem(key));
+  }
+
+  if (disconnected) {
+    throw disconnected.error;
+  }
+}
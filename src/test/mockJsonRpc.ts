@@ -0,0 +1,435 @@
+import {
+  createPublicClient,
+  custom,
+  decodeFunctionData,
+  encodeFunctionResult,
+  erc20Abi,
+  numberToHex,
+  pad,
+  toHex,
+  type Abi,
+  type Address,
+  type Chain,
+  type CustomTransport,
+  type Hash,
+  type Hex,
+  type PublicClient
+} from 'viem';
+
+export const TRANSFER_TOPIC =
+  '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+export interface MockTransfer {
+  /** Contract emitting the Transfer log; the transaction target by default */
+  token?: Address;
+  from: Address;
+  to: Address;
+  value: bigint;
+}
+
+export interface MockTransaction {
+  hash: Hash;
+  blockNumber: bigint;
+  from: Address;
+  to: Address | null;
+  value?: bigint;
+  input?: Hex;
+  gasPrice?: bigint;
+  gasUsed?: bigint;
+  status?: 'success' | 'reverted';
+  /** Leave the receipt out to simulate a transaction still in the mempool */
+  pending?: boolean;
+  /** Pay the fee in this currency, as a CIP-64 transaction */
+  feeCurrency?: Address;
+  transfers?: MockTransfer[];
+}
+
+export interface MockToken {
+  address: Address;
+  symbol: string;
+  name: string;
+  decimals: number;
+  balances?: Record<Address, bigint>;
+}
+
+/** Any other contract, answering reads through `read` */
+export interface MockContract {
+  address: Address;
+  abi: Abi;
+  /** `blockNumber` is the block the call reads state at; the head unless one was given */
+  read: (functionName: string, args: readonly unknown[], blockNumber: bigint) => unknown;
+}
+
+/** Any other event, e.g. built with `encodeEventTopics` */
+export interface MockLog {
+  address: Address;
+  topics: Hex[];
+  data: Hex;
+  blockNumber: bigint;
+  /** Transaction emitting the log, e.g. one of `transactions`; a fixture hash by default */
+  transactionHash?: Hash;
+}
+
+export interface MockChainOptions {
+  chainId?: number;
+  head: bigint;
+  transactions?: MockTransaction[];
+  /** ERC-20 contracts answering eth_call */
+  tokens?: MockToken[];
+  contracts?: MockContract[];
+  logs?: MockLog[];
+  /** Native balances returned by eth_getBalance */
+  balances?: Record<Address, bigint>;
+  gasPrice?: bigint;
+  /** Gas prices quoted by eth_gasPrice in a fee currency */
+  feeCurrencyGasPrices?: Record<Address, bigint>;
+  /** Seconds between blocks, used to derive block timestamps */
+  blockTime?: number;
+  genesisTimestamp?: number;
+}
+
+interface LogFilter {
+  address?: Address | Address[];
+  /** Block number or tag; `latest` and missing blocks mean the head */
+  fromBlock?: Hex | string;
+  toBlock?: Hex | string;
+  topics?: Array<Hex | Hex[] | null>;
+}
+
+interface RpcLog {
+  address: Address;
+  topics: Hex[];
+  data: Hex;
+  blockNumber: Hex;
+  blockHash: Hash;
+  transactionHash: Hash;
+  transactionIndex: Hex;
+  logIndex: Hex;
+  removed: boolean;
+}
+
+/**
+ * In-memory JSON-RPC node answering the handful of methods the kit uses.
+ * Records every call and the peak number of concurrent requests.
+ */
+export class MockJsonRpc {
+  readonly chainId: number;
+  head: bigint;
+  transactions: MockTransaction[];
+  tokens: MockToken[];
+  contracts: MockContract[];
+  extraLogs: MockLog[];
+  balances: Record<Address, bigint>;
+  gasPrice: bigint;
+  feeCurrencyGasPrices: Record<Address, bigint>;
+  readonly calls: Array<{ method: string; params: unknown[] }> = [];
+  inFlight = 0;
+  maxInFlight = 0;
+  private readonly blockTime: number;
+  private readonly genesisTimestamp: number;
+  private readonly failures = new Map<string, Error>();
+
+  constructor({
+    chainId = 42220,
+    head,
+    transactions = [],
+    tokens = [],
+    contracts = [],
+    logs = [],
+    balances = {},
+    gasPrice = BigInt(5000000000),
+    feeCurrencyGasPrices = {},
+    blockTime = 5,
+    genesisTimestamp = 1700000000
+  }: MockChainOptions) {
+    this.chainId = chainId;
+    this.head = head;
+    this.transactions = transactions;
+    this.tokens = tokens;
+    this.contracts = contracts;
+    this.extraLogs = logs;
+    this.balances = balances;
+    this.gasPrice = gasPrice;
+    this.feeCurrencyGasPrices = feeCurrencyGasPrices;
+    this.blockTime = blockTime;
+    this.genesisTimestamp = genesisTimestamp;
+  }
+
+  /** Make every call to `method` fail until cleared */
+  failMethod(method: string, error = new Error(`${method} unavailable`)): void {
+    this.failures.set(method, error);
+  }
+
+  clearFailures(): void {
+    this.failures.clear();
+  }
+
+  callsTo(method: string): Array<{ method: string; params: unknown[] }> {
+    return this.calls.filter((call) => call.method === method);
+  }
+
+  blockTimestamp(blockNumber: bigint): number {
+    return this.genesisTimestamp + Number(blockNumber) * this.blockTime;
+  }
+
+  /** Client backed by this node; pass a chain to apply its formatters (e.g. Celo `feeCurrency`) */
+  client(chain?: Chain): PublicClient {
+    return createPublicClient<CustomTransport, Chain | undefined>({
+      chain,
+      transport: custom({ request: (args) => this.request(args) }, { retryCount: 0 })
+    });
+  }
+
+  async request({ method, params = [] }: { method: string; params?: unknown }): Promise<unknown> {
+    const args = (params ?? []) as unknown[];
+    this.calls.push({ method, params: args });
+    this.inFlight++;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    try {
+      // Yield so concurrent callers actually overlap
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      const failure = this.failures.get(method);
+      if (failure) {
+        throw failure;
+      }
+      return this.handle(method, args);
+    } finally {
+      this.inFlight--;
+    }
+  }
+
+  private handle(method: string, params: unknown[]): unknown {
+    switch (method) {
+    case 'eth_chainId':
+      return numberToHex(this.chainId);
+    case 'eth_blockNumber':
+      return numberToHex(this.head);
+    case 'eth_getBlockByNumber': {
+      const tag = params[0] as string;
+      const number = tag === 'latest' ? this.head : BigInt(tag);
+      return number > this.head ? null : this.block(number);
+    }
+    case 'eth_getLogs':
+      return this.logs(params[0] as LogFilter);
+    case 'eth_call': {
+      const block = params[1] as string | undefined;
+      return this.call(params[0] as { to: Address; data: Hex }, block?.startsWith('0x') ? BigInt(block) : this.head);
+    }
+    case 'eth_getCode': {
+      // Contracts and tokens have code; any other address is an externally owned account
+      const address = (params[0] as Address).toLowerCase();
+      const deployed = [...this.contracts, ...this.tokens].some((contract) => contract.address.toLowerCase() === address);
+      return deployed ? '0x6080604052' : '0x';
+    }
+    case 'eth_getBalance':
+      return numberToHex(this.balanceOf(this.balances, params[0] as Address));
+    case 'eth_gasPrice': {
+      // Celo nodes quote the price in a fee currency when one is passed
+      const feeCurrency = params[0] as Address | undefined;
+      return numberToHex(feeCurrency ? this.balanceOf(this.feeCurrencyGasPrices, feeCurrency) : this.gasPrice);
+    }
+    case 'eth_estimateGas': {
+      const { data, feeCurrency } = params[0] as { data?: Hex; feeCurrency?: Address };
+      // Plain value transfer, or a token call; paying in a fee currency costs extra intrinsic gas
+      const gas = (!data || data === '0x' ? 21000 : 65000) + (feeCurrency ? 50000 : 0);
+      return numberToHex(gas);
+    }
+    case 'eth_getTransactionByHash': {
+      const tx = this.find(params[0] as Hash);
+      return tx ? this.rpcTransaction(tx) : null;
+    }
+    case 'eth_getTransactionReceipt': {
+      const tx = this.find(params[0] as Hash);
+      return tx && !tx.pending ? this.rpcReceipt(tx) : null;
+    }
+    default:
+      throw new Error(`MockJsonRpc: unsupported method ${method}`);
+    }
+  }
+
+  private call({ to, data }: { to: Address; data: Hex }, blockNumber: bigint): Hex {
+    const contract = this.contracts.find((candidate) => candidate.address.toLowerCase() === to.toLowerCase());
+    if (contract) {
+      const { functionName, args = [] } = decodeFunctionData({ abi: contract.abi, data });
+      return encodeFunctionResult({
+        abi: contract.abi,
+        functionName,
+        result: contract.read(functionName, args, blockNumber)
+      } as never);
+    }
+
+    const token = this.tokens.find((candidate) => candidate.address.toLowerCase() === to.toLowerCase());
+    if (!token) {
+      // No code at the address: calls return empty data
+      return '0x';
+    }
+
+    const { functionName, args } = decodeFunctionData({ abi: erc20Abi, data });
+    switch (functionName) {
+    case 'symbol':
+      return encodeFunctionResult({ abi: erc20Abi, functionName, result: token.symbol });
+    case 'name':
+      return encodeFunctionResult({ abi: erc20Abi, functionName, result: token.name });
+    case 'decimals':
+      return encodeFunctionResult({ abi: erc20Abi, functionName, result: token.decimals });
+    case 'balanceOf':
+      return encodeFunctionResult({
+        abi: erc20Abi,
+        functionName,
+        result: this.balanceOf(token.balances ?? {}, args[0] as Address)
+      });
+    default:
+      throw new Error(`MockJsonRpc: unsupported token call ${functionName}`);
+    }
+  }
+
+  private balanceOf(balances: Record<Address, bigint>, owner: Address): bigint {
+    const holder = owner.toLowerCase();
+    return Object.entries(balances).find(([address]) => address.toLowerCase() === holder)?.[1] ?? BigInt(0);
+  }
+
+  private find(hash: Hash): MockTransaction | undefined {
+    return this.transactions.find((tx) => tx.hash.toLowerCase() === hash.toLowerCase());
+  }
+
+  private blockHash(number: bigint): Hash {
+    return pad(numberToHex(number), { size: 32 });
+  }
+
+  private indexInBlock(tx: MockTransaction): number {
+    return this.transactions
+      .filter((other) => other.blockNumber === tx.blockNumber)
+      .indexOf(tx);
+  }
+
+  private block(number: bigint): Record<string, unknown> {
+    return {
+      number: numberToHex(number),
+      hash: this.blockHash(number),
+      parentHash: this.blockHash(number - BigInt(1)),
+      timestamp: numberToHex(this.blockTimestamp(number)),
+      nonce: '0x0000000000000000',
+      difficulty: '0x0',
+      gasLimit: '0x1c9c380',
+      gasUsed: '0x0',
+      miner: '0x0000000000000000000000000000000000000000',
+      extraData: '0x',
+      logsBloom: `0x${'0'.repeat(512)}`,
+      transactionsRoot: this.blockHash(BigInt(0)),
+      stateRoot: this.blockHash(BigInt(0)),
+      receiptsRoot: this.blockHash(BigInt(0)),
+      sha3Uncles: this.blockHash(BigInt(0)),
+      size: '0x0',
+      totalDifficulty: '0x0',
+      uncles: [],
+      transactions: this.transactions
+        .filter((tx) => tx.blockNumber === number)
+        .map((tx) => tx.hash)
+    };
+  }
+
+  private rpcTransaction(tx: MockTransaction): Record<string, unknown> {
+    return {
+      hash: tx.hash,
+      blockNumber: tx.pending ? null : numberToHex(tx.blockNumber),
+      blockHash: tx.pending ? null : this.blockHash(tx.blockNumber),
+      transactionIndex: tx.pending ? null : numberToHex(this.indexInBlock(tx)),
+      from: tx.from,
+      to: tx.to,
+      value: numberToHex(tx.value ?? BigInt(0)),
+      input: tx.input ?? '0x',
+      nonce: '0x0',
+      gas: numberToHex(21000),
+      gasPrice: numberToHex(tx.gasPrice ?? BigInt(5000000000)),
+      type: tx.feeCurrency ? '0x7b' : '0x0',
+      ...(tx.feeCurrency ? { feeCurrency: tx.feeCurrency } : {}),
+      chainId: numberToHex(this.chainId),
+      v: '0x1b',
+      r: '0x1',
+      s: '0x1'
+    };
+  }
+
+  private rpcLogs(tx: MockTransaction): RpcLog[] {
+    return (tx.transfers ?? []).map((transfer, index) => ({
+      address: transfer.token ?? tx.to ?? '0x0000000000000000000000000000000000000000',
+      topics: [
+        TRANSFER_TOPIC,
+        pad(transfer.from.toLowerCase() as Hex, { size: 32 }),
+        pad(transfer.to.toLowerCase() as Hex, { size: 32 })
+      ],
+      data: pad(toHex(transfer.value), { size: 32 }),
+      blockNumber: numberToHex(tx.blockNumber),
+      blockHash: this.blockHash(tx.blockNumber),
+      transactionHash: tx.hash,
+      transactionIndex: numberToHex(this.indexInBlock(tx)),
+      logIndex: numberToHex(index),
+      removed: false
+    }));
+  }
+
+  private rpcReceipt(tx: MockTransaction): Record<string, unknown> {
+    return {
+      transactionHash: tx.hash,
+      transactionIndex: numberToHex(this.indexInBlock(tx)),
+      blockNumber: numberToHex(tx.blockNumber),
+      blockHash: this.blockHash(tx.blockNumber),
+      from: tx.from,
+      to: tx.to,
+      contractAddress: null,
+      cumulativeGasUsed: numberToHex(tx.gasUsed ?? BigInt(21000)),
+      gasUsed: numberToHex(tx.gasUsed ?? BigInt(21000)),
+      effectiveGasPrice: numberToHex(tx.gasPrice ?? BigInt(5000000000)),
+      logs: this.rpcLogs(tx),
+      logsBloom: `0x${'0'.repeat(512)}`,
+      status: tx.status === 'reverted' ? '0x0' : '0x1',
+      type: '0x0'
+    };
+  }
+
+  private logs({ address, fromBlock, toBlock, topics = [] }: LogFilter): RpcLog[] {
+    const block = (tag?: string): bigint => {
+      if (tag?.startsWith('0x')) {
+        return BigInt(tag);
+      }
+      return tag === 'earliest' ? BigInt(0) : this.head;
+    };
+    const from = block(fromBlock);
+    const to = block(toBlock);
+    const contracts = (Array.isArray(address) ? address : address ? [address] : [])
+      .map((contract) => contract.toLowerCase());
+    const matchesTopic = (log: RpcLog, position: number): boolean => {
+      const wanted = topics[position];
+      if (wanted === null || wanted === undefined) {
+        return true;
+      }
+      const options = Array.isArray(wanted) ? wanted : [wanted];
+      return options.some((topic) => topic.toLowerCase() === log.topics[position]?.toLowerCase());
+    };
+
+    const extraLogs = this.extraLogs.map((log, index): RpcLog => ({
+      address: log.address,
+      topics: log.topics,
+      data: log.data,
+      blockNumber: numberToHex(log.blockNumber),
+      blockHash: this.blockHash(log.blockNumber),
+      transactionHash: log.transactionHash ?? fixtureHash(1000000 + index),
+      transactionIndex: '0x0',
+      logIndex: numberToHex(index),
+      removed: false
+    }));
+
+    return this.transactions
+      .filter((tx) => !tx.pending)
+      .flatMap((tx) => this.rpcLogs(tx))
+      .concat(extraLogs)
+      .filter((log) => BigInt(log.blockNumber) >= from && BigInt(log.blockNumber) <= to)
+      .filter((log) => contracts.length === 0 || contracts.includes(log.address.toLowerCase()))
+      .filter((log) => topics.every((_, position) => matchesTopic(log, position)));
+  }
+}
+
+/** Deterministic 32-byte hash for fixtures */
+export function fixtureHash(n: number): Hash {
+  return pad(numberToHex(n), { size: 32 });
+}
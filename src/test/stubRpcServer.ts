@@ -0,0 +1,66 @@
+import { MockJsonRpc } from './mockJsonRpc';
+
+interface JsonRpcRequest {
+  id: number;
+  method: string;
+  params?: unknown[];
+}
+
+/**
+ * Stand-in for a remote JSON-RPC server, answering HTTP requests routed to it
+ * by `stubFetch` from the node in `rpc`. Flip `down`, `status` or `delay` to
+ * simulate outages, rate limits and slow endpoints.
+ */
+export class StubRpcServer {
+  requests = 0;
+  /** Refuse connections, like a server that is offline */
+  down = false;
+  /** HTTP status of every response; non-2xx statuses carry no JSON-RPC body */
+  status = 200;
+  /** Milliseconds before responding */
+  delay = 0;
+
+  readonly url: string;
+  readonly rpc: MockJsonRpc;
+
+  constructor(url: string, rpc: MockJsonRpc = new MockJsonRpc({ head: BigInt(100) })) {
+    this.url = url;
+    this.rpc = rpc;
+  }
+
+  async respond(body: string): Promise<Response> {
+    this.requests++;
+    if (this.delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.delay));
+    }
+    if (this.down) {
+      throw new TypeError('fetch failed');
+    }
+    if (this.status < 200 || this.status >= 300) {
+      return new Response('Too Many Requests', { status: this.status });
+    }
+
+    const { id, method, params } = JSON.parse(body) as JsonRpcRequest;
+    try {
+      const result = await this.rpc.request({ method, params });
+      return Response.json({ jsonrpc: '2.0', id, result });
+    } catch (error) {
+      const { code = -32603, message } = error as { code?: number; message: string };
+      return Response.json({ jsonrpc: '2.0', id, error: { code, message } });
+    }
+  }
+}
+
+/**
+ * `fetch` replacement routing requests to stub servers by URL
+ */
+export function stubFetch(servers: StubRpcServer[]): typeof fetch {
+  return async (input, init) => {
+    const url = input instanceof Request ? input.url : input.toString();
+    const server = servers.find((candidate) => candidate.url === url);
+    if (!server) {
+      throw new TypeError(`fetch failed: no stub server at ${url}`);
+    }
+    return server.respond(String(init?.body ?? ''));
+  };
+}
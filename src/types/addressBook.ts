@@ -0,0 +1,30 @@
+import type { Address } from 'viem';
+import type { WalletError } from './walletError';
+
+/**
+ * A saved address on one chain
+ */
+export interface AddressBookEntry {
+  chainId: number;
+  address: Address;
+  /** Shown instead of the address wherever it appears */
+  label: string;
+  note?: string;
+  /** Lowercase, without duplicates */
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * What the user enters to save or update an entry
+ */
+export interface AddressBookInput {
+  chainId: number;
+  address: string;
+  label: string;
+  note?: string;
+  tags?: readonly string[];
+}
+
+export type AddressBookError = WalletError<'INVALID_ADDRESS' | 'INVALID_LABEL'>;
@@ -0,0 +1,121 @@
+import type { CeloTransaction } from './transaction';
+import type { EpochReward } from './staking';
+
+export type AnalyticsPeriod = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Amounts of one asset moved in and out of the account, in its smallest unit
+ */
+export interface AssetFlow {
+  /** 'native' for CELO, or the lowercased token contract */
+  asset: string;
+  symbol: string;
+  decimals: number;
+  sent: bigint;
+  received: bigint;
+  /** `received - sent` */
+  net: bigint;
+  /** Transfers counted */
+  count: number;
+}
+
+/**
+ * Flow of one asset between the account and another address
+ */
+export interface CounterpartyFlow extends AssetFlow {
+  counterparty: string;
+}
+
+/**
+ * Fees paid in one currency, counted once per transaction
+ */
+export interface FeeTotal {
+  /** CIP-64 fee currency; absent for CELO */
+  feeCurrency?: string;
+  total: bigint;
+  /** Transactions the fees were paid for */
+  count: number;
+}
+
+/**
+ * Staking rewards earned, in CELO wei. Kept apart from transfers: rewards
+ * are added to active votes at epoch boundaries, not sent in transactions.
+ */
+export interface RewardsIncome {
+  total: bigint;
+  /** Epochs with rewards */
+  epochs: number;
+}
+
+export interface TransactionSummary {
+  totalTransactions: number;
+  byAsset: AssetFlow[];
+  fees: FeeTotal[];
+  totalGasUsed: bigint;
+  /** Rounded down */
+  averageGasUsed: bigint;
+  uniqueAddresses: number;
+  lastTransaction: CeloTransaction | null;
+  /** Present when rewards were passed in */
+  rewards?: RewardsIncome;
+}
+
+/**
+ * Transactions of one calendar day, week (from Monday) or month, in UTC
+ */
+export interface TransactionBucket {
+  /** Unix seconds, inclusive */
+  start: number;
+  /** Unix seconds, exclusive */
+  end: number;
+  /** YYYY-MM-DD, or YYYY-MM for months */
+  label: string;
+  count: number;
+  byAsset: AssetFlow[];
+  fees: FeeTotal[];
+  /** Present when rewards were passed in */
+  rewards?: RewardsIncome;
+}
+
+export interface AnalyticsOptions {
+  /**
+   * Account the history belongs to. Directions are then read from the addresses,
+   * which also covers contract calls; otherwise from each transaction's `type`.
+   */
+  account?: string;
+}
+
+export interface RewardsOptions {
+  /** Epoch rewards of the account, e.g. from `fetchEpochRewards`, reported separately from transfers */
+  rewards?: readonly EpochReward[];
+}
+
+/**
+ * Average-cost basis and profit and loss of one asset, in a fiat currency
+ */
+export interface AssetCostBasis {
+  asset: string;
+  symbol: string;
+  decimals: number;
+  /** Amount still held from the analyzed history, in the smallest unit */
+  holdings: bigint;
+  /** Fiat cost of `holdings` */
+  costBasis: number;
+  /** Fiat cost per whole unit held */
+  averageCost: number;
+  /** Gains and losses of amounts sent, against their average cost */
+  realizedPnl: number;
+  /** Value of `holdings` at the current price, when one is known */
+  currentValue?: number;
+  /** `currentValue - costBasis`, when a current price is known */
+  unrealizedPnl?: number;
+  /** Transfers without a historical price; received ones count at zero cost */
+  unpricedCount: number;
+}
+
+export interface CostBasisOptions extends AnalyticsOptions {
+  /** Unit price of the moved asset when the transaction happened */
+  getHistoricalPrice(tx: CeloTransaction): number | undefined;
+  /** Current unit price of an asset, by `AssetFlow.asset` key */
+  getCurrentPrice?(asset: string): number | undefined;
+}
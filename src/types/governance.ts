@@ -0,0 +1,86 @@
+import type { Address, Hash, Hex } from 'viem';
+import type { WalletError } from './walletError';
+
+/**
+ * Where a proposal stands. Queued proposals wait for upvotes; dequeued ones
+ * go through approval, a referendum and execution. Executed proposals are
+ * removed from the Governance contract and only known from its events.
+ */
+export type ProposalStage = 'Queued' | 'Approval' | 'Referendum' | 'Execution' | 'Executed';
+
+export type ProposalVoteValue = 'yes' | 'no' | 'abstain';
+
+/**
+ * A call a proposal makes once executed
+ */
+export interface ProposalTransaction {
+  destination: Address;
+  value: bigint;
+  data: Hex;
+  /** Core contract called, when the destination is one */
+  contract?: string;
+  /** Decoded call, when the ABI of the destination is known */
+  functionName?: string;
+  args?: readonly unknown[];
+}
+
+export interface ProposalVoteTotals {
+  yes: bigint;
+  no: bigint;
+  abstain: bigint;
+}
+
+export interface Proposal {
+  id: bigint;
+  stage: ProposalStage;
+  proposer: Address;
+  deposit: bigint;
+  /** When it was proposed, in seconds */
+  timestamp: number;
+  descriptionUrl: string;
+  transactionCount: number;
+  /** Empty for executed proposals whose proposing transaction cannot be decoded */
+  transactions: ProposalTransaction[];
+  /** Locked CELO upvoting it while queued */
+  upvotes: bigint;
+  votes: ProposalVoteTotals;
+  /** Position among dequeued proposals, which `vote` takes */
+  index?: number;
+  /** Block it was executed in */
+  executedBlock?: bigint;
+}
+
+/**
+ * An account's weight and votes in governance
+ */
+export interface GovernanceAccount {
+  account: Address;
+  /** Total locked CELO, which every upvote and vote of the account weighs */
+  weight: bigint;
+  /** Queued proposal it upvotes, if any */
+  upvoted?: bigint;
+  /** Its vote per dequeued proposal id */
+  votes: Record<string, ProposalVoteValue>;
+}
+
+export type GovernanceAction =
+  /** Upvoting moves the account's upvote off any other queued proposal first */
+  | { type: 'upvote'; proposalId: bigint }
+  | { type: 'vote'; proposalId: bigint; value: ProposalVoteValue };
+
+export type GovernanceStatus = 'idle' | 'preparing' | 'submitting' | 'pending' | 'confirmed' | 'failed';
+
+export interface GovernanceState {
+  status: GovernanceStatus;
+  action?: GovernanceAction;
+  /** Transactions sent for the action, in order */
+  hashes: Hash[];
+}
+
+export type GovernanceError = WalletError<
+  | 'NO_VOTING_WEIGHT'
+  | 'INVALID_PROPOSAL'
+  | 'ALREADY_UPVOTED'
+  | 'SEND_FAILED'
+  | 'RECEIPT_ERROR'
+>;
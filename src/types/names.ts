@@ -0,0 +1,39 @@
+import type { Address } from 'viem';
+import type { WalletError } from './walletError';
+
+/**
+ * Kinds of names users can enter instead of an address: ENS-style names such
+ * as `alice.celo`, and SocialConnect phone numbers and Twitter handles
+ */
+export type NameKind = 'name' | 'phone' | 'twitter';
+
+/**
+ * A name as entered, normalized: names per ENSIP-15, phone numbers in E.164,
+ * Twitter handles lowercase without the `@`
+ */
+export interface NameQuery {
+  kind: NameKind;
+  value: string;
+}
+
+/**
+ * One way of turning names into addresses
+ */
+export interface NameResolver {
+  id: string;
+  supports(query: NameQuery): boolean;
+  /** Address the name points to on a chain, `undefined` when it has none */
+  resolve(query: NameQuery, chainId: number): Promise<Address | undefined>;
+  /** Name to show for an address; omitted by resolvers without reverse records */
+  reverse?(address: Address, chainId: number): Promise<string | undefined>;
+}
+
+export interface ResolvedName {
+  /** The name as entered */
+  name: string;
+  address: Address;
+  /** Id of the resolver that found it */
+  resolver: string;
+}
+
+export type NameError = WalletError<'INVALID_NAME' | 'NAME_NOT_FOUND'>;
@@ -0,0 +1,25 @@
+import type { WalletError } from './walletError';
+
+/**
+ * An asset to price: a chain's native CELO, or an ERC-20 token
+ */
+export interface PricedAsset {
+  chainId: number;
+  /** Token contract; absent for native CELO */
+  address?: string;
+  symbol: string;
+}
+
+/**
+ * A source of fiat prices. Prices are per whole unit of the asset, in `currency`
+ * (an ISO 4217 code such as 'USD').
+ */
+export interface PriceProvider {
+  id: string;
+  /** Current prices keyed by `getPriceKey`; assets without a price are left out */
+  getPrices(assets: readonly PricedAsset[], currency: string): Promise<Record<string, number>>;
+  /** Price at a past instant in unix seconds, or `undefined` when unknown */
+  getHistoricalPrice(asset: PricedAsset, currency: string, timestamp: number): Promise<number | undefined>;
+}
+
+export type PriceError = WalletError<'PRICE_UNAVAILABLE'>;
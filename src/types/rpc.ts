@@ -0,0 +1,32 @@
+/**
+ * - `unknown`: not used yet
+ * - `healthy`: answered its last request
+ * - `down`: its last request failed (network error, timeout, 5xx)
+ * - `rate-limited`: told us to back off; tried last until the cooldown ends
+ */
+export type RpcEndpointStatus = 'unknown' | 'healthy' | 'down' | 'rate-limited';
+
+export interface RpcEndpointHealth {
+  url: string;
+  status: RpcEndpointStatus;
+  /** Smoothed response time in milliseconds */
+  latency?: number;
+  /** Failed requests since the last success */
+  failures: number;
+  lastError?: string;
+  /** Time of the last request, in milliseconds since the epoch */
+  checkedAt?: number;
+  rateLimitedUntil?: number;
+}
+
+/**
+ * Endpoints of one chain in the order requests try them
+ */
+export interface RpcChainHealth {
+  chainId: number;
+  endpoints: RpcEndpointHealth[];
+  /** Endpoint requests currently go to first */
+  activeUrl?: string;
+  /** `degraded` when some endpoints fail but one still answers, `down` when none does */
+  status: 'unknown' | 'healthy' | 'degraded' | 'down';
+}
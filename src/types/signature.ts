@@ -0,0 +1,46 @@
+import type { Address, Hex } from 'viem';
+import type { WalletError } from './walletError';
+
+export type SignatureKind = 'message' | 'typedData';
+
+/**
+ * How a signature was checked: ECDSA recovery for externally owned accounts,
+ * `isValidSignature` for deployed contract wallets, the ERC-6492 universal
+ * validator for contract wallets that are not deployed yet
+ */
+export type SignatureMethod = 'eoa' | 'erc1271' | 'erc6492';
+
+export interface SignatureVerification {
+  valid: boolean;
+  method: SignatureMethod;
+  /** Milliseconds since the epoch */
+  verifiedAt: number;
+}
+
+/**
+ * A message or EIP-712 typed data signed with the connected wallet
+ */
+export interface SignedPayload {
+  kind: SignatureKind;
+  address: Address;
+  chainId: number;
+  /** The message text, or the typed data as JSON */
+  payload: string;
+  signature: Hex;
+  /** Milliseconds since the epoch */
+  signedAt: number;
+  verification?: SignatureVerification;
+}
+
+export type SignatureError = WalletError<
+  | 'EMPTY_MESSAGE'
+  | 'INVALID_TYPED_DATA'
+  | 'SIGN_FAILED'
+  | 'VERIFICATION_FAILED'
+  | 'NO_CLIENT'
+  | 'SIWE_NOT_CONFIGURED'
+  | 'SIWE_MISSING_DOMAIN'
+  | 'SIWE_REJECTED'
+  | 'SIWE_FAILED'
+  | 'SIWE_SIGN_OUT_FAILED'
+>;
@@ -0,0 +1,34 @@
+import type { Address, Hex } from 'viem';
+
+/**
+ * Where the Sign-In With Ethereum session of the connected account stands
+ */
+export type SiweStatus = 'signed-out' | 'signing-in' | 'signed-in' | 'expired';
+
+/**
+ * Why the last session ended. Sessions are bound to one account and chain,
+ * so switching either signs out.
+ */
+export type SiweSignOutReason = 'user' | 'account-changed' | 'chain-changed' | 'disconnected';
+
+/**
+ * An accepted EIP-4361 sign-in
+ */
+export interface SiweSession {
+  address: Address;
+  chainId: number;
+  /** The signed EIP-4361 message */
+  message: string;
+  signature: Hex;
+  nonce: string;
+  /** Milliseconds since the epoch */
+  issuedAt: number;
+  /** Milliseconds since the epoch; sessions without one do not expire */
+  expiresAt?: number;
+}
+
+export interface SiweSessionState {
+  status: SiweStatus;
+  session: SiweSession | null;
+  signOutReason?: SiweSignOutReason;
+}
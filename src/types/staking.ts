@@ -0,0 +1,117 @@
+import type { Address, Hash } from 'viem';
+import type { WalletError } from './walletError';
+
+/**
+ * CELO unlocked from LockedGold, waiting out the unlocking period
+ */
+export interface PendingWithdrawal {
+  /** Position in LockedGold's list, which withdrawing and relocking reorder */
+  index: number;
+  value: bigint;
+  /** Unix time (seconds) from which it can be withdrawn */
+  availableAt: number;
+}
+
+/**
+ * Votes of an account for one validator group
+ */
+export interface GroupVote {
+  group: Address;
+  /** Cast in the current epoch, earning nothing until activated */
+  pending: bigint;
+  /** Earning rewards; grows as epoch rewards are distributed */
+  active: bigint;
+  /** Whether pending votes from an earlier epoch can be activated */
+  canActivate: boolean;
+}
+
+/**
+ * Locked CELO of an account, from the LockedGold and Election contracts
+ */
+export interface StakingSummary {
+  account: Address;
+  /** Whether the account is registered in Accounts, which locking requires */
+  isAccount: boolean;
+  /** All locked CELO, voting or not */
+  total: bigint;
+  /** Locked CELO free to vote or unlock */
+  nonvoting: bigint;
+  /** Locked CELO cast as votes, pending or active */
+  voting: bigint;
+  pendingWithdrawals: PendingWithdrawal[];
+  votes: GroupVote[];
+  /** Seconds between unlocking and withdrawing */
+  unlockingPeriod: number;
+}
+
+/**
+ * Rewards earned by the active votes for one group: what they are worth now
+ * minus what was activated into them, net of revocations
+ */
+export interface GroupRewards {
+  group: Address;
+  activated: bigint;
+  active: bigint;
+  rewards: bigint;
+}
+
+/**
+ * CELO the active votes of an account for one group earned in one epoch.
+ * Rewards are added to active votes at the epoch boundary, so they never
+ * show up as transfers.
+ */
+export interface EpochReward {
+  epoch: number;
+  group: Address;
+  value: bigint;
+  /** Block the rewards were distributed in */
+  blockNumber: bigint;
+  /** Of that block, in seconds */
+  timestamp: number;
+}
+
+/**
+ * Rewards of one epoch across groups
+ */
+export interface EpochIncome {
+  epoch: number;
+  blockNumber: bigint;
+  timestamp: number;
+  total: bigint;
+  byGroup: Array<{ group: Address; value: bigint }>;
+}
+
+/**
+ * Something to do with locked CELO; amounts are entered in whole CELO
+ */
+export type StakingAction =
+  | { type: 'lock'; amount: string }
+  | { type: 'unlock'; amount: string }
+  | { type: 'withdraw'; index: number }
+  | { type: 'relock'; index: number }
+  | { type: 'vote'; group: string; amount: string }
+  | { type: 'activate'; group: string }
+  /** Pending votes are revoked first, then active ones */
+  | { type: 'revoke'; group: string; amount: string };
+
+export type StakingStatus = 'idle' | 'preparing' | 'submitting' | 'pending' | 'confirmed' | 'failed';
+
+export interface StakingState {
+  status: StakingStatus;
+  action?: StakingAction;
+  /** Transactions sent for the action, in order; locking may first register the account */
+  hashes: Hash[];
+}
+
+export interface StakingError
+  extends WalletError<
+    | 'INVALID_AMOUNT'
+    | 'INVALID_GROUP'
+    | 'NOT_WITHDRAWABLE'
+    | 'NOTHING_TO_ACTIVATE'
+    | 'SEND_FAILED'
+    | 'RECEIPT_ERROR'
+  > {
+  /** Form field the error relates to, if any */
+  field?: 'amount' | 'group';
+}
@@ -0,0 +1,36 @@
+import type { Address } from 'viem';
+import type { WalletError } from './walletError';
+
+export interface TokenInfo {
+  chainId: number;
+  address: Address;
+  symbol: string;
+  name: string;
+  decimals: number;
+}
+
+export interface TokenBalance {
+  token: TokenInfo;
+  /** Raw balance in the token's smallest unit */
+  value: bigint;
+  /** Balance formatted with the token's decimals */
+  formatted: string;
+  /** Balance in the configured fiat currency, when a price is known */
+  fiatValue?: number;
+  /** Added by the user rather than part of the chain's token registry */
+  isCustom: boolean;
+}
+
+/**
+ * A currency transaction fees can be paid in through CIP-64 `feeCurrency`
+ */
+export interface FeeCurrency {
+  /** Value for the `feeCurrency` transaction field; an adapter for tokens below 18 decimals */
+  address: Address;
+  /** Token the fee is charged in */
+  token: TokenInfo;
+  /** Decimals of fee amounts quoted in this currency; adapters quote in 18 decimals */
+  decimals: number;
+}
+
+export type TokenError = WalletError<'INVALID_ADDRESS' | 'TOKEN_LOOKUP_FAILED' | 'DUPLICATE_TOKEN' | 'NO_CLIENT'>;
@@ -1,3 +1,5 @@
+import type { WalletError } from './walletError';
+
 // Transaction types for Celo wallet
 export interface CeloTransaction {
   hash: string;
@@ -12,15 +14,27 @@ export interface CeloTransaction {
   type: 'sent' | 'received' | 'contract';
   confirmations: number;
   chainId: number;
+  /** ERC-20 contract for token transfers; absent for native CELO */
+  tokenAddress?: string;
+  tokenSymbol?: string;
+  tokenDecimals?: number;
+  /** Log index of the Transfer event, distinguishing several transfers in one transaction */
+  logIndex?: number;
+  /** CIP-64 fee currency the fee was paid in; absent when paid in CELO */
+  feeCurrency?: string;
 }
 
 export interface TransactionFilters {
   type?: 'all' | 'sent' | 'received' | 'contract';
   status?: 'all' | 'success' | 'failure' | 'pending';
+  /** 'native' for CELO, or an ERC-20 contract address */
+  token?: 'all' | 'native' | string;
   dateRange?: {
     start: number;
     end: number;
   };
+  /** Only transactions from or to one of these addresses */
+  counterparties?: readonly string[];
 }
 
 export interface PaginatedTransactions {
@@ -30,16 +44,59 @@ export interface PaginatedTransactions {
   nextCursor?: string;
 }
 
-export interface TransactionError {
-  message: string;
-  code?: string;
-  details?: unknown;
-}
+export type TransactionError = WalletError<'FETCH_ERROR' | 'INVALID_CURSOR' | 'NO_SOURCE' | 'NO_ADDRESS'>;
 
 export type TransactionQueryOptions = {
   address: string;
   chainId: number;
   limit?: number;
   cursor?: string;
+  /** Oldest block (inclusive) to include, used for incremental sync */
+  fromBlock?: string;
+  filters?: TransactionFilters;
+};
+
+/**
+ * A backend able to produce one page of transaction history.
+ * Sources return their own opaque cursor; the history engine namespaces it.
+ */
+export interface TransactionHistorySource {
+  id: string;
+  supportsChain(chainId: number): boolean;
+  fetchPage(options: TransactionQueryOptions): Promise<PaginatedTransactions>;
+}
+
+/**
+ * A column of a transaction export
+ */
+export type TransactionExportColumn =
+  | 'date'
+  | 'hash'
+  | 'type'
+  | 'status'
+  | 'from'
+  | 'to'
+  | 'amount'
+  | 'asset'
+  | 'fee'
+  | 'feeCurrency'
+  | 'blockNumber'
+  | 'chainId'
+  | 'explorerUrl';
+
+/**
+ * Transaction history saved as JSON, which can be imported again for offline review
+ */
+export interface TransactionExportFile {
+  version: 1;
+  address: string;
+  chainId: number;
+  /** Milliseconds since the epoch */
+  exportedAt: number;
   filters?: TransactionFilters;
-};
\ No newline at end of file
+  transactions: CeloTransaction[];
+  /** Only the newest transactions: the history was longer than an export collects */
+  truncated?: boolean;
+}
+
+export type TransactionExportError = WalletError<'INVALID_EXPORT'>;
@@ -0,0 +1,57 @@
+import type { Address, Hash } from 'viem';
+import type { FeeCurrency, TokenInfo } from './token';
+import type { WalletError } from './walletError';
+
+export interface TransferInput {
+  chainId: number;
+  from: Address;
+  recipient: string;
+  /** Amount as entered by the user, in whole token units */
+  amount: string;
+  /** ERC-20 token to send; native CELO when omitted */
+  token?: TokenInfo;
+  /** Currency to pay the network fee in (CIP-64); CELO when omitted */
+  feeCurrency?: FeeCurrency;
+}
+
+/**
+ * A validated transfer with its fee estimate, shown for review before sending
+ */
+export interface TransferDraft {
+  chainId: number;
+  from: Address;
+  to: Address;
+  /** Name or identifier the recipient was entered as, when it was not an address */
+  recipientName?: string;
+  amount: string;
+  /** Amount in the smallest unit of the asset */
+  value: bigint;
+  token?: TokenInfo;
+  feeCurrency?: FeeCurrency;
+  gas: bigint;
+  /** Gas price quoted in the fee currency */
+  gasPrice: bigint;
+  /** Estimated network fee, gas * gasPrice, in the fee currency's smallest unit (CELO wei by default) */
+  fee: bigint;
+}
+
+export type TransferStatus =
+  | 'idle'
+  | 'estimating'
+  | 'review'
+  | 'submitting'
+  | 'pending'
+  | 'confirmed'
+  | 'failed';
+
+export interface TransferState {
+  status: TransferStatus;
+  draft?: TransferDraft;
+  hash?: Hash;
+}
+
+export interface TransferError
+  extends WalletError<'INVALID_RECIPIENT' | 'INVALID_AMOUNT' | 'ESTIMATION_FAILED' | 'SEND_FAILED' | 'RECEIPT_ERROR'> {
+  /** Form field the error relates to, if any */
+  field?: 'recipient' | 'amount';
+}
@@ -0,0 +1,47 @@
+import type { Address } from 'viem';
+
+/**
+ * A registered validator group with its election standing
+ */
+export interface ValidatorGroup {
+  address: Address;
+  /** Name set in Accounts; empty when the group has none */
+  name: string;
+  members: Address[];
+  /** Share of rewards the group keeps, from 0 to 1 */
+  commission: number;
+  /** Election score from 0 to 1, which scales the rewards of its voters */
+  score: number;
+  /** All votes for the group, pending and active */
+  votes: bigint;
+  /** Votes it can still receive before reaching its cap */
+  capacity: bigint;
+  /** Whether it takes part in the election and can receive votes */
+  eligible: boolean;
+}
+
+/**
+ * Validator groups as of one epoch
+ */
+export interface ValidatorGroupSnapshot {
+  chainId: number;
+  epoch: number;
+  groups: ValidatorGroup[];
+  /** When it was read, in milliseconds */
+  fetchedAt: number;
+}
+
+export type ValidatorGroupSortKey = 'name' | 'votes' | 'capacity' | 'commission' | 'score' | 'members';
+
+export interface ValidatorGroupFilters {
+  /** Matches the name or address */
+  query?: string;
+  /** Only groups that can still receive votes */
+  hasCapacity?: boolean;
+  /** Only groups in the election */
+  eligibleOnly?: boolean;
+  /** Highest commission, from 0 to 1 */
+  maxCommission?: number;
+  /** Lowest score, from 0 to 1 */
+  minScore?: number;
+}
@@ -0,0 +1,38 @@
+/**
+ * Failures any wallet interaction can run into, whatever wallet, connector or
+ * RPC endpoint caused them
+ */
+export type WalletErrorCode =
+  /** The user declined the request in their wallet */
+  | 'USER_REJECTED'
+  /** The wallet already shows a request from this app */
+  | 'REQUEST_PENDING'
+  | 'NOT_CONNECTED'
+  /** The connector or its wallet is not installed or available */
+  | 'CONNECTOR_NOT_FOUND'
+  | 'WALLETCONNECT_SESSION_EXPIRED'
+  /** The wallet is on another chain than the request is for */
+  | 'CHAIN_MISMATCH'
+  /** The chain is not configured in the app or not known to the wallet */
+  | 'UNSUPPORTED_CHAIN'
+  | 'SWITCH_CHAIN_NOT_SUPPORTED'
+  | 'UNSUPPORTED_METHOD'
+  | 'RPC_UNAVAILABLE'
+  | 'RATE_LIMITED'
+  | 'TIMEOUT'
+  | 'INSUFFICIENT_FUNDS'
+  | 'EXECUTION_REVERTED'
+  | 'UNKNOWN';
+
+/**
+ * An error as shown to the user: `message` is localized and says what to do.
+ * Features add their own codes to the shared ones, e.g. `WalletError<'INVALID_AMOUNT'>`.
+ */
+export interface WalletError<Code extends string = never> {
+  message: string;
+  code: WalletErrorCode | Code;
+  /** The original error */
+  details?: unknown;
+}
+
+export type WalletErrorLocale = 'en' | 'es' | 'pt';
@@ -1,19 +1,9 @@
-import { celo, celoAlfajores } from '../config/celoChains';
-
-// Celo block explorer URLs
-const EXPLORER_URLS = {
-  [celo.id]: 'https://explorer.celo.org',
-  [celoAlfajores.id]: 'https://alfajores.celoscan.io'
-} as const;
-
-// API endpoints for different explorers
-const EXPLORER_API_URLS = {
-  [celo.id]: 'https://explorer.celo.org/api',
-  [celoAlfajores.id]: 'https://api-alfajores.celoscan.io/api'
-} as const;
+import { formatUnits, type Chain } from 'viem';
+import { DEFAULT_CHAIN, getCeloChain } from '../config/celoChains';
 
 export interface ExplorerTransaction {
   hash: string;
+  blockNumber?: string;
   from: string;
   to: string;
   value: string;
@@ -26,6 +16,13 @@ export interface ExplorerTransaction {
   contractAddress?: string;
   input?: string;
   type?: string;
+  // CIP-64 fee currency, on explorers that report it
+  feeCurrency?: string;
+  // Present on `tokentx` entries
+  tokenName?: string;
+  tokenSymbol?: string;
+  tokenDecimal?: string;
+  logIndex?: string;
 }
 
 export interface ExplorerResponse<T = any> {
@@ -34,18 +31,30 @@ export interface ExplorerResponse<T = any> {
   result: T;
 }
 
+// Explorer of a registered chain, falling back to the default chain's for unknown ids
+function getExplorer(chainId: number): NonNullable<Chain['blockExplorers']>['default'] | undefined {
+  return getCeloChain(chainId)?.blockExplorers?.default ?? DEFAULT_CHAIN.blockExplorers?.default;
+}
+
 /**
  * Get the appropriate block explorer URL for a given chain ID
  */
 export function getExplorerUrl(chainId: number): string {
-  return EXPLORER_URLS[chainId as keyof typeof EXPLORER_URLS] || EXPLORER_URLS[celoAlfajores.id];
+  return getExplorer(chainId)?.url ?? '';
 }
 
 /**
  * Get the appropriate block explorer API URL for a given chain ID
  */
 export function getExplorerApiUrl(chainId: number): string {
-  return EXPLORER_API_URLS[chainId as keyof typeof EXPLORER_API_URLS] || EXPLORER_API_URLS[celoAlfajores.id];
+  return getExplorer(chainId)?.apiUrl ?? '';
+}
+
+/**
+ * Check whether a block explorer API is configured for a given chain ID
+ */
+export function hasExplorerApi(chainId: number): boolean {
+  return !!getCeloChain(chainId)?.blockExplorers?.default.apiUrl;
 }
 
 /**
@@ -74,6 +83,13 @@ export function formatTransactionHash(hash: string): string {
   return `${hash.slice(0, 6)}...${hash.slice(-4)}`;
 }
 
+/**
+ * Format an address for display (first 6 and last 4 characters)
+ */
+export function shortenAddress(address: string): string {
+  return formatTransactionHash(address);
+}
+
 /**
  * Format a timestamp to relative time (e.g., "2 hours ago")
  */
@@ -106,12 +122,20 @@ export function formatTimestamp(timestamp: number): string {
   return date.toLocaleString();
 }
 
+export interface FormatValueOptions {
+  /** Every decimal of the value, without rounding or grouping, e.g. for exports */
+  exact?: boolean;
+}
+
 /**
  * Format a value from wei to a readable format
  */
-export function formatValue(value: string, decimals = 18): string {
+export function formatValue(value: string, decimals = 18, { exact = false }: FormatValueOptions = {}): string {
   try {
     const valueInWei = BigInt(value);
+    if (exact) {
+      return formatUnits(valueInWei, decimals);
+    }
     const valueInEth = Number(valueInWei) / Math.pow(10, decimals);
 
     if (valueInEth === 0) {
@@ -0,0 +1,12 @@
+/**
+ * Save text as a file through the browser's download prompt
+ */
+export function downloadTextFile(fileName: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoked on the next tick, once the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
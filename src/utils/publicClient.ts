@@ -0,0 +1,27 @@
+import { createPublicClient, type Chain, type PublicClient, type Transport } from 'viem';
+import { getCeloChain } from '../config/celoChains';
+import { createCeloTransport } from '../services/rpcTransport';
+
+export interface ViemClientOptions {
+  /**
+   * Send contract reads made in the same tick as one Multicall3 call where the
+   * chain has it, and one by one otherwise
+   */
+  multicall?: boolean;
+}
+
+/**
+ * Create a viem public client for the given chain
+ */
+export function createViemClient(chainId: number, { multicall = false }: ViemClientOptions = {}): PublicClient {
+  const chain = getCeloChain(chainId);
+  if (!chain) {
+    throw new Error(`Chain ${chainId} is not in the chain registry`);
+  }
+  // Widened to the generic chain type shared by every consumer
+  return createPublicClient<Transport, Chain>({
+    ...(multicall ? { batch: { multicall: true } } : {}),
+    chain,
+    transport: createCeloTransport(chain)
+  });
+}
@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import {
   getExplorerUrl,
   getExplorerApiUrl,
+  hasExplorerApi,
   getTransactionUrl,
   getAddressUrl,
   formatTransactionHash,
@@ -28,6 +29,11 @@ describe('Celo Explorer Utils', () => {
       const url = getExplorerUrl(99999);
       expect(url).toBe('https://alfajores.celoscan.io');
     });
+
+    it('should return the explorer of other registered chains', () => {
+      const url = getExplorerUrl(11142220);
+      expect(url).toBe('https://celo-sepolia.blockscout.com');
+    });
   });
 
   describe('getExplorerApiUrl', () => {
@@ -47,6 +53,14 @@ describe('Celo Explorer Utils', () => {
     });
   });
 
+  describe('hasExplorerApi', () => {
+    it('should only report registered chains with an explorer API', () => {
+      expect(hasExplorerApi(42220)).toBe(true);
+      expect(hasExplorerApi(11142220)).toBe(true);
+      expect(hasExplorerApi(99999)).toBe(false);
+    });
+  });
+
   describe('getTransactionUrl', () => {
     it('should generate correct transaction URL for Celo mainnet', () => {
       const url = getTransactionUrl('0x1234567890abcdef', 42220);
@@ -173,6 +187,11 @@ describe('Celo Explorer Utils', () => {
       const formatted = formatValue(value, 6);
       expect(formatted).toBe('1');
     });
+
+    it('should keep every decimal in exact mode', () => {
+      expect(formatValue('123456789012345678901234567890', 18, { exact: true })).toBe('123456789012.34567890123456789');
+      expect(formatValue('500000000000000', 18, { exact: true })).toBe('0.0005');
+    });
   });
 
   describe('getTransactionStatus', () => {
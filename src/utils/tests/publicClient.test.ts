@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { createViemClient } from '../publicClient';
+import { celoSepolia } from '../../config/celoChains';
+
+describe('createViemClient', () => {
+  it('creates a client for a registered chain', () => {
+    const client = createViemClient(celoSepolia.id);
+    expect(client.chain?.id).toBe(celoSepolia.id);
+    expect(client.chain?.rpcUrls.default.http[0]).toBe('https://forno.celo-sepolia.celo-testnet.org');
+  });
+
+  it('batches contract reads through multicall only when asked to', () => {
+    expect(createViemClient(celoSepolia.id).batch).toBeUndefined();
+    expect(createViemClient(celoSepolia.id, { multicall: true }).batch).toEqual({ multicall: true });
+  });
+
+  it('rejects chains outside the registry instead of falling back to another network', () => {
+    expect(() => createViemClient(99999)).toThrow('Chain 99999 is not in the chain registry');
+  });
+});
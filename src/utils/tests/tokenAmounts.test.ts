@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { formatTokenAmount, getFiatValue } from '../tokenAmounts';
+
+describe('formatTokenAmount', () => {
+  it('formats amounts with the token decimals', () => {
+    expect(formatTokenAmount(BigInt('1500000000000000000'), 18)).toBe('1.5');
+    expect(formatTokenAmount(BigInt(1234567), 6)).toBe('1.234567');
+    expect(formatTokenAmount(BigInt(0), 18)).toBe('0');
+  });
+
+  it('truncates the fraction instead of rounding up', () => {
+    expect(formatTokenAmount(BigInt('1999999999999999999'), 18)).toBe('1.999999');
+    expect(formatTokenAmount(BigInt(129), 2, 1)).toBe('1.2');
+  });
+
+  it('keeps large balances exact', () => {
+    expect(formatTokenAmount(BigInt('123456789012345678901234567'), 18)).toBe('123456789.012345');
+  });
+
+  it('marks dust below the shown precision', () => {
+    expect(formatTokenAmount(BigInt(1), 18)).toBe('<0.000001');
+  });
+
+  it('formats negative amounts by their magnitude', () => {
+    expect(formatTokenAmount(BigInt('-1999999999999999999'), 18)).toBe('-1.999999');
+    expect(formatTokenAmount(BigInt(-1), 18)).toBe('-<0.000001');
+  });
+});
+
+describe('getFiatValue', () => {
+  it('multiplies the token amount by its price', () => {
+    expect(getFiatValue(BigInt('2500000000000000000'), 18, 1.1)).toBeCloseTo(2.75);
+  });
+});
@@ -0,0 +1,353 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bucketTransactions,
+  calculateCostBasis,
+  calculateTransactionSummary,
+  getPeriodStart,
+  summarizeByAsset,
+  summarizeByCounterparty,
+  summarizeFees,
+  summarizeRewards,
+  getConfirmations,
+  refreshConfirmations,
+  matchesTransactionFilters,
+  validateRecipient,
+  validateTransferAmount
+} from '../transactionHelpers';
+import type { CeloTransaction } from '../../types/transaction';
+import type { EpochReward } from '../../types/staking';
+
+const baseTransaction: CeloTransaction = {
+  hash: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+  blockNumber: '100',
+  timestamp: 1700000000,
+  from: '0x1234567890123456789012345678901234567890',
+  to: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+  value: '1000000000000000000',
+  gasUsed: '21000',
+  gasPrice: '5000000000',
+  status: 'success',
+  type: 'sent',
+  confirmations: 1,
+  chainId: 42220
+};
+
+describe('Transaction Helpers', () => {
+  describe('getConfirmations', () => {
+    it('counts the containing block as the first confirmation', () => {
+      expect(getConfirmations('100', BigInt(100))).toBe(1);
+      expect(getConfirmations('100', BigInt(111))).toBe(12);
+    });
+
+    it('returns 0 for unmined or future blocks', () => {
+      expect(getConfirmations('0', BigInt(100))).toBe(0);
+      expect(getConfirmations('', BigInt(100))).toBe(0);
+      expect(getConfirmations('120', BigInt(100))).toBe(0);
+    });
+  });
+
+  describe('refreshConfirmations', () => {
+    it('updates confirmations against the new head', () => {
+      const [updated] = refreshConfirmations([baseTransaction], BigInt(104));
+      expect(updated.confirmations).toBe(5);
+    });
+
+    it('returns the same array when nothing changed', () => {
+      const transactions = [{ ...baseTransaction, confirmations: 5 }];
+      expect(refreshConfirmations(transactions, BigInt(104))).toBe(transactions);
+    });
+
+    it('leaves pending transactions untouched', () => {
+      const pending = { ...baseTransaction, status: 'pending' as const, confirmations: 0 };
+      const [updated] = refreshConfirmations([pending], BigInt(200));
+      expect(updated).toBe(pending);
+    });
+  });
+
+  describe('matchesTransactionFilters', () => {
+    it('matches everything without filters', () => {
+      expect(matchesTransactionFilters(baseTransaction)).toBe(true);
+      expect(matchesTransactionFilters(baseTransaction, { type: 'all', status: 'all' })).toBe(true);
+    });
+
+    it('filters by type and status', () => {
+      expect(matchesTransactionFilters(baseTransaction, { type: 'received' })).toBe(false);
+      expect(matchesTransactionFilters(baseTransaction, { status: 'failure' })).toBe(false);
+      expect(matchesTransactionFilters(baseTransaction, { type: 'sent', status: 'success' })).toBe(true);
+    });
+
+    it('filters by date range in seconds', () => {
+      expect(matchesTransactionFilters(baseTransaction, {
+        dateRange: { start: 1699999999, end: 1700000001 }
+      })).toBe(true);
+      expect(matchesTransactionFilters(baseTransaction, {
+        dateRange: { start: 1700000001, end: 1700000100 }
+      })).toBe(false);
+    });
+
+    it('filters by counterparty on either side, ignoring case', () => {
+      expect(matchesTransactionFilters(baseTransaction, {
+        counterparties: ['0xABCDEFABCDEFABCDEFABCDEFABCDEFABCDEFABCD']
+      })).toBe(true);
+      expect(matchesTransactionFilters(baseTransaction, {
+        counterparties: ['0x9999999999999999999999999999999999999999']
+      })).toBe(false);
+    });
+  });
+
+  describe('validateRecipient', () => {
+    it('accepts lowercase and correctly checksummed addresses', () => {
+      expect(validateRecipient('0xabcdefabcdefabcdefabcdefabcdefabcdefabcd')).toBeNull();
+      expect(validateRecipient('0xABcdEFABcdEFabcdEfAbCdefabcdeFABcDEFabCD')).toBeNull();
+    });
+
+    it('rejects missing, malformed and mis-checksummed addresses', () => {
+      expect(validateRecipient(' ')).toBe('Recipient address is required');
+      expect(validateRecipient('0x1234')).toBe('Invalid recipient address format');
+      expect(validateRecipient('0xAbcdefabcdefabcdefabcdefabcdefabcdefabcd')).toBe('Invalid recipient address checksum');
+      expect(validateRecipient('0x0000000000000000000000000000000000000000')).toBe('Cannot send to the zero address');
+    });
+  });
+
+  describe('validateTransferAmount', () => {
+    it('accepts positive amounts within the token decimals', () => {
+      expect(validateTransferAmount('1.5', 18)).toBeNull();
+      expect(validateTransferAmount('.25', 6)).toBeNull();
+    });
+
+    it('rejects empty, zero, negative and over-precise amounts', () => {
+      expect(validateTransferAmount('', 18)).toBe('Amount is required');
+      expect(validateTransferAmount('0.000', 18)).toBe('Amount must be greater than zero');
+      expect(validateTransferAmount('-1', 18)).toBe('Amount must be a positive number');
+      expect(validateTransferAmount('1e5', 18)).toBe('Amount must be a positive number');
+      expect(validateTransferAmount('0.1234567', 6)).toBe('Amount supports at most 6 decimals');
+    });
+  });
+
+  describe('analytics', () => {
+    const ACCOUNT = baseTransaction.from;
+    const OTHER = baseTransaction.to;
+    const CUSD = '0x765DE816845861e75A25fCA122bb6898B8B1282a';
+    // Larger than Number.MAX_SAFE_INTEGER wei, so float math would drift
+    const BIG = '123456789012345678901';
+
+    const sent: CeloTransaction = { ...baseTransaction, value: BIG };
+    const received: CeloTransaction = {
+      ...baseTransaction,
+      hash: `0x${'2'.repeat(64)}`,
+      from: OTHER,
+      to: ACCOUNT,
+      type: 'received',
+      value: '1'
+    };
+    const tokenSent: CeloTransaction = {
+      ...baseTransaction,
+      hash: `0x${'3'.repeat(64)}`,
+      value: '2500000',
+      tokenAddress: CUSD,
+      tokenSymbol: 'USDC',
+      tokenDecimals: 6,
+      feeCurrency: CUSD,
+      logIndex: 0
+    };
+    const failed: CeloTransaction = { ...baseTransaction, hash: `0x${'4'.repeat(64)}`, status: 'failure' };
+    const contractCall: CeloTransaction = { ...baseTransaction, hash: `0x${'5'.repeat(64)}`, type: 'contract', value: '7' };
+
+    it('sums flows per asset exactly', () => {
+      expect(summarizeByAsset([sent, received, tokenSent, failed])).toEqual([
+        {
+          asset: 'native',
+          symbol: 'CELO',
+          decimals: 18,
+          sent: BigInt(BIG),
+          received: BigInt(1),
+          net: BigInt(1) - BigInt(BIG),
+          count: 2
+        },
+        {
+          asset: CUSD.toLowerCase(),
+          symbol: 'USDC',
+          decimals: 6,
+          sent: BigInt(2500000),
+          received: BigInt(0),
+          net: BigInt(-2500000),
+          count: 1
+        }
+      ]);
+    });
+
+    it('reads contract call directions from the account addresses', () => {
+      expect(summarizeByAsset([contractCall])).toEqual([]);
+      expect(summarizeByAsset([contractCall], { account: ACCOUNT })[0].sent).toBe(BigInt(7));
+    });
+
+    it('nets flows per counterparty', () => {
+      const flows = summarizeByCounterparty([sent, received, tokenSent], { account: ACCOUNT });
+
+      expect(flows[0]).toMatchObject({
+        counterparty: OTHER.toLowerCase(),
+        asset: 'native',
+        count: 2,
+        net: BigInt(1) - BigInt(BIG)
+      });
+      expect(flows[1]).toMatchObject({ counterparty: OTHER.toLowerCase(), symbol: 'USDC', count: 1 });
+    });
+
+    it('totals fees per currency once per transaction, failures included', () => {
+      const secondLog: CeloTransaction = { ...tokenSent, logIndex: 1 };
+
+      expect(summarizeFees([sent, received, tokenSent, secondLog, failed])).toEqual([
+        { total: BigInt(2 * 21000 * 5000000000), count: 2 },
+        { feeCurrency: CUSD, total: BigInt(21000 * 5000000000), count: 1 }
+      ]);
+    });
+
+    it('summarizes gas with bigint math', () => {
+      const summary = calculateTransactionSummary([sent, received, { ...received, hash: `0x${'6'.repeat(64)}`, gasUsed: '1' }]);
+
+      expect(summary.totalGasUsed).toBe(BigInt(42001));
+      expect(summary.averageGasUsed).toBe(BigInt(14000));
+      expect(summary.uniqueAddresses).toBe(2);
+    });
+
+    it('aligns periods to UTC days, Monday weeks and months', () => {
+      // Wednesday 2024-01-17 15:30 UTC
+      const timestamp = Date.UTC(2024, 0, 17, 15, 30) / 1000;
+
+      expect(getPeriodStart(timestamp, 'daily')).toBe(Date.UTC(2024, 0, 17) / 1000);
+      expect(getPeriodStart(timestamp, 'weekly')).toBe(Date.UTC(2024, 0, 15) / 1000);
+      expect(getPeriodStart(timestamp, 'monthly')).toBe(Date.UTC(2024, 0, 1) / 1000);
+    });
+
+    it('buckets history by calendar period, keeping empty periods', () => {
+      const january = { ...received, timestamp: Date.UTC(2024, 0, 31, 23) / 1000 };
+      const march = { ...sent, timestamp: Date.UTC(2024, 2, 1) / 1000 };
+
+      const buckets = bucketTransactions([march, january], 'monthly');
+
+      expect(buckets.map((bucket) => [bucket.label, bucket.count])).toEqual([
+        ['2024-01', 1],
+        ['2024-02', 0],
+        ['2024-03', 1]
+      ]);
+      expect(buckets[1]).toMatchObject({ start: Date.UTC(2024, 1, 1) / 1000, end: Date.UTC(2024, 2, 1) / 1000 });
+      expect(buckets[2].byAsset[0].sent).toBe(BigInt(BIG));
+    });
+
+    it('returns no buckets without history', () => {
+      expect(bucketTransactions([], 'daily')).toEqual([]);
+    });
+
+    describe('epoch rewards', () => {
+      const GROUP = '0x2000000000000000000000000000000000000001';
+      const reward = (epoch: number, timestamp: number, value: bigint): EpochReward => ({
+        epoch,
+        group: GROUP,
+        value,
+        blockNumber: BigInt(epoch * 17280),
+        timestamp
+      });
+      const rewards = [
+        reward(100, Date.UTC(2024, 0, 10) / 1000, BigInt(3)),
+        reward(100, Date.UTC(2024, 0, 10) / 1000, BigInt(4)),
+        reward(130, Date.UTC(2024, 1, 9) / 1000, BigInt(5))
+      ];
+
+      it('totals rewards and counts their epochs, optionally within a period', () => {
+        expect(summarizeRewards(rewards)).toEqual({ total: BigInt(12), epochs: 2 });
+        expect(summarizeRewards(rewards, Date.UTC(2024, 1, 1) / 1000)).toEqual({ total: BigInt(5), epochs: 1 });
+        expect(summarizeRewards([])).toEqual({ total: BigInt(0), epochs: 0 });
+      });
+
+      it('reports rewards in the summary apart from transfers', () => {
+        const summary = calculateTransactionSummary([sent, received], { rewards });
+
+        expect(summary.rewards).toEqual({ total: BigInt(12), epochs: 2 });
+        expect(summary.byAsset).toEqual(summarizeByAsset([sent, received]));
+        expect(calculateTransactionSummary([sent])).not.toHaveProperty('rewards');
+      });
+
+      it('buckets rewards by the period they were distributed in', () => {
+        const january = { ...received, timestamp: Date.UTC(2024, 0, 20) / 1000 };
+
+        const buckets = bucketTransactions([january], 'monthly', { rewards });
+
+        expect(buckets.map((bucket) => [bucket.label, bucket.count, bucket.rewards])).toEqual([
+          ['2024-01', 1, { total: BigInt(7), epochs: 1 }],
+          ['2024-02', 0, { total: BigInt(5), epochs: 1 }]
+        ]);
+      });
+    });
+  });
+
+  describe('calculateCostBasis', () => {
+    const ACCOUNT = baseTransaction.from;
+    const OTHER = baseTransaction.to;
+    const ONE = '1000000000000000000';
+
+    const receive = (hash: string, timestamp: number, value: string): CeloTransaction => ({
+      ...baseTransaction,
+      hash: `0x${hash.repeat(64)}`,
+      timestamp,
+      from: OTHER,
+      to: ACCOUNT,
+      type: 'received',
+      value
+    });
+    const send = (hash: string, timestamp: number, value: string): CeloTransaction => ({
+      ...baseTransaction,
+      hash: `0x${hash.repeat(64)}`,
+      timestamp,
+      value
+    });
+
+    // Price by timestamp: 1 at 100, 3 at 200, 2 at 300
+    const prices: Record<number, number> = { 100: 1, 200: 3, 300: 2 };
+    const getHistoricalPrice = (tx: CeloTransaction): number | undefined => prices[tx.timestamp];
+
+    it('averages the cost of received amounts and realizes gains on sends', () => {
+      const history = [
+        send('c', 300, ONE),
+        receive('a', 100, ONE),
+        receive('b', 200, ONE)
+      ];
+
+      const [position] = calculateCostBasis(history, { account: ACCOUNT, getHistoricalPrice, getCurrentPrice: () => 4 });
+
+      // Bought 1 at 1 and 1 at 3 (average 2), sold 1 at 2
+      expect(position).toMatchObject({
+        asset: 'native',
+        holdings: BigInt(ONE),
+        costBasis: 2,
+        averageCost: 2,
+        realizedPnl: 0,
+        currentValue: 4,
+        unrealizedPnl: 2,
+        unpricedCount: 0
+      });
+    });
+
+    it('counts unpriced receipts at zero cost', () => {
+      const [position] = calculateCostBasis(
+        [receive('a', 50, ONE), receive('b', 100, ONE)],
+        { account: ACCOUNT, getHistoricalPrice }
+      );
+
+      expect(position).toMatchObject({ costBasis: 1, averageCost: 0.5, unpricedCount: 1 });
+      expect(position.currentValue).toBeUndefined();
+    });
+
+    it('treats amounts sent beyond the analyzed holdings as gains', () => {
+      const [position] = calculateCostBasis([send('a', 300, ONE)], { account: ACCOUNT, getHistoricalPrice });
+
+      expect(position).toMatchObject({ holdings: BigInt(0), costBasis: 0, realizedPnl: 2 });
+    });
+
+    it('skips failed and self transfers', () => {
+      const failed = { ...receive('a', 100, ONE), status: 'failure' as const };
+      const self = { ...send('b', 200, ONE), to: ACCOUNT };
+
+      expect(calculateCostBasis([failed, self], { account: ACCOUNT, getHistoricalPrice })).toEqual([]);
+    });
+  });
+});
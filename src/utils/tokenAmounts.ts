@@ -0,0 +1,26 @@
+import { formatUnits } from 'viem';
+
+/**
+ * Format a raw token amount with the token's decimals. The fraction is
+ * truncated rather than rounded so a balance is never overstated.
+ */
+export function formatTokenAmount(value: bigint, decimals: number, maxFractionDigits = 6): string {
+  // Net flows can be negative; the magnitude is truncated the same way
+  if (value < BigInt(0)) {
+    return `-${formatTokenAmount(-value, decimals, maxFractionDigits)}`;
+  }
+  const [whole, fraction = ''] = formatUnits(value, decimals).split('.');
+  const shown = fraction.slice(0, maxFractionDigits).replace(/0+$/, '');
+
+  if (value > BigInt(0) && whole === '0' && shown === '') {
+    return `<0.${'0'.repeat(Math.max(maxFractionDigits - 1, 0))}1`;
+  }
+  return shown ? `${whole}.${shown}` : whole;
+}
+
+/**
+ * Value of a raw token amount at a unit price
+ */
+export function getFiatValue(value: bigint, decimals: number, price: number): number {
+  return Number(formatUnits(value, decimals)) * price;
+}
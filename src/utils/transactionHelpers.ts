@@ -1,52 +1,373 @@
-import { CeloTransaction } from '../types/transaction';
+import { formatUnits, getAddress, parseUnits } from 'viem';
+import type { CeloTransaction, TransactionFilters } from '../types/transaction';
+import type {
+  AnalyticsOptions,
+  AnalyticsPeriod,
+  AssetCostBasis,
+  AssetFlow,
+  CostBasisOptions,
+  CounterpartyFlow,
+  FeeTotal,
+  RewardsIncome,
+  RewardsOptions,
+  TransactionBucket,
+  TransactionSummary
+} from '../types/analytics';
+import type { EpochReward } from '../types/staking';
+import { findToken, getTokenRegistry } from '../config/tokens';
+import { FEE_CURRENCY_ADAPTERS } from '../config/feeCurrencies';
+
+const ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const DAY = 86400;
+
+type Direction = 'in' | 'out' | 'self';
+
+// Which way value moved for the account, if it can be told
+function getDirection(tx: CeloTransaction, account?: string): Direction | undefined {
+  if (account) {
+    const self = account.toLowerCase();
+    const isFrom = tx.from.toLowerCase() === self;
+    const isTo = tx.to.toLowerCase() === self;
+    if (isFrom && isTo) {
+      return 'self';
+    }
+    return isFrom ? 'out' : isTo ? 'in' : undefined;
+  }
+  if (tx.type === 'sent') {
+    return 'out';
+  }
+  return tx.type === 'received' ? 'in' : undefined;
+}
 
 /**
- * Calculate transaction summary statistics
+ * Symbol of the transferred asset
  */
-export function calculateTransactionSummary(transactions: CeloTransaction[]) {
-  const summary = {
-    totalSent: 0,
-    totalReceived: 0,
-    totalTransactions: transactions.length,
-    averageGasUsed: 0,
-    totalGasUsed: 0,
-    uniqueAddresses: new Set<string>(),
-    lastTransaction: null as CeloTransaction | null
+export function getTransactionAsset(tx: CeloTransaction): string {
+  return tx.tokenSymbol ?? 'CELO';
+}
+
+/**
+ * The fee paid for a transaction in the smallest unit of its fee currency.
+ * Only the sender pays it, so received transfers have none.
+ */
+export function getTransactionFee(tx: CeloTransaction): bigint {
+  return tx.type === 'received' ? BigInt(0) : getGasCost(tx);
+}
+
+function getGasCost(tx: CeloTransaction): bigint {
+  try {
+    return BigInt(tx.gasUsed || '0') * BigInt(tx.gasPrice || '0');
+  } catch {
+    return BigInt(0);
+  }
+}
+
+/**
+ * Symbol of the currency a fee was paid in; CELO when there is no fee currency
+ */
+export function getFeeCurrencySymbol(chainId: number, feeCurrency?: string): string {
+  if (!feeCurrency) {
+    return 'CELO';
+  }
+  const tokens = getTokenRegistry(chainId);
+  // Adapters stand in for tokens with fewer than 18 decimals
+  const adapted = Object.entries(FEE_CURRENCY_ADAPTERS[chainId] ?? {})
+    .find(([, adapter]) => adapter.toLowerCase() === feeCurrency.toLowerCase())?.[0];
+  const token = findToken(tokens, adapted ?? feeCurrency);
+  return token?.symbol ?? `${feeCurrency.slice(0, 6)}...${feeCurrency.slice(-4)}`;
+}
+
+function emptyFlow(tx: CeloTransaction): AssetFlow {
+  return {
+    asset: tx.tokenAddress?.toLowerCase() ?? 'native',
+    symbol: getTransactionAsset(tx),
+    decimals: tx.tokenDecimals ?? 18,
+    sent: BigInt(0),
+    received: BigInt(0),
+    net: BigInt(0),
+    count: 0
   };
+}
+
+function addToFlow(flow: AssetFlow, value: bigint, direction: Direction): void {
+  if (direction !== 'in') {
+    flow.sent += value;
+  }
+  if (direction !== 'out') {
+    flow.received += value;
+  }
+  flow.net = flow.received - flow.sent;
+  flow.count += 1;
+}
 
+// Native CELO first, then tokens by symbol
+function compareAssets(a: Pick<AssetFlow, 'asset' | 'symbol'>, b: Pick<AssetFlow, 'asset' | 'symbol'>): number {
+  if (a.asset === 'native' || b.asset === 'native') {
+    return a.asset === 'native' ? (b.asset === 'native' ? 0 : -1) : 1;
+  }
+  return a.symbol.localeCompare(b.symbol);
+}
+
+/**
+ * Exact amounts sent and received per asset. Only successful transactions
+ * moved value; transactions whose direction cannot be told are left out.
+ */
+export function summarizeByAsset(
+  transactions: readonly CeloTransaction[],
+  { account }: AnalyticsOptions = {}
+): AssetFlow[] {
+  const flows = new Map<string, AssetFlow>();
   for (const tx of transactions) {
-    // Add to unique addresses
-    summary.uniqueAddresses.add(tx.from);
-    summary.uniqueAddresses.add(tx.to);
+    const direction = getDirection(tx, account);
+    if (tx.status !== 'success' || !direction) {
+      continue;
+    }
+    const flow = flows.get(emptyFlow(tx).asset) ?? emptyFlow(tx);
+    addToFlow(flow, BigInt(tx.value), direction);
+    flows.set(flow.asset, flow);
+  }
+  return [...flows.values()].sort(compareAssets);
+}
 
-    // Calculate totals by type
-    const value = BigInt(tx.value);
-    if (tx.type === 'sent') {
-      summary.totalSent += Number(value);
-    } else if (tx.type === 'received') {
-      summary.totalReceived += Number(value);
+/**
+ * Exact net flow per counterparty and asset, most frequent counterparties first
+ */
+export function summarizeByCounterparty(
+  transactions: readonly CeloTransaction[],
+  { account }: AnalyticsOptions = {}
+): CounterpartyFlow[] {
+  const flows = new Map<string, CounterpartyFlow>();
+  for (const tx of transactions) {
+    const direction = getDirection(tx, account);
+    if (tx.status !== 'success' || !direction || direction === 'self') {
+      continue;
     }
+    const counterparty = (direction === 'out' ? tx.to : tx.from).toLowerCase();
+    const key = `${counterparty}:${emptyFlow(tx).asset}`;
+    const flow = flows.get(key) ?? { ...emptyFlow(tx), counterparty };
+    addToFlow(flow, BigInt(tx.value), direction);
+    flows.set(key, flow);
+  }
+  return [...flows.values()].sort((a, b) => b.count - a.count || compareAssets(a, b));
+}
 
-    // Accumulate gas usage
-    summary.totalGasUsed += BigInt(tx.gasUsed);
+/**
+ * Fees paid per fee currency, once per transaction even when it made
+ * several transfers. Failed transactions paid fees too.
+ */
+export function summarizeFees(
+  transactions: readonly CeloTransaction[],
+  { account }: AnalyticsOptions = {}
+): FeeTotal[] {
+  const seen = new Set<string>();
+  const totals = new Map<string, FeeTotal>();
+  for (const tx of transactions) {
+    const hash = tx.hash.toLowerCase();
+    const paid = account ? tx.from.toLowerCase() === account.toLowerCase() : tx.type !== 'received';
+    if (!paid || seen.has(hash)) {
+      continue;
+    }
+    seen.add(hash);
+    const key = tx.feeCurrency?.toLowerCase() ?? 'native';
+    const total = totals.get(key) ?? {
+      ...(tx.feeCurrency ? { feeCurrency: tx.feeCurrency } : {}),
+      total: BigInt(0),
+      count: 0
+    };
+    total.total += getGasCost(tx);
+    total.count += 1;
+    totals.set(key, total);
+  }
+  // CELO first
+  return [...totals.values()].sort((a, b) => Number(!!a.feeCurrency) - Number(!!b.feeCurrency));
+}
 
-    // Track last transaction
-    if (!summary.lastTransaction || tx.timestamp > summary.lastTransaction.timestamp) {
-      summary.lastTransaction = tx;
+/**
+ * Epoch rewards earned, optionally only those distributed from `start`
+ * (inclusive) to `end` (exclusive), in unix seconds
+ */
+export function summarizeRewards(rewards: readonly EpochReward[], start?: number, end?: number): RewardsIncome {
+  const epochs = new Set<number>();
+  let total = BigInt(0);
+  for (const reward of rewards) {
+    if ((start !== undefined && reward.timestamp < start) || (end !== undefined && reward.timestamp >= end)) {
+      continue;
     }
+    epochs.add(reward.epoch);
+    total += reward.value;
   }
+  return { total, epochs: epochs.size };
+}
 
-  // Calculate average gas used
-  if (summary.totalTransactions > 0) {
-    summary.averageGasUsed = Number(summary.totalGasUsed) / summary.totalTransactions;
+/**
+ * Calculate transaction summary statistics. Epoch rewards passed in are
+ * summarized on their own, apart from the transfers in `byAsset`.
+ */
+export function calculateTransactionSummary(
+  transactions: readonly CeloTransaction[],
+  { rewards, ...options }: AnalyticsOptions & RewardsOptions = {}
+): TransactionSummary {
+  const addresses = new Set<string>();
+  let totalGasUsed = BigInt(0);
+  let lastTransaction: CeloTransaction | null = null;
+
+  for (const tx of transactions) {
+    addresses.add(tx.from.toLowerCase());
+    addresses.add(tx.to.toLowerCase());
+    totalGasUsed += BigInt(tx.gasUsed || '0');
+    if (!lastTransaction || tx.timestamp > lastTransaction.timestamp) {
+      lastTransaction = tx;
+    }
   }
 
   return {
-    ...summary,
-    uniqueAddresses: summary.uniqueAddresses.size
+    totalTransactions: transactions.length,
+    byAsset: summarizeByAsset(transactions, options),
+    fees: summarizeFees(transactions, options),
+    totalGasUsed,
+    averageGasUsed: transactions.length > 0 ? totalGasUsed / BigInt(transactions.length) : BigInt(0),
+    uniqueAddresses: addresses.size,
+    lastTransaction,
+    ...(rewards ? { rewards: summarizeRewards(rewards) } : {})
   };
 }
 
+/**
+ * Cost basis and profit and loss per asset with the average cost method,
+ * replaying successful transfers oldest first. Fees are not included; see
+ * `summarizeFees`.
+ */
+export function calculateCostBasis(
+  transactions: readonly CeloTransaction[],
+  { account, getHistoricalPrice, getCurrentPrice }: CostBasisOptions
+): AssetCostBasis[] {
+  const positions = new Map<string, AssetCostBasis>();
+  const chronological = [...transactions].sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const tx of chronological) {
+    const direction = getDirection(tx, account);
+    if (tx.status !== 'success' || !direction || direction === 'self') {
+      continue;
+    }
+    const { asset, symbol, decimals } = emptyFlow(tx);
+    const position = positions.get(asset) ?? {
+      asset,
+      symbol,
+      decimals,
+      holdings: BigInt(0),
+      costBasis: 0,
+      averageCost: 0,
+      realizedPnl: 0,
+      unpricedCount: 0
+    };
+    const value = BigInt(tx.value);
+    const amount = Number(formatUnits(value, decimals));
+    const price = getHistoricalPrice(tx);
+    if (price === undefined) {
+      position.unpricedCount += 1;
+    }
+
+    if (direction === 'in') {
+      position.holdings += value;
+      position.costBasis += amount * (price ?? 0);
+    } else {
+      // Amounts sent beyond the analyzed holdings have no known cost and count as gains
+      const covered = value > position.holdings ? position.holdings : value;
+      const coveredCost = position.averageCost * Number(formatUnits(covered, decimals));
+      if (price !== undefined) {
+        position.realizedPnl += amount * price - coveredCost;
+      }
+      position.holdings -= covered;
+      position.costBasis = position.holdings === BigInt(0) ? 0 : position.costBasis - coveredCost;
+    }
+    const held = Number(formatUnits(position.holdings, decimals));
+    position.averageCost = held > 0 ? position.costBasis / held : 0;
+    positions.set(asset, position);
+  }
+
+  return [...positions.values()]
+    .map((position) => {
+      const currentPrice = getCurrentPrice?.(position.asset);
+      if (currentPrice === undefined) {
+        return position;
+      }
+      const currentValue = Number(formatUnits(position.holdings, position.decimals)) * currentPrice;
+      return { ...position, currentValue, unrealizedPnl: currentValue - position.costBasis };
+    })
+    .sort(compareAssets);
+}
+
+/**
+ * Start of the UTC day, week (from Monday) or month a timestamp falls in, in unix seconds
+ */
+export function getPeriodStart(timestamp: number, period: AnalyticsPeriod): number {
+  const date = new Date(timestamp * 1000);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  if (period === 'monthly') {
+    return Date.UTC(year, month, 1) / 1000;
+  }
+  const day = Date.UTC(year, month, date.getUTCDate()) / 1000;
+  return period === 'weekly' ? day - ((date.getUTCDay() + 6) % 7) * DAY : day;
+}
+
+function getNextPeriodStart(start: number, period: AnalyticsPeriod): number {
+  if (period === 'monthly') {
+    const date = new Date(start * 1000);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1) / 1000;
+  }
+  return start + (period === 'weekly' ? 7 * DAY : DAY);
+}
+
+export interface BucketOptions extends AnalyticsOptions, RewardsOptions {
+  /** First and last instants to cover in unix seconds; default to the oldest and newest transaction or reward */
+  start?: number;
+  end?: number;
+}
+
+/**
+ * Split history into calendar-aligned UTC periods, oldest first. Periods
+ * without transactions are included so charts keep an even time axis.
+ */
+export function bucketTransactions(
+  transactions: readonly CeloTransaction[],
+  period: AnalyticsPeriod,
+  { account, rewards, start, end }: BucketOptions = {}
+): TransactionBucket[] {
+  const timestamps = [...transactions.map((tx) => tx.timestamp), ...(rewards ?? []).map((reward) => reward.timestamp)];
+  const first = start ?? Math.min(...timestamps);
+  const last = end ?? Math.max(...timestamps);
+  if (!Number.isFinite(first) || !Number.isFinite(last) || first > last) {
+    return [];
+  }
+
+  const byPeriod = new Map<number, CeloTransaction[]>();
+  for (const tx of transactions) {
+    const key = getPeriodStart(tx.timestamp, period);
+    byPeriod.set(key, [...(byPeriod.get(key) ?? []), tx]);
+  }
+
+  const buckets: TransactionBucket[] = [];
+  for (let bucketStart = getPeriodStart(first, period); bucketStart <= last;) {
+    const bucketEnd = getNextPeriodStart(bucketStart, period);
+    const inBucket = byPeriod.get(bucketStart) ?? [];
+    const date = new Date(bucketStart * 1000).toISOString();
+    buckets.push({
+      start: bucketStart,
+      end: bucketEnd,
+      label: period === 'monthly' ? date.slice(0, 7) : date.slice(0, 10),
+      count: inBucket.length,
+      byAsset: summarizeByAsset(inBucket, { account }),
+      fees: summarizeFees(inBucket, { account }),
+      ...(rewards ? { rewards: summarizeRewards(rewards, bucketStart, bucketEnd) } : {})
+    });
+    bucketStart = bucketEnd;
+  }
+  return buckets;
+}
+
 /**
  * Group transactions by date
  */
@@ -97,6 +418,86 @@ export function sortTransactions(
   return sorted;
 }
 
+/**
+ * Check whether a transaction satisfies the type, status and date range filters
+ */
+export function matchesTransactionFilters(
+  tx: CeloTransaction,
+  filters?: TransactionFilters
+): boolean {
+  if (!filters) {
+    return true;
+  }
+  if (filters.type && filters.type !== 'all' && tx.type !== filters.type) {
+    return false;
+  }
+  if (filters.status && filters.status !== 'all' && tx.status !== filters.status) {
+    return false;
+  }
+  if (filters.token && filters.token !== 'all') {
+    const token = tx.tokenAddress?.toLowerCase();
+    if (filters.token === 'native' ? token !== undefined : token !== filters.token.toLowerCase()) {
+      return false;
+    }
+  }
+  if (filters.dateRange) {
+    const { start, end } = filters.dateRange;
+    if (tx.timestamp < start || tx.timestamp > end) {
+      return false;
+    }
+  }
+  if (filters.counterparties) {
+    const parties = [tx.from.toLowerCase(), tx.to.toLowerCase()];
+    if (!filters.counterparties.some((address) => parties.includes(address.toLowerCase()))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Unique key of a history entry; token transfers share their transaction hash
+ */
+export function getTransactionKey(tx: CeloTransaction): string {
+  const hash = tx.hash.toLowerCase();
+  return tx.logIndex === undefined ? hash : `${hash}:${tx.logIndex}`;
+}
+
+/**
+ * Count confirmations of a transaction mined in `blockNumber` against the chain head.
+ * The containing block counts as the first confirmation.
+ */
+export function getConfirmations(blockNumber: string, head: bigint): number {
+  const block = BigInt(blockNumber || '0');
+  if (block <= BigInt(0) || head < block) {
+    return 0;
+  }
+  return Number(head - block) + 1;
+}
+
+/**
+ * Recompute confirmations against a new chain head.
+ * Unchanged transactions keep their identity so React can skip re-rendering them.
+ */
+export function refreshConfirmations(
+  transactions: CeloTransaction[],
+  head: bigint
+): CeloTransaction[] {
+  let changed = false;
+  const updated = transactions.map((tx) => {
+    if (tx.status === 'pending') {
+      return tx;
+    }
+    const confirmations = getConfirmations(tx.blockNumber, head);
+    if (confirmations <= tx.confirmations) {
+      return tx;
+    }
+    changed = true;
+    return { ...tx, confirmations };
+  });
+  return changed ? updated : transactions;
+}
+
 /**
  * Check if transaction is pending
  */
@@ -163,11 +564,10 @@ export function validateTransaction(tx: Partial<CeloTransaction>): string[] {
   }
 
   // Validate address format
-  const addressRegex = /^0x[a-fA-F0-9]{40}$/;
-  if (tx.from && !addressRegex.test(tx.from)) {
+  if (tx.from && !ADDRESS_REGEX.test(tx.from)) {
     errors.push('Invalid from address format');
   }
-  if (tx.to && !addressRegex.test(tx.to)) {
+  if (tx.to && !ADDRESS_REGEX.test(tx.to)) {
     errors.push('Invalid to address format');
   }
 
@@ -180,6 +580,54 @@ export function validateTransaction(tx: Partial<CeloTransaction>): string[] {
   return errors;
 }
 
+/**
+ * Validate a transfer recipient, returning an error message or null
+ */
+export function validateRecipient(recipient: string): string | null {
+  const value = recipient.trim();
+  if (!value) {
+    return 'Recipient address is required';
+  }
+  if (!ADDRESS_REGEX.test(value)) {
+    return 'Invalid recipient address format';
+  }
+  // Mixed-case addresses carry an EIP-55 checksum that has to match
+  if (value !== value.toLowerCase() && value.slice(2) !== value.slice(2).toUpperCase()) {
+    try {
+      if (getAddress(value) !== value) {
+        return 'Invalid recipient address checksum';
+      }
+    } catch {
+      return 'Invalid recipient address checksum';
+    }
+  }
+  if (value.toLowerCase() === ZERO_ADDRESS) {
+    return 'Cannot send to the zero address';
+  }
+  return null;
+}
+
+/**
+ * Validate a transfer amount entered in whole units, returning an error message or null
+ */
+export function validateTransferAmount(amount: string, decimals: number): string | null {
+  const value = amount.trim();
+  if (!value) {
+    return 'Amount is required';
+  }
+  if (!/^\d*\.?\d*$/.test(value) || value === '.') {
+    return 'Amount must be a positive number';
+  }
+  const fraction = value.split('.')[1] ?? '';
+  if (fraction.length > decimals) {
+    return `Amount supports at most ${decimals} decimals`;
+  }
+  if (parseUnits(value, decimals) <= BigInt(0)) {
+    return 'Amount must be greater than zero';
+  }
+  return null;
+}
+
 /**
  * Format gas price for display
  */
@@ -216,35 +664,3 @@ export function getTransactionRiskLevel(tx: CeloTransaction): 'low' | 'medium' |
 
   return 'low';
 }
-
-/**
- * Calculate total transaction volume for a period
- */
-export function calculateTransactionVolume(
-  transactions: CeloTransaction[],
-  period: 'daily' | 'weekly' | 'monthly' = 'daily'
-): { period: string; volume: bigint; count: number } {
-  const now = Date.now() / 1000;
-  let periodStart: number;
-
-  switch (period) {
-  case 'daily':
-    periodStart = now - 86400; // 24 hours
-    break;
-  case 'weekly':
-    periodStart = now - 604800; // 7 days
-    break;
-  case 'monthly':
-    periodStart = now - 2592000; // 30 days
-    break;
-  }
-
-  const filteredTxs = transactions.filter(tx => tx.timestamp >= periodStart);
-  const totalVolume = filteredTxs.reduce((sum, tx) => sum + BigInt(tx.value), BigInt(0));
-
-  return {
-    period,
-    volume: totalVolume,
-    count: filteredTxs.length
-  };
-}
\ No newline at end of file